@@ -0,0 +1,261 @@
+/**
+ * Change History for the Godot MCP Server
+ *
+ * This module snapshots the files a tool call is about to change and keeps
+ * the before and after versions on an undo stack per project, so changes can
+ * be undone, redone and reviewed as diffs without the project being under
+ * version control. History is kept in memory and is lost when the server stops.
+ */
+
+import { existsSync, mkdirSync, readFileSync, statSync, unlinkSync, writeFileSync } from 'fs';
+import { dirname, relative, resolve, sep } from 'path';
+import { canonicalPath } from './path-sandbox.js';
+import { fileDiff } from './text-diff.js';
+
+/**
+ * Interface for one file of a change. A null version means the file did not exist.
+ */
+export interface FileChange {
+  path: string; // Project-relative path with forward slashes
+  before: Buffer | null;
+  after: Buffer | null;
+}
+
+/**
+ * Interface for a recorded change
+ */
+export interface ChangeEntry {
+  id: number;
+  tool: string; // Tool call that made the change
+  timestamp: Date;
+  files: FileChange[];
+  skipped: string[]; // Files that were too large to snapshot and cannot be restored
+}
+
+/**
+ * Interface for the files snapshotted before a tool call runs
+ */
+export interface PendingChange {
+  projectPath: string;
+  tool: string;
+  files: Map<string, Buffer | null>; // Absolute path to content before the call
+  skipped: string[];
+}
+
+/**
+ * Interface for history options
+ */
+export interface ChangeHistoryOptions {
+  maxEntries?: number; // Undo entries kept per project
+  maxFileSize?: number; // Bytes above which a file is not snapshotted
+}
+
+/**
+ * Error raised when a change cannot be undone or redone
+ */
+export class ChangeHistoryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ChangeHistoryError';
+  }
+}
+
+/**
+ * Interface for the undo and redo stacks of a project
+ */
+interface ProjectHistory {
+  undo: ChangeEntry[];
+  redo: ChangeEntry[];
+}
+
+/**
+ * Keeps undo and redo stacks of file changes per project
+ */
+export class ChangeHistory {
+  private projects: Map<string, ProjectHistory> = new Map();
+  private nextId = 1;
+  private maxEntries: number;
+  private maxFileSize: number;
+
+  constructor(options: ChangeHistoryOptions = {}) {
+    this.maxEntries = options.maxEntries ?? 50;
+    this.maxFileSize = options.maxFileSize ?? 10 * 1024 * 1024;
+  }
+
+  /**
+   * Snapshot files before a tool call changes them
+   * @param files Absolute paths inside the project
+   */
+  capture(projectPath: string, tool: string, files: string[]): PendingChange {
+    const pending: PendingChange = { projectPath: canonicalPath(projectPath), tool, files: new Map(), skipped: [] };
+    for (const file of files) {
+      const path = canonicalPath(file);
+      if (pending.files.has(path)) {
+        continue;
+      }
+      if (existsSync(path) && statSync(path).size > this.maxFileSize) {
+        pending.skipped.push(this.relativePath(pending.projectPath, path));
+        continue;
+      }
+      pending.files.set(path, readVersion(path));
+    }
+    return pending;
+  }
+
+  /**
+   * Record the files a tool call changed, comparing them with their snapshots.
+   * Recording a change clears the redo stack.
+   * @returns The new entry, or null if no file changed
+   */
+  record(pending: PendingChange): ChangeEntry | null {
+    const files: FileChange[] = [];
+    for (const [path, before] of pending.files) {
+      const after = readVersion(path);
+      if (!sameVersion(before, after)) {
+        files.push({ path: this.relativePath(pending.projectPath, path), before, after });
+      }
+    }
+
+    if (files.length === 0) {
+      return null;
+    }
+
+    const history = this.historyOf(pending.projectPath);
+    const entry: ChangeEntry = {
+      id: this.nextId++,
+      tool: pending.tool,
+      timestamp: new Date(),
+      files,
+      skipped: pending.skipped,
+    };
+    history.undo.push(entry);
+    history.redo = [];
+    if (history.undo.length > this.maxEntries) {
+      history.undo.splice(0, history.undo.length - this.maxEntries);
+    }
+    return entry;
+  }
+
+  /**
+   * Restore the files of the most recent change to their earlier versions
+   * @param force Overwrite files that were changed again since
+   * @returns The undone entry
+   * @throws ChangeHistoryError if there is nothing to undo or the files changed since
+   */
+  undo(projectPath: string, force: boolean = false): ChangeEntry {
+    const history = this.historyOf(projectPath);
+    const entry = history.undo[history.undo.length - 1];
+    if (!entry) {
+      throw new ChangeHistoryError('There is no change to undo');
+    }
+    this.restore(projectPath, entry, 'before', force);
+    history.undo.pop();
+    history.redo.push(entry);
+    return entry;
+  }
+
+  /**
+   * Apply the most recently undone change again
+   * @param force Overwrite files that were changed since the undo
+   * @returns The redone entry
+   * @throws ChangeHistoryError if there is nothing to redo or the files changed since
+   */
+  redo(projectPath: string, force: boolean = false): ChangeEntry {
+    const history = this.historyOf(projectPath);
+    const entry = history.redo[history.redo.length - 1];
+    if (!entry) {
+      throw new ChangeHistoryError('There is no undone change to redo');
+    }
+    this.restore(projectPath, entry, 'after', force);
+    history.redo.pop();
+    history.undo.push(entry);
+    return entry;
+  }
+
+  /**
+   * Undo and redo stacks of a project, most recent first
+   */
+  list(projectPath: string): { undo: ChangeEntry[]; redo: ChangeEntry[] } {
+    const history = this.historyOf(projectPath);
+    return {
+      undo: [...history.undo].reverse(),
+      redo: [...history.redo].reverse(),
+    };
+  }
+
+  /**
+   * Write one side of an entry back to disk after checking that every file
+   * still holds the other side
+   */
+  private restore(projectPath: string, entry: ChangeEntry, side: 'before' | 'after', force: boolean): void {
+    const root = canonicalPath(projectPath);
+    const expected = side === 'before' ? 'after' : 'before';
+
+    if (!force) {
+      const modified = entry.files
+        .filter(file => !sameVersion(readVersion(resolve(root, file.path)), file[expected]))
+        .map(file => file.path);
+      if (modified.length > 0) {
+        throw new ChangeHistoryError(
+          `Files changed since change #${entry.id} (${entry.tool}): ${modified.join(', ')}`
+        );
+      }
+    }
+
+    for (const file of entry.files) {
+      const path = resolve(root, file.path);
+      const content = file[side];
+      if (content === null) {
+        if (existsSync(path)) {
+          unlinkSync(path);
+        }
+      } else {
+        mkdirSync(dirname(path), { recursive: true });
+        writeFileSync(path, content);
+      }
+    }
+  }
+
+  /**
+   * History of a project, keyed by its path with symlinks resolved, so every
+   * path that leads to the project shares one history
+   */
+  private historyOf(projectPath: string): ProjectHistory {
+    const key = canonicalPath(projectPath);
+    let history = this.projects.get(key);
+    if (!history) {
+      history = { undo: [], redo: [] };
+      this.projects.set(key, history);
+    }
+    return history;
+  }
+
+  private relativePath(root: string, path: string): string {
+    return relative(root, path).split(sep).join('/');
+  }
+}
+
+/**
+ * Unified diff of every file of an entry
+ * @param reverse Diff from the changed versions back to the earlier ones
+ */
+export function entryDiff(entry: ChangeEntry, reverse: boolean = false): string {
+  return entry.files
+    .map(file => reverse ? fileDiff(file.path, file.after, file.before) : fileDiff(file.path, file.before, file.after))
+    .join('');
+}
+
+/**
+ * Content of a file, or null if it does not exist
+ */
+function readVersion(path: string): Buffer | null {
+  try {
+    return readFileSync(path);
+  } catch {
+    return null;
+  }
+}
+
+function sameVersion(a: Buffer | null, b: Buffer | null): boolean {
+  return a === null || b === null ? a === b : a.equals(b);
+}
@@ -0,0 +1,200 @@
+/**
+ * Dependency Graphs for the Godot MCP Server
+ *
+ * This module holds the dependency graph of a project, built from the
+ * references Godot finds in it: ext_resource sections of scenes and
+ * resources, preload and load calls in scripts, and the main scene and
+ * autoloads of project.godot. It answers what a file pulls in and what
+ * depends on it, and draws the graph as DOT or Mermaid.
+ */
+
+/**
+ * How one file refers to another
+ */
+export type DependencyKind = 'ext_resource' | 'preload' | 'load' | 'autoload' | 'main_scene';
+
+/**
+ * Interface for a reference from one file to another, with res:// paths
+ */
+export interface DependencyEdge {
+  from: string;
+  to: string;
+  kind: DependencyKind;
+  name?: string; // Autoload name
+}
+
+/**
+ * Interface for a file in the graph
+ */
+export interface DependencyNode {
+  path: string;
+  missing?: boolean; // Referenced, but the file does not exist
+}
+
+/**
+ * Which way to follow the references from a file
+ */
+export type DependencyDirection = 'dependencies' | 'dependents' | 'both';
+
+/**
+ * Error raised when the graph cannot answer a query
+ */
+export class DependencyGraphError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DependencyGraphError';
+  }
+}
+
+/**
+ * The files of a project and the references between them
+ */
+export class DependencyGraph {
+  readonly nodes: DependencyNode[];
+  readonly edges: DependencyEdge[];
+  private outgoing: Map<string, DependencyEdge[]> = new Map();
+  private incoming: Map<string, DependencyEdge[]> = new Map();
+
+  /**
+   * @param files Files that were scanned for references
+   * @param exists Whether a referenced file exists
+   */
+  constructor(files: string[], edges: DependencyEdge[], exists: (path: string) => boolean) {
+    this.edges = edges;
+    const paths = new Set(files);
+    for (const edge of edges) {
+      paths.add(edge.from);
+      paths.add(edge.to);
+      push(this.outgoing, edge.from, edge);
+      push(this.incoming, edge.to, edge);
+    }
+    this.nodes = [...paths].sort().map(path => (exists(path) ? { path } : { path, missing: true }));
+  }
+
+  /**
+   * Whether the graph has a file
+   */
+  has(path: string): boolean {
+    return this.nodes.some(node => node.path === path);
+  }
+
+  /**
+   * Files a file pulls in, nearest first
+   * @param transitive Also follow the references of those files
+   */
+  dependenciesOf(path: string, transitive: boolean = true): string[] {
+    return this.walk(path, this.outgoing, edge => edge.to, transitive);
+  }
+
+  /**
+   * Files that depend on a file, nearest first
+   * @param transitive Also follow what depends on those files
+   */
+  dependentsOf(path: string, transitive: boolean = true): string[] {
+    return this.walk(path, this.incoming, edge => edge.from, transitive);
+  }
+
+  /**
+   * The part of the graph around a file: the file, the files reached in a
+   * direction, and the references between them
+   * @throws DependencyGraphError if the graph does not have the file
+   */
+  around(path: string, direction: DependencyDirection, transitive: boolean = true): DependencyGraph {
+    if (!this.has(path)) {
+      throw new DependencyGraphError(`No file or reference in the project matches ${path}`);
+    }
+    const kept = new Set([path]);
+    if (direction !== 'dependents') {
+      this.dependenciesOf(path, transitive).forEach(item => kept.add(item));
+    }
+    if (direction !== 'dependencies') {
+      this.dependentsOf(path, transitive).forEach(item => kept.add(item));
+    }
+    const missing = new Set(this.nodes.filter(node => node.missing).map(node => node.path));
+
+    // Without transitive, only the references that touch the file itself
+    const edges = this.edges.filter(edge =>
+      kept.has(edge.from) && kept.has(edge.to) && (transitive || edge.from === path || edge.to === path));
+    return new DependencyGraph([...kept], edges, item => !missing.has(item));
+  }
+
+  /**
+   * The graph in Graphviz DOT, with missing files drawn dashed
+   */
+  toDot(): string {
+    const lines = ['digraph dependencies {', '  rankdir=LR;', '  node [shape=box];'];
+    for (const node of this.nodes) {
+      lines.push(`  ${dotString(node.path)}${node.missing ? ' [style=dashed]' : ''};`);
+    }
+    for (const edge of this.edges) {
+      lines.push(`  ${dotString(edge.from)} -> ${dotString(edge.to)} [label=${dotString(edgeLabel(edge))}];`);
+    }
+    lines.push('}');
+    return lines.join('\n');
+  }
+
+  /**
+   * The graph as a Mermaid flowchart, with missing files drawn dashed
+   */
+  toMermaid(): string {
+    const ids = new Map(this.nodes.map((node, index) => [node.path, `n${index}`]));
+    const lines = ['flowchart LR'];
+    for (const node of this.nodes) {
+      lines.push(`  ${ids.get(node.path)}["${mermaidText(node.path)}"]`);
+    }
+    for (const edge of this.edges) {
+      lines.push(`  ${ids.get(edge.from)} -->|${mermaidText(edgeLabel(edge))}| ${ids.get(edge.to)}`);
+    }
+    const missing = this.nodes.filter(node => node.missing).map(node => ids.get(node.path));
+    if (missing.length > 0) {
+      lines.push('  classDef missing stroke-dasharray: 5 5');
+      lines.push(`  class ${missing.join(',')} missing`);
+    }
+    return lines.join('\n');
+  }
+
+  /**
+   * Breadth-first walk, so nearer files come first
+   */
+  private walk(path: string, links: Map<string, DependencyEdge[]>, next: (edge: DependencyEdge) => string, transitive: boolean): string[] {
+    const seen = new Set([path]);
+    const found: string[] = [];
+    let frontier = [path];
+    while (frontier.length > 0) {
+      const following: string[] = [];
+      for (const current of frontier) {
+        for (const edge of links.get(current) ?? []) {
+          const item = next(edge);
+          if (!seen.has(item)) {
+            seen.add(item);
+            found.push(item);
+            following.push(item);
+          }
+        }
+      }
+      frontier = transitive ? following : [];
+    }
+    return found;
+  }
+}
+
+function push(map: Map<string, DependencyEdge[]>, key: string, edge: DependencyEdge): void {
+  const list = map.get(key);
+  if (list) {
+    list.push(edge);
+  } else {
+    map.set(key, [edge]);
+  }
+}
+
+function edgeLabel(edge: DependencyEdge): string {
+  return edge.name ? `${edge.kind} ${edge.name}` : edge.kind;
+}
+
+function dotString(text: string): string {
+  return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+function mermaidText(text: string): string {
+  return text.replace(/"/g, '#quot;').replace(/\|/g, '#124;');
+}
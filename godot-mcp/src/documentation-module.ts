@@ -8,13 +8,17 @@
  * - Best practices
  */
 
-import { promisify } from 'util';
-import { exec } from 'child_process';
-import { existsSync, readFileSync, mkdirSync, writeFileSync } from 'fs';
+import { existsSync, readFileSync, readdirSync, mkdirSync, writeFileSync } from 'fs';
 import { join } from 'path';
 import { parseStringPromise } from 'xml2js';
+import { LaunchResult, describeFailure, formatCommand, launchProcess } from './process-launcher.js';
+import { ToolCallContext } from './tool-progress.js';
 
-const execAsync = promisify(exec);
+// Milliseconds allowed for generating the documentation with --doctool
+const DOCTOOL_TIMEOUT = 5 * 60 * 1000;
+
+// Milliseconds between progress updates while doctool runs
+const DOCTOOL_PROGRESS_INTERVAL = 1000;
 
 /**
  * Interface for class information
@@ -111,6 +115,16 @@ export interface BestPractice {
   references: string[];
 }
 
+/**
+ * Error raised when documentation generation is cancelled by the client
+ */
+export class DocumentationCancelledError extends Error {
+  constructor(className: string) {
+    super(`Documentation generation for ${className} was cancelled`);
+    this.name = 'DocumentationCancelledError';
+  }
+}
+
 /**
  * Documentation Module for Godot 4.5+
  */
@@ -170,8 +184,9 @@ export class DocumentationModule {
 
   /**
    * Get class information from Godot documentation
+   * @param context Progress callback and cancellation signal for generating the documentation
    */
-  async getClassInfo(className: string): Promise<ClassInfo> {
+  async getClassInfo(className: string, context: ToolCallContext = {}): Promise<ClassInfo> {
     console.log(`[DOC MODULE] getClassInfo called for: ${className}`);
     console.log(`[DOC MODULE] Cache path: ${this.docsCachePath}`);
     console.log(`[DOC MODULE] Memory cache size: ${this.cache.size}`);
@@ -201,7 +216,7 @@ export class DocumentationModule {
 
     // Fetch from Godot
     console.log(`[DOC MODULE] Fetching from Godot: ${className}`);
-    const classInfo = await this.fetchClassInfo(className);
+    const classInfo = await this.fetchClassInfo(className, context);
 
     // Cache in memory and on disk
     this.cache.set(className, classInfo);
@@ -218,7 +233,7 @@ export class DocumentationModule {
   /**
    * Fetch class information from Godot using --doctool
    */
-  private async fetchClassInfo(className: string): Promise<ClassInfo> {
+  private async fetchClassInfo(className: string, context: ToolCallContext): Promise<ClassInfo> {
     try {
       console.log(`[DOC MODULE] Fetching class info for: ${className}`);
       console.log(`[DOC MODULE] Godot path: ${this.godotPath}`);
@@ -238,18 +253,39 @@ export class DocumentationModule {
       // Run Godot with --doctool to generate XML documentation
       // Note: --no-docbase generates structure without descriptions, but keeps files
       // We'll enhance descriptions from online docs or provide basic info
-      const command = this.godotPath === 'godot'
-        ? `godot --doctool "${docToolPath}" --no-docbase --headless --quit`
-        : `"${this.godotPath}" --doctool "${docToolPath}" --no-docbase --headless --quit`;
+      const docToolArgs = ['--doctool', docToolPath, '--no-docbase', '--headless', '--quit'];
+
+      console.log(`[DOC MODULE] Running doctool command: ${formatCommand([this.godotPath, ...docToolArgs])}`);
 
-      console.log(`[DOC MODULE] Running doctool command: ${command}`);
+      // doctool prints no progress, so report the class files written so far
+      const docClassesDir = join(docToolPath, 'doc', 'classes');
+      const onProgress = context.onProgress;
+      const progressTimer = onProgress
+        ? setInterval(() => {
+          const written = existsSync(docClassesDir) ? readdirSync(docClassesDir).length : 0;
+          onProgress({ progress: written, message: `generated ${written} class reference files` });
+        }, DOCTOOL_PROGRESS_INTERVAL)
+        : null;
 
+      let result: LaunchResult;
       try {
-        const result = await execAsync(command);
+        result = await launchProcess(this.godotPath, docToolArgs, { timeout: DOCTOOL_TIMEOUT, signal: context.signal });
+      } finally {
+        if (progressTimer) {
+          clearInterval(progressTimer);
+        }
+      }
+      const failure = describeFailure(result);
+      if (failure?.reason === 'cancelled') {
+        throw new DocumentationCancelledError(className);
+      }
+      if (!failure) {
         console.log(`[DOC MODULE] doctool completed successfully`);
-      } catch (error) {
+      } else if (failure.reason === 'exit') {
         // doctool may exit with non-zero even on success, check if files were created
-        console.log(`[DOC MODULE] doctool command completed (may have non-zero exit):`, error);
+        console.log(`[DOC MODULE] doctool command completed (may have non-zero exit): ${failure.message}`);
+      } else {
+        throw new Error(`Failed to generate documentation: ${failure.message}`);
       }
 
       // Parse the generated XML file
@@ -268,7 +304,7 @@ export class DocumentationModule {
           // List what files are actually there
           const docClassesPath = join(docToolPath, 'doc', 'classes');
           if (existsSync(docClassesPath)) {
-            const files = require('fs').readdirSync(docClassesPath);
+            const files = readdirSync(docClassesPath);
             console.log(`[DOC MODULE] Files in doc/classes (first 10):`, files.slice(0, 10));
           }
           throw new Error(`Documentation XML file not found for class: ${className}`);
@@ -284,6 +320,10 @@ export class DocumentationModule {
 
       return classInfo;
     } catch (error) {
+      // A cancelled run has no result worth caching
+      if (error instanceof DocumentationCancelledError) {
+        throw error;
+      }
       const errorMessage = error instanceof Error ? error.message : String(error);
       console.error(`[DOC MODULE] Error fetching class info for ${className}: ${errorMessage}`);
       console.error(`[DOC MODULE] Stack trace:`, error);
@@ -456,14 +496,14 @@ export class DocumentationModule {
   /**
    * Get method information for a specific class and method
    */
-  async getMethodInfo(className: string, methodName: string): Promise<MethodInfo | null> {
-    const classInfo = await this.getClassInfo(className);
+  async getMethodInfo(className: string, methodName: string, context: ToolCallContext = {}): Promise<MethodInfo | null> {
+    const classInfo = await this.getClassInfo(className, context);
     const method = classInfo.methods.find(m => m.name === methodName);
 
     if (!method) {
       // Check parent class
       if (classInfo.inherits) {
-        return this.getMethodInfo(classInfo.inherits, methodName);
+        return this.getMethodInfo(classInfo.inherits, methodName, context);
       }
       return null;
     }
@@ -0,0 +1,228 @@
+/**
+ * Dry Runs for the Godot MCP Server
+ *
+ * This module builds a temporary copy of a project in which a tool call can
+ * run without touching the real files. Directories are recreated and every
+ * file is copied, as a copy-on-write clone where the file system supports
+ * it, so no write in the copy can reach the project. Directories Godot never
+ * reads are left out. Of the .godot cache only the imported assets and the
+ * caches scenes need to load are copied, and Godot's other writes to it stay
+ * in the copy. Afterwards the copy is compared with the project to report
+ * what the call would have changed.
+ */
+
+import {
+  constants,
+  copyFileSync,
+  existsSync,
+  lstatSync,
+  mkdirSync,
+  mkdtempSync,
+  readdirSync,
+  readFileSync,
+  realpathSync,
+  rmSync,
+  statSync,
+} from 'fs';
+import { tmpdir } from 'os';
+import { join, resolve } from 'path';
+import { FileChange } from './change-history.js';
+
+/**
+ * Directories whose changes are not changes to the project, never compared.
+ * Only their CACHE_ENTRIES are copied.
+ */
+const SCRATCH_DIRECTORIES = new Set(['.godot']);
+
+/**
+ * Entries of .godot that headless runs read but do not rebuild: imported
+ * assets, the uid cache and the global class names of scripts
+ */
+const CACHE_ENTRIES = ['imported', 'uid_cache.bin', 'global_script_class_cache.cfg'];
+
+/**
+ * Directories Godot never reads, left out of the copy
+ */
+const SKIPPED_DIRECTORIES = new Set(['.git', '.hg', '.svn', 'node_modules']);
+
+/**
+ * A temporary copy of a project for one dry run
+ */
+export class DryRunWorkspace {
+  readonly projectPath: string;
+  readonly root: string;
+  private directories: Set<string> = new Set(); // Project-relative directories recreated in the copy
+
+  private constructor(projectPath: string, root: string) {
+    this.projectPath = projectPath;
+    this.root = root;
+  }
+
+  /**
+   * Create a copy of a project in which a tool call can change any file
+   */
+  static create(projectPath: string): DryRunWorkspace {
+    const project = resolve(projectPath);
+    const root = mkdtempSync(join(tmpdir(), 'godot-mcp-dry-run-'));
+
+    const workspace = new DryRunWorkspace(project, root);
+    try {
+      workspace.populate('', new Set([realpathSync(project)]));
+    } catch (error) {
+      workspace.dispose();
+      throw error;
+    }
+    return workspace;
+  }
+
+  /**
+   * Compare the copy with the project
+   * @returns Every file that differs, with the project's version as before
+   */
+  changes(): FileChange[] {
+    const changes: FileChange[] = [];
+
+    for (const directory of Array.from(this.directories).sort()) {
+      const copy = join(this.root, directory);
+      const original = join(this.projectPath, directory);
+      if (!existsSync(copy)) {
+        continue;
+      }
+
+      const names = new Set([
+        ...readdirSync(copy),
+        ...(existsSync(original) ? readdirSync(original) : []),
+      ]);
+      for (const name of Array.from(names).sort()) {
+        const path = directory ? `${directory}/${name}` : name;
+        if (this.directories.has(path) || (directory === '' && SCRATCH_DIRECTORIES.has(name))) {
+          continue;
+        }
+
+        const copyStat = lstatOrNull(join(copy, name));
+        const originalStat = lstatOrNull(join(original, name));
+        if (copyStat?.isDirectory() || originalStat?.isDirectory() || (originalStat && !copyStat)) {
+          // New directories are reported below, and files left out of the copy were not removed
+          if (copyStat?.isDirectory() && !originalStat) {
+            changes.push(...this.addedFiles(path));
+          }
+          continue;
+        }
+
+        const before = originalStat ? readFileSync(join(original, name)) : null;
+        const after = copyStat ? readFileSync(join(copy, name)) : null;
+        if (before === null || after === null ? before !== after : !before.equals(after)) {
+          changes.push({ path, before, after });
+        }
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Delete the copy
+   */
+  dispose(): void {
+    rmSync(this.root, { recursive: true, force: true });
+  }
+
+  /**
+   * Recreate a directory: copy its files and recurse into subdirectories,
+   * following links to directories once
+   * @param visited Real paths of the directories being copied, against link cycles
+   */
+  private populate(directory: string, visited: Set<string>): void {
+    const original = join(this.projectPath, directory);
+    const copy = join(this.root, directory);
+    mkdirSync(copy, { recursive: true });
+    this.directories.add(directory);
+
+    for (const entry of readdirSync(original, { withFileTypes: true })) {
+      const path = directory ? `${directory}/${entry.name}` : entry.name;
+      const source = join(original, entry.name);
+      const stat = entry.isSymbolicLink() ? statOrNull(source) : null;
+      const isDirectory = entry.isDirectory() || (stat?.isDirectory() ?? false);
+
+      if (isDirectory && directory === '' && SCRATCH_DIRECTORIES.has(entry.name)) {
+        this.copyCache(entry.name);
+      } else if (isDirectory) {
+        const real = realpathSync(source);
+        if (!SKIPPED_DIRECTORIES.has(entry.name) && !existsSync(join(source, '.gdignore')) && !visited.has(real)) {
+          this.populate(path, new Set([...visited, real]));
+        }
+      } else if (entry.isFile() || stat?.isFile()) {
+        cloneFile(source, join(copy, entry.name));
+      }
+    }
+  }
+
+  /**
+   * Copy the entries of a cache directory that loading scenes needs
+   */
+  private copyCache(directory: string): void {
+    mkdirSync(join(this.root, directory));
+    for (const name of CACHE_ENTRIES) {
+      const source = join(this.projectPath, directory, name);
+      const destination = join(this.root, directory, name);
+      if (statOrNull(source)?.isDirectory()) {
+        copyTree(source, destination);
+      } else if (existsSync(source)) {
+        cloneFile(source, destination);
+      }
+    }
+  }
+
+  /**
+   * Every file in a directory the tool call created
+   */
+  private addedFiles(directory: string): FileChange[] {
+    const changes: FileChange[] = [];
+    for (const entry of readdirSync(join(this.root, directory), { withFileTypes: true })) {
+      const path = `${directory}/${entry.name}`;
+      if (entry.isDirectory()) {
+        changes.push(...this.addedFiles(path));
+      } else if (entry.isFile()) {
+        changes.push({ path, before: null, after: readFileSync(join(this.root, path)) });
+      }
+    }
+    return changes;
+  }
+}
+
+/**
+ * Copy a file, as a copy-on-write clone where the file system supports it
+ */
+function cloneFile(source: string, destination: string): void {
+  copyFileSync(source, destination, constants.COPYFILE_FICLONE);
+}
+
+/**
+ * Copy a directory with its files and subdirectories
+ */
+function copyTree(source: string, destination: string): void {
+  mkdirSync(destination, { recursive: true });
+  for (const entry of readdirSync(source, { withFileTypes: true })) {
+    if (entry.isDirectory()) {
+      copyTree(join(source, entry.name), join(destination, entry.name));
+    } else if (entry.isFile()) {
+      cloneFile(join(source, entry.name), join(destination, entry.name));
+    }
+  }
+}
+
+function lstatOrNull(path: string) {
+  try {
+    return lstatSync(path);
+  } catch {
+    return null;
+  }
+}
+
+function statOrNull(path: string) {
+  try {
+    return statSync(path);
+  } catch {
+    return null;
+  }
+}
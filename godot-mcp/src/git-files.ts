@@ -0,0 +1,67 @@
+/**
+ * Git Files for the Godot MCP Server
+ *
+ * This module reads versions of project files from git: a file as committed
+ * in a revision, or one of the versions git keeps in the index while a merge
+ * has a conflict. git runs without a shell and with a timeout, and revisions
+ * are checked so they cannot be taken for options.
+ */
+
+import { ProcessLaunchError, runProcess } from './process-launcher.js';
+
+// Milliseconds git gets to print a file
+const GIT_TIMEOUT = 10000;
+
+// Revisions git accepts here: names, hashes and suffixes such as ~1 or ^2, but no options or paths
+const REVISION_PATTERN = /^[A-Za-z0-9_.\/~^@{}][A-Za-z0-9_.\/~^@{}-]*$/;
+
+/**
+ * Versions of a conflicted file in the index: the common ancestor, the
+ * checked-out branch and the branch being merged
+ */
+export const MERGE_STAGES = { base: 1, ours: 2, theirs: 3 } as const;
+
+/**
+ * Error raised when git cannot show a version of a file
+ */
+export class GitFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GitFileError';
+  }
+}
+
+/**
+ * Read a file as committed in a git revision
+ * @param projectPath Directory of the project, inside a git work tree
+ * @param filePath Path of the file relative to the project
+ * @throws GitFileError if the revision is malformed or git cannot show the file
+ */
+export async function readRevision(projectPath: string, filePath: string, revision: string, signal?: AbortSignal): Promise<string> {
+  if (!REVISION_PATTERN.test(revision)) {
+    throw new GitFileError(`Invalid git revision: ${revision}`);
+  }
+  return await gitShow(projectPath, revision, filePath, `at ${revision}`, signal);
+}
+
+/**
+ * Read one version of a file with a merge conflict from the git index
+ * @param stage 1 for the common ancestor, 2 for ours, 3 for theirs
+ * @throws GitFileError if the file has no such version, e.g. when it is not conflicted
+ */
+export async function readIndexStage(projectPath: string, filePath: string, stage: number, signal?: AbortSignal): Promise<string> {
+  return await gitShow(projectPath, `:${stage}`, filePath, `from merge stage ${stage}`, signal);
+}
+
+async function gitShow(projectPath: string, prefix: string, filePath: string, description: string, signal?: AbortSignal): Promise<string> {
+  const path = filePath.replace(/^res:\/\//, '').replace(/\\/g, '/');
+  try {
+    const { stdout } = await runProcess('git', ['show', `${prefix}:./${path}`], { cwd: projectPath, timeout: GIT_TIMEOUT, signal });
+    return stdout;
+  } catch (error: unknown) {
+    if (error instanceof ProcessLaunchError) {
+      throw new GitFileError(`Failed to read ${path} ${description}: ${error.message}`);
+    }
+    throw error;
+  }
+}
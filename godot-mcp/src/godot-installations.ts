@@ -0,0 +1,346 @@
+/**
+ * Godot Installations for the Godot MCP Server
+ *
+ * This module finds every Godot executable on the machine: GODOT_PATH, the
+ * configured paths, the directories on PATH and the usual install locations.
+ * It reads the version of each, and picks the one matching the engine version
+ * a project was made with (config/features in project.godot), so one server
+ * can drive projects on different Godot versions side by side.
+ */
+
+import { Stats, existsSync, readdirSync, realpathSync, statSync } from 'fs';
+import { homedir } from 'os';
+import { basename, delimiter, join, normalize } from 'path';
+import { runProcess } from './process-launcher.js';
+import { GodotVersion, VersionValidator } from './version-validator.js';
+
+/**
+ * Where an installation was found
+ */
+export type InstallationSource = 'godotPath' | 'configured' | 'path' | 'common';
+
+/**
+ * Interface for a Godot executable whose version could be read
+ */
+export interface GodotInstallation {
+  path: string;
+  version: GodotVersion;
+  source: InstallationSource;
+}
+
+/**
+ * Interface for a candidate that was not a usable Godot executable
+ */
+export interface SkippedInstallation {
+  path: string;
+  source: InstallationSource;
+  reason: string;
+}
+
+/**
+ * Interface for the engine version a project was made with
+ */
+export interface EngineVersion {
+  major: number;
+  minor: number;
+}
+
+/**
+ * Interface for the options used to find installations
+ */
+export interface InstallationSearchOptions {
+  godotPath?: string | null; // GODOT_PATH or the configured executable
+  configuredPaths?: string[]; // Executables, or directories containing them
+  discover?: boolean; // Also search PATH and common install directories (default: true)
+  versionTimeout?: number; // Milliseconds allowed for `godot --version`
+  debugMode?: boolean;
+}
+
+// File names of Godot executables, e.g. godot, godot4, godot-mono, Godot_v4.5-stable_linux.x86_64 or
+// Godot_v4.4.1-stable_win64.exe. Anything after "godot" must be a version, so tools such as godot-mcp are never run
+const EXECUTABLE_PATTERN = /^godot(?:[._-]mono)?(?:[._-]?v?\d[\w.+-]*|\.exe|\.x86_64|\.app)?$/i;
+
+// Console wrappers on Windows start the real executable next to them
+const EXCLUDED_PATTERN = /_console\.exe$|\.(?:pck|zip|txt|md|desktop|png|svg|ico)$/i;
+
+// Order of pre-release statuses when several builds of the same version are installed
+const STATUS_RANK: Record<string, number> = { stable: 4, rc: 3, beta: 2, alpha: 1, dev: 0 };
+
+/**
+ * Read the engine version from the config/features of a project
+ * @param features Values of config/features, e.g. ["4.5", "Forward Plus"]
+ * @returns The version, or null if no feature names one
+ */
+export function projectEngineVersion(features: string[]): EngineVersion | null {
+  for (const feature of features) {
+    const match = feature.match(/^(\d+)\.(\d+)$/);
+    if (match) {
+      return { major: parseInt(match[1], 10), minor: parseInt(match[2], 10) };
+    }
+  }
+  return null;
+}
+
+/**
+ * Format an engine version as major.minor
+ */
+export function formatEngineVersion(version: EngineVersion): string {
+  return `${version.major}.${version.minor}`;
+}
+
+/**
+ * Pick the installation for an engine version: the same major and minor
+ * version, preferring stable builds and then the highest patch
+ * @returns The installation, or null if none has the version
+ */
+export function selectInstallation(installations: GodotInstallation[], engine: EngineVersion): GodotInstallation | null {
+  const matching = installations.filter(
+    installation => installation.version.major === engine.major && installation.version.minor === engine.minor
+  );
+  matching.sort((a, b) => statusRank(b.version) - statusRank(a.version) || b.version.patch - a.version.patch);
+  return matching[0] ?? null;
+}
+
+function statusRank(version: GodotVersion): number {
+  const status = (version.status ?? 'stable').toLowerCase().replace(/\d+$/, '');
+  return STATUS_RANK[status] ?? 0;
+}
+
+/**
+ * Finds the Godot installations on the machine and remembers them until refreshed
+ */
+export class GodotInstallations {
+  private options: InstallationSearchOptions;
+  private found: GodotInstallation[] | null = null;
+  private skipped: SkippedInstallation[] = [];
+  private searching: Promise<GodotInstallation[]> | null = null;
+
+  constructor(options: InstallationSearchOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * Log debug messages if debug mode is enabled
+   */
+  private logDebug(message: string): void {
+    if (this.options.debugMode) {
+      console.debug(`[INSTALLATIONS] ${message}`);
+    }
+  }
+
+  /**
+   * Change the default executable; the next list() searches again
+   */
+  setGodotPath(godotPath: string | null): void {
+    if (godotPath !== this.options.godotPath) {
+      this.options = { ...this.options, godotPath };
+      this.found = null;
+    }
+  }
+
+  /**
+   * Every installation found, in search order
+   * @param refresh Search again instead of returning the previous result
+   */
+  async list(refresh: boolean = false): Promise<GodotInstallation[]> {
+    if (this.found && !refresh) {
+      return this.found;
+    }
+    if (!this.searching) {
+      this.searching = this.search().finally(() => {
+        this.searching = null;
+      });
+    }
+    return this.searching;
+  }
+
+  /**
+   * Candidates of the last search that were not usable, with the reason
+   */
+  get skippedInstallations(): SkippedInstallation[] {
+    return this.skipped;
+  }
+
+  /**
+   * The installation for a project's engine version
+   * @returns The installation, or null if none has the version
+   */
+  async select(engine: EngineVersion): Promise<GodotInstallation | null> {
+    return selectInstallation(await this.list(), engine);
+  }
+
+  /**
+   * The installation found at a path. A bare name, such as godot4, matches
+   * an installation with that file name.
+   * @returns The installation, or null if no installation found is at the path
+   */
+  async find(path: string): Promise<GodotInstallation | null> {
+    const installations = await this.list();
+    if (!/[\\/]/.test(path)) {
+      return installations.find(installation => basename(installation.path) === path) ?? null;
+    }
+    const key = realPath(path);
+    return installations.find(installation => realPath(installation.path) === key) ?? null;
+  }
+
+  private async search(): Promise<GodotInstallation[]> {
+    const installations: GodotInstallation[] = [];
+    const skipped: SkippedInstallation[] = [];
+    const seen: Set<string> = new Set();
+
+    for (const { path, source } of this.candidates()) {
+      const key = realPath(path);
+      if (seen.has(key)) {
+        continue;
+      }
+      seen.add(key);
+
+      try {
+        const { stdout } = await runProcess(path, ['--version'], { timeout: this.options.versionTimeout });
+        const version = VersionValidator.parseVersion(stdout.trim().split('\n').pop()?.trim() ?? '');
+        if (!version) {
+          skipped.push({ path, source, reason: `Unrecognized version output: ${stdout.trim().slice(0, 80)}` });
+          continue;
+        }
+        this.logDebug(`Found Godot ${VersionValidator.formatVersion(version)} at ${path}`);
+        installations.push({ path, version, source });
+      } catch (error: unknown) {
+        const reason = error instanceof Error ? error.message : String(error);
+        this.logDebug(`Skipping ${path}: ${reason}`);
+        skipped.push({ path, source, reason });
+      }
+    }
+
+    this.found = installations;
+    this.skipped = skipped;
+    return installations;
+  }
+
+  /**
+   * Paths that may be Godot executables. Missing paths from PATH and the
+   * common directories are left out; missing configured paths are reported.
+   */
+  private candidates(): Array<{ path: string; source: InstallationSource }> {
+    const candidates: Array<{ path: string; source: InstallationSource }> = [];
+    const add = (path: string, source: InstallationSource) => candidates.push({ path: normalize(path), source });
+
+    if (this.options.godotPath) {
+      add(this.options.godotPath, 'godotPath');
+    }
+
+    for (const entry of this.options.configuredPaths ?? []) {
+      if (isDirectory(entry)) {
+        executablesIn(entry).forEach(path => add(path, 'configured'));
+      } else {
+        add(entry, 'configured');
+      }
+    }
+
+    if (this.options.discover === false) {
+      return candidates;
+    }
+
+    for (const dir of (process.env.PATH ?? '').split(delimiter)) {
+      if (dir.trim() !== '') {
+        executablesIn(dir).forEach(path => add(path, 'path'));
+      }
+    }
+
+    for (const path of commonInstallPaths()) {
+      if (existsSync(path)) {
+        add(path, 'common');
+      }
+    }
+
+    return candidates;
+  }
+}
+
+/**
+ * Executables in the usual install locations of the platform
+ */
+function commonInstallPaths(): string[] {
+  const home = homedir();
+  const paths: string[] = [];
+
+  if (process.platform === 'darwin') {
+    for (const dir of ['/Applications', join(home, 'Applications')]) {
+      for (const name of entriesOf(dir)) {
+        if (/^godot.*\.app$/i.test(name)) {
+          paths.push(join(dir, name, 'Contents', 'MacOS', 'Godot'));
+        }
+      }
+    }
+    paths.push(join(home, 'Library/Application Support/Steam/steamapps/common/Godot Engine/Godot.app/Contents/MacOS/Godot'));
+  } else if (process.platform === 'win32') {
+    const programDirs = [process.env.ProgramFiles, process.env['ProgramFiles(x86)']].filter((dir): dir is string => !!dir);
+    for (const dir of programDirs) {
+      for (const name of entriesOf(dir)) {
+        if (/^godot/i.test(name)) {
+          paths.push(...executablesIn(join(dir, name)));
+        }
+      }
+    }
+    paths.push(...executablesIn(join(home, 'Godot')));
+  } else {
+    paths.push(...executablesIn('/opt'));
+    for (const name of entriesOf('/opt')) {
+      if (/^godot/i.test(name)) {
+        paths.push(...executablesIn(join('/opt', name)));
+      }
+    }
+    paths.push(...executablesIn(join(home, '.local', 'bin')));
+    paths.push(...executablesIn(join(home, 'Applications')));
+    paths.push('/snap/bin/godot', '/var/lib/flatpak/exports/bin/org.godotengine.Godot');
+  }
+
+  return paths;
+}
+
+/**
+ * Files in a directory named like Godot executables
+ */
+function executablesIn(dir: string): string[] {
+  return entriesOf(dir)
+    .filter(name => EXECUTABLE_PATTERN.test(name) && !EXCLUDED_PATTERN.test(name))
+    .map(name => join(dir, name))
+    .filter(path => isExecutable(statOf(path)));
+}
+
+function entriesOf(dir: string): string[] {
+  try {
+    return readdirSync(dir);
+  } catch {
+    return [];
+  }
+}
+
+function statOf(path: string): Stats | null {
+  try {
+    return statSync(path);
+  } catch {
+    return null;
+  }
+}
+
+function isDirectory(path: string): boolean {
+  return statOf(path)?.isDirectory() ?? false;
+}
+
+function isExecutable(stats: Stats | null): boolean {
+  if (!stats || !stats.isFile()) {
+    return false;
+  }
+  return process.platform === 'win32' || (stats.mode & 0o111) !== 0;
+}
+
+/**
+ * Resolve symbolic links, so an executable linked from several places is probed once
+ */
+function realPath(path: string): string {
+  try {
+    return realpathSync(path);
+  } catch {
+    return path;
+  }
+}
@@ -0,0 +1,615 @@
+/**
+ * Godot Variants for the Godot MCP Server
+ *
+ * This module reads and writes Variant literals as Godot stores them in text
+ * scenes, text resources and project.godot: numbers, strings, StringNames,
+ * NodePaths, constructors such as Vector2(1, 2), resource references, arrays,
+ * typed arrays, dictionaries and objects. It also converts them to plain JSON
+ * for tool results.
+ */
+
+/**
+ * Interface for a StringName literal: &"name"
+ */
+export interface VariantStringName {
+  kind: 'StringName';
+  value: string;
+}
+
+/**
+ * Interface for a NodePath literal: NodePath("path") or ^"path"
+ */
+export interface VariantNodePath {
+  kind: 'NodePath';
+  path: string;
+}
+
+/**
+ * Interface for a reference to an ext_resource or sub_resource section
+ */
+export interface VariantResource {
+  kind: 'ExtResource' | 'SubResource';
+  id: string;
+}
+
+/**
+ * Interface for a constructed value, e.g. Vector2(1, 2) or PackedStringArray("a")
+ */
+export interface VariantConstructor {
+  kind: 'Constructor';
+  type: string;
+  args: Variant[];
+}
+
+/**
+ * Interface for a typed array: Array[int]([1, 2])
+ */
+export interface VariantTypedArray {
+  kind: 'TypedArray';
+  elementType: string; // As written, e.g. "int" or 'ExtResource("1_abc")'
+  items: Variant[];
+}
+
+/**
+ * Interface for a dictionary, optionally typed: Dictionary[String, int]({...})
+ */
+export interface VariantDictionary {
+  kind: 'Dictionary';
+  entries: Array<[Variant, Variant]>;
+  keyType?: string;
+  valueType?: string;
+}
+
+/**
+ * Interface for an inline object: Object(ClassName,"property":value)
+ */
+export interface VariantObject {
+  kind: 'Object';
+  className: string;
+  properties: Array<[string, Variant]>;
+}
+
+/**
+ * A Variant as written in Godot's text formats. Integers and floats are both
+ * numbers; untyped arrays are JavaScript arrays.
+ */
+export type Variant =
+  | null
+  | boolean
+  | number
+  | string
+  | Variant[]
+  | VariantStringName
+  | VariantNodePath
+  | VariantResource
+  | VariantConstructor
+  | VariantTypedArray
+  | VariantDictionary
+  | VariantObject;
+
+/**
+ * Error raised for text that is not a valid Variant literal
+ */
+export class VariantSyntaxError extends Error {
+  readonly position: number; // Offset in the text where reading failed
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.name = 'VariantSyntaxError';
+    this.position = position;
+  }
+}
+
+// Components of the vector-like constructors, for JSON output
+const COMPONENTS: Record<string, string[]> = {
+  Vector2: ['x', 'y'],
+  Vector2i: ['x', 'y'],
+  Vector3: ['x', 'y', 'z'],
+  Vector3i: ['x', 'y', 'z'],
+  Vector4: ['x', 'y', 'z', 'w'],
+  Vector4i: ['x', 'y', 'z', 'w'],
+  Quaternion: ['x', 'y', 'z', 'w'],
+  Color: ['r', 'g', 'b', 'a'],
+  Plane: ['x', 'y', 'z', 'd'],
+};
+
+// Items of packed arrays that hold vectors or colors
+const PACKED_ITEMS: Record<string, string> = {
+  PackedVector2Array: 'Vector2',
+  PackedVector3Array: 'Vector3',
+  PackedVector4Array: 'Vector4',
+  PackedColorArray: 'Color',
+};
+
+const IDENTIFIER_PATTERN = /[A-Za-z_][A-Za-z0-9_]*/y;
+const NUMBER_PATTERN = /-?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/y;
+
+const ESCAPES: Record<string, string> = { b: '\b', t: '\t', n: '\n', f: '\f', r: '\r', '\\': '\\', '"': '"', "'": "'" };
+
+/**
+ * Reads Variant literals from a text, starting at a position
+ */
+export class VariantReader {
+  readonly text: string;
+  pos: number;
+
+  constructor(text: string, pos: number = 0) {
+    this.text = text;
+    this.pos = pos;
+  }
+
+  /**
+   * Read one value and leave the position after it
+   * @throws VariantSyntaxError if the text at the position is not a value
+   */
+  readValue(): Variant {
+    this.skipSpace();
+    const char = this.text[this.pos];
+
+    if (char === undefined) {
+      throw this.error('Expected a value, found the end of the text');
+    }
+    if (char === '"') {
+      return this.readString();
+    }
+    if (char === '&' && this.text[this.pos + 1] === '"') {
+      this.pos++;
+      return { kind: 'StringName', value: this.readString() };
+    }
+    if (char === '^' && this.text[this.pos + 1] === '"') {
+      this.pos++;
+      return { kind: 'NodePath', path: this.readString() };
+    }
+    if (char === '[') {
+      this.pos++;
+      return this.readList(']');
+    }
+    if (char === '{') {
+      return { kind: 'Dictionary', entries: this.readDictionaryBody() };
+    }
+    if (char === '-' && this.text.startsWith('-inf', this.pos) && !/[A-Za-z0-9_]/.test(this.text[this.pos + 4] ?? '')) {
+      this.pos += 4;
+      return -Infinity;
+    }
+
+    NUMBER_PATTERN.lastIndex = this.pos;
+    const number = NUMBER_PATTERN.exec(this.text);
+    if (number) {
+      this.pos += number[0].length;
+      return Number(number[0]);
+    }
+
+    const name = this.readIdentifier();
+    switch (name) {
+      case 'true':
+        return true;
+      case 'false':
+        return false;
+      case 'null':
+      case 'nil':
+        return null;
+      case 'inf':
+        return Infinity;
+      case 'inf_neg':
+        return -Infinity;
+      case 'nan':
+        return NaN;
+    }
+    return this.readConstructed(name);
+  }
+
+  /**
+   * Skip spaces, line breaks and ; comments
+   */
+  skipSpace(): void {
+    while (this.pos < this.text.length) {
+      const char = this.text[this.pos];
+      if (char === ' ' || char === '\t' || char === '\n' || char === '\r' || char === '\uFEFF') {
+        this.pos++;
+      } else if (char === ';') {
+        while (this.pos < this.text.length && this.text[this.pos] !== '\n') {
+          this.pos++;
+        }
+      } else {
+        break;
+      }
+    }
+  }
+
+  /**
+   * Read an identifier, such as a constructor or property name
+   */
+  readIdentifier(): string {
+    IDENTIFIER_PATTERN.lastIndex = this.pos;
+    const match = IDENTIFIER_PATTERN.exec(this.text);
+    if (!match) {
+      throw this.error(`Unexpected character "${this.text[this.pos]}"`);
+    }
+    this.pos += match[0].length;
+    return match[0];
+  }
+
+  /**
+   * Read a double-quoted string with its escapes
+   */
+  readString(): string {
+    if (this.text[this.pos] !== '"') {
+      throw this.error('Expected a string');
+    }
+    const start = this.pos;
+    this.pos++;
+    let value = '';
+    while (true) {
+      const char = this.text[this.pos];
+      if (char === undefined) {
+        throw new VariantSyntaxError('Unterminated string', start);
+      }
+      this.pos++;
+      if (char === '"') {
+        return value;
+      }
+      if (char !== '\\') {
+        value += char;
+        continue;
+      }
+      const escape = this.text[this.pos++];
+      if (escape === 'u' || escape === 'U') {
+        const length = escape === 'u' ? 4 : 6;
+        const hex = this.text.slice(this.pos, this.pos + length);
+        if (!/^[0-9a-fA-F]+$/.test(hex) || hex.length !== length) {
+          throw this.error('Invalid unicode escape');
+        }
+        value += String.fromCodePoint(parseInt(hex, 16));
+        this.pos += length;
+      } else if (escape !== undefined && ESCAPES[escape] !== undefined) {
+        value += ESCAPES[escape];
+      } else {
+        value += escape ?? '';
+      }
+    }
+  }
+
+  /**
+   * Expect a punctuation character, after optional space
+   */
+  expect(char: string): void {
+    this.skipSpace();
+    if (this.text[this.pos] !== char) {
+      const found = this.text[this.pos] === undefined ? 'the end of the text' : `"${this.text[this.pos]}"`;
+      throw this.error(`Expected "${char}", found ${found}`);
+    }
+    this.pos++;
+  }
+
+  private readConstructed(name: string): Variant {
+    // Typed containers: Array[int]([...]) and Dictionary[String, int]({...})
+    this.skipSpace();
+    if ((name === 'Array' || name === 'Dictionary') && this.text[this.pos] === '[') {
+      this.pos++;
+      const types = this.readTypeList();
+      this.expect('(');
+      let value: Variant;
+      if (name === 'Array') {
+        this.expect('[');
+        value = { kind: 'TypedArray', elementType: types[0] ?? '', items: this.readList(']') };
+      } else {
+        this.skipSpace();
+        value = { kind: 'Dictionary', entries: this.readDictionaryBody(), keyType: types[0], valueType: types[1] };
+      }
+      this.expect(')');
+      return value;
+    }
+
+    this.expect('(');
+    if (name === 'ExtResource' || name === 'SubResource') {
+      this.skipSpace();
+      const id = this.text[this.pos] === '"' ? this.readString() : String(this.readValue());
+      this.expect(')');
+      return { kind: name, id };
+    }
+    if (name === 'NodePath') {
+      this.skipSpace();
+      const path = this.text[this.pos] === ')' ? '' : this.readString();
+      this.expect(')');
+      return { kind: 'NodePath', path };
+    }
+    if (name === 'Object') {
+      return this.readObject();
+    }
+    return { kind: 'Constructor', type: name, args: this.readList(')') };
+  }
+
+  /**
+   * Read comma-separated values up to a closing character
+   */
+  private readList(close: string): Variant[] {
+    const items: Variant[] = [];
+    this.skipSpace();
+    if (this.text[this.pos] === close) {
+      this.pos++;
+      return items;
+    }
+    while (true) {
+      items.push(this.readValue());
+      this.skipSpace();
+      const char = this.text[this.pos];
+      if (char === ',') {
+        this.pos++;
+        this.skipSpace();
+        // A trailing comma is allowed
+        if (this.text[this.pos] === close) {
+          this.pos++;
+          return items;
+        }
+        continue;
+      }
+      if (char === close) {
+        this.pos++;
+        return items;
+      }
+      throw this.error(`Expected "," or "${close}"`);
+    }
+  }
+
+  private readDictionaryBody(): Array<[Variant, Variant]> {
+    this.expect('{');
+    const entries: Array<[Variant, Variant]> = [];
+    this.skipSpace();
+    if (this.text[this.pos] === '}') {
+      this.pos++;
+      return entries;
+    }
+    while (true) {
+      const key = this.readValue();
+      this.expect(':');
+      entries.push([key, this.readValue()]);
+      this.skipSpace();
+      const char = this.text[this.pos];
+      if (char === ',') {
+        this.pos++;
+        this.skipSpace();
+        if (this.text[this.pos] === '}') {
+          this.pos++;
+          return entries;
+        }
+        continue;
+      }
+      if (char === '}') {
+        this.pos++;
+        return entries;
+      }
+      throw this.error('Expected "," or "}"');
+    }
+  }
+
+  private readObject(): VariantObject {
+    this.skipSpace();
+    const className = this.readIdentifier();
+    const properties: Array<[string, Variant]> = [];
+    while (true) {
+      this.skipSpace();
+      if (this.text[this.pos] === ')') {
+        this.pos++;
+        return { kind: 'Object', className, properties };
+      }
+      this.expect(',');
+      this.skipSpace();
+      const name = this.readString();
+      this.expect(':');
+      properties.push([name, this.readValue()]);
+    }
+  }
+
+  /**
+   * Read the types of a typed container up to "]", as written
+   */
+  private readTypeList(): string[] {
+    const types: string[] = [];
+    let start = this.pos;
+    let depth = 0;
+    while (this.pos < this.text.length) {
+      const char = this.text[this.pos];
+      if (char === '"') {
+        this.readString();
+        continue;
+      }
+      if (char === '(' || char === '[') {
+        depth++;
+      } else if (char === ')' || (char === ']' && depth > 0)) {
+        depth--;
+      } else if (char === ']' || (char === ',' && depth === 0)) {
+        types.push(this.text.slice(start, this.pos).trim());
+        this.pos++;
+        if (char === ']') {
+          return types;
+        }
+        start = this.pos;
+        continue;
+      }
+      this.pos++;
+    }
+    throw this.error('Unterminated type list');
+  }
+
+  private error(message: string): VariantSyntaxError {
+    return new VariantSyntaxError(message, this.pos);
+  }
+}
+
+/**
+ * Parse a text holding exactly one Variant literal
+ * @throws VariantSyntaxError if the text is not one valid value
+ */
+export function parseVariant(text: string): Variant {
+  const reader = new VariantReader(text);
+  const value = reader.readValue();
+  reader.skipSpace();
+  if (reader.pos < text.length) {
+    throw new VariantSyntaxError(`Unexpected text after the value: "${text.slice(reader.pos, reader.pos + 20)}"`, reader.pos);
+  }
+  return value;
+}
+
+/**
+ * Write a string literal the way Godot does: quotes and backslashes are
+ * escaped, line breaks are kept
+ */
+export function formatString(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Write a Variant the way Godot's text formats store it
+ */
+export function formatVariant(value: Variant): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'true' : 'false';
+  }
+  if (typeof value === 'number') {
+    return formatNumber(value);
+  }
+  if (typeof value === 'string') {
+    return formatString(value);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(formatVariant).join(', ')}]`;
+  }
+
+  switch (value.kind) {
+    case 'StringName':
+      return `&${formatString(value.value)}`;
+    case 'NodePath':
+      return `NodePath(${formatString(value.path)})`;
+    case 'ExtResource':
+    case 'SubResource':
+      return `${value.kind}(${formatString(value.id)})`;
+    case 'Constructor':
+      return `${value.type}(${value.args.map(formatVariant).join(', ')})`;
+    case 'TypedArray':
+      return `Array[${value.elementType}]([${value.items.map(formatVariant).join(', ')}])`;
+    case 'Dictionary': {
+      const body = value.entries.length === 0
+        ? '{}'
+        : `{\n${value.entries.map(([key, item]) => `${formatVariant(key)}: ${formatVariant(item)}`).join(',\n')}\n}`;
+      return value.keyType !== undefined ? `Dictionary[${value.keyType}, ${value.valueType}](${body})` : body;
+    }
+    case 'Object': {
+      const properties = value.properties.map(([name, item]) => `,${formatString(name)}:${formatVariant(item)}`);
+      return `Object(${value.className}${properties.join('')})`;
+    }
+  }
+}
+
+function formatNumber(value: number): string {
+  if (Number.isNaN(value)) {
+    return 'nan';
+  }
+  if (value === Infinity) {
+    return 'inf';
+  }
+  if (value === -Infinity) {
+    return 'inf_neg';
+  }
+  return String(value);
+}
+
+/**
+ * Whether two values are the same Variant
+ */
+export function variantEquals(a: Variant, b: Variant): boolean {
+  return formatVariant(a) === formatVariant(b);
+}
+
+/**
+ * Copy a Variant with every ExtResource and SubResource reference in it replaced
+ */
+export function replaceResources(value: Variant, replace: (reference: VariantResource) => Variant): Variant {
+  const map = (item: Variant) => replaceResources(item, replace);
+
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(map);
+  }
+
+  switch (value.kind) {
+    case 'ExtResource':
+    case 'SubResource':
+      return replace(value);
+    case 'Constructor':
+      return { ...value, args: value.args.map(map) };
+    case 'TypedArray':
+      return { ...value, items: value.items.map(map) };
+    case 'Dictionary':
+      return { ...value, entries: value.entries.map(([key, item]): [Variant, Variant] => [map(key), map(item)]) };
+    case 'Object':
+      return { ...value, properties: value.properties.map(([name, item]): [string, Variant] => [name, map(item)]) };
+    default:
+      return value;
+  }
+}
+
+/**
+ * Convert a Variant to plain JSON for tool results: vectors and colors become
+ * objects with their components, StringNames and NodePaths strings, and
+ * resource references what resolveResource makes of them
+ * @param resolveResource Value of a resource reference (default: "ExtResource(id)" or "SubResource(id)")
+ */
+export function variantToJson(value: Variant, resolveResource?: (reference: VariantResource) => unknown): unknown {
+  const convert = (item: Variant) => variantToJson(item, resolveResource);
+
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(convert);
+  }
+
+  switch (value.kind) {
+    case 'StringName':
+      return value.value;
+    case 'NodePath':
+      return value.path;
+    case 'ExtResource':
+    case 'SubResource':
+      return resolveResource ? resolveResource(value) : `${value.kind}(${formatString(value.id)})`;
+    case 'TypedArray':
+      return value.items.map(convert);
+    case 'Dictionary':
+      if (value.entries.every(([key]) => typeof key === 'string' || (key !== null && typeof key === 'object' && !Array.isArray(key) && key.kind === 'StringName'))) {
+        return Object.fromEntries(value.entries.map(([key, item]) => [variantToJson(key), convert(item)]));
+      }
+      return value.entries.map(([key, item]) => [convert(key), convert(item)]);
+    case 'Object':
+      return { class: value.className, ...Object.fromEntries(value.properties.map(([name, item]) => [name, convert(item)])) };
+    case 'Constructor':
+      return constructorToJson(value, convert);
+  }
+}
+
+function constructorToJson(value: VariantConstructor, convert: (item: Variant) => unknown): unknown {
+  const components = COMPONENTS[value.type];
+  if (components && value.args.length === components.length) {
+    return Object.fromEntries(components.map((name, index) => [name, convert(value.args[index])]));
+  }
+  if ((value.type === 'Rect2' || value.type === 'Rect2i') && value.args.length === 4) {
+    return { position: { x: value.args[0], y: value.args[1] }, size: { x: value.args[2], y: value.args[3] } };
+  }
+  const packedItem = PACKED_ITEMS[value.type];
+  if (packedItem) {
+    const size = COMPONENTS[packedItem].length;
+    const items: unknown[] = [];
+    for (let index = 0; index + size <= value.args.length; index += size) {
+      items.push(constructorToJson({ kind: 'Constructor', type: packedItem, args: value.args.slice(index, index + size) }, convert));
+    }
+    return items;
+  }
+  if (value.type.startsWith('Packed') && value.type.endsWith('Array')) {
+    return value.args.map(convert);
+  }
+  return { type: value.type, args: value.args.map(convert) };
+}
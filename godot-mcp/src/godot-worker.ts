@@ -0,0 +1,523 @@
+/**
+ * Godot Worker for the Godot MCP Server
+ *
+ * This module keeps a long-lived headless Godot process per project running
+ * godot_operations.gd in worker mode. Operations are sent as JSON-RPC requests
+ * over stdin, one per line, so consecutive tool calls reuse a warm engine
+ * instead of booting Godot for every operation.
+ */
+
+import { spawn, ChildProcess } from 'child_process';
+import { existsSync, statSync } from 'fs';
+import { join } from 'path';
+
+/**
+ * Marker printed by the worker once the engine is ready for requests
+ */
+const WORKER_READY_MARKER = '[MCP-WORKER-READY]';
+
+/**
+ * Marker printed on stdout and stderr after each request
+ */
+const WORKER_END_MARKER = '[MCP-WORKER-END]';
+
+/**
+ * Interface for worker configuration
+ */
+export interface GodotWorkerOptions {
+  godotPath: string;
+  projectPath: string;
+  operationsScriptPath: string;
+  godotDebugMode?: boolean;
+  debugMode?: boolean;
+  startupTimeout?: number; // Milliseconds to wait for the worker to become ready
+  requestTimeout?: number; // Milliseconds to wait for a single operation
+  maxRestarts?: number; // Crash restarts allowed per minute
+  maxRequests?: number; // Requests served before the worker is recycled
+  idleTimeout?: number; // Milliseconds of inactivity before the worker is stopped
+}
+
+/**
+ * Interface for the options of a single worker request
+ */
+export interface WorkerRequestOptions {
+  timeout?: number; // Milliseconds to wait for this operation (defaults to requestTimeout)
+  signal?: AbortSignal; // Stops the worker when aborted
+  onStdoutLine?: (line: string) => void; // Called with each stdout line of the operation as it arrives
+}
+
+/**
+ * Interface for the output of a single worker request
+ */
+export interface WorkerOperationResult {
+  stdout: string;
+  stderr: string;
+}
+
+/**
+ * Error raised by the worker, tagged with the stage that failed
+ */
+export class GodotWorkerError extends Error {
+  constructor(
+    message: string,
+    public readonly reason: 'startup' | 'crash' | 'timeout' | 'cancelled',
+    public readonly stdout: string = '',
+    public readonly stderr: string = ''
+  ) {
+    super(message);
+    this.name = 'GodotWorkerError';
+  }
+}
+
+/**
+ * Interface for the request currently being processed by the worker
+ */
+interface PendingRequest {
+  id: number;
+  stdout: string[];
+  stderr: string[];
+  stdoutDone: boolean;
+  stderrDone: boolean;
+  onStdoutLine?: (line: string) => void;
+  resolve: (result: WorkerOperationResult) => void;
+  reject: (error: GodotWorkerError) => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Persistent headless Godot process for a single project
+ */
+export class GodotWorker {
+  private options: Required<GodotWorkerOptions>;
+  private process: ChildProcess | null = null;
+  private ready: boolean = false;
+  private starting: Promise<void> | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+  private pending: PendingRequest | null = null;
+  private nextRequestId: number = 1;
+  private requestCount: number = 0;
+  private restartTimes: number[] = [];
+  private stopping: boolean = false;
+  private stdoutBuffer: string = '';
+  private stderrBuffer: string = '';
+  private idleTimer: NodeJS.Timeout | null = null;
+  private projectFileModified: number = 0;
+
+  constructor(options: GodotWorkerOptions) {
+    this.options = {
+      godotDebugMode: true,
+      debugMode: false,
+      startupTimeout: 60000,
+      requestTimeout: 120000,
+      maxRestarts: 3,
+      maxRequests: 200,
+      idleTimeout: 600000,
+      ...options,
+    };
+  }
+
+  /**
+   * Log debug messages if debug mode is enabled
+   */
+  private logDebug(message: string): void {
+    if (this.options.debugMode) {
+      console.debug(`[WORKER] ${message}`);
+    }
+  }
+
+  /**
+   * Check if the worker process is running and ready
+   */
+  get isRunning(): boolean {
+    return this.process !== null && this.ready;
+  }
+
+  /**
+   * Godot executable the worker runs
+   */
+  get godotPath(): string {
+    return this.options.godotPath;
+  }
+
+  /**
+   * Execute an operation in the worker
+   * Requests are serialized, the worker handles one operation at a time
+   * @param operation The operation to execute
+   * @param params The snake_case parameters for the operation
+   * @returns The stdout and stderr produced by the operation
+   */
+  execute(operation: string, params: Record<string, any>, options: WorkerRequestOptions = {}): Promise<WorkerOperationResult> {
+    const run = this.queue.then(() => this.send(operation, params, options));
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Stop the worker process
+   */
+  async stop(): Promise<void> {
+    this.stopping = true;
+    this.clearIdleTimer();
+
+    const child = this.process;
+    if (!child) {
+      return;
+    }
+
+    this.logDebug(`Stopping worker for ${this.options.projectPath}`);
+    await new Promise<void>((resolve) => {
+      const killTimer = setTimeout(() => {
+        child.kill('SIGKILL');
+        resolve();
+      }, 2000);
+      child.once('exit', () => {
+        clearTimeout(killTimer);
+        resolve();
+      });
+      try {
+        child.stdin?.write(JSON.stringify({ jsonrpc: '2.0', id: 0, method: 'shutdown' }) + '\n');
+        child.stdin?.end();
+      } catch {
+        child.kill();
+      }
+    });
+  }
+
+  /**
+   * Send a request to the worker and wait for its end markers
+   */
+  private async send(operation: string, params: Record<string, any>, options: WorkerRequestOptions): Promise<WorkerOperationResult> {
+    const timeout = options.timeout ?? this.options.requestTimeout;
+    if (options.signal?.aborted) {
+      throw new GodotWorkerError(`${operation} was cancelled before it started`, 'cancelled');
+    }
+    this.clearIdleTimer();
+
+    // ProjectSettings are loaded once at boot, so restart if project.godot changed elsewhere
+    if (this.isRunning && this.getProjectFileModified() !== this.projectFileModified) {
+      this.logDebug('project.godot changed on disk, restarting worker');
+      await this.stop();
+    }
+
+    await this.ensureStarted();
+
+    const child = this.process!;
+    const id = this.nextRequestId++;
+    let onAbort: (() => void) | null = null;
+
+    const result = await new Promise<WorkerOperationResult>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        const pending = this.pending;
+        this.pending = null;
+        reject(
+          new GodotWorkerError(
+            `Godot worker timed out after ${timeout}ms running ${operation}`,
+            'timeout',
+            pending?.stdout.join('\n'),
+            pending?.stderr.join('\n')
+          )
+        );
+        child.kill('SIGKILL');
+      }, timeout);
+
+      this.pending = {
+        id,
+        stdout: [],
+        stderr: [],
+        stdoutDone: false,
+        stderrDone: false,
+        onStdoutLine: options.onStdoutLine,
+        resolve,
+        reject,
+        timer,
+      };
+
+      // Godot cannot interrupt a running operation, so the worker is stopped
+      // and started again by the next request
+      onAbort = () => {
+        const pending = this.pending;
+        if (pending?.id !== id) {
+          return;
+        }
+        clearTimeout(pending.timer);
+        this.pending = null;
+        reject(
+          new GodotWorkerError(
+            `${operation} was cancelled`,
+            'cancelled',
+            pending.stdout.join('\n'),
+            pending.stderr.join('\n')
+          )
+        );
+        this.logDebug(`Request ${id} cancelled, stopping worker`);
+        this.stopping = true;
+        this.terminate(child);
+      };
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+
+      const request = JSON.stringify({ jsonrpc: '2.0', id, method: operation, params });
+      this.logDebug(`Request ${id}: ${operation}`);
+      child.stdin!.write(request + '\n');
+    }).finally(() => {
+      if (onAbort) {
+        options.signal?.removeEventListener('abort', onAbort);
+      }
+    });
+
+    this.requestCount++;
+    this.projectFileModified = this.getProjectFileModified();
+
+    if (this.requestCount >= this.options.maxRequests) {
+      // Recycle the process to release anything the operations leaked
+      this.logDebug(`Worker served ${this.requestCount} requests, recycling`);
+      await this.stop();
+    } else {
+      this.startIdleTimer();
+    }
+
+    return result;
+  }
+
+  /**
+   * Start the worker process if it isn't running yet
+   */
+  private ensureStarted(): Promise<void> {
+    if (this.isRunning) {
+      return Promise.resolve();
+    }
+    if (!this.starting) {
+      this.starting = this.start().finally(() => {
+        this.starting = null;
+      });
+    }
+    return this.starting;
+  }
+
+  /**
+   * Spawn the worker process and wait for the ready marker
+   */
+  private start(): Promise<void> {
+    const { godotPath, projectPath, operationsScriptPath, godotDebugMode } = this.options;
+    const args = ['--headless', '--path', projectPath, '--script', operationsScriptPath, 'worker', '{}'];
+    if (godotDebugMode) {
+      args.push('--debug-godot');
+    }
+
+    this.logDebug(`Starting worker: ${godotPath} ${args.join(' ')}`);
+    this.stopping = false;
+    this.ready = false;
+    this.requestCount = 0;
+    this.stdoutBuffer = '';
+    this.stderrBuffer = '';
+    this.projectFileModified = this.getProjectFileModified();
+
+    return new Promise<void>((resolve, reject) => {
+      const child = spawn(godotPath, args, { stdio: 'pipe' });
+      this.process = child;
+
+      const startupOutput: string[] = [];
+      const startupTimer = setTimeout(() => {
+        onStartupFailed(`Godot worker did not become ready within ${this.options.startupTimeout}ms`);
+        child.kill('SIGKILL');
+      }, this.options.startupTimeout);
+
+      const onStartupFailed = (message: string) => {
+        clearTimeout(startupTimer);
+        if (!this.ready) {
+          reject(new GodotWorkerError(message, 'startup', startupOutput.join('\n')));
+        }
+      };
+
+      child.stdout?.on('data', (data: Buffer) => {
+        this.stdoutBuffer += data.toString();
+        const lines = this.stdoutBuffer.split('\n');
+        this.stdoutBuffer = lines.pop() ?? '';
+        for (const line of lines) {
+          if (!this.ready) {
+            if (line.includes(WORKER_READY_MARKER)) {
+              clearTimeout(startupTimer);
+              this.ready = true;
+              this.logDebug(`Worker ready for ${projectPath}`);
+              resolve();
+            } else {
+              startupOutput.push(line);
+            }
+            continue;
+          }
+          this.handleLine(line, 'stdout');
+        }
+      });
+
+      child.stderr?.on('data', (data: Buffer) => {
+        this.stderrBuffer += data.toString();
+        const lines = this.stderrBuffer.split('\n');
+        this.stderrBuffer = lines.pop() ?? '';
+        for (const line of lines) {
+          if (!this.ready) {
+            startupOutput.push(line);
+            continue;
+          }
+          this.handleLine(line, 'stderr');
+        }
+      });
+
+      // A closed pipe shows up as an exit, don't let the write error crash the server
+      child.stdin?.on('error', (err: Error) => {
+        this.logDebug(`Worker stdin error: ${err.message}`);
+      });
+
+      child.on('error', (err: Error) => {
+        onStartupFailed(`Failed to start Godot worker: ${err.message}`);
+      });
+
+      child.on('exit', (code: number | null, signal: string | null) => {
+        onStartupFailed(`Godot worker exited during startup (code ${code})`);
+        this.handleExit(child, code, signal);
+      });
+    });
+  }
+
+  /**
+   * Route a complete output line to the pending request
+   */
+  private handleLine(line: string, stream: 'stdout' | 'stderr'): void {
+    const pending = this.pending;
+    if (!pending) {
+      if (line.trim()) this.logDebug(`[${stream}] ${line}`);
+      return;
+    }
+
+    if (line.startsWith(WORKER_END_MARKER)) {
+      if (this.parseEndMarkerId(line) !== pending.id) {
+        return;
+      }
+      if (stream === 'stdout') {
+        pending.stdoutDone = true;
+      } else {
+        pending.stderrDone = true;
+      }
+      if (pending.stdoutDone && pending.stderrDone) {
+        clearTimeout(pending.timer);
+        this.pending = null;
+        pending.resolve({
+          stdout: pending.stdout.join('\n'),
+          stderr: pending.stderr.join('\n'),
+        });
+      }
+      return;
+    }
+
+    if (stream === 'stdout') {
+      pending.stdout.push(line);
+      pending.onStdoutLine?.(line);
+    } else {
+      pending.stderr.push(line);
+    }
+  }
+
+  /**
+   * Extract the request id from an end marker line
+   */
+  private parseEndMarkerId(line: string): number | null {
+    try {
+      const response = JSON.parse(line.slice(WORKER_END_MARKER.length).trim());
+      return typeof response.id === 'number' ? response.id : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Handle the worker process exiting, restarting it after a crash
+   */
+  private handleExit(child: ChildProcess, code: number | null, signal: string | null): void {
+    if (this.process !== child) {
+      return;
+    }
+
+    this.logDebug(`Worker exited with code ${code}${signal ? ` (signal ${signal})` : ''}`);
+    this.process = null;
+    const wasReady = this.ready;
+    this.ready = false;
+
+    const pending = this.pending;
+    if (pending) {
+      clearTimeout(pending.timer);
+      this.pending = null;
+      pending.reject(
+        new GodotWorkerError(
+          `Godot worker exited unexpectedly (code ${code})`,
+          'crash',
+          pending.stdout.join('\n'),
+          pending.stderr.join('\n')
+        )
+      );
+    }
+
+    if (this.stopping || !wasReady) {
+      return;
+    }
+
+    // Restart after a crash, unless the worker keeps crashing
+    const now = Date.now();
+    this.restartTimes = this.restartTimes.filter((time) => now - time < 60000);
+    if (this.restartTimes.length >= this.options.maxRestarts) {
+      console.error(`[WORKER] Godot worker for ${this.options.projectPath} crashed too often, not restarting until the next request`);
+      return;
+    }
+    this.restartTimes.push(now);
+
+    this.logDebug('Restarting worker after crash');
+    this.ensureStarted().catch((error: unknown) => {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(`[WORKER] Failed to restart Godot worker: ${errorMessage}`);
+    });
+  }
+
+  /**
+   * Ask a process to quit, killing it if it is still running after a grace period
+   */
+  private terminate(child: ChildProcess): void {
+    const killTimer = setTimeout(() => child.kill('SIGKILL'), 2000);
+    killTimer.unref();
+    child.once('exit', () => clearTimeout(killTimer));
+    child.kill();
+  }
+
+  /**
+   * Get the modification time of project.godot
+   */
+  private getProjectFileModified(): number {
+    const projectFile = join(this.options.projectPath, 'project.godot');
+    try {
+      return existsSync(projectFile) ? statSync(projectFile).mtimeMs : 0;
+    } catch {
+      return 0;
+    }
+  }
+
+  /**
+   * Stop the worker after a period without requests
+   */
+  private startIdleTimer(): void {
+    this.clearIdleTimer();
+    if (this.options.idleTimeout <= 0) {
+      return;
+    }
+    this.idleTimer = setTimeout(() => {
+      this.logDebug(`Worker idle for ${this.options.idleTimeout}ms, stopping`);
+      this.stop().catch(() => undefined);
+    }, this.options.idleTimeout);
+    this.idleTimer.unref();
+  }
+
+  /**
+   * Clear the idle timer
+   */
+  private clearIdleTimer(): void {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+  }
+}
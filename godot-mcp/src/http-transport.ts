@@ -0,0 +1,313 @@
+/**
+ * HTTP/SSE Transport for the Godot MCP Server
+ *
+ * This module exposes the MCP server over HTTP using Server-Sent Events, so
+ * several clients can share one server process (and one running game) instead
+ * of each client spawning its own server over stdio.
+ *
+ * Endpoints:
+ * - GET  /sse       opens an SSE stream and starts a new MCP session
+ * - POST /messages  delivers a client message to the session in ?sessionId=
+ * - GET  /health    reports server status; details need the token when one is set
+ *
+ * Every request must name the listening host in its Host header, and a
+ * browser Origin must be one of those hosts, so a web page cannot reach a
+ * loopback server through DNS rebinding.
+ */
+
+import { createServer, IncomingMessage, Server as HttpServer, ServerResponse } from 'http';
+import { timingSafeEqual } from 'crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+
+/**
+ * Interface for HTTP transport configuration
+ */
+export interface HttpTransportOptions {
+  host?: string; // Interface to listen on (defaults to 127.0.0.1)
+  port?: number; // Port to listen on (defaults to 3939)
+  authToken?: string; // Bearer token required on /sse and /messages when set; required off loopback
+  allowedHosts?: string[]; // Other host names clients may connect with, e.g. when listening on 0.0.0.0
+  createServer: () => Server; // Creates the MCP server instance for a new session
+  getHealth?: () => Record<string, unknown>; // Extra fields reported by /health
+  debugMode?: boolean;
+}
+
+/**
+ * Interface for a connected SSE session
+ */
+interface HttpSession {
+  server: Server;
+  transport: SSEServerTransport;
+}
+
+const SSE_PATH = '/sse';
+const MESSAGES_PATH = '/messages';
+const HEALTH_PATH = '/health';
+const LOOPBACK_NAMES = ['localhost', '127.0.0.1', '[::1]'];
+
+/**
+ * Error raised when the transport is configured in a way that would expose the server
+ */
+export class HttpTransportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'HttpTransportError';
+  }
+}
+
+/**
+ * Whether a host only accepts connections from this machine
+ */
+export function isLoopbackHost(host: string): boolean {
+  return host === 'localhost' || host === '::1' || /^127(\.\d{1,3}){3}$/.test(host);
+}
+
+/**
+ * HTTP server hosting one MCP session per SSE connection
+ */
+export class HttpTransportHost {
+  private options: HttpTransportOptions;
+  private httpServer: HttpServer | null = null;
+  private sessions: Map<string, HttpSession> = new Map();
+
+  constructor(options: HttpTransportOptions) {
+    this.options = {
+      host: '127.0.0.1',
+      port: 3939,
+      debugMode: false,
+      ...options,
+    };
+  }
+
+  /**
+   * Log debug messages if debug mode is enabled
+   */
+  private logDebug(message: string): void {
+    if (this.options.debugMode) {
+      console.debug(`[HTTP] ${message}`);
+    }
+  }
+
+  /**
+   * Address the server is listening on, e.g. "http://127.0.0.1:3939"
+   */
+  get url(): string {
+    const address = this.httpServer?.address();
+    const port = address && typeof address === 'object' ? address.port : this.options.port;
+    return `http://${this.options.host}:${port}`;
+  }
+
+  /**
+   * MCP server instances of all connected sessions
+   */
+  get servers(): Server[] {
+    return Array.from(this.sessions.values()).map(session => session.server);
+  }
+
+  /**
+   * Start listening for HTTP connections
+   */
+  async start(): Promise<void> {
+    if (this.httpServer) {
+      return;
+    }
+    const host = this.options.host!;
+    if (!this.options.authToken && !isLoopbackHost(host)) {
+      throw new HttpTransportError(`HTTP transport on ${host} needs an auth token. Set GODOT_MCP_HTTP_TOKEN, or listen on 127.0.0.1`);
+    }
+
+    const httpServer = createServer((req, res) => {
+      this.handleRequest(req, res).catch(error => {
+        console.error('[HTTP] Request failed:', error instanceof Error ? error.message : error);
+        if (!res.headersSent) {
+          this.sendJson(res, 500, { error: 'Internal server error' });
+        }
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      httpServer.once('error', reject);
+      httpServer.listen(this.options.port, this.options.host, () => {
+        httpServer.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.httpServer = httpServer;
+  }
+
+  /**
+   * Close every session and stop listening
+   */
+  async stop(): Promise<void> {
+    const sessions = Array.from(this.sessions.values());
+    this.sessions.clear();
+    await Promise.all(sessions.map(session => session.server.close().catch(() => undefined)));
+
+    const httpServer = this.httpServer;
+    this.httpServer = null;
+    if (httpServer) {
+      await new Promise<void>(resolve => httpServer.close(() => resolve()));
+    }
+  }
+
+  /**
+   * Route an incoming HTTP request
+   */
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+    this.logDebug(`${req.method} ${url.pathname}`);
+
+    if (!this.isAllowedHost(req.headers.host) || !this.isAllowedOrigin(req.headers.origin)) {
+      this.logDebug(`Rejected host ${req.headers.host ?? ''}, origin ${req.headers.origin ?? ''}`);
+      this.sendJson(res, 403, { error: 'Forbidden' });
+      return;
+    }
+
+    if (req.method === 'GET' && url.pathname === HEALTH_PATH) {
+      // Paths, versions and the policy are only reported to clients holding the token
+      if (!this.isAuthorized(req, url)) {
+        this.sendJson(res, 200, { status: 'ok' });
+        return;
+      }
+      this.sendJson(res, 200, {
+        status: 'ok',
+        sessions: this.sessions.size,
+        ...(this.options.getHealth ? this.options.getHealth() : {}),
+      });
+      return;
+    }
+
+    if (url.pathname !== SSE_PATH && url.pathname !== MESSAGES_PATH) {
+      this.sendJson(res, 404, { error: 'Not found' });
+      return;
+    }
+
+    if (!this.isAuthorized(req, url)) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      this.sendJson(res, 401, { error: 'Unauthorized' });
+      return;
+    }
+
+    if (req.method === 'GET' && url.pathname === SSE_PATH) {
+      await this.openSession(res);
+      return;
+    }
+
+    if (req.method === 'POST' && url.pathname === MESSAGES_PATH) {
+      const sessionId = url.searchParams.get('sessionId');
+      const session = sessionId ? this.sessions.get(sessionId) : undefined;
+      if (!session) {
+        this.sendJson(res, 404, { error: `Unknown session: ${sessionId ?? ''}` });
+        return;
+      }
+      await session.transport.handlePostMessage(req, res);
+      return;
+    }
+
+    res.setHeader('Allow', url.pathname === SSE_PATH ? 'GET' : 'POST');
+    this.sendJson(res, 405, { error: 'Method not allowed' });
+  }
+
+  /**
+   * Start a new MCP session on an SSE response stream
+   */
+  private async openSession(res: ServerResponse): Promise<void> {
+    const transport = new SSEServerTransport(MESSAGES_PATH, res);
+    const server = this.options.createServer();
+    const sessionId = transport.sessionId;
+
+    this.sessions.set(sessionId, { server, transport });
+    server.onclose = () => {
+      this.sessions.delete(sessionId);
+      this.logDebug(`Session closed: ${sessionId}`);
+    };
+
+    await server.connect(transport);
+    this.logDebug(`Session opened: ${sessionId}`);
+  }
+
+  /**
+   * Host names, with their port, that requests may be addressed to
+   */
+  private allowedHosts(): Set<string> {
+    const address = this.httpServer?.address();
+    const port = address && typeof address === 'object' ? address.port : this.options.port;
+    const host = this.options.host!;
+    const names = [host, ...(this.options.allowedHosts ?? [])];
+    if (isLoopbackHost(host)) {
+      names.push(...LOOPBACK_NAMES);
+    }
+    return new Set(names.map(name => `${hostName(name)}:${port}`));
+  }
+
+  /**
+   * Check the Host header against the listening host
+   */
+  private isAllowedHost(header: string | undefined): boolean {
+    const host = header ? hostWithPort(`http://${header}`) : null;
+    return host !== null && this.allowedHosts().has(host);
+  }
+
+  /**
+   * Check the Origin header of a browser request. Clients other than browsers send none.
+   */
+  private isAllowedOrigin(header: string | undefined): boolean {
+    if (header === undefined) {
+      return true;
+    }
+    const origin = hostWithPort(header);
+    return origin !== null && this.allowedHosts().has(origin);
+  }
+
+  /**
+   * Check the bearer token of a request. EventSource clients cannot set
+   * headers, so the token is also accepted as an access_token query parameter.
+   */
+  private isAuthorized(req: IncomingMessage, url: URL): boolean {
+    const expected = this.options.authToken;
+    if (!expected) {
+      return true;
+    }
+
+    const header = req.headers.authorization || '';
+    const match = header.match(/^Bearer\s+(.+)$/i);
+    const provided = match ? match[1].trim() : url.searchParams.get('access_token') || '';
+
+    const expectedBuffer = Buffer.from(expected);
+    const providedBuffer = Buffer.from(provided);
+    return expectedBuffer.length === providedBuffer.length && timingSafeEqual(expectedBuffer, providedBuffer);
+  }
+
+  /**
+   * Write a JSON response
+   */
+  private sendJson(res: ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+}
+
+/**
+ * Host name as it appears in a URL, with IPv6 addresses in brackets
+ */
+function hostName(host: string): string {
+  const name = host.toLowerCase();
+  return name.includes(':') && !name.startsWith('[') ? `[${name}]` : name;
+}
+
+/**
+ * "host:port" of an http(s) URL, or null if it is not one
+ */
+function hostWithPort(value: string): string | null {
+  try {
+    const url = new URL(value);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      return null;
+    }
+    return `${url.hostname}:${url.port || (url.protocol === 'https:' ? '443' : '80')}`;
+  } catch {
+    return null;
+  }
+}
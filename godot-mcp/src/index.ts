@@ -8,22 +8,57 @@
  */
 
 import { fileURLToPath } from 'url';
-import { join, dirname, basename, normalize } from 'path';
-import { existsSync, readdirSync, mkdirSync } from 'fs';
+import { join, dirname, basename, normalize, resolve, delimiter } from 'path';
+import { existsSync, readdirSync, readFileSync, mkdirSync, writeFileSync } from 'fs';
 import { spawn } from 'child_process';
-import { promisify } from 'util';
-import { exec } from 'child_process';
+import { randomUUID } from 'crypto';
 
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
   CallToolRequestSchema,
   ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
   McpError,
+  ReadResourceRequestSchema,
+  SetLevelRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
-import { VersionValidator, GodotVersion } from './version-validator.js';
+import { VersionValidator, GodotVersion, EngineFeature, FEATURE_RELEASES } from './version-validator.js';
 import { DocumentationModule, ClassInfo, MethodInfo, SearchResult, BestPractice } from './documentation-module.js';
+import { GodotWorker, GodotWorkerError } from './godot-worker.js';
+import { EngineVersion, GodotInstallations, formatEngineVersion, projectEngineVersion } from './godot-installations.js';
+import { HttpTransportHost } from './http-transport.js';
+import { ProcessManager, ProcessSession, ProcessSessionError } from './process-manager.js';
+import { DEFAULT_SESSION_LOG_LINES, LogLine } from './session-log.js';
+import { LogMessage, LogSubscriptions, exitMessage, lineMessage } from './log-streams.js';
+import { ProjectResources, ProjectResourceChange, ProjectResourceError } from './project-resources.js';
+import { SceneQueryError, listAssets, listNodeSignals, queryNode } from './scene-query.js';
+import { SceneDiffError, diffScenes, summarizeDiff } from './scene-diff.js';
+import { GitFileError, MERGE_STAGES, readIndexStage, readRevision } from './git-files.js';
+import { mergeScenes } from './scene-merge.js';
+import { DependencyEdge, DependencyGraph, DependencyGraphError } from './dependency-graph.js';
+import { ProjectSetting, ProjectSettingsError, featureOverrides, filterSettings, readProjectSettings, settingValue } from './project-settings.js';
+import { ProjectConfig, ProjectConfigError, ProjectConfigStore, isToolEnabled } from './project-config.js';
+import { PROMPT_DEFINITIONS, ProjectPromptError, readProjectContext, renderPrompt } from './project-prompts.js';
+import { CursorError, OutputFormat, ResultPager, ToolResult, isOutputFormat, jsonResult, toJsonResult } from './output-format.js';
+import { TOOL_DEFINITIONS, ToolArgs, ToolName, getToolDefinition } from './tool-definitions.js';
+import { TOOL_ACCESS, ToolPolicy, ToolPolicyError, parseList, writeTargets } from './tool-policy.js';
+import { UnsupportedToolMode, gateTools, missingFeatures, needsFeatures, unsupportedMessage } from './tool-requirements.js';
+import { PathSandbox, PathSandboxError } from './path-sandbox.js';
+import { ChangeEntry, ChangeHistory, ChangeHistoryError, FileChange, entryDiff } from './change-history.js';
+import { DryRunWorkspace } from './dry-run.js';
+import { fileDiff } from './text-diff.js';
+import { TextResource, TextResourceError } from './text-resource.js';
+import { parseVariant, variantEquals, variantToJson } from './godot-variant.js';
+import { ProcessLaunchError, describeFailure, formatCommand, launchProcess, runProcess } from './process-launcher.js';
+import { ProgressLineReader, ProgressUpdate, ToolCallContext, stripProgressLines } from './tool-progress.js';
+import { ToolArgumentError, ToolDefinition, camelToSnakeCase, normalizeArgumentKeys, validateArguments } from './tool-schema.js';
 
 /**
  * Debug Module Interfaces
@@ -83,6 +118,7 @@ interface SceneRunResult {
   output: string[];
   errors: ErrorInfo[];
   exitCode: number;
+  timedOut?: boolean; // Stopped by the project's run timeout
 }
 
 /**
@@ -173,33 +209,165 @@ interface ToggleDebugDrawParams {
   viewport?: string; // Path to specific Viewport node
 }
 
+/**
+ * Batch Operations Interfaces
+ */
+interface BatchStep {
+  operation: string;
+  params: OperationParams;
+}
+
+interface BatchStepResult {
+  index: number;
+  operation: string;
+  success: boolean;
+  skipped?: boolean;
+  message?: string;
+  error?: string;
+}
+
+interface BatchResult {
+  success: boolean;
+  scene_path: string;
+  saved_to: string;
+  rolled_back: boolean;
+  failed_step: number;
+  error?: string;
+  steps: BatchStepResult[];
+}
+
 // Check if debug mode is enabled
 const DEBUG_MODE: boolean = process.env.DEBUG === 'true';
 const GODOT_DEBUG_MODE: boolean = true; // Always use GODOT DEBUG MODE
+// Persistent worker processes are used unless explicitly disabled
+const WORKER_MODE: boolean = process.env.GODOT_MCP_WORKER !== 'false';
+// Default output format of tool results: "markdown" (default) or "json"
+const OUTPUT_FORMAT: OutputFormat = process.env.GODOT_MCP_FORMAT === 'json' ? 'json' : 'markdown';
+// Milliseconds allowed for `godot --version`
+const VERSION_TIMEOUT = 10000;
+// Extra Godot executables, or directories containing them, separated like PATH
+const GODOT_PATHS: string[] = (process.env.GODOT_MCP_GODOT_PATHS || '').split(delimiter).filter(path => path.trim() !== '');
+// PATH and the common install directories are searched for Godot unless disabled
+const DISCOVER_INSTALLATIONS: boolean = process.env.GODOT_MCP_DISCOVER !== 'false';
+// Tools the engine of the active project cannot run are "mark"ed in tools/list (default) or hidden ("hide")
+const UNSUPPORTED_TOOLS: UnsupportedToolMode = process.env.GODOT_MCP_UNSUPPORTED_TOOLS === 'hide' ? 'hide' : 'mark';
+// Output lines kept per run_project or run_with_debug session unless the call sets maxLogLines
+const SESSION_LOG_LINES: number = parseInt(process.env.GODOT_MCP_SESSION_LOG_LINES || '', 10) || DEFAULT_SESSION_LOG_LINES;
+// Transports to serve: "stdio" (default), "http" or "both"
+const TRANSPORT_MODE: string = process.env.GODOT_MCP_TRANSPORT || 'stdio';
+// Tool policy: read-only mode, denied tools and globs that limit which files write tools change
+const READ_ONLY_MODE: boolean = process.env.GODOT_MCP_READ_ONLY === 'true';
+const DENIED_TOOLS: string[] = parseList(process.env.GODOT_MCP_DENY_TOOLS);
+const WRITE_PATHS: string[] = parseList(process.env.GODOT_MCP_WRITE_PATHS);
+// Directories projects must live in, separated like PATH (unrestricted when unset)
+const ALLOWED_ROOTS: string[] = (process.env.GODOT_MCP_ALLOWED_ROOTS || '').split(delimiter).filter(root => root.trim() !== '');
 
-const execAsync = promisify(exec);
+/**
+ * Tool arguments holding paths inside the project (relative, res:// or user://)
+ */
+const PROJECT_PATH_ARGUMENTS: string[] = [
+  'scenePath',
+  'scene',
+  'scriptPath',
+  'script',
+  'filePath',
+  'texturePath',
+  'assetPath',
+  'resourcePath',
+  'themePath',
+  'newPath',
+  'otherScenePath',
+  'basePath',
+  'oursPath',
+  'theirsPath',
+  'outputPath',
+  'directory',
+];
 
-// Derive __filename and __dirname in ESM
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
+/**
+ * Operations that always run in a fresh Godot process instead of the worker:
+ * they need rendering, add nodes to the live scene tree or change viewport state
+ */
+const ONE_SHOT_OPERATIONS: Set<string> = new Set([
+  'capture_screenshot',
+  'remote_tree_dump',
+  'toggle_debug_draw',
+]);
 
 /**
- * Interface representing a running Godot process
+ * Operations that can be used as steps of a batch_operations call
  */
-interface GodotProcess {
-  process: any;
-  output: string[];
-  errors: string[];
+const BATCH_OPERATIONS: Set<string> = new Set([
+  'add_node',
+  'remove_node',
+  'modify_node',
+  'duplicate_node',
+  'attach_script',
+  'connect_signal',
+  'disconnect_signal',
+  'save_scene',
+]);
+
+/**
+ * Last lines of each stream returned by stop_project. The rest stays
+ * readable with get_debug_output.
+ */
+const STOPPED_SESSION_TAIL = 100;
+
+/**
+ * Tools whose JSON output is paged, with the name of the paged list
+ */
+const PAGED_TOOLS: Record<string, string> = {
+  run_scene: 'output',
+  run_with_debug: 'output',
+  remote_tree_dump: 'nodes',
+  list_missing_assets: 'missing',
+};
+
+
+/**
+ * Check whether a tool's changes can be previewed with dryRun: it writes
+ * project files and the files it writes are known in advance
+ */
+function supportsDryRun(name: string): boolean {
+  return TOOL_ACCESS[name as ToolName] === 'write' && writeTargets(name, {}) !== null;
 }
 
+// Derive __filename and __dirname in ESM
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
 /**
  * Interface for server configuration
  */
 interface GodotServerConfig {
   godotPath?: string;
+  godotPaths?: string[]; // Extra Godot executables, or directories containing them
+  discoverInstallations?: boolean; // Search PATH and common install directories for Godot
+  unsupportedTools?: UnsupportedToolMode; // Hide or mark tools the engine of the active project cannot run
   debugMode?: boolean;
   godotDebugMode?: boolean;
   strictPathValidation?: boolean; // New option to control path validation behavior
+  useWorker?: boolean; // Keep a persistent headless Godot worker per project
+  transport?: 'stdio' | 'http' | 'both'; // Transports to serve
+  httpHost?: string; // Host for the HTTP/SSE transport
+  httpPort?: number; // Port for the HTTP/SSE transport
+  httpAuthToken?: string; // Bearer token required by the HTTP/SSE transport
+  httpAllowedHosts?: string[]; // Other host names HTTP clients may connect with
+  outputFormat?: OutputFormat; // Default format of tool results
+  readOnly?: boolean; // Only allow tools that do not change or run the project
+  deniedTools?: string[]; // Tools that may never be called
+  writePaths?: string[]; // Project-relative globs that files changed by write tools must match
+  allowedRoots?: string[]; // Directories projects must live in
+}
+
+/**
+ * Interface for the output options of a tool call
+ */
+interface OutputOptions {
+  format: OutputFormat;
+  limit?: number; // Items per page in JSON mode
+  cursorScope: string; // Tool and client session that may page through the result
 }
 
 /**
@@ -214,51 +382,56 @@ interface OperationParams {
  */
 class GodotServer {
   private server: Server;
-  private activeProcess: GodotProcess | null = null;
+  private processManager: ProcessManager = new ProcessManager({
+    maxLogLines: SESSION_LOG_LINES,
+    debugMode: DEBUG_MODE,
+    onLogLine: (session, line) => this.streamLogMessage(session.id, lineMessage(session.id, line), line),
+    onSessionEnd: session => this.streamLogMessage(session.id, exitMessage({
+      sessionId: session.id,
+      status: session.status === 'failed' ? 'failed' : 'exited',
+      exitCode: session.exitCode,
+      exitSignal: session.exitSignal,
+    })),
+  });
   private godotPath: string | null = null;
   private operationsScriptPath: string;
   private validatedPaths: Map<string, boolean> = new Map();
+  private installations: GodotInstallations;
+  private validatedVersions: Map<string, GodotVersion> = new Map(); // Versions of executables other than the default
   private strictPathValidation: boolean = false;
   private godotVersion: GodotVersion | null = null;
   private versionValidated: boolean = false;
-  private documentationModule: DocumentationModule | null = null;
-
-  /**
-   * Parameter name mappings between snake_case and camelCase
-   * This allows the server to accept both formats
-   */
-  private parameterMappings: Record<string, string> = {
-    'project_path': 'projectPath',
-    'scene_path': 'scenePath',
-    'root_node_type': 'rootNodeType',
-    'parent_node_path': 'parentNodePath',
-    'node_type': 'nodeType',
-    'node_name': 'nodeName',
-    'texture_path': 'texturePath',
-    'node_path': 'nodePath',
-    'output_path': 'outputPath',
-    'mesh_item_names': 'meshItemNames',
-    'new_path': 'newPath',
-    'file_path': 'filePath',
-    'directory': 'directory',
-    'recursive': 'recursive',
-    'scene': 'scene',
-  };
-
-  /**
-   * Reverse mapping from camelCase to snake_case
-   * Generated from parameterMappings for quick lookups
-   */
-  private reverseParameterMappings: Record<string, string> = {};
+  private useWorker: boolean = WORKER_MODE;
+  private workers: Map<string, GodotWorker> = new Map();
+  private transportMode: string = TRANSPORT_MODE;
+  private httpHost: string = process.env.GODOT_MCP_HTTP_HOST || '127.0.0.1';
+  private httpPort: number = parseInt(process.env.GODOT_MCP_HTTP_PORT || '3939', 10);
+  private httpAuthToken: string | undefined = process.env.GODOT_MCP_HTTP_TOKEN || undefined;
+  private httpAllowedHosts: string[] = parseList(process.env.GODOT_MCP_HTTP_ALLOWED_HOSTS);
+  private httpTransport: HttpTransportHost | null = null;
+  private projectResources: ProjectResources;
+  private resourceSubscriptions: WeakMap<Server, Set<string>> = new WeakMap();
+  private logSubscriptions: WeakMap<Server, LogSubscriptions> = new WeakMap();
+  private outputFormat: OutputFormat = OUTPUT_FORMAT;
+  private unsupportedTools: UnsupportedToolMode = UNSUPPORTED_TOOLS;
+  private resultPager: ResultPager = new ResultPager();
+  private projectConfigs: ProjectConfigStore = new ProjectConfigStore();
+  private documentationModules: Map<string, DocumentationModule> = new Map();
+  private toolPolicy: ToolPolicy;
+  private pathSandbox: PathSandbox;
+  private changeHistory: ChangeHistory = new ChangeHistory();
+  private dryRunRoots: Set<string> = new Set(); // Temporary project copies of running dry runs
 
   constructor(config?: GodotServerConfig) {
-    // Initialize reverse parameter mappings
-    for (const [snakeCase, camelCase] of Object.entries(this.parameterMappings)) {
-      this.reverseParameterMappings[camelCase] = snakeCase;
-    }
     // Apply configuration if provided
     let debugMode = DEBUG_MODE;
     let godotDebugMode = GODOT_DEBUG_MODE;
+    let readOnly = READ_ONLY_MODE;
+    let deniedTools = DENIED_TOOLS;
+    let writePaths = WRITE_PATHS;
+    let allowedRoots = ALLOWED_ROOTS;
+    let godotPaths = GODOT_PATHS;
+    let discoverInstallations = DISCOVER_INSTALLATIONS;
 
     if (config) {
       if (config.debugMode !== undefined) {
@@ -270,6 +443,48 @@ class GodotServer {
       if (config.strictPathValidation !== undefined) {
         this.strictPathValidation = config.strictPathValidation;
       }
+      if (config.useWorker !== undefined) {
+        this.useWorker = config.useWorker;
+      }
+      if (config.transport !== undefined) {
+        this.transportMode = config.transport;
+      }
+      if (config.httpHost !== undefined) {
+        this.httpHost = config.httpHost;
+      }
+      if (config.httpPort !== undefined) {
+        this.httpPort = config.httpPort;
+      }
+      if (config.httpAuthToken !== undefined) {
+        this.httpAuthToken = config.httpAuthToken;
+      }
+      if (config.httpAllowedHosts !== undefined) {
+        this.httpAllowedHosts = config.httpAllowedHosts;
+      }
+      if (config.outputFormat !== undefined) {
+        this.outputFormat = config.outputFormat;
+      }
+      if (config.readOnly !== undefined) {
+        readOnly = config.readOnly;
+      }
+      if (config.deniedTools !== undefined) {
+        deniedTools = config.deniedTools;
+      }
+      if (config.writePaths !== undefined) {
+        writePaths = config.writePaths;
+      }
+      if (config.allowedRoots !== undefined) {
+        allowedRoots = config.allowedRoots;
+      }
+      if (config.godotPaths !== undefined) {
+        godotPaths = config.godotPaths;
+      }
+      if (config.discoverInstallations !== undefined) {
+        discoverInstallations = config.discoverInstallations;
+      }
+      if (config.unsupportedTools !== undefined) {
+        this.unsupportedTools = config.unsupportedTools;
+      }
 
       // Store and validate custom Godot path if provided
       if (config.godotPath) {
@@ -285,36 +500,318 @@ class GodotServer {
       }
     }
 
+    this.toolPolicy = new ToolPolicy({ readOnly, deniedTools, writePaths });
+    this.pathSandbox = new PathSandbox(allowedRoots);
+    this.installations = new GodotInstallations({
+      configuredPaths: godotPaths,
+      discover: discoverInstallations,
+      versionTimeout: VERSION_TIMEOUT,
+      debugMode,
+    });
+
     // Set the path to the operations script
     this.operationsScriptPath = join(__dirname, 'scripts', 'godot_operations.gd');
     if (debugMode) console.debug(`[DEBUG] Operations script path: ${this.operationsScriptPath}`);
 
-    // Initialize the MCP server
-    this.server = new Server(
+    // Expose project files as resources, starting with GODOT_PROJECT_PATH if set
+    this.projectResources = new ProjectResources(change => this.notifyResourceChange(change), this.pathSandbox, debugMode);
+    if (process.env.GODOT_PROJECT_PATH) {
+      try {
+        this.projectResources.setProject(process.env.GODOT_PROJECT_PATH);
+      } catch (error: unknown) {
+        if (!(error instanceof PathSandboxError)) {
+          throw error;
+        }
+        console.error(`[SERVER] Not exposing GODOT_PROJECT_PATH: ${error.message}`);
+      }
+    }
+
+    // Initialize the MCP server used by the stdio transport
+    this.server = this.createServer();
+
+    // Cleanup on exit
+    process.on('SIGINT', async () => {
+      await this.cleanup();
+      process.exit(0);
+    });
+  }
+
+  /**
+   * Create an MCP server instance with all handlers registered.
+   * Every HTTP/SSE session gets its own instance; all of them share this
+   * GodotServer's state (running project, workers, caches).
+   */
+  private createServer(): Server {
+    const server = new Server(
       {
         name: 'godot-mcp',
         version: '0.1.0',
       },
       {
         capabilities: {
-          tools: {},
+          tools: {
+            listChanged: true,
+          },
+          resources: {
+            subscribe: true,
+            listChanged: true,
+          },
+          prompts: {},
+          logging: {},
         },
       }
     );
 
-    // Set up tool handlers
-    this.setupToolHandlers();
+    // Set up tool, resource, prompt and logging handlers
+    this.setupToolHandlers(server);
+    this.setupResourceHandlers(server);
+    this.setupPromptHandlers(server);
+    this.setupLoggingHandlers(server);
 
     // Error handling
-    this.server.onerror = (error) => console.error('[MCP Error]', error);
+    server.onerror = (error) => console.error('[MCP Error]', error);
 
-    // Cleanup on exit
-    process.on('SIGINT', async () => {
-      await this.cleanup();
-      process.exit(0);
+    return server;
+  }
+
+  /**
+   * MCP server instances with a client attached, across all transports
+   */
+  private connectedServers(): Server[] {
+    return [this.server, ...(this.httpTransport ? this.httpTransport.servers : [])];
+  }
+
+  /**
+   * Set up the resource handlers for an MCP server
+   */
+  private setupResourceHandlers(server: Server) {
+    const subscriptions: Set<string> = new Set();
+    this.resourceSubscriptions.set(server, subscriptions);
+
+    server.setRequestHandler(ListResourcesRequestSchema, async (request) =>
+      this.projectResources.list(request.params?.cursor)
+    );
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: this.projectResources.listTemplates(),
+    }));
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      try {
+        return { contents: [this.projectResources.read(request.params.uri)] };
+      } catch (error: unknown) {
+        if (error instanceof ProjectResourceError) {
+          throw new McpError(ErrorCode.InvalidParams, error.message);
+        }
+        throw error;
+      }
+    });
+
+    server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      subscriptions.add(request.params.uri);
+      return {};
+    });
+
+    server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      subscriptions.delete(request.params.uri);
+      return {};
+    });
+  }
+
+  /**
+   * Set up the prompt handlers for an MCP server
+   */
+  private setupPromptHandlers(server: Server) {
+    server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+      prompts: PROMPT_DEFINITIONS,
+    }));
+
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      const args: Record<string, string> = request.params.arguments || {};
+      const projectPath = args.projectPath || this.projectResources.activeProject;
+      if (!projectPath || !this.validatePath(projectPath)) {
+        throw new McpError(ErrorCode.InvalidParams, 'Provide a valid projectPath argument');
+      }
+
+      try {
+        this.pathSandbox.resolveDirectory(projectPath);
+        const context = readProjectContext(projectPath);
+        const prompt = renderPrompt(request.params.name, { ...args, projectPath }, context);
+        return { description: prompt.description, messages: prompt.messages };
+      } catch (error: unknown) {
+        if (error instanceof ProjectPromptError || error instanceof PathSandboxError) {
+          throw new McpError(ErrorCode.InvalidParams, error.message);
+        }
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Set up the logging handlers for an MCP server. Session output is only
+   * sent to clients that subscribed with subscribe_session_output.
+   */
+  private setupLoggingHandlers(server: Server) {
+    const subscriptions = new LogSubscriptions();
+    this.logSubscriptions.set(server, subscriptions);
+
+    server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+      subscriptions.minimumLevel = request.params.level;
+      return {};
     });
   }
 
+  /**
+   * Send a logging message about a session to every client subscribed to it
+   * @param line The line of output the message is about, if any
+   */
+  private streamLogMessage(sessionId: string, message: LogMessage, line?: LogLine) {
+    for (const server of this.connectedServers()) {
+      if (this.logSubscriptions.get(server)?.wants(sessionId, message, line)) {
+        // Fails harmlessly for servers whose transport is not connected
+        server.sendLoggingMessage({ level: message.level, logger: message.logger, data: message.data }).catch(() => undefined);
+      }
+    }
+  }
+
+  /**
+   * Send resource change notifications to every connected client
+   */
+  private notifyResourceChange(change: ProjectResourceChange) {
+    for (const server of this.connectedServers()) {
+      const subscriptions = this.resourceSubscriptions.get(server);
+      for (const uri of change.updatedUris) {
+        if (subscriptions?.has(uri)) {
+          server.sendResourceUpdated({ uri }).catch(() => undefined);
+        }
+      }
+      if (change.listChanged) {
+        // Fails harmlessly for servers whose transport is not connected
+        server.sendResourceListChanged().catch(() => undefined);
+      }
+    }
+  }
+
+  /**
+   * Tell every connected client to list the tools again, as the project's
+   * configuration and engine version decide which tools are available
+   */
+  private notifyToolListChange() {
+    for (const server of this.connectedServers()) {
+      // Fails harmlessly for servers whose transport is not connected
+      server.sendToolListChanged().catch(() => undefined);
+    }
+  }
+
+  /**
+   * Remember the project a tool call worked on, so its files are exposed as resources
+   */
+  private trackActiveProject(args: any) {
+    const projectPath = args?.projectPath;
+    if (typeof projectPath === 'string' && this.validatePath(projectPath)) {
+      if (this.projectResources.setProject(projectPath)) {
+        this.notifyResourceChange({ updatedUris: [], listChanged: true });
+        this.notifyToolListChange();
+      }
+    }
+  }
+
+  /**
+   * Get the configuration of a project
+   * @param projectPath Project directory (defaults to the active project)
+   * @throws ProjectConfigError if the project's configuration is invalid
+   */
+  private projectConfig(projectPath?: string | null): ProjectConfig {
+    const path = projectPath ?? this.projectResources.activeProject;
+    if (!path || !this.validatePath(path) || !existsSync(path)) {
+      return {};
+    }
+    return this.projectConfigs.get(path);
+  }
+
+  /**
+   * Get the Godot executable for a project, falling back to the detected one
+   * @throws Error if no valid executable is configured or found
+   */
+  private async godotPathFor(projectPath?: string | null): Promise<string> {
+    return (await this.selectGodot(projectPath)).path;
+  }
+
+  /**
+   * Choose the Godot executable for a project: the one in its configuration,
+   * else an installation of the engine version in its config/features, else
+   * the detected one. A configured executable must be one of the installations
+   * found, so a project cannot make the server run a program of its own.
+   * @param projectPath Project directory (defaults to the active project)
+   * @throws Error if no valid executable is configured or found
+   */
+  private async selectGodot(projectPath?: string | null): Promise<{
+    path: string;
+    reason: 'projectConfig' | 'engineVersion' | 'default';
+    engineVersion: EngineVersion | null;
+  }> {
+    const path = projectPath ?? this.projectResources.activeProject;
+    const configured = this.projectConfig(path).godotPath;
+
+    if (!this.godotPath) {
+      await this.detectGodotPath();
+      if (!this.godotPath) {
+        throw new Error('Could not find a valid Godot executable path');
+      }
+    }
+    this.installations.setGodotPath(this.godotPath);
+
+    if (configured) {
+      const installation = await this.installations.find(configured);
+      if (!installation) {
+        throw new Error(
+          `Invalid Godot path in project configuration: ${configured} is not a Godot installation found by the server. ` +
+          'Add it to GODOT_MCP_GODOT_PATHS or godotPaths in the server configuration'
+        );
+      }
+      return { path: installation.path, reason: 'projectConfig', engineVersion: this.projectEngine(path) };
+    }
+
+    const engineVersion = this.projectEngine(path);
+    if (engineVersion) {
+      const installation = await this.installations.select(engineVersion);
+      if (installation) {
+        return { path: installation.path, reason: 'engineVersion', engineVersion };
+      }
+      this.logDebug(`No Godot ${formatEngineVersion(engineVersion)} installation found for ${path}, using ${this.godotPath}`);
+    }
+    return { path: this.godotPath, reason: 'default', engineVersion };
+  }
+
+  /**
+   * The version of the Godot executable a project uses
+   * @param projectPath Project directory (defaults to the active project)
+   * @returns The version, or null if no executable is found or its version cannot be read
+   */
+  private async engineVersionFor(projectPath?: string | null): Promise<GodotVersion | null> {
+    try {
+      return await this.validateGodotVersion(await this.godotPathFor(projectPath));
+    } catch (error: unknown) {
+      this.logDebug(`Could not read the engine version: ${error}`);
+      return null;
+    }
+  }
+
+  /**
+   * The engine version a project was made with, from config/features in its project.godot
+   * @returns The version, or null if the project has none or cannot be read
+   */
+  private projectEngine(projectPath?: string | null): EngineVersion | null {
+    if (!projectPath || !this.validatePath(projectPath)) {
+      return null;
+    }
+    try {
+      return projectEngineVersion(readProjectContext(projectPath).features);
+    } catch {
+      return null;
+    }
+  }
+
   /**
    * Log debug messages if debug mode is enabled
    */
@@ -404,8 +901,7 @@ class GodotServer {
       }
 
       // Try to execute Godot with --version flag
-      const command = path === 'godot' ? 'godot --version' : `"${path}" --version`;
-      await execAsync(command);
+      await runProcess(path, ['--version'], { timeout: VERSION_TIMEOUT });
 
       this.logDebug(`Valid Godot path: ${path}`);
       this.validatedPaths.set(path, true);
@@ -522,6 +1018,10 @@ class GodotServer {
     // (e.g., backslashes to forward slashes on Windows, resolving relative paths)
     const normalizedPath = normalize(customPath);
     if (await this.isValidGodotPath(normalizedPath)) {
+      if (this.godotPath !== normalizedPath) {
+        // Workers were started with the previous executable
+        await this.stopWorkers();
+      }
       this.godotPath = normalizedPath;
       this.logDebug(`Godot path set to: ${normalizedPath}`);
       return true;
@@ -536,34 +1036,65 @@ class GodotServer {
    */
   private async cleanup() {
     this.logDebug('Cleaning up resources');
-    if (this.activeProcess) {
-      this.logDebug('Killing active Godot process');
-      this.activeProcess.process.kill();
-      this.activeProcess = null;
+    this.logDebug('Stopping running Godot sessions');
+    await this.processManager.stopAll();
+    await this.stopWorkers();
+    this.projectResources.close();
+    if (this.httpTransport) {
+      await this.httpTransport.stop();
+      this.httpTransport = null;
     }
     await this.server.close();
   }
 
   /**
-   * Check if the Godot version is 4.4 or later
-   * @param version The Godot version string
-   * @returns True if the version is 4.4 or later
+   * Get the persistent worker for a project, creating it if needed
+   * @param projectPath Path to the Godot project
+   * @returns The worker for the project
    */
-  private isGodot44OrLater(version: string): boolean {
-    const match = version.match(/^(\d+)\.(\d+)/);
-    if (match) {
-      const major = parseInt(match[1], 10);
-      const minor = parseInt(match[2], 10);
-      return major > 4 || (major === 4 && minor >= 4);
+  private getWorker(projectPath: string, godotPath: string): GodotWorker {
+    const key = resolve(projectPath);
+    let worker = this.workers.get(key);
+    if (worker && worker.godotPath !== godotPath) {
+      // The project's configuration switched to another executable
+      this.logDebug(`Godot path of ${key} changed, replacing its worker`);
+      worker.stop().catch(() => undefined);
+      worker = undefined;
+    }
+    if (!worker) {
+      this.logDebug(`Creating Godot worker for project: ${key}`);
+      worker = new GodotWorker({
+        godotPath,
+        projectPath: key,
+        operationsScriptPath: this.operationsScriptPath,
+        godotDebugMode: GODOT_DEBUG_MODE,
+        debugMode: DEBUG_MODE,
+      });
+      this.workers.set(key, worker);
     }
-    return false;
+    return worker;
+  }
+
+  /**
+   * Stop all persistent workers
+   */
+  private async stopWorkers(): Promise<void> {
+    const workers = [...this.workers.values()];
+    this.workers.clear();
+    await Promise.all(workers.map((worker) => worker.stop()));
   }
 
   /**
    * Validate and retrieve the Godot version
+   * @param godotPath Executable to validate (defaults to the detected one)
    * @returns The validated Godot version or throws an error
    */
-  private async validateGodotVersion(): Promise<GodotVersion> {
+  private async validateGodotVersion(godotPath?: string): Promise<GodotVersion> {
+    // Executables other than the detected one are validated and cached separately
+    if (godotPath && godotPath !== this.godotPath) {
+      return this.validateOtherGodotVersion(godotPath);
+    }
+
     // Return cached version if already validated
     if (this.versionValidated && this.godotVersion) {
       return this.godotVersion;
@@ -581,11 +1112,7 @@ class GodotServer {
       this.logDebug('Validating Godot version...');
 
       // Execute Godot with --version flag
-      const command = this.godotPath === 'godot'
-        ? 'godot --version'
-        : `"${this.godotPath}" --version`;
-
-      const { stdout } = await execAsync(command);
+      const { stdout } = await runProcess(this.godotPath, ['--version'], { timeout: VERSION_TIMEOUT });
       const versionString = stdout.trim();
 
       this.logDebug(`Godot version string: ${versionString}`);
@@ -605,11 +1132,11 @@ class GodotServer {
       if (this.godotVersion) {
         const features = VersionValidator.getSupportedFeatures(this.godotVersion);
         this.logDebug(`Godot ${VersionValidator.formatVersion(this.godotVersion)} features:`);
-        this.logDebug(`  - UID System: ${features.uidSystem}`);
-        this.logDebug(`  - Compositor Effects: ${features.compositorEffects}`);
-        this.logDebug(`  - Enhanced Physics: ${features.enhancedPhysics}`);
-        this.logDebug(`  - Improved GDScript: ${features.improvedGDScript}`);
-        this.logDebug(`  - Modern Node Types: ${features.modernNodeTypes}`);
+        for (const release of FEATURE_RELEASES) {
+          for (const [feature, name] of Object.entries(release.features)) {
+            this.logDebug(`  - ${name}: ${features[feature as EngineFeature]}`);
+          }
+        }
       }
 
       console.log(`[SERVER] ${validationResult.message}`);
@@ -621,6 +1148,33 @@ class GodotServer {
     }
   }
 
+  /**
+   * Validate the version of an executable other than the detected one, such
+   * as the one configured or selected for a project
+   */
+  private async validateOtherGodotVersion(godotPath: string): Promise<GodotVersion> {
+    const cached = this.validatedVersions.get(godotPath);
+    if (cached) {
+      return cached;
+    }
+
+    let versionString: string;
+    try {
+      const { stdout } = await runProcess(godotPath, ['--version'], { timeout: VERSION_TIMEOUT });
+      versionString = stdout.trim();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`Godot version validation failed: ${godotPath}: ${errorMessage}`);
+    }
+
+    const validationResult = VersionValidator.validate(versionString);
+    if (!validationResult.valid) {
+      throw new Error(`Godot version validation failed: ${godotPath}: ${validationResult.message}`);
+    }
+    this.validatedVersions.set(godotPath, validationResult.version!);
+    return validationResult.version!;
+  }
+
   /**
    * Get the current Godot version (validates if not already done)
    * @returns The Godot version or null if not validated
@@ -635,12 +1189,13 @@ class GodotServer {
   }
 
   /**
-   * Check if a specific feature is supported by the current Godot version
+   * Check if a specific feature is supported by the Godot version a project uses
    * @param feature Feature name to check
+   * @param projectPath Project directory (defaults to the active project)
    * @returns True if the feature is supported
    */
-  async isFeatureSupported(feature: keyof ReturnType<typeof VersionValidator.getSupportedFeatures>): Promise<boolean> {
-    const version = await this.getGodotVersion();
+  async isFeatureSupported(feature: EngineFeature, projectPath?: string | null): Promise<boolean> {
+    const version = await this.engineVersionFor(projectPath);
     if (!version) {
       return false;
     }
@@ -653,58 +1208,43 @@ class GodotServer {
    * @returns The documentation module instance
    */
   private async getDocumentationModule(): Promise<DocumentationModule> {
-    if (this.documentationModule) {
-      return this.documentationModule;
-    }
-
-    // Ensure godotPath is set
-    if (!this.godotPath) {
-      await this.detectGodotPath();
-      if (!this.godotPath) {
-        throw new Error('Could not find a valid Godot executable path');
+    // The active project may use its own executable and cache directory
+    const godotPath = await this.godotPathFor();
+    let cacheDir = this.projectConfig().docsCacheDir;
+    if (cacheDir) {
+      try {
+        cacheDir = this.pathSandbox.resolveDirectory(cacheDir);
+      } catch (error: unknown) {
+        if (error instanceof PathSandboxError) {
+          throw new PathSandboxError(`Invalid docsCacheDir in project configuration: ${error.message}`);
+        }
+        throw error;
       }
     }
+    const key = `${godotPath}\n${cacheDir ?? ''}`;
 
-    this.documentationModule = new DocumentationModule(
-      this.godotPath,
-      undefined, // Use default cache directory
-      DEBUG_MODE
-    );
+    let documentationModule = this.documentationModules.get(key);
+    if (!documentationModule) {
+      documentationModule = new DocumentationModule(
+        godotPath,
+        cacheDir, // Undefined uses the default cache directory
+        DEBUG_MODE
+      );
+      this.documentationModules.set(key, documentationModule);
+    }
 
-    return this.documentationModule;
+    return documentationModule;
   }
 
   /**
    * Normalize parameters to camelCase format
+   * Tool arguments are normalized against their schema before the handler runs;
+   * this converts the top-level keys of objects without a schema, such as batch step params
    * @param params Object with either snake_case or camelCase keys
-   * @returns Object with all keys in camelCase format
+   * @returns Object with all top-level keys in camelCase format
    */
   private normalizeParameters(params: OperationParams): OperationParams {
-    if (!params || typeof params !== 'object') {
-      return params;
-    }
-
-    const result: OperationParams = {};
-
-    for (const key in params) {
-      if (Object.prototype.hasOwnProperty.call(params, key)) {
-        let normalizedKey = key;
-
-        // If the key is in snake_case, convert it to camelCase using our mapping
-        if (key.includes('_') && this.parameterMappings[key]) {
-          normalizedKey = this.parameterMappings[key];
-        }
-
-        // Handle nested objects recursively
-        if (typeof params[key] === 'object' && params[key] !== null && !Array.isArray(params[key])) {
-          result[normalizedKey] = this.normalizeParameters(params[key] as OperationParams);
-        } else {
-          result[normalizedKey] = params[key];
-        }
-      }
-    }
-
-    return result;
+    return normalizeArgumentKeys(undefined, params) as OperationParams;
   }
 
   /**
@@ -718,7 +1258,7 @@ class GodotServer {
     for (const key in params) {
       if (Object.prototype.hasOwnProperty.call(params, key)) {
         // Convert camelCase to snake_case
-        const snakeKey = this.reverseParameterMappings[key] || key.replace(/[A-Z]/g, letter => `_${letter.toLowerCase()}`);
+        const snakeKey = camelToSnakeCase(key);
 
         // Handle nested objects recursively
         if (typeof params[key] === 'object' && params[key] !== null && !Array.isArray(params[key])) {
@@ -737,12 +1277,14 @@ class GodotServer {
    * @param operation The operation to execute
    * @param params The parameters for the operation
    * @param projectPath The path to the Godot project
-   * @returns The stdout and stderr from the operation
+   * @param context Progress callback and cancellation signal of the tool call
+   * @returns The stdout and stderr from the operation, without progress lines
    */
   private async executeOperation(
     operation: string,
     params: OperationParams,
-    projectPath: string
+    projectPath: string,
+    context: ToolCallContext = {}
   ): Promise<{ stdout: string; stderr: string }> {
     this.logDebug(`Executing operation: ${operation} in project: ${projectPath}`);
     this.logDebug(`Original operation params: ${JSON.stringify(params)}`);
@@ -751,74 +1293,83 @@ class GodotServer {
     const snakeCaseParams = this.convertCamelToSnakeCase(params);
     this.logDebug(`Converted snake_case params: ${JSON.stringify(snakeCaseParams)}`);
 
-    // Validate Godot version before executing operations
+    // Validate the version of the project's Godot before executing operations
+    const godotPath = await this.godotPathFor(projectPath);
     try {
-      await this.validateGodotVersion();
+      await this.validateGodotVersion(godotPath);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       throw new Error(`Cannot execute operation: ${errorMessage}`);
     }
+    const timeouts = this.projectConfig(projectPath).timeouts;
+    const timeout = operation === 'capture_screenshot' ? timeouts?.screenshot : timeouts?.operation;
+    const progress = context.onProgress ? new ProgressLineReader(context.onProgress) : null;
 
-    // Ensure godotPath is set
-    if (!this.godotPath) {
-      await this.detectGodotPath();
-      if (!this.godotPath) {
-        throw new Error('Could not find a valid Godot executable path');
+    // Prefer the persistent worker, which skips the engine boot. Dry runs use a
+    // fresh process, since their project copy is deleted right after the call
+    if (this.useWorker && !ONE_SHOT_OPERATIONS.has(operation) && !this.dryRunRoots.has(projectPath)) {
+      try {
+        const { stdout, stderr } = await this.getWorker(projectPath, godotPath).execute(operation, snakeCaseParams, {
+          timeout,
+          signal: context.signal,
+          onStdoutLine: progress ? line => progress.line(line) : undefined,
+        });
+        return { stdout: stripProgressLines(stdout), stderr };
+      } catch (error: unknown) {
+        // Only a worker that never started is certain not to have run the
+        // operation; running it again after a crash could apply a write twice
+        if (!(error instanceof GodotWorkerError) || error.reason !== 'startup') {
+          if (error instanceof GodotWorkerError && error.reason === 'crash') {
+            throw new GodotWorkerError(
+              `${error.message} while running ${operation}. It was not run again, since it may already have changed files`,
+              'crash',
+              error.stdout,
+              error.stderr
+            );
+          }
+          throw error;
+        }
+        console.error(`[SERVER] Godot worker failed to start, running ${operation} in a new process: ${error.message}`);
       }
     }
 
-    try {
-      // Serialize the snake_case parameters to a valid JSON string
-      const paramsJson = JSON.stringify(snakeCaseParams);
-      // Escape single quotes in the JSON string to prevent command injection
-      const escapedParams = paramsJson.replace(/'/g, "'\\''");
-      // On Windows, cmd.exe does not strip single quotes, so we use
-      // double quotes and escape them to ensure the JSON is parsed
-      // correctly by Godot.
-      const isWindows = process.platform === 'win32';
-      const quotedParams = isWindows
-        ? `\"${paramsJson.replace(/\"/g, '\\"')}\"`
-        : `'${escapedParams}'`;
-
-
-      // Add debug arguments if debug mode is enabled
-      const debugArgs = GODOT_DEBUG_MODE ? ['--debug-godot'] : [];
-
-      // For capture_screenshot, we need rendering (viewport), so don't use --headless
-      // The script will quit automatically after capturing
-      const needsRendering = operation === 'capture_screenshot';
-      const headlessFlag = needsRendering ? [] : ['--headless'];
-
-      // Construct the command with the operation and JSON parameters
-      const cmd = [
-        `"${this.godotPath}"`,
-        ...headlessFlag,
-        '--path',
-        `"${projectPath}"`,
-        '--script',
-        `"${this.operationsScriptPath}"`,
-        operation,
-        quotedParams, // Pass the JSON string as a single argument
-        ...debugArgs,
-      ].join(' ');
+    // Add debug arguments if debug mode is enabled
+    const debugArgs = GODOT_DEBUG_MODE ? ['--debug-godot'] : [];
 
-      this.logDebug(`Command: ${cmd}`);
+    // For capture_screenshot, we need rendering (viewport), so don't use --headless
+    // The script will quit automatically after capturing
+    const needsRendering = operation === 'capture_screenshot';
+    const headlessFlag = needsRendering ? [] : ['--headless'];
 
-      const { stdout, stderr } = await execAsync(cmd);
+    // The JSON parameters are passed as a single argument without a shell, so no quoting is needed
+    const args = [
+      ...headlessFlag,
+      '--path',
+      projectPath,
+      '--script',
+      this.operationsScriptPath,
+      operation,
+      JSON.stringify(snakeCaseParams),
+      ...debugArgs,
+    ];
 
-      return { stdout, stderr };
-    } catch (error: unknown) {
-      // If execAsync throws, it still contains stdout/stderr
-      if (error instanceof Error && 'stdout' in error && 'stderr' in error) {
-        const execError = error as Error & { stdout: string; stderr: string };
-        return {
-          stdout: execError.stdout,
-          stderr: execError.stderr,
-        };
-      }
+    this.logDebug(`Command: ${formatCommand([godotPath, ...args])}`);
 
-      throw error;
+    const result = await launchProcess(godotPath, args, {
+      timeout,
+      signal: context.signal,
+      onStdout: progress ? chunk => progress.push(chunk) : undefined,
+    });
+
+    // A failed operation still reports its errors on stdout/stderr, but a run that
+    // was stopped early has nothing reliable to report
+    if (result.timedOut || result.cancelled) {
+      const failure = describeFailure(result)!;
+      throw new ProcessLaunchError(`Operation ${operation} failed: ${failure.message}`, failure.reason, result);
     }
+
+    // Progress lines were reported as they arrived and are not part of the result
+    return { stdout: stripProgressLines(result.stdout), stderr: result.stderr };
   }
 
   /**
@@ -939,2073 +1490,564 @@ class GodotServer {
     return projects;
   }
 
+  /**
+   * Add the output options shared by every tool to the advertised input schemas
+   */
+  private withOutputProperties(tools: readonly ToolDefinition[]): any[] {
+    return tools.map(tool => {
+      const properties: Record<string, any> = {
+        ...tool.inputSchema.properties,
+        format: {
+          type: 'string',
+          enum: ['json', 'markdown'],
+          description: `Optional: Output format (default: ${this.outputFormat})`,
+        },
+      };
+      if (supportsDryRun(tool.name)) {
+        properties.dryRun = {
+          type: 'boolean',
+          description: 'Optional: Run against a temporary copy of the project and return a diff of the files that would change, without writing them (default: false)',
+        };
+      }
+      if (PAGED_TOOLS[tool.name]) {
+        properties.cursor = {
+          type: 'string',
+          description: `Optional: nextCursor from a previous JSON result, to fetch the next page of "${PAGED_TOOLS[tool.name]}" without running the tool again`,
+        };
+        properties.limit = {
+          type: 'number',
+          description: 'Optional: Items per page in JSON mode (default: 200, max: 1000)',
+        };
+      }
+      return { ...tool, inputSchema: { ...tool.inputSchema, properties } };
+    });
+  }
+
   /**
    * Set up the tool handlers for the MCP server
    */
-  private setupToolHandlers() {
+  private setupToolHandlers(server: Server) {
+    // Cursors of paged results only work in the session that received them
+    const sessionId = randomUUID();
+
     // Define available tools
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => ({
-      tools: [
-        {
-          name: 'launch_editor',
-          description: 'Launch Godot editor for a specific project',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              projectPath: {
-                type: 'string',
-                description: 'Path to the Godot project directory',
-              },
-            },
-            required: ['projectPath'],
-          },
-        },
-        {
-          name: 'run_project',
-          description: 'Run the Godot project and capture output',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              projectPath: {
-                type: 'string',
-                description: 'Path to the Godot project directory',
-              },
-              scene: {
-                type: 'string',
-                description: 'Optional: Specific scene to run',
-              },
-            },
-            required: ['projectPath'],
-          },
-        },
-        {
-          name: 'get_debug_output',
-          description: 'Get the current debug output and errors',
-          inputSchema: {
-            type: 'object',
-            properties: {},
-            required: [],
-          },
-        },
-        {
-          name: 'stop_project',
-          description: 'Stop the currently running Godot project',
-          inputSchema: {
-            type: 'object',
-            properties: {},
-            required: [],
-          },
-        },
-        {
-          name: 'get_godot_version',
-          description: 'Get the installed Godot version',
-          inputSchema: {
-            type: 'object',
-            properties: {},
-            required: [],
-          },
-        },
-        {
-          name: 'list_projects',
-          description: 'List Godot projects in a directory',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              directory: {
-                type: 'string',
-                description: 'Directory to search for Godot projects',
-              },
-              recursive: {
-                type: 'boolean',
-                description: 'Whether to search recursively (default: false)',
-              },
-            },
-            required: ['directory'],
-          },
-        },
-        {
-          name: 'get_project_info',
-          description: 'Retrieve metadata about a Godot project',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              projectPath: {
-                type: 'string',
-                description: 'Path to the Godot project directory',
-              },
-            },
-            required: ['projectPath'],
-          },
-        },
-        {
-          name: 'create_scene',
-          description: 'Create a new Godot scene file',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              projectPath: {
-                type: 'string',
-                description: 'Path to the Godot project directory',
-              },
-              scenePath: {
-                type: 'string',
-                description: 'Path where the scene file will be saved (relative to project)',
-              },
-              rootNodeType: {
-                type: 'string',
-                description: 'Type of the root node (e.g., Node2D, Node3D)',
-                default: 'Node2D',
-              },
-            },
-            required: ['projectPath', 'scenePath'],
-          },
-        },
-        {
-          name: 'add_node',
-          description: 'Add a node to an existing scene',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              projectPath: {
-                type: 'string',
-                description: 'Path to the Godot project directory',
-              },
-              scenePath: {
-                type: 'string',
-                description: 'Path to the scene file (relative to project)',
-              },
-              parentNodePath: {
-                type: 'string',
-                description: 'Path to the parent node (e.g., "root" or "root/Player")',
-                default: 'root',
-              },
-              nodeType: {
-                type: 'string',
-                description: 'Type of node to add (e.g., Sprite2D, CollisionShape2D)',
-              },
-              nodeName: {
-                type: 'string',
-                description: 'Name for the new node',
-              },
-              properties: {
-                type: 'object',
-                description: 'Optional properties to set on the node',
-              },
-            },
-            required: ['projectPath', 'scenePath', 'nodeType', 'nodeName'],
-          },
-        },
-        {
-          name: 'create_animation_player',
-          description: 'Create an AnimationPlayer node with basic animations',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              projectPath: {
-                type: 'string',
-                description: 'Path to the Godot project directory',
-              },
-              scenePath: {
-                type: 'string',
-                description: 'Path to the scene file (relative to project)',
-              },
-              parentNodePath: {
-                type: 'string',
-                description: 'Path to the parent node',
-                default: 'root',
-              },
-              nodeName: {
-                type: 'string',
-                description: 'Name for the AnimationPlayer node',
-                default: 'AnimationPlayer',
-              },
-              animations: {
-                type: 'array',
-                description: 'Optional array of animation names to create',
-                items: {
-                  type: 'string',
-                },
-              },
-            },
-            required: ['projectPath', 'scenePath'],
-          },
-        },
-        {
-          name: 'add_keyframes',
-          description: 'Add keyframes to an animation in an AnimationPlayer',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              projectPath: {
-                type: 'string',
-                description: 'Path to the Godot project directory',
-              },
-              scenePath: {
-                type: 'string',
-                description: 'Path to the scene file (relative to project)',
-              },
-              animationPlayerPath: {
-                type: 'string',
-                description: 'Path to the AnimationPlayer node (e.g., "root/AnimationPlayer")',
-              },
-              animationName: {
-                type: 'string',
-                description: 'Name of the animation to add keyframes to',
-              },
-              track: {
-                type: 'object',
-                description: 'Track configuration with keyframes',
-                properties: {
-                  nodePath: {
-                    type: 'string',
-                    description: 'Path to the node to animate (relative to AnimationPlayer parent)',
-                  },
-                  property: {
-                    type: 'string',
-                    description: 'Property to animate (e.g., "position", "rotation", "modulate")',
-                  },
-                  keyframes: {
-                    type: 'array',
-                    description: 'Array of keyframe definitions',
-                    items: {
-                      type: 'object',
-                      properties: {
-                        time: {
-                          type: 'number',
-                          description: 'Time in seconds for this keyframe',
-                        },
-                        value: {
-                          description: 'Value at this keyframe (type depends on property)',
-                        },
-                        transition: {
-                          type: 'number',
-                          description: 'Transition type (default: 1.0 for linear)',
-                        },
-                      },
-                      required: ['time', 'value'],
-                    },
-                  },
-                },
-                required: ['nodePath', 'property', 'keyframes'],
-              },
-            },
-            required: ['projectPath', 'scenePath', 'animationPlayerPath', 'animationName', 'track'],
-          },
-        },
-        {
-          name: 'setup_animation_tree',
-          description: 'Setup an AnimationTree with a state machine for managing animations',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              projectPath: {
-                type: 'string',
-                description: 'Path to the Godot project directory',
-              },
-              scenePath: {
-                type: 'string',
-                description: 'Path to the scene file (relative to project)',
-              },
-              parentNodePath: {
-                type: 'string',
-                description: 'Path to the parent node',
-                default: 'root',
-              },
-              nodeName: {
-                type: 'string',
-                description: 'Name for the AnimationTree node',
-                default: 'AnimationTree',
-              },
-              animationPlayerPath: {
-                type: 'string',
-                description: 'Path to the AnimationPlayer node to connect to',
-              },
-              states: {
-                type: 'array',
-                description: 'Array of state names for the state machine',
-                items: {
-                  type: 'string',
-                },
-              },
-              transitions: {
-                type: 'array',
-                description: 'Array of transition definitions between states',
-                items: {
-                  type: 'object',
-                  properties: {
-                    from: {
-                      type: 'string',
-                      description: 'Source state name',
-                    },
-                    to: {
-                      type: 'string',
-                      description: 'Target state name',
-                    },
-                    condition: {
-                      type: 'string',
-                      description: 'Optional condition parameter name',
-                    },
-                  },
-                  required: ['from', 'to'],
-                },
-              },
-            },
-            required: ['projectPath', 'scenePath', 'animationPlayerPath'],
-          },
-        },
-        {
-          name: 'add_particles',
-          description: 'Add GPUParticles2D or GPUParticles3D node with particle settings (Godot 4.5+)',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              projectPath: {
-                type: 'string',
-                description: 'Path to the Godot project directory',
-              },
-              scenePath: {
-                type: 'string',
-                description: 'Path to the scene file (relative to project)',
-              },
-              parentNodePath: {
-                type: 'string',
-                description: 'Path to the parent node',
-                default: 'root',
-              },
-              particleType: {
-                type: 'string',
-                description: 'Type of particle system',
-                enum: ['GPUParticles2D', 'GPUParticles3D'],
-              },
-              nodeName: {
-                type: 'string',
-                description: 'Name for the particle node',
-              },
-              properties: {
-                type: 'object',
-                description: 'Particle system properties',
-                properties: {
-                  amount: {
-                    type: 'number',
-                    description: 'Number of particles (default: 8)',
-                  },
-                  lifetime: {
-                    type: 'number',
-                    description: 'Particle lifetime in seconds (default: 1.0)',
-                  },
-                  oneShot: {
-                    type: 'boolean',
-                    description: 'Whether particles emit once or continuously (default: false)',
-                  },
-                  preprocess: {
-                    type: 'number',
-                    description: 'Preprocess time in seconds (default: 0.0)',
-                  },
-                  speedScale: {
-                    type: 'number',
-                    description: 'Speed scale multiplier (default: 1.0)',
-                  },
-                  explosiveness: {
-                    type: 'number',
-                    description: 'Explosiveness ratio 0-1 (default: 0.0)',
-                  },
-                  randomness: {
-                    type: 'number',
-                    description: 'Randomness ratio 0-1 (default: 0.0)',
-                  },
-                  fixedFps: {
-                    type: 'number',
-                    description: 'Fixed FPS for particle simulation (default: 30)',
-                  },
-                  emitting: {
-                    type: 'boolean',
-                    description: 'Whether particles are emitting (default: true)',
-                  },
-                },
-              },
-              processMaterial: {
-                type: 'object',
-                description: 'ParticleProcessMaterial properties',
-                properties: {
-                  direction: {
-                    type: 'object',
-                    description: 'Emission direction (Vector3)',
-                  },
-                  spread: {
-                    type: 'number',
-                    description: 'Emission spread in degrees',
-                  },
-                  gravity: {
-                    type: 'object',
-                    description: 'Gravity vector (Vector3)',
-                  },
-                  initialVelocityMin: {
-                    type: 'number',
-                    description: 'Minimum initial velocity',
-                  },
-                  initialVelocityMax: {
-                    type: 'number',
-                    description: 'Maximum initial velocity',
-                  },
-                  angularVelocityMin: {
-                    type: 'number',
-                    description: 'Minimum angular velocity',
-                  },
-                  angularVelocityMax: {
-                    type: 'number',
-                    description: 'Maximum angular velocity',
-                  },
-                  scaleMin: {
-                    type: 'number',
-                    description: 'Minimum particle scale',
-                  },
-                  scaleMax: {
-                    type: 'number',
-                    description: 'Maximum particle scale',
-                  },
-                  color: {
-                    type: 'object',
-                    description: 'Particle color (Color with r, g, b, a)',
-                  },
-                },
-              },
-            },
-            required: ['projectPath', 'scenePath', 'particleType', 'nodeName'],
-          },
-        },
-        {
-          name: 'create_ui_element',
-          description: 'Create a UI element (Control node) in a scene with proper anchors',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              projectPath: {
-                type: 'string',
-                description: 'Path to the Godot project directory',
-              },
-              scenePath: {
-                type: 'string',
-                description: 'Path to the scene file (relative to project)',
-              },
-              parentNodePath: {
-                type: 'string',
-                description: 'Path to the parent node (e.g., "root" or "root/UI")',
-                default: 'root',
-              },
-              elementType: {
-                type: 'string',
-                description: 'Type of UI element (Button, Label, TextEdit, Panel, VBoxContainer, HBoxContainer, etc.)',
-              },
-              elementName: {
-                type: 'string',
-                description: 'Name for the new UI element',
-              },
-              properties: {
-                type: 'object',
-                description: 'Optional properties to set on the element (text, size, etc.)',
-              },
-              anchors: {
-                type: 'object',
-                description: 'Anchor settings (anchor_left, anchor_top, anchor_right, anchor_bottom)',
-                properties: {
-                  anchor_left: { type: 'number' },
-                  anchor_top: { type: 'number' },
-                  anchor_right: { type: 'number' },
-                  anchor_bottom: { type: 'number' },
-                },
-              },
-            },
-            required: ['projectPath', 'scenePath', 'elementType', 'elementName'],
-          },
-        },
-        {
-          name: 'apply_theme',
-          description: 'Apply a Theme resource to a Control node or its children',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              projectPath: {
-                type: 'string',
-                description: 'Path to the Godot project directory',
-              },
-              scenePath: {
-                type: 'string',
-                description: 'Path to the scene file (relative to project)',
-              },
-              nodePath: {
-                type: 'string',
-                description: 'Path to the Control node (e.g., "root/UI")',
-              },
-              themePath: {
-                type: 'string',
-                description: 'Path to the Theme resource file (relative to project)',
-              },
-            },
-            required: ['projectPath', 'scenePath', 'nodePath', 'themePath'],
-          },
-        },
-        {
-          name: 'setup_layout',
-          description: 'Setup layout properties for Container nodes (VBoxContainer, HBoxContainer, GridContainer, etc.)',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              projectPath: {
-                type: 'string',
-                description: 'Path to the Godot project directory',
-              },
-              scenePath: {
-                type: 'string',
-                description: 'Path to the scene file (relative to project)',
-              },
-              nodePath: {
-                type: 'string',
-                description: 'Path to the Container node (e.g., "root/UI/VBoxContainer")',
-              },
-              properties: {
-                type: 'object',
-                description: 'Layout properties to set',
-                properties: {
-                  alignment: {
-                    type: 'string',
-                    description: 'Alignment for BoxContainer (BEGIN, CENTER, END)',
-                  },
-                  columns: {
-                    type: 'number',
-                    description: 'Number of columns for GridContainer',
-                  },
-                  separation: {
-                    type: 'number',
-                    description: 'Separation between children',
-                  },
-                },
-              },
-            },
-            required: ['projectPath', 'scenePath', 'nodePath', 'properties'],
-          },
-        },
-        {
-          name: 'create_menu',
-          description: 'Create a menu structure with buttons and navigation',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              projectPath: {
-                type: 'string',
-                description: 'Path to the Godot project directory',
-              },
-              scenePath: {
-                type: 'string',
-                description: 'Path to the scene file (relative to project)',
-              },
-              parentNodePath: {
-                type: 'string',
-                description: 'Path to the parent node (e.g., "root" or "root/UI")',
-                default: 'root',
-              },
-              menuName: {
-                type: 'string',
-                description: 'Name for the menu container',
-              },
-              buttons: {
-                type: 'array',
-                description: 'Array of button definitions',
-                items: {
-                  type: 'object',
-                  properties: {
-                    name: {
-                      type: 'string',
-                      description: 'Button name',
-                    },
-                    text: {
-                      type: 'string',
-                      description: 'Button text',
-                    },
-                  },
-                  required: ['name', 'text'],
-                },
-              },
-              layout: {
-                type: 'string',
-                description: 'Layout type: vertical or horizontal',
-                enum: ['vertical', 'horizontal'],
-                default: 'vertical',
-              },
-            },
-            required: ['projectPath', 'scenePath', 'menuName', 'buttons'],
-          },
-        },
-        {
-          name: 'import_asset',
-          description: 'Import an asset into the Godot project with custom import settings',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              projectPath: {
-                type: 'string',
-                description: 'Path to the Godot project directory',
-              },
-              assetPath: {
-                type: 'string',
-                description: 'Path to the asset file to import (relative to project)',
-              },
-              importSettings: {
-                type: 'object',
-                description: 'Optional import settings for the asset',
-                properties: {
-                  type: {
-                    type: 'string',
-                    enum: ['texture', 'audio', 'model', 'font'],
-                    description: 'Type of asset being imported',
-                  },
-                  compression: {
-                    type: 'string',
-                    description: 'Compression mode for the asset',
-                  },
-                  mipmaps: {
-                    type: 'boolean',
-                    description: 'Generate mipmaps for textures',
-                  },
-                  filter: {
-                    type: 'boolean',
-                    description: 'Enable filtering for textures',
-                  },
-                },
-              },
-            },
-            required: ['projectPath', 'assetPath'],
-          },
-        },
-        {
-          name: 'create_resource',
-          description: 'Create a new resource (Material, Shader, etc.) in the Godot project',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              projectPath: {
-                type: 'string',
-                description: 'Path to the Godot project directory',
-              },
-              resourcePath: {
-                type: 'string',
-                description: 'Path where the resource will be saved (relative to project)',
-              },
-              resourceType: {
-                type: 'string',
-                enum: ['StandardMaterial3D', 'ShaderMaterial', 'Shader', 'Theme', 'Environment', 'PhysicsMaterial'],
-                description: 'Type of resource to create',
-              },
-              properties: {
-                type: 'object',
-                description: 'Optional properties to set on the resource',
-              },
-            },
-            required: ['projectPath', 'resourcePath', 'resourceType'],
-          },
-        },
-        {
-          name: 'list_assets',
-          description: 'List all assets in the Godot project with their metadata and UIDs',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              projectPath: {
-                type: 'string',
-                description: 'Path to the Godot project directory',
-              },
-              directory: {
-                type: 'string',
-                description: 'Optional: Specific directory to list (relative to project, defaults to entire project)',
-              },
-              fileTypes: {
-                type: 'array',
-                items: {
-                  type: 'string',
-                },
-                description: 'Optional: Filter by file types (e.g., ["tscn", "tres", "gd"])',
-              },
-              recursive: {
-                type: 'boolean',
-                description: 'Whether to search recursively (default: true)',
-              },
-            },
-            required: ['projectPath'],
-          },
-        },
-        {
-          name: 'configure_import',
-          description: 'Configure or modify import settings for an asset',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              projectPath: {
-                type: 'string',
-                description: 'Path to the Godot project directory',
-              },
-              assetPath: {
-                type: 'string',
-                description: 'Path to the asset file (relative to project)',
-              },
-              importSettings: {
-                type: 'object',
-                description: 'Import settings to apply',
-                properties: {
-                  type: {
-                    type: 'string',
-                    enum: ['texture', 'audio', 'model', 'font'],
-                    description: 'Type of asset',
-                  },
-                  compression: {
-                    type: 'string',
-                    description: 'Compression mode',
-                  },
-                  mipmaps: {
-                    type: 'boolean',
-                    description: 'Generate mipmaps for textures',
-                  },
-                  filter: {
-                    type: 'boolean',
-                    description: 'Enable filtering for textures',
-                  },
-                  loop: {
-                    type: 'boolean',
-                    description: 'Enable looping for audio',
-                  },
-                },
-              },
-            },
-            required: ['projectPath', 'assetPath', 'importSettings'],
-          },
-        },
-        {
-          name: 'create_script',
-          description: 'Create a new GDScript file with template',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              projectPath: {
-                type: 'string',
-                description: 'Path to the Godot project directory',
-              },
-              scriptPath: {
-                type: 'string',
-                description: 'Path where the script file will be saved (relative to project)',
-              },
-              template: {
-                type: 'string',
-                description: 'Template type: node, resource, or custom',
-                enum: ['node', 'resource', 'custom'],
-                default: 'node',
-              },
-              baseClass: {
-                type: 'string',
-                description: 'Base class for the script (e.g., Node2D, CharacterBody2D, Resource)',
-              },
-              signals: {
-                type: 'array',
-                description: 'Array of signal names to add to the script',
-                items: {
-                  type: 'string',
-                },
-              },
-              exports: {
-                type: 'array',
-                description: 'Array of exported variables',
-                items: {
-                  type: 'object',
-                  properties: {
-                    name: { type: 'string' },
-                    type: { type: 'string' },
-                    defaultValue: { type: 'string' },
-                  },
-                },
-              },
-            },
-            required: ['projectPath', 'scriptPath'],
-          },
-        },
-        {
-          name: 'attach_script',
-          description: 'Attach a GDScript to a node in a scene',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              projectPath: {
-                type: 'string',
-                description: 'Path to the Godot project directory',
-              },
-              scenePath: {
-                type: 'string',
-                description: 'Path to the scene file (relative to project)',
-              },
-              nodePath: {
-                type: 'string',
-                description: 'Path to the node (e.g., "root/Player")',
-              },
-              scriptPath: {
-                type: 'string',
-                description: 'Path to the script file (relative to project)',
-              },
-            },
-            required: ['projectPath', 'scenePath', 'nodePath', 'scriptPath'],
-          },
-        },
-        {
-          name: 'validate_script',
-          description: 'Validate a GDScript file for syntax and semantic errors',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              projectPath: {
-                type: 'string',
-                description: 'Path to the Godot project directory',
-              },
-              scriptPath: {
-                type: 'string',
-                description: 'Path to the script file (relative to project)',
-              },
-            },
-            required: ['projectPath', 'scriptPath'],
-          },
-        },
-        {
-          name: 'get_node_methods',
-          description: 'Get available methods for a specific node type',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              projectPath: {
-                type: 'string',
-                description: 'Path to the Godot project directory',
-              },
-              nodeType: {
-                type: 'string',
-                description: 'Type of node (e.g., Node2D, CharacterBody2D, Sprite2D)',
-              },
-            },
-            required: ['projectPath', 'nodeType'],
-          },
-        },
-        {
-          name: 'create_signal',
-          description: 'Create a custom signal in a GDScript file',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              projectPath: {
-                type: 'string',
-                description: 'Path to the Godot project directory',
-              },
-              scriptPath: {
-                type: 'string',
-                description: 'Path to the script file (relative to project)',
-              },
-              signalName: {
-                type: 'string',
-                description: 'Name of the signal to create',
-              },
-              parameters: {
-                type: 'array',
-                description: 'Optional signal parameters with types',
-                items: {
-                  type: 'object',
-                  properties: {
-                    name: {
-                      type: 'string',
-                      description: 'Parameter name',
-                    },
-                    type: {
-                      type: 'string',
-                      description: 'Parameter type (e.g., int, String, Node)',
-                    },
-                  },
-                  required: ['name'],
-                },
-              },
-            },
-            required: ['projectPath', 'scriptPath', 'signalName'],
-          },
-        },
-        {
-          name: 'connect_signal',
-          description: 'Connect a signal from one node to a method on another node using Godot 4.5+ Callable API',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              projectPath: {
-                type: 'string',
-                description: 'Path to the Godot project directory',
-              },
-              scenePath: {
-                type: 'string',
-                description: 'Path to the scene file (relative to project)',
-              },
-              sourceNodePath: {
-                type: 'string',
-                description: 'Path to the node emitting the signal (e.g., "root/Button")',
-              },
-              signalName: {
-                type: 'string',
-                description: 'Name of the signal to connect',
-              },
-              targetNodePath: {
-                type: 'string',
-                description: 'Path to the node receiving the signal (e.g., "root/Player")',
-              },
-              methodName: {
-                type: 'string',
-                description: 'Name of the method to call when signal is emitted',
-              },
-              binds: {
-                type: 'array',
-                description: 'Optional additional parameters to bind to the callable',
-                items: {
-                  type: 'string',
-                },
-              },
-              flags: {
-                type: 'number',
-                description: 'Optional connection flags (default: 0)',
-              },
-            },
-            required: ['projectPath', 'scenePath', 'sourceNodePath', 'signalName', 'targetNodePath', 'methodName'],
-          },
-        },
-        {
-          name: 'list_signals',
-          description: 'List all signals available on a node, including built-in and custom signals',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              projectPath: {
-                type: 'string',
-                description: 'Path to the Godot project directory',
-              },
-              scenePath: {
-                type: 'string',
-                description: 'Path to the scene file (relative to project)',
-              },
-              nodePath: {
-                type: 'string',
-                description: 'Path to the node (e.g., "root/Button")',
-              },
-            },
-            required: ['projectPath', 'scenePath', 'nodePath'],
-          },
-        },
-        {
-          name: 'disconnect_signal',
-          description: 'Disconnect a signal connection between two nodes',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              projectPath: {
-                type: 'string',
-                description: 'Path to the Godot project directory',
-              },
-              scenePath: {
-                type: 'string',
-                description: 'Path to the scene file (relative to project)',
-              },
-              sourceNodePath: {
-                type: 'string',
-                description: 'Path to the node emitting the signal (e.g., "root/Button")',
-              },
-              signalName: {
-                type: 'string',
-                description: 'Name of the signal to disconnect',
-              },
-              targetNodePath: {
-                type: 'string',
-                description: 'Path to the node receiving the signal (e.g., "root/Player")',
-              },
-              methodName: {
-                type: 'string',
-                description: 'Name of the method that was connected',
-              },
-            },
-            required: ['projectPath', 'scenePath', 'sourceNodePath', 'signalName', 'targetNodePath', 'methodName'],
-          },
-        },
-        {
-          name: 'remove_node',
-          description: 'Remove a node from an existing scene',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              projectPath: {
-                type: 'string',
-                description: 'Path to the Godot project directory',
-              },
-              scenePath: {
-                type: 'string',
-                description: 'Path to the scene file (relative to project)',
-              },
-              nodePath: {
-                type: 'string',
-                description: 'Path to the node to remove (e.g., "root/Player" or "root/Player/Sprite")',
-              },
-            },
-            required: ['projectPath', 'scenePath', 'nodePath'],
-          },
-        },
-        {
-          name: 'modify_node',
-          description: 'Modify properties of an existing node in a scene',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              projectPath: {
-                type: 'string',
-                description: 'Path to the Godot project directory',
-              },
-              scenePath: {
-                type: 'string',
-                description: 'Path to the scene file (relative to project)',
-              },
-              nodePath: {
-                type: 'string',
-                description: 'Path to the node to modify (e.g., "root/Player" or "root/Player/Sprite")',
-              },
-              properties: {
-                type: 'object',
-                description: 'Properties to set on the node (e.g., {"position": {"x": 100, "y": 200}, "visible": true})',
-              },
-            },
-            required: ['projectPath', 'scenePath', 'nodePath', 'properties'],
-          },
-        },
-        {
-          name: 'duplicate_node',
-          description: 'Duplicate an existing node in a scene with all its children',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              projectPath: {
-                type: 'string',
-                description: 'Path to the Godot project directory',
-              },
-              scenePath: {
-                type: 'string',
-                description: 'Path to the scene file (relative to project)',
-              },
-              nodePath: {
-                type: 'string',
-                description: 'Path to the node to duplicate (e.g., "root/Player" or "root/Enemy")',
-              },
-              newName: {
-                type: 'string',
-                description: 'Name for the duplicated node',
-              },
-              parentNodePath: {
-                type: 'string',
-                description: 'Optional: Path to the parent node for the duplicate (defaults to same parent as original)',
-              },
-            },
-            required: ['projectPath', 'scenePath', 'nodePath', 'newName'],
-          },
-        },
-        {
-          name: 'query_node',
-          description: 'Get detailed information about a node in a scene',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              projectPath: {
-                type: 'string',
-                description: 'Path to the Godot project directory',
-              },
-              scenePath: {
-                type: 'string',
-                description: 'Path to the scene file (relative to project)',
-              },
-              nodePath: {
-                type: 'string',
-                description: 'Path to the node to query (e.g., "root/Player" or "root/Enemy/Sprite")',
-              },
-            },
-            required: ['projectPath', 'scenePath', 'nodePath'],
-          },
-        },
-        {
-          name: 'load_sprite',
-          description: 'Load a sprite into a Sprite2D node',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              projectPath: {
-                type: 'string',
-                description: 'Path to the Godot project directory',
-              },
-              scenePath: {
-                type: 'string',
-                description: 'Path to the scene file (relative to project)',
-              },
-              nodePath: {
-                type: 'string',
-                description: 'Path to the Sprite2D node (e.g., "root/Player/Sprite2D")',
-              },
-              texturePath: {
-                type: 'string',
-                description: 'Path to the texture file (relative to project)',
-              },
-            },
-            required: ['projectPath', 'scenePath', 'nodePath', 'texturePath'],
-          },
-        },
-        {
-          name: 'export_mesh_library',
-          description: 'Export a scene as a MeshLibrary resource',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              projectPath: {
-                type: 'string',
-                description: 'Path to the Godot project directory',
-              },
-              scenePath: {
-                type: 'string',
-                description: 'Path to the scene file (.tscn) to export',
-              },
-              outputPath: {
-                type: 'string',
-                description: 'Path where the mesh library (.res) will be saved',
-              },
-              meshItemNames: {
-                type: 'array',
-                items: {
-                  type: 'string',
-                },
-                description: 'Optional: Names of specific mesh items to include (defaults to all)',
-              },
-            },
-            required: ['projectPath', 'scenePath', 'outputPath'],
-          },
-        },
-        {
-          name: 'save_scene',
-          description: 'Save changes to a scene file',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              projectPath: {
-                type: 'string',
-                description: 'Path to the Godot project directory',
-              },
-              scenePath: {
-                type: 'string',
-                description: 'Path to the scene file (relative to project)',
-              },
-              newPath: {
-                type: 'string',
-                description: 'Optional: New path to save the scene to (for creating variants)',
-              },
-            },
-            required: ['projectPath', 'scenePath'],
-          },
-        },
-        {
-          name: 'get_uid',
-          description: 'Get the UID for a specific file in a Godot project (for Godot 4.4+)',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              projectPath: {
-                type: 'string',
-                description: 'Path to the Godot project directory',
-              },
-              filePath: {
-                type: 'string',
-                description: 'Path to the file (relative to project) for which to get the UID',
-              },
-            },
-            required: ['projectPath', 'filePath'],
-          },
-        },
-        {
-          name: 'update_project_uids',
-          description: 'Update UID references in a Godot project by resaving resources (for Godot 4.4+)',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              projectPath: {
-                type: 'string',
-                description: 'Path to the Godot project directory',
-              },
-            },
-            required: ['projectPath'],
-          },
-        },
-        {
-          name: 'add_physics_body',
-          description: 'Add a physics body (CharacterBody2D/3D, RigidBody2D/3D, StaticBody2D/3D, AnimatableBody2D/3D) to a scene with collision shape (Godot 4.5+)',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              projectPath: {
-                type: 'string',
-                description: 'Path to the Godot project directory',
-              },
-              scenePath: {
-                type: 'string',
-                description: 'Path to the scene file (relative to project)',
-              },
-              parentNodePath: {
-                type: 'string',
-                description: 'Path to the parent node (e.g., "root" or "root/Player")',
-                default: 'root',
-              },
-              bodyType: {
-                type: 'string',
-                description: 'Type of physics body',
-                enum: ['CharacterBody2D', 'RigidBody2D', 'StaticBody2D', 'AnimatableBody2D', 'CharacterBody3D', 'RigidBody3D', 'StaticBody3D', 'AnimatableBody3D'],
-              },
-              nodeName: {
-                type: 'string',
-                description: 'Name for the physics body node',
-              },
-              collisionShape: {
-                type: 'object',
-                description: 'Collision shape configuration',
-                properties: {
-                  type: {
-                    type: 'string',
-                    description: 'Type of collision shape',
-                    enum: ['RectangleShape2D', 'CircleShape2D', 'CapsuleShape2D', 'ConvexPolygonShape2D', 'BoxShape3D', 'SphereShape3D', 'CapsuleShape3D', 'CylinderShape3D', 'ConvexPolygonShape3D'],
-                  },
-                  size: {
-                    type: 'object',
-                    description: 'Size for rectangle/box shapes (Vector2 or Vector3)',
-                  },
-                  radius: {
-                    type: 'number',
-                    description: 'Radius for circle/sphere/capsule shapes',
-                  },
-                  height: {
-                    type: 'number',
-                    description: 'Height for capsule/cylinder shapes',
-                  },
-                },
-                required: ['type'],
-              },
-              physicsProperties: {
-                type: 'object',
-                description: 'Physics properties (optional)',
-                properties: {
-                  mass: {
-                    type: 'number',
-                    description: 'Mass for RigidBody (default: 1.0)',
-                  },
-                  physicsMaterial: {
-                    type: 'object',
-                    description: 'Physics material properties',
-                    properties: {
-                      friction: {
-                        type: 'number',
-                        description: 'Friction coefficient (default: 1.0)',
-                      },
-                      bounce: {
-                        type: 'number',
-                        description: 'Bounce/restitution coefficient (default: 0.0)',
-                      },
-                      absorbent: {
-                        type: 'boolean',
-                        description: 'Whether the material is absorbent (Godot 4.5+, default: false)',
-                      },
-                    },
-                  },
-                  gravityScale: {
-                    type: 'number',
-                    description: 'Gravity scale multiplier (default: 1.0)',
-                  },
-                  linearDamp: {
-                    type: 'number',
-                    description: 'Linear damping (default: 0.0)',
-                  },
-                  angularDamp: {
-                    type: 'number',
-                    description: 'Angular damping (default: 0.0)',
-                  },
-                  motionMode: {
-                    type: 'string',
-                    description: 'Motion mode for CharacterBody',
-                    enum: ['MOTION_MODE_GROUNDED', 'MOTION_MODE_FLOATING'],
-                  },
-                  platformOnLeave: {
-                    type: 'string',
-                    description: 'Platform behavior when leaving for CharacterBody',
-                    enum: ['PLATFORM_ON_LEAVE_ADD_VELOCITY', 'PLATFORM_ON_LEAVE_ADD_UPWARD_VELOCITY', 'PLATFORM_ON_LEAVE_DO_NOTHING'],
-                  },
-                },
-              },
-            },
-            required: ['projectPath', 'scenePath', 'bodyType', 'nodeName', 'collisionShape'],
-          },
-        },
-        {
-          name: 'configure_physics',
-          description: 'Configure physics properties of an existing physics body',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              projectPath: {
-                type: 'string',
-                description: 'Path to the Godot project directory',
-              },
-              scenePath: {
-                type: 'string',
-                description: 'Path to the scene file (relative to project)',
-              },
-              nodePath: {
-                type: 'string',
-                description: 'Path to the physics body node (e.g., "root/Player")',
-              },
-              properties: {
-                type: 'object',
-                description: 'Physics properties to configure',
-                properties: {
-                  mass: {
-                    type: 'number',
-                    description: 'Mass for RigidBody',
-                  },
-                  physicsMaterial: {
-                    type: 'object',
-                    description: 'Physics material properties',
-                    properties: {
-                      friction: {
-                        type: 'number',
-                        description: 'Friction coefficient',
-                      },
-                      bounce: {
-                        type: 'number',
-                        description: 'Bounce/restitution coefficient',
-                      },
-                      absorbent: {
-                        type: 'boolean',
-                        description: 'Whether the material is absorbent (Godot 4.5+)',
-                      },
-                    },
-                  },
-                  gravityScale: {
-                    type: 'number',
-                    description: 'Gravity scale multiplier',
-                  },
-                  linearDamp: {
-                    type: 'number',
-                    description: 'Linear damping',
-                  },
-                  angularDamp: {
-                    type: 'number',
-                    description: 'Angular damping',
-                  },
-                  motionMode: {
-                    type: 'string',
-                    description: 'Motion mode for CharacterBody',
-                    enum: ['MOTION_MODE_GROUNDED', 'MOTION_MODE_FLOATING'],
-                  },
-                  platformOnLeave: {
-                    type: 'string',
-                    description: 'Platform behavior when leaving for CharacterBody',
-                    enum: ['PLATFORM_ON_LEAVE_ADD_VELOCITY', 'PLATFORM_ON_LEAVE_ADD_UPWARD_VELOCITY', 'PLATFORM_ON_LEAVE_DO_NOTHING'],
-                  },
-                },
-              },
-            },
-            required: ['projectPath', 'scenePath', 'nodePath', 'properties'],
-          },
-        },
-        {
-          name: 'setup_collision_layers',
-          description: 'Configure collision layers and masks for a physics body',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              projectPath: {
-                type: 'string',
-                description: 'Path to the Godot project directory',
-              },
-              scenePath: {
-                type: 'string',
-                description: 'Path to the scene file (relative to project)',
-              },
-              nodePath: {
-                type: 'string',
-                description: 'Path to the physics body node (e.g., "root/Player")',
-              },
-              collisionLayer: {
-                type: 'number',
-                description: 'Collision layer bitmask (which layers this body is on)',
-              },
-              collisionMask: {
-                type: 'number',
-                description: 'Collision mask bitmask (which layers this body can collide with)',
-              },
-            },
-            required: ['projectPath', 'scenePath', 'nodePath'],
-          },
-        },
-        {
-          name: 'create_area',
-          description: 'Create an Area2D or Area3D node with collision shape for detecting overlaps',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              projectPath: {
-                type: 'string',
-                description: 'Path to the Godot project directory',
-              },
-              scenePath: {
-                type: 'string',
-                description: 'Path to the scene file (relative to project)',
-              },
-              parentNodePath: {
-                type: 'string',
-                description: 'Path to the parent node (e.g., "root" or "root/Player")',
-                default: 'root',
-              },
-              areaType: {
-                type: 'string',
-                description: 'Type of area node',
-                enum: ['Area2D', 'Area3D'],
-              },
-              nodeName: {
-                type: 'string',
-                description: 'Name for the area node',
-              },
-              collisionShape: {
-                type: 'object',
-                description: 'Collision shape configuration',
-                properties: {
-                  type: {
-                    type: 'string',
-                    description: 'Type of collision shape',
-                    enum: ['RectangleShape2D', 'CircleShape2D', 'CapsuleShape2D', 'BoxShape3D', 'SphereShape3D', 'CapsuleShape3D'],
-                  },
-                  size: {
-                    type: 'object',
-                    description: 'Size for rectangle/box shapes (Vector2 or Vector3)',
-                  },
-                  radius: {
-                    type: 'number',
-                    description: 'Radius for circle/sphere/capsule shapes',
-                  },
-                  height: {
-                    type: 'number',
-                    description: 'Height for capsule shapes',
-                  },
-                },
-                required: ['type'],
-              },
-              monitorable: {
-                type: 'boolean',
-                description: 'Whether other areas can detect this area (default: true)',
-              },
-              monitoring: {
-                type: 'boolean',
-                description: 'Whether this area can detect other bodies/areas (default: true)',
-              },
-            },
-            required: ['projectPath', 'scenePath', 'areaType', 'nodeName', 'collisionShape'],
-          },
-        },
-        {
-          name: 'get_class_info',
-          description: 'Get detailed information about a Godot class from the official documentation (Godot 4.5+)',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              className: {
-                type: 'string',
-                description: 'Name of the Godot class (e.g., Node2D, CharacterBody2D, AnimationPlayer)',
-              },
-            },
-            required: ['className'],
-          },
-        },
-        {
-          name: 'get_method_info',
-          description: 'Get detailed information about a specific method of a Godot class',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              className: {
-                type: 'string',
-                description: 'Name of the Godot class',
-              },
-              methodName: {
-                type: 'string',
-                description: 'Name of the method',
-              },
-            },
-            required: ['className', 'methodName'],
-          },
-        },
-        {
-          name: 'search_docs',
-          description: 'Search Godot documentation for classes, methods, properties, and signals',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              query: {
-                type: 'string',
-                description: 'Search query (e.g., "move_and_slide", "CharacterBody", "physics")',
-              },
-            },
-            required: ['query'],
-          },
-        },
-        {
-          name: 'get_best_practices',
-          description: 'Get best practices and recommendations for a specific Godot topic',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              topic: {
-                type: 'string',
-                description: 'Topic to get best practices for (e.g., "physics", "signals", "gdscript", "scene organization")',
-              },
-            },
-            required: ['topic'],
-          },
-        },
-        {
-          name: 'run_with_debug',
-          description: 'Run the Godot project in debug mode and capture all console output, errors, and warnings',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              projectPath: {
-                type: 'string',
-                description: 'Path to the Godot project directory',
-              },
-              scene: {
-                type: 'string',
-                description: 'Optional: Specific scene to run',
-              },
-              breakpoints: {
-                type: 'array',
-                description: 'Optional: Array of breakpoints to set',
-                items: {
-                  type: 'object',
-                  properties: {
-                    script: {
-                      type: 'string',
-                      description: 'Path to the script file',
-                    },
-                    line: {
-                      type: 'number',
-                      description: 'Line number for the breakpoint',
-                    },
-                  },
-                  required: ['script', 'line'],
-                },
-              },
-              captureOutput: {
-                type: 'boolean',
-                description: 'Whether to capture console output (default: true)',
-                default: true,
-              },
-            },
-            required: ['projectPath'],
-          },
-        },
-        {
-          name: 'get_error_context',
-          description: 'Get detailed context for an error including stack trace and suggested solutions from documentation',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              projectPath: {
-                type: 'string',
-                description: 'Path to the Godot project directory',
-              },
-              errorMessage: {
-                type: 'string',
-                description: 'The error message to analyze',
-              },
-              script: {
-                type: 'string',
-                description: 'Optional: Path to the script where the error occurred',
-              },
-              line: {
-                type: 'number',
-                description: 'Optional: Line number where the error occurred',
-              },
-            },
-            required: ['projectPath', 'errorMessage'],
-          },
-        },
-        {
-          name: 'capture_screenshot',
-          description: 'Capture a screenshot from a running Godot scene using Viewport.get_texture(). Note: Without scenePath, captures empty viewport (gray screen).',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              projectPath: {
-                type: 'string',
-                description: 'Path to the Godot project directory',
-              },
-              outputPath: {
-                type: 'string',
-                description: 'Path where the screenshot will be saved (relative to project or absolute)',
-              },
-              scenePath: {
-                type: 'string',
-                description: 'Path to the scene to capture (relative to project). Recommended to avoid empty screenshots.',
-              },
-              delay: {
-                type: 'number',
-                description: 'Optional: Delay in seconds before capturing the screenshot (default: 0)',
-              },
-              size: {
-                type: 'object',
-                description: 'Optional: Custom viewport size for the screenshot',
-                properties: {
-                  width: {
-                    type: 'number',
-                    description: 'Width in pixels',
-                  },
-                  height: {
-                    type: 'number',
-                    description: 'Height in pixels',
-                  },
-                },
-                required: ['width', 'height'],
-              },
-            },
-            required: ['projectPath', 'outputPath'],
-          },
-        },
-        {
-          name: 'list_missing_assets',
-          description: 'Scan the project for missing assets (textures, audio, scripts, scenes, materials, meshes) and generate a report with suggested fixes',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              projectPath: {
-                type: 'string',
-                description: 'Path to the Godot project directory',
-              },
-              checkTypes: {
-                type: 'array',
-                description: 'Optional: Types of assets to check for (default: all types)',
-                items: {
-                  type: 'string',
-                  enum: ['texture', 'audio', 'script', 'scene', 'material', 'mesh'],
-                },
-              },
-            },
-            required: ['projectPath'],
-          },
-        },
-        {
-          name: 'update_project_settings',
-          description: 'Update project settings in project.godot file',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              projectPath: {
-                type: 'string',
-                description: 'Path to the Godot project directory',
-              },
-              settings: {
-                type: 'object',
-                description: 'Settings to update (e.g., {"application/config/name": "My Game", "display/window/size/width": 1920})',
-              },
-            },
-            required: ['projectPath', 'settings'],
-          },
-        },
-        {
-          name: 'configure_input_map',
-          description: 'Configure input action mappings in the project',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              projectPath: {
-                type: 'string',
-                description: 'Path to the Godot project directory',
-              },
-              actions: {
-                type: 'array',
-                description: 'Array of input actions to configure',
-                items: {
-                  type: 'object',
-                  properties: {
-                    name: {
-                      type: 'string',
-                      description: 'Action name (e.g., "move_left", "jump")',
-                    },
-                    deadzone: {
-                      type: 'number',
-                      description: 'Deadzone for the action (default: 0.5)',
-                    },
-                    events: {
-                      type: 'array',
-                      description: 'Array of input events for this action',
-                      items: {
-                        type: 'object',
-                        properties: {
-                          type: {
-                            type: 'string',
-                            description: 'Event type',
-                            enum: ['key', 'mouse_button', 'joypad_button', 'joypad_motion'],
-                          },
-                          keycode: {
-                            type: 'string',
-                            description: 'Key code for keyboard events (e.g., "KEY_A", "KEY_SPACE")',
-                          },
-                          button: {
-                            type: 'number',
-                            description: 'Button index for mouse/joypad button events',
-                          },
-                          axis: {
-                            type: 'number',
-                            description: 'Axis index for joypad motion events',
-                          },
-                          axisValue: {
-                            type: 'number',
-                            description: 'Axis value for joypad motion events (-1.0 or 1.0)',
-                          },
-                        },
-                        required: ['type'],
-                      },
-                    },
-                  },
-                  required: ['name', 'events'],
-                },
-              },
-            },
-            required: ['projectPath', 'actions'],
-          },
-        },
-        {
-          name: 'setup_autoload',
-          description: 'Register autoload (singleton) scripts in the project',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              projectPath: {
-                type: 'string',
-                description: 'Path to the Godot project directory',
-              },
-              autoloads: {
-                type: 'array',
-                description: 'Array of autoload configurations',
-                items: {
-                  type: 'object',
-                  properties: {
-                    name: {
-                      type: 'string',
-                      description: 'Autoload name (will be accessible globally)',
-                    },
-                    path: {
-                      type: 'string',
-                      description: 'Path to the script or scene (relative to project, e.g., "res://scripts/GameManager.gd")',
-                    },
-                    enabled: {
-                      type: 'boolean',
-                      description: 'Whether the autoload is enabled (default: true)',
-                    },
-                  },
-                  required: ['name', 'path'],
-                },
-              },
-            },
-            required: ['projectPath', 'autoloads'],
-          },
-        },
-        {
-          name: 'manage_plugins',
-          description: 'Manage editor plugins (enable, disable, or list)',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              projectPath: {
-                type: 'string',
-                description: 'Path to the Godot project directory',
-              },
-              action: {
-                type: 'string',
-                description: 'Action to perform',
-                enum: ['list', 'enable', 'disable'],
-              },
-              pluginName: {
-                type: 'string',
-                description: 'Plugin name (required for enable/disable actions)',
-              },
-            },
-            required: ['projectPath', 'action'],
-          },
-        },
-        {
-          name: 'run_scene',
-          description: 'Run a specific scene in debug mode through Godot CLI with -d flag, capturing console output and errors',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              projectPath: {
-                type: 'string',
-                description: 'Path to the Godot project directory',
-              },
-              scenePath: {
-                type: 'string',
-                description: 'Path to the scene file to run (relative to project, e.g., "scenes/main.tscn")',
-              },
-              debug: {
-                type: 'boolean',
-                description: 'Whether to run in debug mode with -d flag (default: true)',
-                default: true,
-              },
-              additionalArgs: {
-                type: 'array',
-                description: 'Additional CLI arguments to pass to Godot',
-                items: {
-                  type: 'string',
-                },
-              },
-            },
-            required: ['projectPath', 'scenePath'],
-          },
-        },
-        {
-          name: 'remote_tree_dump',
-          description: 'Dump the remote scene tree during runtime with recursive traversal, supporting filtering by type, name, script presence, and depth. Optionally includes node properties and signal connections.',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              projectPath: {
-                type: 'string',
-                description: 'Path to the Godot project directory',
-              },
-              scenePath: {
-                type: 'string',
-                description: 'Optional: Path to the scene to run before dumping (relative to project)',
-              },
-              filter: {
-                type: 'object',
-                description: 'Optional: Filters to apply to the tree dump',
-                properties: {
-                  nodeType: {
-                    type: 'string',
-                    description: 'Filter by node type (e.g., "CharacterBody2D", "Sprite2D")',
-                  },
-                  nodeName: {
-                    type: 'string',
-                    description: 'Filter by node name (supports regex patterns)',
-                  },
-                  hasScript: {
-                    type: 'boolean',
-                    description: 'Only include nodes that have scripts attached',
-                  },
-                  depth: {
-                    type: 'number',
-                    description: 'Maximum depth of tree traversal (-1 for unlimited)',
-                  },
-                },
-              },
-              includeProperties: {
-                type: 'boolean',
-                description: 'Include node properties in the dump (default: false)',
-                default: false,
-              },
-              includeSignals: {
-                type: 'boolean',
-                description: 'Include connected signals in the dump (default: false)',
-                default: false,
-              },
-            },
-            required: ['projectPath'],
-          },
-        },
-        {
-          name: 'toggle_debug_draw',
-          description: 'Toggle Viewport debug draw mode for visual diagnostics. Supports all Godot 4.5+ debug draw modes including wireframe, overdraw, lighting, normal buffer, and various GI/shadow visualization modes.',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              projectPath: {
-                type: 'string',
-                description: 'Path to the Godot project directory',
-              },
-              mode: {
-                type: 'string',
-                description: 'Debug draw mode to enable',
-                enum: [
-                  'disabled',
-                  'unshaded',
-                  'lighting',
-                  'overdraw',
-                  'wireframe',
-                  'normal_buffer',
-                  'voxel_gi_albedo',
-                  'voxel_gi_lighting',
-                  'voxel_gi_emission',
-                  'shadow_atlas',
-                  'directional_shadow_atlas',
-                  'scene_luminance',
-                  'ssao',
-                  'ssil',
-                  'pssm_splits',
-                  'decal_atlas',
-                  'sdfgi',
-                  'sdfgi_probes',
-                  'gi_buffer',
-                  'disable_lod',
-                  'cluster_omni_lights',
-                  'cluster_spot_lights',
-                  'cluster_decals',
-                  'cluster_reflection_probes',
-                  'occluders',
-                  'motion_vectors',
-                  'internal_buffer',
-                ],
-              },
-              viewport: {
-                type: 'string',
-                description: 'Optional: Path to specific Viewport node (default: "/root")',
-              },
-            },
-            required: ['projectPath', 'mode'],
-          },
-        },
-      ],
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({
+      tools: this.withOutputProperties(
+        gateTools(
+          TOOL_DEFINITIONS.filter(tool => this.toolPolicy.isListed(tool.name) && this.isToolListed(tool.name)),
+          await this.engineVersionFor(),
+          this.unsupportedTools
+        )
+      ),
     }));
 
-    // Handle tool calls
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      this.logDebug(`Handling tool request: ${request.params.name}`);
-      switch (request.params.name) {
-        case 'launch_editor':
-          return await this.handleLaunchEditor(request.params.arguments);
-        case 'run_project':
-          return await this.handleRunProject(request.params.arguments);
-        case 'get_debug_output':
-          return await this.handleGetDebugOutput();
-        case 'stop_project':
-          return await this.handleStopProject();
-        case 'get_godot_version':
-          return await this.handleGetGodotVersion();
-        case 'list_projects':
-          return await this.handleListProjects(request.params.arguments);
-        case 'get_project_info':
-          return await this.handleGetProjectInfo(request.params.arguments);
-        case 'create_scene':
-          return await this.handleCreateScene(request.params.arguments);
-        case 'add_node':
-          return await this.handleAddNode(request.params.arguments);
-        case 'create_script':
-          return await this.handleCreateScript(request.params.arguments);
-        case 'attach_script':
-          return await this.handleAttachScript(request.params.arguments);
-        case 'validate_script':
-          return await this.handleValidateScript(request.params.arguments);
-        case 'get_node_methods':
-          return await this.handleGetNodeMethods(request.params.arguments);
-        case 'create_signal':
-          return await this.handleCreateSignal(request.params.arguments);
-        case 'connect_signal':
-          return await this.handleConnectSignal(request.params.arguments);
-        case 'list_signals':
-          return await this.handleListSignals(request.params.arguments);
-        case 'disconnect_signal':
-          return await this.handleDisconnectSignal(request.params.arguments);
-        case 'remove_node':
-          return await this.handleRemoveNode(request.params.arguments);
-        case 'modify_node':
-          return await this.handleModifyNode(request.params.arguments);
-        case 'duplicate_node':
-          return await this.handleDuplicateNode(request.params.arguments);
-        case 'query_node':
-          return await this.handleQueryNode(request.params.arguments);
-        case 'load_sprite':
-          return await this.handleLoadSprite(request.params.arguments);
-        case 'export_mesh_library':
-          return await this.handleExportMeshLibrary(request.params.arguments);
-        case 'save_scene':
-          return await this.handleSaveScene(request.params.arguments);
-        case 'get_uid':
-          return await this.handleGetUid(request.params.arguments);
-        case 'update_project_uids':
-          return await this.handleUpdateProjectUids(request.params.arguments);
-        case 'import_asset':
-          return await this.handleImportAsset(request.params.arguments);
-        case 'create_resource':
-          return await this.handleCreateResource(request.params.arguments);
-        case 'list_assets':
-          return await this.handleListAssets(request.params.arguments);
-        case 'configure_import':
-          return await this.handleConfigureImport(request.params.arguments);
-        case 'add_physics_body':
-          return await this.handleAddPhysicsBody(request.params.arguments);
-        case 'configure_physics':
-          return await this.handleConfigurePhysics(request.params.arguments);
-        case 'setup_collision_layers':
-          return await this.handleSetupCollisionLayers(request.params.arguments);
-        case 'create_area':
-          return await this.handleCreateArea(request.params.arguments);
-        case 'create_animation_player':
-          return await this.handleCreateAnimationPlayer(request.params.arguments);
-        case 'add_keyframes':
-          return await this.handleAddKeyframes(request.params.arguments);
-        case 'setup_animation_tree':
-          return await this.handleSetupAnimationTree(request.params.arguments);
-        case 'add_particles':
-          return await this.handleAddParticles(request.params.arguments);
-        case 'get_class_info':
-          return await this.handleGetClassInfo(request.params.arguments);
-        case 'get_method_info':
-          return await this.handleGetMethodInfo(request.params.arguments);
-        case 'search_docs':
-          return await this.handleSearchDocs(request.params.arguments);
-        case 'get_best_practices':
-          return await this.handleGetBestPractices(request.params.arguments);
-        case 'run_with_debug':
-          return await this.handleRunWithDebug(request.params.arguments);
-        case 'get_error_context':
-          return await this.handleGetErrorContext(request.params.arguments);
-        case 'capture_screenshot':
-          return await this.handleCaptureScreenshot(request.params.arguments);
-        case 'list_missing_assets':
-          return await this.handleListMissingAssets(request.params.arguments);
-        case 'update_project_settings':
-          return await this.handleUpdateProjectSettings(request.params.arguments);
-        case 'configure_input_map':
-          return await this.handleConfigureInputMap(request.params.arguments);
-        case 'setup_autoload':
-          return await this.handleSetupAutoload(request.params.arguments);
-        case 'manage_plugins':
-          return await this.handleManagePlugins(request.params.arguments);
-        case 'run_scene':
-          return await this.handleRunScene(request.params.arguments);
-        case 'remote_tree_dump':
-          return await this.handleRemoteTreeDump(request.params.arguments);
-        case 'toggle_debug_draw':
-          return await this.handleToggleDebugDraw(request.params.arguments);
-        default:
-          throw new McpError(
-            ErrorCode.MethodNotFound,
-            `Unknown tool: ${request.params.name}`
-          );
+    // Handle tool calls
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+      this.logDebug(`Handling tool request: ${request.params.name}`);
+
+      const tool = getToolDefinition(request.params.name);
+      if (!tool) {
+        throw new McpError(
+          ErrorCode.MethodNotFound,
+          `Unknown tool: ${request.params.name}`
+        );
+      }
+
+      // Output options and dryRun are handled here and never reach the tool handlers
+      const { format, cursor, limit, dryRun, ...rawArgs } = (request.params.arguments || {}) as Record<string, any>;
+      if (format !== undefined && !isOutputFormat(format)) {
+        return this.createErrorResponse(
+          `Invalid format: ${format}`,
+          ['Use "json" or "markdown"']
+        );
+      }
+      if (dryRun !== undefined && dryRun !== null && typeof dryRun !== 'boolean') {
+        return this.createErrorResponse(
+          `Invalid dryRun: expected boolean, got ${typeof dryRun}`,
+          ['Use true or false']
+        );
+      }
+      if (cursor !== undefined && !PAGED_TOOLS[tool.name]) {
+        return this.createErrorResponse(
+          `Invalid cursor: ${tool.name} does not return paged results`,
+          ['Call the tool without a cursor']
+        );
+      }
+      const outputOptions: OutputOptions = { format: format ?? this.outputFormat, limit, cursorScope: `${tool.name}:${sessionId}` };
+      const respond = (result: ToolResult) => (outputOptions.format === 'json' ? toJsonResult(result) : result);
+
+      let args: any;
+      try {
+        args = this.validateToolArguments(tool, rawArgs);
+      } catch (error: unknown) {
+        if (!(error instanceof ToolArgumentError)) {
+          throw error;
+        }
+        return respond(this.createErrorResponse(
+          error.message,
+          [`Check the inputSchema of ${tool.name} in tools/list for the expected arguments`]
+        ));
+      }
+
+      // The server policy is checked before anything else looks at the project
+      try {
+        this.toolPolicy.assertAllowed(tool.name, args);
+      } catch (error: unknown) {
+        if (error instanceof ToolPolicyError) {
+          return respond(this.createErrorResponse(error.message, [
+            'Ask the server administrator to change GODOT_MCP_READ_ONLY, GODOT_MCP_DENY_TOOLS or GODOT_MCP_WRITE_PATHS',
+          ]));
+        }
+        throw error;
+      }
+
+      try {
+        this.checkToolPaths(tool.name, args);
+      } catch (error: unknown) {
+        if (error instanceof PathSandboxError) {
+          return respond(this.createErrorResponse(error.message, [
+            'Use a project inside the allowed roots (GODOT_MCP_ALLOWED_ROOTS)',
+            'Use paths relative to the project directory, or res:// paths',
+          ]));
+        }
+        throw error;
+      }
+
+      this.trackActiveProject(args);
+
+      // The project's configuration may turn tools off
+      try {
+        if (!isToolEnabled(this.projectConfig(args.projectPath), tool.name)) {
+          return respond(this.createErrorResponse(
+            `Tool ${tool.name} is disabled by the project configuration`,
+            ['Enable the tool in .godot-mcp.json or the [mcp] section of project.godot']
+          ));
+        }
+      } catch (error: unknown) {
+        if (error instanceof ProjectConfigError) {
+          return respond(this.createErrorResponse(error.message, [
+            'Fix or remove .godot-mcp.json or the [mcp] section of project.godot',
+          ]));
+        }
+        throw error;
+      }
+
+      // Tools and arguments the project's engine does not have are refused before Godot starts
+      const unsupported = await this.checkEngineSupport(tool.name, args);
+      if (unsupported) {
+        return respond(this.createErrorResponse(unsupported, [
+          'Leave out the arguments the engine does not have',
+          'Upgrade the project to a newer Godot version, or set godotPath in its configuration to a newer executable',
+          'Use list_godot_installations to see the executables found and the one the project uses',
+        ]));
+      }
+
+      // A cursor serves the stored result of an earlier call, once every check allowed the call
+      if (cursor !== undefined) {
+        try {
+          return jsonResult(this.resultPager.nextPage(String(cursor), outputOptions.cursorScope, limit));
+        } catch (error: unknown) {
+          if (error instanceof CursorError) {
+            return toJsonResult(this.createErrorResponse(error.message, ['Call the tool again without a cursor']));
+          }
+          throw error;
+        }
+      }
+
+      // Cancelling the request stops the Godot process it started
+      const context: ToolCallContext = { signal: extra.signal, logSubscriptions: this.logSubscriptions.get(server) };
+      const progressToken = request.params._meta?.progressToken;
+      if (progressToken !== undefined) {
+        context.onProgress = this.progressNotifier(server, progressToken);
+      }
+
+      if (dryRun === true) {
+        return respond(await this.dryRunTool(tool.name, args, outputOptions, context));
       }
+      return respond(await this.callToolWithHistory(tool.name, args, outputOptions, context));
     });
   }
 
   /**
-   * Handle the launch_editor tool
-   * @param args Tool arguments
+   * Forward progress updates of a tool call to the client as progress
+   * notifications. Updates that do not advance the progress are dropped.
    */
-  private async handleLaunchEditor(args: any) {
-    // Normalize parameters to camelCase
-    args = this.normalizeParameters(args);
+  private progressNotifier(server: Server, progressToken: string | number): (update: ProgressUpdate) => void {
+    let last = -Infinity;
+    return (update: ProgressUpdate) => {
+      if (update.progress <= last) {
+        return;
+      }
+      last = update.progress;
+      server.notification({
+        method: 'notifications/progress',
+        params: { progressToken, ...update },
+      }).catch((error: unknown) => {
+        this.logDebug(`Failed to send progress notification: ${error}`);
+      });
+    };
+  }
 
-    if (!args.projectPath) {
+  /**
+   * Run a write tool against a temporary copy of its project and report the
+   * files it would change, leaving the project untouched
+   */
+  private async dryRunTool(
+    name: string,
+    args: any,
+    outputOptions: OutputOptions,
+    context: ToolCallContext
+  ): Promise<ToolResult> {
+    if (!supportsDryRun(name)) {
       return this.createErrorResponse(
-        'Project path is required',
-        ['Provide a valid path to a Godot project directory']
+        `Tool ${name} does not support dryRun`,
+        TOOL_ACCESS[name as ToolName] === 'write'
+          ? ['This tool may change any file in the project, so its changes cannot be previewed']
+          : ['Only tools that change project files support dryRun']
       );
     }
 
+    const projectPath: string = args.projectPath;
+    const workspace = DryRunWorkspace.create(projectPath);
+    this.dryRunRoots.add(workspace.root);
+    this.logDebug(`Dry run of ${name} in ${workspace.root}`);
+
+    try {
+      const result = await this.callTool(name, { ...args, projectPath: workspace.root }, outputOptions, context);
+      return this.dryRunResponse(name, result, workspace.changes(), workspace.root, projectPath, outputOptions);
+    } finally {
+      this.dryRunRoots.delete(workspace.root);
+      workspace.dispose();
+    }
+  }
+
+  /**
+   * Build the response of a dry run: the files that would change with their
+   * diff, followed by the tool's own output
+   */
+  private dryRunResponse(
+    name: string,
+    result: ToolResult,
+    changes: FileChange[],
+    workspaceRoot: string,
+    projectPath: string,
+    outputOptions: OutputOptions
+  ): ToolResult {
+    // The tool saw the temporary copy, so its output names the copy instead of the project
+    const output = result.content
+      .filter(item => item.type === 'text' && typeof item.text === 'string')
+      .map(item => (item.text as string).split(workspaceRoot).join(projectPath))
+      .join('\n\n');
+    const files = changes.map(change => ({
+      path: change.path,
+      status: change.before === null ? 'added' : change.after === null ? 'deleted' : 'modified',
+    }));
+    const diff = changes.map(change => fileDiff(change.path, change.before, change.after)).join('');
+
+    if (outputOptions.format === 'json') {
+      return jsonResult({
+        success: !result.isError,
+        dryRun: true,
+        tool: name,
+        files,
+        diff,
+        output,
+      }, result.isError === true);
+    }
+
+    const lines = [
+      result.isError
+        ? `Dry run of ${name} failed. Nothing was written`
+        : `Dry run of ${name}: ${changes.length} file(s) would change. Nothing was written`,
+      ...files.map(file => `- ${file.path} (${file.status})`),
+    ];
+    if (diff) {
+      lines.push('', '```diff', diff.trimEnd(), '```');
+    }
+    lines.push('', 'Tool output:', output);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: lines.join('\n'),
+        },
+      ],
+      ...(result.isError ? { isError: true } : {}),
+    };
+  }
+
+  /**
+   * Run a tool call, snapshotting the files a write tool may change first so
+   * the change can be undone
+   */
+  private async callToolWithHistory(
+    name: string,
+    args: any,
+    outputOptions: OutputOptions,
+    context: ToolCallContext
+  ): Promise<ToolResult> {
+    const targets = this.historyTargets(name, args);
+    if (!targets) {
+      return await this.callTool(name, args, outputOptions, context);
+    }
+
+    const pending = this.changeHistory.capture(args.projectPath, name, targets);
+    try {
+      return await this.callTool(name, args, outputOptions, context);
+    } finally {
+      // A failed call may still have changed files, so it is recorded as well
+      const entry = this.changeHistory.record(pending);
+      if (entry) {
+        this.logDebug(`Recorded change #${entry.id} (${name}): ${entry.files.map(file => file.path).join(', ')}`);
+      }
+    }
+  }
+
+  /**
+   * Absolute paths of the files a tool call may change
+   * @returns The paths, or null if the call is not recorded in the change history
+   */
+  private historyTargets(name: string, args: Record<string, any>): string[] | null {
+    if (typeof args.projectPath !== 'string' || this.toolPolicy.accessOf(name, args) !== 'write') {
+      return null;
+    }
+    // undo_last_change and redo_change move entries between the stacks themselves,
+    // and update_project_uids may resave any file
+    const targets = writeTargets(name, args);
+    if (!targets) {
+      return null;
+    }
+    return targets.map(target => this.pathSandbox.resolveInProject(args.projectPath, target));
+  }
+
+  /**
+   * Check that every path of a tool call stays inside the allowed roots and its project.
+   * Symlinks are followed, and write tools may only change files inside the project.
+   * @throws PathSandboxError naming the first path that is not allowed
+   */
+  private checkToolPaths(name: string, args: Record<string, any>): void {
+    if (name === 'list_projects') {
+      this.pathSandbox.resolveDirectory(args.directory);
+      return;
+    }
+
+    if (typeof args.projectPath !== 'string') {
+      return;
+    }
+    this.pathSandbox.resolveDirectory(args.projectPath);
+
+    for (const key of PROJECT_PATH_ARGUMENTS) {
+      if (typeof args[key] === 'string' && args[key] !== '') {
+        this.pathSandbox.resolveInProject(args.projectPath, args[key]);
+      }
+    }
+
+    if (this.toolPolicy.accessOf(name, args) === 'write') {
+      for (const target of writeTargets(name, args) ?? []) {
+        if (target.startsWith('user://')) {
+          throw new PathSandboxError(`${name} may not write ${target}: write tools only change files inside the project`);
+        }
+        this.pathSandbox.resolveInProject(args.projectPath, target);
+      }
+    }
+  }
+
+  /**
+   * Check a tool call against the engine version of its project
+   * @returns Why the engine cannot run the call, or null if it can or the version is unknown
+   */
+  private async checkEngineSupport(name: string, args: any): Promise<string | null> {
+    if (!needsFeatures(name, args)) {
+      return null;
+    }
+    // Without a readable version the handler reports the missing executable
+    const version = await this.engineVersionFor(args.projectPath);
+    if (!version) {
+      return null;
+    }
+    const missing = missingFeatures(name, args, version);
+    return missing.length > 0 ? unsupportedMessage(name, missing, version) : null;
+  }
+
+  /**
+   * Check whether the active project's configuration allows a tool.
+   * An invalid configuration lists every tool; calls report the error.
+   */
+  private isToolListed(name: string): boolean {
+    try {
+      return isToolEnabled(this.projectConfig(), name);
+    } catch {
+      return true;
+    }
+  }
+
+  /**
+   * Normalize argument names to camelCase and check them against the tool's input schema
+   * @throws ToolArgumentError naming every field that does not match the schema
+   */
+  private validateToolArguments(tool: ToolDefinition, args: Record<string, any>): any {
+    const normalized = normalizeArgumentKeys(tool.inputSchema, args);
+    const issues = validateArguments(tool.inputSchema, normalized);
+    if (issues.length > 0) {
+      throw new ToolArgumentError(tool.name, issues);
+    }
+    return normalized;
+  }
+
+  /**
+   * Dispatch a tool call to its handler
+   */
+  private async callTool(
+    name: string,
+    args: any,
+    outputOptions: OutputOptions,
+    context: ToolCallContext
+  ): Promise<ToolResult> {
+    switch (name) {
+      case 'launch_editor':
+        return await this.handleLaunchEditor(args);
+      case 'run_project':
+        return await this.handleRunProject(args);
+      case 'get_debug_output':
+        return await this.handleGetDebugOutput(args);
+      case 'stop_project':
+        return await this.handleStopProject(args);
+      case 'list_sessions':
+        return await this.handleListSessions();
+      case 'subscribe_session_output':
+        return await this.handleSubscribeSessionOutput(args, context);
+      case 'unsubscribe_session_output':
+        return await this.handleUnsubscribeSessionOutput(args, context);
+      case 'get_godot_version':
+        return await this.handleGetGodotVersion();
+      case 'list_godot_installations':
+        return await this.handleListGodotInstallations(args);
+      case 'list_projects':
+        return await this.handleListProjects(args);
+      case 'get_project_info':
+        return await this.handleGetProjectInfo(args);
+      case 'create_scene':
+        return await this.handleCreateScene(args);
+      case 'add_node':
+        return await this.handleAddNode(args);
+      case 'create_script':
+        return await this.handleCreateScript(args);
+      case 'attach_script':
+        return await this.handleAttachScript(args);
+      case 'validate_script':
+        return await this.handleValidateScript(args);
+      case 'get_node_methods':
+        return await this.handleGetNodeMethods(args);
+      case 'create_signal':
+        return await this.handleCreateSignal(args);
+      case 'connect_signal':
+        return await this.handleConnectSignal(args);
+      case 'list_signals':
+        return await this.handleListSignals(args);
+      case 'disconnect_signal':
+        return await this.handleDisconnectSignal(args);
+      case 'remove_node':
+        return await this.handleRemoveNode(args);
+      case 'modify_node':
+        return await this.handleModifyNode(args);
+      case 'duplicate_node':
+        return await this.handleDuplicateNode(args);
+      case 'batch_operations':
+        return await this.handleBatchOperations(args);
+      case 'query_node':
+        return await this.handleQueryNode(args);
+      case 'diff_scenes':
+        return await this.handleDiffScenes(args, context);
+      case 'merge_scene':
+        return await this.handleMergeScene(args, context);
+      case 'load_sprite':
+        return await this.handleLoadSprite(args);
+      case 'export_mesh_library':
+        return await this.handleExportMeshLibrary(args, context);
+      case 'save_scene':
+        return await this.handleSaveScene(args);
+      case 'get_uid':
+        return await this.handleGetUid(args);
+      case 'update_project_uids':
+        return await this.handleUpdateProjectUids(args, context);
+      case 'import_asset':
+        return await this.handleImportAsset(args);
+      case 'create_resource':
+        return await this.handleCreateResource(args);
+      case 'list_assets':
+        return await this.handleListAssets(args);
+      case 'configure_import':
+        return await this.handleConfigureImport(args);
+      case 'add_physics_body':
+        return await this.handleAddPhysicsBody(args);
+      case 'configure_physics':
+        return await this.handleConfigurePhysics(args);
+      case 'setup_collision_layers':
+        return await this.handleSetupCollisionLayers(args);
+      case 'create_area':
+        return await this.handleCreateArea(args);
+      case 'create_animation_player':
+        return await this.handleCreateAnimationPlayer(args);
+      case 'add_keyframes':
+        return await this.handleAddKeyframes(args);
+      case 'setup_animation_tree':
+        return await this.handleSetupAnimationTree(args);
+      case 'add_particles':
+        return await this.handleAddParticles(args);
+      case 'get_class_info':
+        return await this.handleGetClassInfo(args, context);
+      case 'get_method_info':
+        return await this.handleGetMethodInfo(args, context);
+      case 'search_docs':
+        return await this.handleSearchDocs(args);
+      case 'get_best_practices':
+        return await this.handleGetBestPractices(args);
+      case 'run_with_debug':
+        return await this.handleRunWithDebug(args, outputOptions);
+      case 'get_error_context':
+        return await this.handleGetErrorContext(args);
+      case 'capture_screenshot':
+        return await this.handleCaptureScreenshot(args);
+      case 'list_missing_assets':
+        return await this.handleListMissingAssets(args, outputOptions, context);
+      case 'dependency_graph':
+        return await this.handleDependencyGraph(args, context);
+      case 'get_project_settings':
+        return await this.handleGetProjectSettings(args, context);
+      case 'update_project_settings':
+        return await this.handleUpdateProjectSettings(args);
+      case 'configure_input_map':
+        return await this.handleConfigureInputMap(args);
+      case 'setup_autoload':
+        return await this.handleSetupAutoload(args);
+      case 'manage_plugins':
+        return await this.handleManagePlugins(args);
+      case 'run_scene':
+        return await this.handleRunScene(args, outputOptions);
+      case 'remote_tree_dump':
+        return await this.handleRemoteTreeDump(args, outputOptions);
+      case 'toggle_debug_draw':
+        return await this.handleToggleDebugDraw(args);
+      case 'undo_last_change':
+        return await this.handleUndoLastChange(args);
+      case 'redo_change':
+        return await this.handleRedoChange(args);
+      case 'list_change_history':
+        return await this.handleListChangeHistory(args);
+      default:
+        throw new McpError(
+          ErrorCode.MethodNotFound,
+          `Unknown tool: ${name}`
+        );
+    }
+  }
+
+  /**
+   * Handle the launch_editor tool
+   * @param args Tool arguments
+   */
+  private async handleLaunchEditor(args: ToolArgs<'launch_editor'>) {
     if (!this.validatePath(args.projectPath)) {
       return this.createErrorResponse(
         'Invalid project path',
@@ -3014,18 +2056,19 @@ class GodotServer {
     }
 
     try {
-      // Ensure godotPath is set
-      if (!this.godotPath) {
-        await this.detectGodotPath();
-        if (!this.godotPath) {
-          return this.createErrorResponse(
-            'Could not find a valid Godot executable path',
-            [
-              'Ensure Godot is installed correctly',
-              'Set GODOT_PATH environment variable to specify the correct path',
-            ]
-          );
-        }
+      // Use the project's configured executable, or the detected one
+      let godotPath: string;
+      try {
+        godotPath = await this.godotPathFor(args.projectPath);
+      } catch (error: unknown) {
+        return this.createErrorResponse(
+          error instanceof Error ? error.message : 'Could not find a valid Godot executable path',
+          [
+            'Ensure Godot is installed correctly',
+            'Set GODOT_PATH environment variable to specify the correct path',
+            'Check godotPath in the project configuration',
+          ]
+        );
       }
 
       // Check if the project directory exists and contains a project.godot file
@@ -3041,7 +2084,7 @@ class GodotServer {
       }
 
       this.logDebug(`Launching Godot editor for project: ${args.projectPath}`);
-      const process = spawn(this.godotPath, ['-e', '--path', args.projectPath], {
+      const process = spawn(godotPath, ['-e', '--path', args.projectPath], {
         stdio: 'pipe',
       });
 
@@ -3074,17 +2117,7 @@ class GodotServer {
    * Handle the run_project tool
    * @param args Tool arguments
    */
-  private async handleRunProject(args: any) {
-    // Normalize parameters to camelCase
-    args = this.normalizeParameters(args);
-
-    if (!args.projectPath) {
-      return this.createErrorResponse(
-        'Project path is required',
-        ['Provide a valid path to a Godot project directory']
-      );
-    }
-
+  private async handleRunProject(args: ToolArgs<'run_project'>) {
     if (!this.validatePath(args.projectPath)) {
       return this.createErrorResponse(
         'Invalid project path',
@@ -3105,64 +2138,40 @@ class GodotServer {
         );
       }
 
-      // Kill any existing process
-      if (this.activeProcess) {
-        this.logDebug('Killing existing Godot process before starting a new one');
-        this.activeProcess.process.kill();
-      }
-
+      const scene = args.scene || this.projectConfig(args.projectPath).defaultScene;
       const cmdArgs = ['-d', '--path', args.projectPath];
-      if (args.scene && this.validatePath(args.scene)) {
-        this.logDebug(`Adding scene parameter: ${args.scene}`);
-        cmdArgs.push(args.scene);
+      if (scene && this.validatePath(scene)) {
+        this.logDebug(`Adding scene parameter: ${scene}`);
+        cmdArgs.push(scene);
       }
 
       this.logDebug(`Running Godot project: ${args.projectPath}`);
-      const process = spawn(this.godotPath!, cmdArgs, { stdio: 'pipe' });
-      const output: string[] = [];
-      const errors: string[] = [];
-
-      process.stdout?.on('data', (data: Buffer) => {
-        const lines = data.toString().split('\n');
-        output.push(...lines);
-        lines.forEach((line: string) => {
-          if (line.trim()) this.logDebug(`[Godot stdout] ${line}`);
-        });
-      });
-
-      process.stderr?.on('data', (data: Buffer) => {
-        const lines = data.toString().split('\n');
-        errors.push(...lines);
-        lines.forEach((line: string) => {
-          if (line.trim()) this.logDebug(`[Godot stderr] ${line}`);
-        });
-      });
-
-      process.on('exit', (code: number | null) => {
-        this.logDebug(`Godot process exited with code ${code}`);
-        if (this.activeProcess && this.activeProcess.process === process) {
-          this.activeProcess = null;
-        }
-      });
-
-      process.on('error', (err: Error) => {
-        console.error('Failed to start Godot process:', err);
-        if (this.activeProcess && this.activeProcess.process === process) {
-          this.activeProcess = null;
-        }
+      const session = this.processManager.start({
+        godotPath: await this.godotPathFor(args.projectPath),
+        args: cmdArgs,
+        projectPath: args.projectPath,
+        scene,
+        sessionId: args.sessionId,
+        kind: 'run',
+        maxLogLines: args.maxLogLines,
       });
 
-      this.activeProcess = { process, output, errors };
-
       return {
         content: [
           {
             type: 'text',
-            text: `Godot project started in debug mode. Use get_debug_output to see output.`,
+            text: `Godot project started in debug mode as session '${session.id}' (pid ${session.pid}). Use get_debug_output to see output.`,
           },
         ],
       };
     } catch (error: unknown) {
+      if (error instanceof ProcessSessionError) {
+        return this.createErrorResponse(error.message, [
+          'Use a different sessionId to run another instance',
+          'Use stop_project with this sessionId to stop the running instance first',
+          'Use list_sessions to see running sessions',
+        ]);
+      }
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       return this.createErrorResponse(
         `Failed to run Godot project: ${errorMessage}`,
@@ -3175,28 +2184,55 @@ class GodotServer {
     }
   }
 
+  /**
+   * Find the session a tool call refers to
+   * @param sessionId Requested session id, or undefined for the most recent session
+   */
+  private findSession(sessionId?: string): ProcessSession | undefined {
+    return sessionId ? this.processManager.get(sessionId) : this.processManager.latest();
+  }
+
   /**
    * Handle the get_debug_output tool
    */
-  private async handleGetDebugOutput() {
-    if (!this.activeProcess) {
+  private async handleGetDebugOutput(args: ToolArgs<'get_debug_output'>) {
+    const session = this.findSession(args.sessionId);
+    if (!session) {
       return this.createErrorResponse(
-        'No active Godot process.',
+        args.sessionId ? `Unknown session: ${args.sessionId}` : 'No active Godot process.',
         [
           'Use run_project to start a Godot project first',
-          'Check if the Godot process crashed unexpectedly',
+          'Use list_sessions to see available sessions',
         ]
       );
     }
 
+    const { search, error } = this.searchPattern(args);
+    if (error) {
+      return error;
+    }
+
+    const page = session.log.read({
+      sinceLine: args.sinceLine,
+      levels: args.levels,
+      search,
+      maxLines: args.maxLines,
+    });
+    const info = this.processManager.describe(session);
     return {
       content: [
         {
           type: 'text',
           text: JSON.stringify(
             {
-              output: this.activeProcess.output,
-              errors: this.activeProcess.errors,
+              sessionId: session.id,
+              status: info.status,
+              exitCode: info.exitCode,
+              lines: page.lines,
+              nextCursor: page.nextCursor,
+              hasMore: page.hasMore,
+              skippedLines: page.skipped,
+              totalLines: page.totalLines,
             },
             null,
             2
@@ -3206,11 +2242,58 @@ class GodotServer {
     };
   }
 
+  /**
+   * Compile the search argument of the session output tools
+   */
+  private searchPattern(args: { search?: string; ignoreCase?: boolean }): { search?: RegExp; error?: ToolResult } {
+    if (args.search === undefined) {
+      return {};
+    }
+    try {
+      return { search: new RegExp(args.search, args.ignoreCase ? 'i' : '') };
+    } catch (error: unknown) {
+      return {
+        error: this.createErrorResponse(
+          `Invalid search pattern: ${error instanceof Error ? error.message : String(error)}`,
+          [
+            'Use a JavaScript regular expression, e.g. "Player|Enemy"',
+            'Escape special characters such as ( [ . with a backslash',
+          ]
+        ),
+      };
+    }
+  }
+
   /**
    * Handle the stop_project tool
    */
-  private async handleStopProject() {
-    if (!this.activeProcess) {
+  private async handleStopProject(args: ToolArgs<'stop_project'>) {
+    let targets: ProcessSession[];
+    if (args.all) {
+      targets = this.processManager.running();
+    } else if (args.sessionId) {
+      const session = this.processManager.get(args.sessionId);
+      if (!session) {
+        return this.createErrorResponse(
+          `Unknown session: ${args.sessionId}`,
+          ['Use list_sessions to see available sessions']
+        );
+      }
+      targets = [session];
+    } else {
+      targets = this.processManager.running();
+      if (targets.length > 1) {
+        return this.createErrorResponse(
+          `${targets.length} sessions are running: ${targets.map(session => session.id).join(', ')}`,
+          [
+            'Provide the sessionId of the session to stop',
+            'Set all to true to stop every running session',
+          ]
+        );
+      }
+    }
+
+    if (targets.length === 0 || targets.every(session => session.status !== 'running')) {
       return this.createErrorResponse(
         'No active Godot process to stop.',
         [
@@ -3220,21 +2303,117 @@ class GodotServer {
       );
     }
 
-    this.logDebug('Stopping active Godot process');
-    this.activeProcess.process.kill();
-    const output = this.activeProcess.output;
-    const errors = this.activeProcess.errors;
-    this.activeProcess = null;
+    const stopped = [];
+    for (const session of targets) {
+      this.logDebug(`Stopping Godot session: ${session.id}`);
+      await this.processManager.stop(session.id);
+      const info = this.processManager.describe(session);
+      stopped.push({
+        sessionId: session.id,
+        exitCode: info.exitCode,
+        exitSignal: info.exitSignal,
+        finalOutput: session.log.tail('stdout', STOPPED_SESSION_TAIL),
+        finalErrors: session.log.tail('stderr', STOPPED_SESSION_TAIL),
+      });
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(
+            {
+              message: stopped.length === 1 ? 'Godot project stopped' : `${stopped.length} Godot projects stopped`,
+              ...(stopped.length === 1 ? stopped[0] : { sessions: stopped }),
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  /**
+   * Handle the subscribe_session_output tool
+   */
+  private async handleSubscribeSessionOutput(args: ToolArgs<'subscribe_session_output'>, context: ToolCallContext) {
+    if (!context.logSubscriptions) {
+      return this.createErrorResponse('This client cannot receive logging messages', [
+        'Use get_debug_output to poll the session output instead',
+      ]);
+    }
+
+    const { search, error } = this.searchPattern(args);
+    if (error) {
+      return error;
+    }
+
+    const subscription = context.logSubscriptions.add({ sessionId: args.sessionId, levels: args.levels, search });
+    const session = args.sessionId ? this.processManager.get(args.sessionId) : undefined;
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(
+            {
+              subscriptionId: subscription.id,
+              sessionId: args.sessionId ?? null,
+              levels: args.levels ?? null,
+              search: search?.source ?? null,
+              // Lines printed before subscribing are only available from get_debug_output
+              sinceLine: session ? session.log.totalLines : 0,
+              minimumLevel: context.logSubscriptions.minimumLevel,
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  /**
+   * Handle the unsubscribe_session_output tool
+   */
+  private async handleUnsubscribeSessionOutput(args: ToolArgs<'unsubscribe_session_output'>, context: ToolCallContext) {
+    const subscriptions = context.logSubscriptions;
+    if (args.all) {
+      const removed = subscriptions ? subscriptions.clear() : 0;
+      return {
+        content: [{ type: 'text', text: JSON.stringify({ removed }, null, 2) }],
+      };
+    }
+
+    if (!args.subscriptionId) {
+      return this.createErrorResponse('Provide a subscriptionId or set all to true', [
+        'Use the subscriptionId returned by subscribe_session_output',
+      ]);
+    }
+    if (!subscriptions?.remove(args.subscriptionId)) {
+      return this.createErrorResponse(`Unknown subscription: ${args.subscriptionId}`, [
+        'Use the subscriptionId returned by subscribe_session_output',
+        'Set all to true to remove every subscription of this client',
+      ]);
+    }
+    return {
+      content: [{ type: 'text', text: JSON.stringify({ removed: 1 }, null, 2) }],
+    };
+  }
 
+  /**
+   * Handle the list_sessions tool
+   */
+  private async handleListSessions() {
+    const sessions = this.processManager.list().map(session => this.processManager.describe(session));
     return {
       content: [
         {
           type: 'text',
           text: JSON.stringify(
             {
-              message: 'Godot project stopped',
-              finalOutput: output,
-              finalErrors: errors,
+              running: sessions.filter(session => session.status === 'running').length,
+              sessions,
             },
             null,
             2
@@ -3262,11 +2441,11 @@ class GodotServer {
         `Minimum Required: ${VersionValidator.formatVersion(VersionValidator.getMinimumVersion())}`,
         ``,
         `Supported Features:`,
-        `  - UID System: ${features.uidSystem ? '✓' : '✗'}`,
-        `  - Compositor Effects: ${features.compositorEffects ? '✓' : '✗'}`,
-        `  - Enhanced Physics: ${features.enhancedPhysics ? '✓' : '✗'}`,
-        `  - Improved GDScript: ${features.improvedGDScript ? '✓' : '✗'}`,
-        `  - Modern Node Types: ${features.modernNodeTypes ? '✓' : '✗'}`,
+        ...FEATURE_RELEASES.flatMap(release =>
+          Object.entries(release.features).map(([feature, name]) =>
+            `  - ${name} (${release.major}.${release.minor}+): ${features[feature as EngineFeature] ? '✓' : '✗'}`
+          )
+        ),
       ].join('\n');
 
       return {
@@ -3279,31 +2458,76 @@ class GodotServer {
       };
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      return this.createErrorResponse(
-        `Failed to get Godot version: ${errorMessage}`,
-        [
-          'Ensure Godot 4.5.0 or later is installed',
-          'Set GODOT_PATH environment variable to specify the correct path',
-          'Upgrade your Godot installation if using an older version',
-        ]
-      );
+      return this.createErrorResponse(
+        `Failed to get Godot version: ${errorMessage}`,
+        [
+          `Ensure Godot ${VersionValidator.getMinimumVersion().full} or later is installed`,
+          'Set GODOT_PATH environment variable to specify the correct path',
+          'Upgrade your Godot installation if using an older version',
+        ]
+      );
+    }
+  }
+
+  /**
+   * Handle the list_godot_installations tool
+   */
+  private async handleListGodotInstallations(args: ToolArgs<'list_godot_installations'>) {
+    try {
+      if (!this.godotPath) {
+        await this.detectGodotPath();
+      }
+      this.installations.setGodotPath(this.godotPath);
+      const installations = await this.installations.list(args.refresh === true);
+
+      let project: Record<string, unknown> | undefined;
+      if (args.projectPath) {
+        const selected = await this.selectGodot(args.projectPath);
+        project = {
+          projectPath: args.projectPath,
+          engineVersion: selected.engineVersion ? formatEngineVersion(selected.engineVersion) : null,
+          godotPath: selected.path,
+          reason: selected.reason,
+        };
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(
+              {
+                defaultGodotPath: this.godotPath,
+                installations: installations.map(installation => ({
+                  path: installation.path,
+                  version: VersionValidator.formatVersion(installation.version),
+                  versionString: installation.version.full,
+                  source: installation.source,
+                  default: installation.path === this.godotPath,
+                  meetsMinimumVersion: VersionValidator.meetsMinimumVersion(installation.version),
+                })),
+                skipped: this.installations.skippedInstallations,
+                ...(project ? { project } : {}),
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return this.createErrorResponse(`Failed to list Godot installations: ${errorMessage}`, [
+        'Set GODOT_PATH to the Godot executable',
+        'List more executables or directories in GODOT_MCP_GODOT_PATHS',
+      ]);
     }
   }
 
   /**
    * Handle the list_projects tool
    */
-  private async handleListProjects(args: any) {
-    // Normalize parameters to camelCase
-    args = this.normalizeParameters(args);
-
-    if (!args.directory) {
-      return this.createErrorResponse(
-        'Directory is required',
-        ['Provide a valid directory path to search for Godot projects']
-      );
-    }
-
+  private async handleListProjects(args: ToolArgs<'list_projects'>) {
     if (!this.validatePath(args.directory)) {
       return this.createErrorResponse(
         'Invalid directory path',
@@ -3323,6 +2547,25 @@ class GodotServer {
       const recursive = args.recursive === true;
       const projects = this.findGodotProjects(args.directory, recursive);
 
+      // Also search the extra roots configured for the active project
+      for (const root of this.projectConfig().projectRoots ?? []) {
+        if (!existsSync(root)) {
+          this.logDebug(`Skipping missing project root: ${root}`);
+          continue;
+        }
+        try {
+          this.pathSandbox.resolveDirectory(root);
+        } catch {
+          this.logDebug(`Skipping project root outside the allowed roots: ${root}`);
+          continue;
+        }
+        for (const project of this.findGodotProjects(root, recursive)) {
+          if (!projects.some(existing => resolve(existing.path) === resolve(project.path))) {
+            projects.push(project);
+          }
+        }
+      }
+
       return {
         content: [
           {
@@ -3407,17 +2650,7 @@ class GodotServer {
   /**
    * Handle the get_project_info tool
    */
-  private async handleGetProjectInfo(args: any) {
-    // Normalize parameters to camelCase
-    args = this.normalizeParameters(args);
-
-    if (!args.projectPath) {
-      return this.createErrorResponse(
-        'Project path is required',
-        ['Provide a valid path to a Godot project directory']
-      );
-    }
-
+  private async handleGetProjectInfo(args: ToolArgs<'get_project_info'>) {
     if (!this.validatePath(args.projectPath)) {
       return this.createErrorResponse(
         'Invalid project path',
@@ -3426,18 +2659,19 @@ class GodotServer {
     }
 
     try {
-      // Ensure godotPath is set
-      if (!this.godotPath) {
-        await this.detectGodotPath();
-        if (!this.godotPath) {
-          return this.createErrorResponse(
-            'Could not find a valid Godot executable path',
-            [
-              'Ensure Godot is installed correctly',
-              'Set GODOT_PATH environment variable to specify the correct path',
-            ]
-          );
-        }
+      // Use the project's configured executable, or the detected one
+      let godotPath: string;
+      try {
+        godotPath = await this.godotPathFor(args.projectPath);
+      } catch (error: unknown) {
+        return this.createErrorResponse(
+          error instanceof Error ? error.message : 'Could not find a valid Godot executable path',
+          [
+            'Ensure Godot is installed correctly',
+            'Set GODOT_PATH environment variable to specify the correct path',
+            'Check godotPath in the project configuration',
+          ]
+        );
       }
 
       // Check if the project directory exists and contains a project.godot file
@@ -3455,8 +2689,7 @@ class GodotServer {
       this.logDebug(`Getting project info for: ${args.projectPath}`);
 
       // Get Godot version
-      const execOptions = { timeout: 10000 }; // 10 second timeout
-      const { stdout } = await execAsync(`"${this.godotPath}" --version`, execOptions);
+      const { stdout } = await runProcess(godotPath, ['--version'], { timeout: VERSION_TIMEOUT });
 
       // Get project structure using the recursive method
       const projectStructure = await this.getProjectStructureAsync(args.projectPath);
@@ -3464,11 +2697,9 @@ class GodotServer {
       // Extract project name from project.godot file
       let projectName = basename(args.projectPath);
       try {
-        const fs = require('fs');
-        const projectFileContent = fs.readFileSync(projectFile, 'utf8');
-        const configNameMatch = projectFileContent.match(/config\/name="([^"]+)"/);
-        if (configNameMatch && configNameMatch[1]) {
-          projectName = configNameMatch[1];
+        const configName = settingValue(readProjectSettings(args.projectPath), 'application/config/name');
+        if (typeof configName === 'string' && configName) {
+          projectName = configName;
           this.logDebug(`Found project name in config: ${projectName}`);
         }
       } catch (error) {
@@ -3508,17 +2739,7 @@ class GodotServer {
   /**
    * Handle the create_scene tool
    */
-  private async handleCreateScene(args: any) {
-    // Normalize parameters to camelCase
-    args = this.normalizeParameters(args);
-
-    if (!args.projectPath || !args.scenePath) {
-      return this.createErrorResponse(
-        'Project path and scene path are required',
-        ['Provide valid paths for both the project and the scene']
-      );
-    }
-
+  private async handleCreateScene(args: ToolArgs<'create_scene'>) {
     if (!this.validatePath(args.projectPath) || !this.validatePath(args.scenePath)) {
       return this.createErrorResponse(
         'Invalid path',
@@ -3582,17 +2803,7 @@ class GodotServer {
   /**
    * Handle the add_node tool
    */
-  private async handleAddNode(args: any) {
-    // Normalize parameters to camelCase
-    args = this.normalizeParameters(args);
-
-    if (!args.projectPath || !args.scenePath || !args.nodeType || !args.nodeName) {
-      return this.createErrorResponse(
-        'Missing required parameters',
-        ['Provide projectPath, scenePath, nodeType, and nodeName']
-      );
-    }
-
+  private async handleAddNode(args: ToolArgs<'add_node'>) {
     if (!this.validatePath(args.projectPath) || !this.validatePath(args.scenePath)) {
       return this.createErrorResponse(
         'Invalid path',
@@ -3678,17 +2889,7 @@ class GodotServer {
   /**
    * Handle the remove_node tool
    */
-  private async handleRemoveNode(args: any) {
-    // Normalize parameters to camelCase
-    args = this.normalizeParameters(args);
-
-    if (!args.projectPath || !args.scenePath || !args.nodePath) {
-      return this.createErrorResponse(
-        'Missing required parameters',
-        ['Provide projectPath, scenePath, and nodePath']
-      );
-    }
-
+  private async handleRemoveNode(args: ToolArgs<'remove_node'>) {
     if (!this.validatePath(args.projectPath) || !this.validatePath(args.scenePath)) {
       return this.createErrorResponse(
         'Invalid path',
@@ -3764,17 +2965,7 @@ class GodotServer {
   /**
    * Handle the modify_node tool
    */
-  private async handleModifyNode(args: any) {
-    // Normalize parameters to camelCase
-    args = this.normalizeParameters(args);
-
-    if (!args.projectPath || !args.scenePath || !args.nodePath || !args.properties) {
-      return this.createErrorResponse(
-        'Missing required parameters',
-        ['Provide projectPath, scenePath, nodePath, and properties']
-      );
-    }
-
+  private async handleModifyNode(args: ToolArgs<'modify_node'>) {
     if (!this.validatePath(args.projectPath) || !this.validatePath(args.scenePath)) {
       return this.createErrorResponse(
         'Invalid path',
@@ -3852,17 +3043,7 @@ class GodotServer {
   /**
    * Handle the duplicate_node tool
    */
-  private async handleDuplicateNode(args: any) {
-    // Normalize parameters to camelCase
-    args = this.normalizeParameters(args);
-
-    if (!args.projectPath || !args.scenePath || !args.nodePath || !args.newName) {
-      return this.createErrorResponse(
-        'Missing required parameters',
-        ['Provide projectPath, scenePath, nodePath, and newName']
-      );
-    }
-
+  private async handleDuplicateNode(args: ToolArgs<'duplicate_node'>) {
     if (!this.validatePath(args.projectPath) || !this.validatePath(args.scenePath)) {
       return this.createErrorResponse(
         'Invalid path',
@@ -3943,19 +3124,146 @@ class GodotServer {
   }
 
   /**
-   * Handle the query_node tool
+   * Handle the batch_operations tool
    */
-  private async handleQueryNode(args: any) {
-    // Normalize parameters to camelCase
-    args = this.normalizeParameters(args);
+  private async handleBatchOperations(args: ToolArgs<'batch_operations'>) {
+    if (args.operations.length === 0) {
+      return this.createErrorResponse(
+        'No operations to apply',
+        ['Provide a non-empty operations array']
+      );
+    }
+
+    if (!this.validatePath(args.projectPath) || !this.validatePath(args.scenePath)) {
+      return this.createErrorResponse(
+        'Invalid path',
+        ['Provide valid paths without ".." or other potentially unsafe characters']
+      );
+    }
+
+    // Validate every step up front so a malformed batch never reaches Godot
+    const operations: BatchStep[] = [];
+    for (let i = 0; i < args.operations.length; i++) {
+      const step = args.operations[i];
+      if (!step || typeof step !== 'object' || typeof step.operation !== 'string') {
+        return this.createErrorResponse(
+          `Invalid batch step at index ${i}`,
+          ['Each step must be an object with an operation name and optional params']
+        );
+      }
+      if (!BATCH_OPERATIONS.has(step.operation)) {
+        return this.createErrorResponse(
+          `Unsupported batch operation at index ${i}: ${step.operation}`,
+          [`Use one of: ${Array.from(BATCH_OPERATIONS).join(', ')}`]
+        );
+      }
+
+      const stepParams = this.normalizeParameters(step.params || {});
+      for (const key of ['scriptPath', 'newPath']) {
+        if (stepParams[key] && !this.validatePath(stepParams[key])) {
+          return this.createErrorResponse(
+            `Invalid path in batch step ${i}: ${stepParams[key]}`,
+            ['Provide valid paths without ".." or other potentially unsafe characters']
+          );
+        }
+      }
+
+      // Nested arrays are not converted by executeOperation, so convert each step here
+      operations.push({
+        operation: step.operation,
+        params: this.convertCamelToSnakeCase(stepParams),
+      });
+    }
+
+    try {
+      // Check if the project directory exists and contains a project.godot file
+      const projectFile = join(args.projectPath, 'project.godot');
+      if (!existsSync(projectFile)) {
+        return this.createErrorResponse(
+          `Not a valid Godot project: ${args.projectPath}`,
+          [
+            'Ensure the path points to a directory containing a project.godot file',
+            'Use list_projects to find valid Godot projects',
+          ]
+        );
+      }
+
+      // Check if the scene file exists
+      const scenePath = join(args.projectPath, args.scenePath);
+      if (!existsSync(scenePath)) {
+        return this.createErrorResponse(
+          `Scene file does not exist: ${args.scenePath}`,
+          [
+            'Ensure the scene path is correct',
+            'Use create_scene to create a new scene first',
+          ]
+        );
+      }
+
+      const params = {
+        scenePath: args.scenePath,
+        operations,
+      };
+
+      // Execute the whole batch in a single Godot invocation
+      const { stdout, stderr } = await this.executeOperation('batch_operations', params, args.projectPath);
+
+      const jsonMatch = stdout.match(/\{[\s\S]*\}/);
+      if (!jsonMatch) {
+        return this.createErrorResponse(
+          `Failed to run batch operations: ${stderr || 'No result returned'}`,
+          [
+            'Check if the scene file is valid',
+            'Ensure Godot is installed correctly',
+          ]
+        );
+      }
+
+      const result: BatchResult = JSON.parse(jsonMatch[0]);
+      const lines = result.steps.map(step => {
+        const status = step.skipped ? 'SKIPPED' : step.success ? 'OK' : 'FAILED';
+        const detail = step.skipped ? 'not run' : step.success ? step.message || '' : step.error || 'Unknown error';
+        return `${step.index + 1}. [${status}] ${step.operation}: ${detail}`;
+      });
 
-    if (!args.projectPath || !args.scenePath || !args.nodePath) {
+      if (!result.success) {
+        const reason = result.error
+          || (result.failed_step >= 0 ? `step ${result.failed_step + 1} failed` : 'unknown error');
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Batch rolled back (${reason}). '${args.scenePath}' was not modified.\n\n${lines.join('\n')}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Batch of ${result.steps.length} operations applied and saved to '${result.saved_to}'.\n\n${lines.join('\n')}`,
+          },
+        ],
+      };
+    } catch (error: any) {
       return this.createErrorResponse(
-        'Missing required parameters',
-        ['Provide projectPath, scenePath, and nodePath']
+        `Failed to run batch operations: ${error?.message || 'Unknown error'}`,
+        [
+          'Ensure Godot is installed correctly',
+          'Check if the GODOT_PATH environment variable is set correctly',
+          'Verify the project path is accessible',
+        ]
       );
     }
+  }
 
+  /**
+   * Handle the query_node tool
+   */
+  private async handleQueryNode(args: ToolArgs<'query_node'>) {
     if (!this.validatePath(args.projectPath) || !this.validatePath(args.scenePath)) {
       return this.createErrorResponse(
         'Invalid path',
@@ -3988,6 +3296,35 @@ class GodotServer {
         );
       }
 
+      // Answer from the scene file, unless the engine is asked for or the node is inside an instanced scene
+      if (!args.engine) {
+        try {
+          const nodeInfo = queryNode(args.projectPath, args.scenePath, args.nodePath);
+          if (nodeInfo) {
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: `Node Information:\n\n${JSON.stringify(nodeInfo, null, 2)}`,
+                },
+              ],
+            };
+          }
+        } catch (error: unknown) {
+          if (error instanceof SceneQueryError) {
+            return this.createErrorResponse(
+              `Failed to query node: ${error.message}`,
+              [
+                'Check if the node path is correct',
+                'Ensure the node exists in the scene',
+                'Verify the scene file is valid',
+              ]
+            );
+          }
+          throw error;
+        }
+      }
+
       // Prepare parameters for the operation (already in camelCase)
       const params = {
         scenePath: args.scenePath,
@@ -4030,32 +3367,179 @@ class GodotServer {
           ],
         };
       }
-    } catch (error: any) {
-      return this.createErrorResponse(
-        `Failed to query node: ${error?.message || 'Unknown error'}`,
-        [
-          'Ensure Godot is installed correctly',
-          'Check if the GODOT_PATH environment variable is set correctly',
-          'Verify the project path is accessible',
-        ]
-      );
+    } catch (error: any) {
+      return this.createErrorResponse(
+        `Failed to query node: ${error?.message || 'Unknown error'}`,
+        [
+          'Ensure Godot is installed correctly',
+          'Check if the GODOT_PATH environment variable is set correctly',
+          'Verify the project path is accessible',
+        ]
+      );
+    }
+  }
+
+  /**
+   * Handle the diff_scenes tool
+   */
+  private async handleDiffScenes(args: ToolArgs<'diff_scenes'>, context?: ToolCallContext) {
+    if (!this.validatePath(args.projectPath) || !this.validatePath(args.scenePath) || (args.otherScenePath && !this.validatePath(args.otherScenePath))) {
+      return this.createErrorResponse(
+        'Invalid path',
+        ['Provide valid paths without ".." or other potentially unsafe characters']
+      );
+    }
+
+    const projectFile = join(args.projectPath, 'project.godot');
+    if (!existsSync(projectFile)) {
+      return this.createErrorResponse(
+        `Not a valid Godot project: ${args.projectPath}`,
+        [
+          'Ensure the path points to a directory containing a project.godot file',
+          'Use list_projects to find valid Godot projects',
+        ]
+      );
+    }
+
+    // One scene at two revisions, or two scenes each on disk or at a revision
+    const versions = [
+      { path: args.scenePath, revision: args.fromRevision ?? (args.otherScenePath ? undefined : 'HEAD') },
+      { path: args.otherScenePath ?? args.scenePath, revision: args.toRevision },
+    ];
+    if (versions[0].path === versions[1].path && versions[0].revision === versions[1].revision) {
+      return this.createErrorResponse(
+        'Both sides of the comparison are the same file',
+        ['Pass otherScenePath to compare two scenes, or fromRevision and toRevision to compare two revisions of one scene']
+      );
+    }
+
+    try {
+      const [before, after] = await Promise.all(versions.map(async ({ path, revision }) => {
+        if (revision) {
+          return TextResource.parse(await readRevision(args.projectPath, path, revision, context?.signal));
+        }
+        const file = join(args.projectPath, path);
+        if (!existsSync(file)) {
+          throw new SceneDiffError(`Scene file does not exist: ${path}`);
+        }
+        return TextResource.read(file);
+      }));
+
+      const label = ({ path, revision }: { path: string; revision?: string }) => (revision ? `${path}@${revision}` : path);
+      const diff = diffScenes(before, after);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(
+              { from: label(versions[0]), to: label(versions[1]), summary: summarizeDiff(diff), ...diff },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    } catch (error: unknown) {
+      if (error instanceof SceneDiffError || error instanceof GitFileError || error instanceof TextResourceError) {
+        return this.createErrorResponse(
+          `Failed to diff scenes: ${error.message}`,
+          [
+            'Ensure the scene paths are correct and point at text scenes (.tscn)',
+            'To compare revisions, the project must be inside a git repository and the scene committed in those revisions',
+          ]
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Handle the merge_scene tool
+   */
+  private async handleMergeScene(args: ToolArgs<'merge_scene'>, context?: ToolCallContext) {
+    const paths = [args.projectPath, args.scenePath, args.basePath, args.oursPath, args.theirsPath];
+    if (paths.some(path => path !== undefined && !this.validatePath(path))) {
+      return this.createErrorResponse(
+        'Invalid path',
+        ['Provide valid paths without ".." or other potentially unsafe characters']
+      );
+    }
+
+    const projectFile = join(args.projectPath, 'project.godot');
+    if (!existsSync(projectFile)) {
+      return this.createErrorResponse(
+        `Not a valid Godot project: ${args.projectPath}`,
+        [
+          'Ensure the path points to a directory containing a project.godot file',
+          'Use list_projects to find valid Godot projects',
+        ]
+      );
+    }
+
+    // Each version comes from its file, its revision, or the conflict in the git index
+    const sides = [
+      { stage: MERGE_STAGES.base, path: args.basePath, revision: args.baseRevision },
+      { stage: MERGE_STAGES.ours, path: args.oursPath, revision: args.oursRevision },
+      { stage: MERGE_STAGES.theirs, path: args.theirsPath, revision: args.theirsRevision },
+    ];
+
+    try {
+      const [base, ours, theirs] = await Promise.all(sides.map(async ({ stage, path, revision }) => {
+        if (path) {
+          const file = join(args.projectPath, path);
+          if (!existsSync(file)) {
+            throw new SceneDiffError(`Scene file does not exist: ${path}`);
+          }
+          return TextResource.read(file);
+        }
+        const text = revision
+          ? await readRevision(args.projectPath, args.scenePath, revision, context?.signal)
+          : await readIndexStage(args.projectPath, args.scenePath, stage, context?.signal);
+        return TextResource.parse(text);
+      }));
+
+      const merge = mergeScenes(base, ours, theirs);
+      if (!merge.merged) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ clean: false, scenePath: args.scenePath, conflicts: merge.conflicts }, null, 2),
+            },
+          ],
+        };
+      }
+
+      const merged = merge.merged.toString();
+      if (args.write) {
+        writeFileSync(join(args.projectPath, args.scenePath), merged, 'utf8');
+      }
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({ clean: true, scenePath: args.scenePath, written: args.write === true, merged }, null, 2),
+          },
+        ],
+      };
+    } catch (error: unknown) {
+      if (error instanceof SceneDiffError || error instanceof GitFileError || error instanceof TextResourceError) {
+        return this.createErrorResponse(
+          `Failed to merge scene: ${error.message}`,
+          [
+            'Without basePath, oursPath and theirsPath the scene must have a merge conflict in git, e.g. during git merge or git rebase',
+            'Ensure the scene paths and revisions are correct and point at text scenes (.tscn)',
+          ]
+        );
+      }
+      throw error;
     }
   }
 
   /**
    * Handle the load_sprite tool
    */
-  private async handleLoadSprite(args: any) {
-    // Normalize parameters to camelCase
-    args = this.normalizeParameters(args);
-
-    if (!args.projectPath || !args.scenePath || !args.nodePath || !args.texturePath) {
-      return this.createErrorResponse(
-        'Missing required parameters',
-        ['Provide projectPath, scenePath, nodePath, and texturePath']
-      );
-    }
-
+  private async handleLoadSprite(args: ToolArgs<'load_sprite'>) {
     if (
       !this.validatePath(args.projectPath) ||
       !this.validatePath(args.scenePath) ||
@@ -4149,17 +3633,7 @@ class GodotServer {
   /**
    * Handle the export_mesh_library tool
    */
-  private async handleExportMeshLibrary(args: any) {
-    // Normalize parameters to camelCase
-    args = this.normalizeParameters(args);
-
-    if (!args.projectPath || !args.scenePath || !args.outputPath) {
-      return this.createErrorResponse(
-        'Missing required parameters',
-        ['Provide projectPath, scenePath, and outputPath']
-      );
-    }
-
+  private async handleExportMeshLibrary(args: ToolArgs<'export_mesh_library'>, context: ToolCallContext) {
     if (
       !this.validatePath(args.projectPath) ||
       !this.validatePath(args.scenePath) ||
@@ -4208,7 +3682,7 @@ class GodotServer {
       }
 
       // Execute the operation
-      const { stdout, stderr } = await this.executeOperation('export_mesh_library', params, args.projectPath);
+      const { stdout, stderr } = await this.executeOperation('export_mesh_library', params, args.projectPath, context);
 
       if (stderr && stderr.includes('Failed to')) {
         return this.createErrorResponse(
@@ -4244,17 +3718,7 @@ class GodotServer {
   /**
    * Handle the save_scene tool
    */
-  private async handleSaveScene(args: any) {
-    // Normalize parameters to camelCase
-    args = this.normalizeParameters(args);
-
-    if (!args.projectPath || !args.scenePath) {
-      return this.createErrorResponse(
-        'Missing required parameters',
-        ['Provide projectPath and scenePath']
-      );
-    }
-
+  private async handleSaveScene(args: ToolArgs<'save_scene'>) {
     if (!this.validatePath(args.projectPath) || !this.validatePath(args.scenePath)) {
       return this.createErrorResponse(
         'Invalid path',
@@ -4343,17 +3807,7 @@ class GodotServer {
   /**
    * Handle the get_uid tool
    */
-  private async handleGetUid(args: any) {
-    // Normalize parameters to camelCase
-    args = this.normalizeParameters(args);
-
-    if (!args.projectPath || !args.filePath) {
-      return this.createErrorResponse(
-        'Missing required parameters',
-        ['Provide projectPath and filePath']
-      );
-    }
-
+  private async handleGetUid(args: ToolArgs<'get_uid'>) {
     if (!this.validatePath(args.projectPath) || !this.validatePath(args.filePath)) {
       return this.createErrorResponse(
         'Invalid path',
@@ -4362,18 +3816,18 @@ class GodotServer {
     }
 
     try {
-      // Ensure godotPath is set
-      if (!this.godotPath) {
-        await this.detectGodotPath();
-        if (!this.godotPath) {
-          return this.createErrorResponse(
-            'Could not find a valid Godot executable path',
-            [
-              'Ensure Godot is installed correctly',
-              'Set GODOT_PATH environment variable to specify the correct path',
-            ]
-          );
-        }
+      // Make sure the project has an executable to run the operation with
+      try {
+        await this.godotPathFor(args.projectPath);
+      } catch (error: unknown) {
+        return this.createErrorResponse(
+          error instanceof Error ? error.message : 'Could not find a valid Godot executable path',
+          [
+            'Ensure Godot is installed correctly',
+            'Set GODOT_PATH environment variable to specify the correct path',
+            'Check godotPath in the project configuration',
+          ]
+        );
       }
 
       // Check if the project directory exists and contains a project.godot file
@@ -4397,20 +3851,6 @@ class GodotServer {
         );
       }
 
-      // Get Godot version to check if UIDs are supported
-      const { stdout: versionOutput } = await execAsync(`"${this.godotPath}" --version`);
-      const version = versionOutput.trim();
-
-      if (!this.isGodot44OrLater(version)) {
-        return this.createErrorResponse(
-          `UIDs are only supported in Godot 4.4 or later. Current version: ${version}`,
-          [
-            'Upgrade to Godot 4.4 or later to use UIDs',
-            'Use resource paths instead of UIDs for this version of Godot',
-          ]
-        );
-      }
-
       // Prepare parameters for the operation (already in camelCase)
       const params = {
         filePath: args.filePath,
@@ -4452,17 +3892,7 @@ class GodotServer {
   /**
    * Handle the update_project_uids tool
    */
-  private async handleUpdateProjectUids(args: any) {
-    // Normalize parameters to camelCase
-    args = this.normalizeParameters(args);
-
-    if (!args.projectPath) {
-      return this.createErrorResponse(
-        'Project path is required',
-        ['Provide a valid path to a Godot project directory']
-      );
-    }
-
+  private async handleUpdateProjectUids(args: ToolArgs<'update_project_uids'>, context: ToolCallContext) {
     if (!this.validatePath(args.projectPath)) {
       return this.createErrorResponse(
         'Invalid project path',
@@ -4471,18 +3901,18 @@ class GodotServer {
     }
 
     try {
-      // Ensure godotPath is set
-      if (!this.godotPath) {
-        await this.detectGodotPath();
-        if (!this.godotPath) {
-          return this.createErrorResponse(
-            'Could not find a valid Godot executable path',
-            [
-              'Ensure Godot is installed correctly',
-              'Set GODOT_PATH environment variable to specify the correct path',
-            ]
-          );
-        }
+      // Report a missing executable before looking at the project
+      try {
+        await this.godotPathFor(args.projectPath);
+      } catch (error: unknown) {
+        return this.createErrorResponse(
+          error instanceof Error ? error.message : 'Could not find a valid Godot executable path',
+          [
+            'Ensure Godot is installed correctly',
+            'Set GODOT_PATH environment variable to specify the correct path',
+            'Check godotPath in the project configuration',
+          ]
+        );
       }
 
       // Check if the project directory exists and contains a project.godot file
@@ -4497,27 +3927,13 @@ class GodotServer {
         );
       }
 
-      // Get Godot version to check if UIDs are supported
-      const { stdout: versionOutput } = await execAsync(`"${this.godotPath}" --version`);
-      const version = versionOutput.trim();
-
-      if (!this.isGodot44OrLater(version)) {
-        return this.createErrorResponse(
-          `UIDs are only supported in Godot 4.4 or later. Current version: ${version}`,
-          [
-            'Upgrade to Godot 4.4 or later to use UIDs',
-            'Use resource paths instead of UIDs for this version of Godot',
-          ]
-        );
-      }
-
-      // Prepare parameters for the operation (already in camelCase)
+      // Engines before 4.4, which have no .uid files, are refused before the call reaches this handler (TOOL_FEATURES)
       const params = {
         projectPath: args.projectPath,
       };
 
       // Execute the operation
-      const { stdout, stderr } = await this.executeOperation('resave_resources', params, args.projectPath);
+      const { stdout, stderr } = await this.executeOperation('resave_resources', params, args.projectPath, context);
 
       if (stderr && stderr.includes('Failed to')) {
         return this.createErrorResponse(
@@ -4552,17 +3968,7 @@ class GodotServer {
   /**
    * Handle the create_script tool
    */
-  private async handleCreateScript(args: any) {
-    // Normalize parameters to camelCase
-    args = this.normalizeParameters(args);
-
-    if (!args.projectPath || !args.scriptPath) {
-      return this.createErrorResponse(
-        'Missing required parameters',
-        ['Provide projectPath and scriptPath']
-      );
-    }
-
+  private async handleCreateScript(args: ToolArgs<'create_script'>) {
     if (!this.validatePath(args.projectPath) || !this.validatePath(args.scriptPath)) {
       return this.createErrorResponse(
         'Invalid path',
@@ -4639,17 +4045,7 @@ class GodotServer {
   /**
    * Handle the attach_script tool
    */
-  private async handleAttachScript(args: any) {
-    // Normalize parameters to camelCase
-    args = this.normalizeParameters(args);
-
-    if (!args.projectPath || !args.scenePath || !args.nodePath || !args.scriptPath) {
-      return this.createErrorResponse(
-        'Missing required parameters',
-        ['Provide projectPath, scenePath, nodePath, and scriptPath']
-      );
-    }
-
+  private async handleAttachScript(args: ToolArgs<'attach_script'>) {
     if (!this.validatePath(args.projectPath) || !this.validatePath(args.scenePath) || !this.validatePath(args.scriptPath)) {
       return this.createErrorResponse(
         'Invalid path',
@@ -4738,17 +4134,7 @@ class GodotServer {
   /**
    * Handle the validate_script tool
    */
-  private async handleValidateScript(args: any) {
-    // Normalize parameters to camelCase
-    args = this.normalizeParameters(args);
-
-    if (!args.projectPath || !args.scriptPath) {
-      return this.createErrorResponse(
-        'Missing required parameters',
-        ['Provide projectPath and scriptPath']
-      );
-    }
-
+  private async handleValidateScript(args: ToolArgs<'validate_script'>) {
     if (!this.validatePath(args.projectPath) || !this.validatePath(args.scriptPath)) {
       return this.createErrorResponse(
         'Invalid path',
@@ -4836,17 +4222,7 @@ class GodotServer {
   /**
    * Handle the get_node_methods tool
    */
-  private async handleGetNodeMethods(args: any) {
-    // Normalize parameters to camelCase
-    args = this.normalizeParameters(args);
-
-    if (!args.projectPath || !args.nodeType) {
-      return this.createErrorResponse(
-        'Missing required parameters',
-        ['Provide projectPath and nodeType']
-      );
-    }
-
+  private async handleGetNodeMethods(args: ToolArgs<'get_node_methods'>) {
     if (!this.validatePath(args.projectPath)) {
       return this.createErrorResponse(
         'Invalid path',
@@ -4921,17 +4297,7 @@ class GodotServer {
   /**
    * Handle the create_signal tool
    */
-  private async handleCreateSignal(args: any) {
-    // Normalize parameters to camelCase
-    args = this.normalizeParameters(args);
-
-    if (!args.projectPath || !args.scriptPath || !args.signalName) {
-      return this.createErrorResponse(
-        'Missing required parameters',
-        ['Provide projectPath, scriptPath, and signalName']
-      );
-    }
-
+  private async handleCreateSignal(args: ToolArgs<'create_signal'>) {
     if (!this.validatePath(args.projectPath) || !this.validatePath(args.scriptPath)) {
       return this.createErrorResponse(
         'Invalid path',
@@ -4996,18 +4362,7 @@ class GodotServer {
   /**
    * Handle the connect_signal tool
    */
-  private async handleConnectSignal(args: any) {
-    // Normalize parameters to camelCase
-    args = this.normalizeParameters(args);
-
-    if (!args.projectPath || !args.scenePath || !args.sourceNodePath ||
-      !args.signalName || !args.targetNodePath || !args.methodName) {
-      return this.createErrorResponse(
-        'Missing required parameters',
-        ['Provide projectPath, scenePath, sourceNodePath, signalName, targetNodePath, and methodName']
-      );
-    }
-
+  private async handleConnectSignal(args: ToolArgs<'connect_signal'>) {
     if (!this.validatePath(args.projectPath) || !this.validatePath(args.scenePath)) {
       return this.createErrorResponse(
         'Invalid path',
@@ -5078,17 +4433,7 @@ class GodotServer {
   /**
    * Handle the list_signals tool
    */
-  private async handleListSignals(args: any) {
-    // Normalize parameters to camelCase
-    args = this.normalizeParameters(args);
-
-    if (!args.projectPath || !args.scenePath || !args.nodePath) {
-      return this.createErrorResponse(
-        'Missing required parameters',
-        ['Provide projectPath, scenePath, and nodePath']
-      );
-    }
-
+  private async handleListSignals(args: ToolArgs<'list_signals'>) {
     if (!this.validatePath(args.projectPath) || !this.validatePath(args.scenePath)) {
       return this.createErrorResponse(
         'Invalid path',
@@ -5109,6 +4454,46 @@ class GodotServer {
         );
       }
 
+      // Check if the scene file exists
+      if (!existsSync(join(args.projectPath, args.scenePath))) {
+        return this.createErrorResponse(
+          `Scene file does not exist: ${args.scenePath}`,
+          [
+            'Ensure the scene path is correct',
+            'Use create_scene to create a new scene first',
+          ]
+        );
+      }
+
+      // Answer from the scene and script files, unless the engine is asked for or the node is inside an instanced scene
+      if (!args.engine) {
+        try {
+          const signalsResult = listNodeSignals(args.projectPath, args.scenePath, args.nodePath);
+          if (signalsResult) {
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: `Signals for node '${args.nodePath}':\n\n${JSON.stringify(signalsResult, null, 2)}`,
+                },
+              ],
+            };
+          }
+        } catch (error: unknown) {
+          if (error instanceof SceneQueryError) {
+            return this.createErrorResponse(
+              `Failed to list signals: ${error.message}`,
+              [
+                'Ensure the node exists in the scene',
+                'Verify the node path is correct',
+                'Verify the scene file is valid',
+              ]
+            );
+          }
+          throw error;
+        }
+      }
+
       // Prepare parameters for the operation
       const params = {
         scenePath: args.scenePath,
@@ -5165,18 +4550,7 @@ class GodotServer {
   /**
    * Handle the disconnect_signal tool
    */
-  private async handleDisconnectSignal(args: any) {
-    // Normalize parameters to camelCase
-    args = this.normalizeParameters(args);
-
-    if (!args.projectPath || !args.scenePath || !args.sourceNodePath ||
-      !args.signalName || !args.targetNodePath || !args.methodName) {
-      return this.createErrorResponse(
-        'Missing required parameters',
-        ['Provide projectPath, scenePath, sourceNodePath, signalName, targetNodePath, and methodName']
-      );
-    }
-
+  private async handleDisconnectSignal(args: ToolArgs<'disconnect_signal'>) {
     if (!this.validatePath(args.projectPath) || !this.validatePath(args.scenePath)) {
       return this.createErrorResponse(
         'Invalid path',
@@ -5243,17 +4617,7 @@ class GodotServer {
   /**
    * Handle the configure_import tool
    */
-  private async handleConfigureImport(args: any) {
-    // Normalize parameters to camelCase
-    args = this.normalizeParameters(args);
-
-    if (!args.projectPath || !args.assetPath || !args.importSettings) {
-      return this.createErrorResponse(
-        'Missing required parameters',
-        ['Provide projectPath, assetPath, and importSettings']
-      );
-    }
-
+  private async handleConfigureImport(args: ToolArgs<'configure_import'>) {
     if (!this.validatePath(args.projectPath) || !this.validatePath(args.assetPath)) {
       return this.createErrorResponse(
         'Invalid path',
@@ -5342,17 +4706,7 @@ class GodotServer {
   /**
    * Handle the add_physics_body tool
    */
-  private async handleAddPhysicsBody(args: any) {
-    // Normalize parameters to camelCase
-    args = this.normalizeParameters(args);
-
-    if (!args.projectPath || !args.scenePath || !args.bodyType || !args.nodeName || !args.collisionShape) {
-      return this.createErrorResponse(
-        'Missing required parameters',
-        ['Provide projectPath, scenePath, bodyType, nodeName, and collisionShape']
-      );
-    }
-
+  private async handleAddPhysicsBody(args: ToolArgs<'add_physics_body'>) {
     if (!this.validatePath(args.projectPath) || !this.validatePath(args.scenePath)) {
       return this.createErrorResponse(
         'Invalid path',
@@ -5424,17 +4778,7 @@ class GodotServer {
   /**
    * Handle the configure_physics tool
    */
-  private async handleConfigurePhysics(args: any) {
-    // Normalize parameters to camelCase
-    args = this.normalizeParameters(args);
-
-    if (!args.projectPath || !args.scenePath || !args.nodePath || !args.properties) {
-      return this.createErrorResponse(
-        'Missing required parameters',
-        ['Provide projectPath, scenePath, nodePath, and properties']
-      );
-    }
-
+  private async handleConfigurePhysics(args: ToolArgs<'configure_physics'>) {
     if (!this.validatePath(args.projectPath) || !this.validatePath(args.scenePath)) {
       return this.createErrorResponse(
         'Invalid path',
@@ -5500,17 +4844,7 @@ class GodotServer {
   /**
    * Handle the setup_collision_layers tool
    */
-  private async handleSetupCollisionLayers(args: any) {
-    // Normalize parameters to camelCase
-    args = this.normalizeParameters(args);
-
-    if (!args.projectPath || !args.scenePath || !args.nodePath) {
-      return this.createErrorResponse(
-        'Missing required parameters',
-        ['Provide projectPath, scenePath, and nodePath']
-      );
-    }
-
+  private async handleSetupCollisionLayers(args: ToolArgs<'setup_collision_layers'>) {
     if (!this.validatePath(args.projectPath) || !this.validatePath(args.scenePath)) {
       return this.createErrorResponse(
         'Invalid path',
@@ -5582,17 +4916,7 @@ class GodotServer {
   /**
    * Handle the create_ui_element tool
    */
-  private async handleCreateUIElement(args: any) {
-    // Normalize parameters to camelCase
-    args = this.normalizeParameters(args);
-
-    if (!args.projectPath || !args.scenePath || !args.elementType || !args.elementName) {
-      return this.createErrorResponse(
-        'Missing required parameters',
-        ['Provide projectPath, scenePath, elementType, and elementName']
-      );
-    }
-
+  private async handleCreateUIElement(args: ToolArgs<'create_ui_element'>) {
     if (!this.validatePath(args.projectPath) || !this.validatePath(args.scenePath)) {
       return this.createErrorResponse(
         'Invalid path',
@@ -5667,17 +4991,7 @@ class GodotServer {
   /**
    * Handle the apply_theme tool
    */
-  private async handleApplyTheme(args: any) {
-    // Normalize parameters to camelCase
-    args = this.normalizeParameters(args);
-
-    if (!args.projectPath || !args.scenePath || !args.nodePath || !args.themePath) {
-      return this.createErrorResponse(
-        'Missing required parameters',
-        ['Provide projectPath, scenePath, nodePath, and themePath']
-      );
-    }
-
+  private async handleApplyTheme(args: ToolArgs<'apply_theme'>) {
     if (!this.validatePath(args.projectPath) || !this.validatePath(args.scenePath) || !this.validatePath(args.themePath)) {
       return this.createErrorResponse(
         'Invalid path',
@@ -5755,17 +5069,7 @@ class GodotServer {
   /**
    * Handle the setup_layout tool
    */
-  private async handleSetupLayout(args: any) {
-    // Normalize parameters to camelCase
-    args = this.normalizeParameters(args);
-
-    if (!args.projectPath || !args.scenePath || !args.nodePath || !args.properties) {
-      return this.createErrorResponse(
-        'Missing required parameters',
-        ['Provide projectPath, scenePath, nodePath, and properties']
-      );
-    }
-
+  private async handleSetupLayout(args: ToolArgs<'setup_layout'>) {
     if (!this.validatePath(args.projectPath) || !this.validatePath(args.scenePath)) {
       return this.createErrorResponse(
         'Invalid path',
@@ -5831,17 +5135,7 @@ class GodotServer {
   /**
    * Handle the create_menu tool
    */
-  private async handleCreateMenu(args: any) {
-    // Normalize parameters to camelCase
-    args = this.normalizeParameters(args);
-
-    if (!args.projectPath || !args.scenePath || !args.menuName || !args.buttons) {
-      return this.createErrorResponse(
-        'Missing required parameters',
-        ['Provide projectPath, scenePath, menuName, and buttons']
-      );
-    }
-
+  private async handleCreateMenu(args: ToolArgs<'create_menu'>) {
     if (!this.validatePath(args.projectPath) || !this.validatePath(args.scenePath)) {
       return this.createErrorResponse(
         'Invalid path',
@@ -5915,17 +5209,7 @@ class GodotServer {
   /**
    * Handle the create_area tool
    */
-  private async handleCreateArea(args: any) {
-    // Normalize parameters to camelCase
-    args = this.normalizeParameters(args);
-
-    if (!args.projectPath || !args.scenePath || !args.areaType || !args.nodeName || !args.collisionShape) {
-      return this.createErrorResponse(
-        'Missing required parameters',
-        ['Provide projectPath, scenePath, areaType, nodeName, and collisionShape']
-      );
-    }
-
+  private async handleCreateArea(args: ToolArgs<'create_area'>) {
     if (!this.validatePath(args.projectPath) || !this.validatePath(args.scenePath)) {
       return this.createErrorResponse(
         'Invalid path',
@@ -6001,17 +5285,7 @@ class GodotServer {
   /**
    * Handle the create_animation_player tool
    */
-  private async handleCreateAnimationPlayer(args: any) {
-    // Normalize parameters to camelCase
-    args = this.normalizeParameters(args);
-
-    if (!args.projectPath || !args.scenePath) {
-      return this.createErrorResponse(
-        'Missing required parameters',
-        ['Provide projectPath and scenePath']
-      );
-    }
-
+  private async handleCreateAnimationPlayer(args: ToolArgs<'create_animation_player'>) {
     if (!this.validatePath(args.projectPath) || !this.validatePath(args.scenePath)) {
       return this.createErrorResponse(
         'Invalid path',
@@ -6081,17 +5355,7 @@ class GodotServer {
   /**
    * Handle the add_keyframes tool
    */
-  private async handleAddKeyframes(args: any) {
-    // Normalize parameters to camelCase
-    args = this.normalizeParameters(args);
-
-    if (!args.projectPath || !args.scenePath || !args.animationPlayerPath || !args.animationName || !args.track) {
-      return this.createErrorResponse(
-        'Missing required parameters',
-        ['Provide projectPath, scenePath, animationPlayerPath, animationName, and track']
-      );
-    }
-
+  private async handleAddKeyframes(args: ToolArgs<'add_keyframes'>) {
     if (!this.validatePath(args.projectPath) || !this.validatePath(args.scenePath)) {
       return this.createErrorResponse(
         'Invalid path',
@@ -6159,17 +5423,7 @@ class GodotServer {
   /**
    * Handle the setup_animation_tree tool
    */
-  private async handleSetupAnimationTree(args: any) {
-    // Normalize parameters to camelCase
-    args = this.normalizeParameters(args);
-
-    if (!args.projectPath || !args.scenePath || !args.animationPlayerPath) {
-      return this.createErrorResponse(
-        'Missing required parameters',
-        ['Provide projectPath, scenePath, and animationPlayerPath']
-      );
-    }
-
+  private async handleSetupAnimationTree(args: ToolArgs<'setup_animation_tree'>) {
     if (!this.validatePath(args.projectPath) || !this.validatePath(args.scenePath)) {
       return this.createErrorResponse(
         'Invalid path',
@@ -6245,17 +5499,7 @@ class GodotServer {
   /**
    * Handle the add_particles tool
    */
-  private async handleAddParticles(args: any) {
-    // Normalize parameters to camelCase
-    args = this.normalizeParameters(args);
-
-    if (!args.projectPath || !args.scenePath || !args.particleType || !args.nodeName) {
-      return this.createErrorResponse(
-        'Missing required parameters',
-        ['Provide projectPath, scenePath, particleType, and nodeName']
-      );
-    }
-
+  private async handleAddParticles(args: ToolArgs<'add_particles'>) {
     if (!this.validatePath(args.projectPath) || !this.validatePath(args.scenePath)) {
       return this.createErrorResponse(
         'Invalid path',
@@ -6331,17 +5575,10 @@ class GodotServer {
   /**
    * Handle the get_class_info tool
    */
-  private async handleGetClassInfo(args: any) {
-    if (!args.className) {
-      return this.createErrorResponse(
-        'Missing required parameter',
-        ['Provide className']
-      );
-    }
-
+  private async handleGetClassInfo(args: ToolArgs<'get_class_info'>, context: ToolCallContext) {
     try {
       const docModule = await this.getDocumentationModule();
-      const classInfo = await docModule.getClassInfo(args.className);
+      const classInfo = await docModule.getClassInfo(args.className, context);
 
       // Format the response
       let response = `# ${classInfo.name}\n\n`;
@@ -6434,17 +5671,10 @@ class GodotServer {
   /**
    * Handle the get_method_info tool
    */
-  private async handleGetMethodInfo(args: any) {
-    if (!args.className || !args.methodName) {
-      return this.createErrorResponse(
-        'Missing required parameters',
-        ['Provide className and methodName']
-      );
-    }
-
+  private async handleGetMethodInfo(args: ToolArgs<'get_method_info'>, context: ToolCallContext) {
     try {
       const docModule = await this.getDocumentationModule();
-      const methodInfo = await docModule.getMethodInfo(args.className, args.methodName);
+      const methodInfo = await docModule.getMethodInfo(args.className, args.methodName, context);
 
       if (!methodInfo) {
         return this.createErrorResponse(
@@ -6516,14 +5746,7 @@ class GodotServer {
   /**
    * Handle the search_docs tool
    */
-  private async handleSearchDocs(args: any) {
-    if (!args.query) {
-      return this.createErrorResponse(
-        'Missing required parameter',
-        ['Provide query']
-      );
-    }
-
+  private async handleSearchDocs(args: ToolArgs<'search_docs'>) {
     try {
       const docModule = await this.getDocumentationModule();
       const results = await docModule.searchDocs(args.query);
@@ -6576,14 +5799,7 @@ class GodotServer {
   /**
    * Handle the get_best_practices tool
    */
-  private async handleGetBestPractices(args: any) {
-    if (!args.topic) {
-      return this.createErrorResponse(
-        'Missing required parameter',
-        ['Provide topic']
-      );
-    }
-
+  private async handleGetBestPractices(args: ToolArgs<'get_best_practices'>) {
     try {
       const docModule = await this.getDocumentationModule();
       const practices = await docModule.getBestPractices(args.topic);
@@ -6646,17 +5862,7 @@ class GodotServer {
   /**
    * Handle the run_with_debug tool
    */
-  private async handleRunWithDebug(args: any) {
-    // Normalize parameters to camelCase
-    args = this.normalizeParameters(args);
-
-    if (!args.projectPath) {
-      return this.createErrorResponse(
-        'Missing required parameter',
-        ['Provide projectPath']
-      );
-    }
-
+  private async handleRunWithDebug(args: ToolArgs<'run_with_debug'>, outputOptions: OutputOptions) {
     if (!this.validatePath(args.projectPath)) {
       return this.createErrorResponse(
         'Invalid path',
@@ -6665,55 +5871,49 @@ class GodotServer {
     }
 
     try {
-      // Ensure godotPath is set
-      if (!this.godotPath) {
-        await this.detectGodotPath();
-        if (!this.godotPath) {
-          throw new Error('Could not find a valid Godot executable path');
-        }
-      }
+      // Use the project's configured executable, or the detected one
+      const godotPath = await this.godotPathFor(args.projectPath);
 
       // Validate Godot version
-      await this.validateGodotVersion();
+      await this.validateGodotVersion(godotPath);
 
       const projectPath = args.projectPath;
-      const scene = args.scene || '';
+      const scene = args.scene || this.projectConfig(projectPath).defaultScene || '';
       const captureOutput = args.captureOutput !== false;
 
       this.logDebug(`Running project with debug: ${projectPath}`);
 
-      // Generate a unique session ID
-      const sessionId = `debug_${Date.now()}`;
-
-      // Build the command
-      const cmdArgs = [
-        '--path',
-        `"${projectPath}"`,
-      ];
+      // Build the command (the process runs inside the project directory)
+      const cmdArgs = ['--path', resolve(projectPath)];
 
       if (scene) {
-        cmdArgs.push(`"${scene}"`);
+        cmdArgs.push(scene);
       }
 
       // Add debug flags
       cmdArgs.push('--verbose');
       cmdArgs.push('--debug');
 
-      const cmd = `"${this.godotPath}" ${cmdArgs.join(' ')}`;
-      this.logDebug(`Debug command: ${cmd}`);
-
-      // Spawn the process
-      const godotProcess = spawn(this.godotPath, cmdArgs.join(' ').split(' ').filter(arg => arg !== ''), {
+      // Start the process as a managed session
+      const session = this.processManager.start({
+        godotPath: godotPath,
+        args: cmdArgs,
+        projectPath,
+        scene: scene || undefined,
+        sessionId: args.sessionId,
+        kind: 'debug',
         cwd: projectPath,
-        shell: true,
+        maxLogLines: args.maxLogLines,
       });
+      const sessionId = session.id;
+      this.logDebug(`Debug session ${sessionId}: ${session.command.join(' ')}`);
 
       const output: string[] = [];
       const errors: ErrorInfo[] = [];
       const warnings: string[] = [];
 
       // Capture stdout
-      godotProcess.stdout?.on('data', (data: Buffer) => {
+      session.process.stdout?.on('data', (data: Buffer) => {
         const text = data.toString();
         output.push(text);
 
@@ -6732,7 +5932,7 @@ class GodotServer {
       });
 
       // Capture stderr
-      godotProcess.stderr?.on('data', (data: Buffer) => {
+      session.process.stderr?.on('data', (data: Buffer) => {
         const text = data.toString();
         output.push(text);
 
@@ -6746,13 +5946,6 @@ class GodotServer {
         }
       });
 
-      // Store the active process
-      this.activeProcess = {
-        process: godotProcess,
-        output,
-        errors: errors.map(e => e.message),
-      };
-
       // Wait a bit for initial output
       await new Promise(resolve => setTimeout(resolve, 2000));
 
@@ -6763,6 +5956,10 @@ class GodotServer {
         warnings,
       };
 
+      if (outputOptions.format === 'json') {
+        return jsonResult(this.resultPager.firstPage(debugSession, 'output', outputOptions.cursorScope, outputOptions.limit));
+      }
+
       // Format the response
       let response = `# Debug Session Started: ${sessionId}\n\n`;
       response += `Project: ${projectPath}\n`;
@@ -6808,7 +6005,7 @@ class GodotServer {
         }
       }
 
-      response += '\n**Note:** Use `get_debug_output` to retrieve more output, or `stop_project` to stop the debug session.\n';
+      response += `\n**Note:** Use \`get_debug_output\` with sessionId "${sessionId}" to retrieve more output, or \`stop_project\` with the same sessionId to stop the debug session.\n`;
 
       return {
         content: [
@@ -6819,6 +6016,13 @@ class GodotServer {
         ],
       };
     } catch (error: any) {
+      if (error instanceof ProcessSessionError) {
+        return this.createErrorResponse(error.message, [
+          'Use a different sessionId to run another instance',
+          'Use stop_project with this sessionId to stop the running instance first',
+          'Use list_sessions to see running sessions',
+        ]);
+      }
       return this.createErrorResponse(
         `Failed to run project with debug: ${error?.message || 'Unknown error'}`,
         [
@@ -6876,17 +6080,7 @@ class GodotServer {
   /**
    * Handle the get_error_context tool
    */
-  private async handleGetErrorContext(args: any) {
-    // Normalize parameters to camelCase
-    args = this.normalizeParameters(args);
-
-    if (!args.projectPath || !args.errorMessage) {
-      return this.createErrorResponse(
-        'Missing required parameters',
-        ['Provide projectPath and errorMessage']
-      );
-    }
-
+  private async handleGetErrorContext(args: ToolArgs<'get_error_context'>) {
     if (!this.validatePath(args.projectPath)) {
       return this.createErrorResponse(
         'Invalid path',
@@ -7033,19 +6227,9 @@ class GodotServer {
   }
 
   /**
-   * Handle the capture_screenshot tool
-   */
-  private async handleCaptureScreenshot(args: any) {
-    // Normalize parameters to camelCase
-    args = this.normalizeParameters(args);
-
-    if (!args.projectPath || !args.outputPath) {
-      return this.createErrorResponse(
-        'Missing required parameters',
-        ['Provide projectPath and outputPath']
-      );
-    }
-
+   * Handle the capture_screenshot tool
+   */
+  private async handleCaptureScreenshot(args: ToolArgs<'capture_screenshot'>) {
     if (!this.validatePath(args.projectPath) || !this.validatePath(args.outputPath)) {
       return this.createErrorResponse(
         'Invalid path',
@@ -7063,13 +6247,21 @@ class GodotServer {
         );
       }
 
+      // Fall back to the project's default scene and screenshot size
+      const config = this.projectConfig(args.projectPath);
+      const params = {
+        ...args,
+        scenePath: args.scenePath || config.defaultScene,
+        size: args.size || config.screenshot,
+      };
+
       this.logDebug(`Capturing screenshot for project: ${args.projectPath}`);
       console.log(`[SCREENSHOT] Starting capture for: ${args.projectPath}`);
       console.log(`[SCREENSHOT] Output path: ${args.outputPath}`);
-      console.log(`[SCREENSHOT] Scene path: ${args.scenePath || 'none'}`);
+      console.log(`[SCREENSHOT] Scene path: ${params.scenePath || 'none'}`);
 
       // Execute the capture_screenshot operation
-      const result = await this.executeOperation('capture_screenshot', args, args.projectPath);
+      const result = await this.executeOperation('capture_screenshot', params, args.projectPath);
 
       console.log(`[SCREENSHOT] Operation completed`);
       console.log(`[SCREENSHOT] STDOUT:\n${result.stdout}`);
@@ -7091,8 +6283,8 @@ class GodotServer {
           if (jsonResult.size) {
             response += `**Size:** ${jsonResult.size.width}x${jsonResult.size.height}\n`;
           }
-          if (args.scenePath) {
-            response += `**Scene:** ${args.scenePath}\n`;
+          if (params.scenePath) {
+            response += `**Scene:** ${params.scenePath}\n`;
           } else {
             response += `**Scene:** None (empty viewport)\n`;
             response += `⚠️ **Warning:** No scene was specified, screenshot shows empty gray viewport.\n`;
@@ -7153,17 +6345,7 @@ class GodotServer {
   /**
    * Handle the list_assets tool
    */
-  private async handleListAssets(args: any) {
-    // Normalize parameters to camelCase
-    args = this.normalizeParameters(args);
-
-    if (!args.projectPath) {
-      return this.createErrorResponse(
-        'Missing required parameter',
-        ['Provide projectPath']
-      );
-    }
-
+  private async handleListAssets(args: ToolArgs<'list_assets'>) {
     if (!this.validatePath(args.projectPath)) {
       return this.createErrorResponse(
         'Invalid path',
@@ -7184,56 +6366,18 @@ class GodotServer {
         );
       }
 
-      // Prepare parameters for the operation (already in camelCase)
-      const params: any = {};
-
-      // Add optional parameters
-      if (args.directory) {
-        params.directory = args.directory;
-      }
-
-      if (args.fileTypes && Array.isArray(args.fileTypes)) {
-        params.fileTypes = args.fileTypes;
-      }
-
-      if (args.recursive !== undefined) {
-        params.recursive = args.recursive;
-      } else {
-        params.recursive = true; // Default to recursive
-      }
-
-      // Execute the operation
-      const { stdout, stderr } = await this.executeOperation('list_assets', params, args.projectPath);
-
-      if (stderr && stderr.includes('Failed to')) {
-        return this.createErrorResponse(
-          `Failed to list assets: ${stderr}`,
-          [
-            'Check if the directory path is valid',
-            'Ensure you have read permissions',
-          ]
-        );
-      }
-
-      // Parse the result from stdout
-      let assetsResult;
-      try {
-        // Find JSON in the output
-        const jsonMatch = stdout.match(/\{[\s\S]*\}/);
-        if (jsonMatch) {
-          assetsResult = JSON.parse(jsonMatch[0]);
-        }
-      } catch (parseError) {
-        // If parsing fails, return the raw output
-        assetsResult = { assets: [], error: 'Failed to parse assets result' };
-      }
+      // Walk the project files; types, UIDs and dependencies come from the files without loading them in Godot
+      const assetsResult = listAssets(args.projectPath, {
+        directory: args.directory,
+        fileTypes: Array.isArray(args.fileTypes) ? args.fileTypes : undefined,
+        recursive: args.recursive,
+      });
 
-      const assetCount = assetsResult.assets ? assetsResult.assets.length : 0;
       return {
         content: [
           {
             type: 'text',
-            text: `Found ${assetCount} assets in the project.\n\nAssets: ${JSON.stringify(assetsResult, null, 2)}`,
+            text: `Found ${assetsResult.count} assets in the project.\n\nAssets: ${JSON.stringify(assetsResult, null, 2)}`,
           },
         ],
       };
@@ -7241,8 +6385,8 @@ class GodotServer {
       return this.createErrorResponse(
         `Failed to list assets: ${error?.message || 'Unknown error'}`,
         [
-          'Ensure Godot is installed correctly',
-          'Check if the GODOT_PATH environment variable is set correctly',
+          'Check if the directory path is valid',
+          'Ensure you have read permissions',
           'Verify the project path is accessible',
         ]
       );
@@ -7252,17 +6396,7 @@ class GodotServer {
   /**
    * Handle the create_resource tool
    */
-  private async handleCreateResource(args: any) {
-    // Normalize parameters to camelCase
-    args = this.normalizeParameters(args);
-
-    if (!args.projectPath || !args.resourcePath || !args.resourceType) {
-      return this.createErrorResponse(
-        'Missing required parameters',
-        ['Provide projectPath, resourcePath, and resourceType']
-      );
-    }
-
+  private async handleCreateResource(args: ToolArgs<'create_resource'>) {
     if (!this.validatePath(args.projectPath) || !this.validatePath(args.resourcePath)) {
       return this.createErrorResponse(
         'Invalid path',
@@ -7345,17 +6479,7 @@ class GodotServer {
   /**
    * Handle the import_asset tool
    */
-  private async handleImportAsset(args: any) {
-    // Normalize parameters to camelCase
-    args = this.normalizeParameters(args);
-
-    if (!args.projectPath || !args.assetPath) {
-      return this.createErrorResponse(
-        'Missing required parameters',
-        ['Provide projectPath and assetPath']
-      );
-    }
-
+  private async handleImportAsset(args: ToolArgs<'import_asset'>) {
     if (!this.validatePath(args.projectPath) || !this.validatePath(args.assetPath)) {
       return this.createErrorResponse(
         'Invalid path',
@@ -7448,17 +6572,11 @@ class GodotServer {
   /**
    * Handle the list_missing_assets tool
    */
-  private async handleListMissingAssets(args: any) {
-    // Normalize parameters to camelCase
-    args = this.normalizeParameters(args);
-
-    if (!args.projectPath) {
-      return this.createErrorResponse(
-        'Missing required parameter',
-        ['Provide projectPath']
-      );
-    }
-
+  private async handleListMissingAssets(
+    args: ToolArgs<'list_missing_assets'>,
+    outputOptions: OutputOptions,
+    context: ToolCallContext
+  ) {
     if (!this.validatePath(args.projectPath)) {
       return this.createErrorResponse(
         'Invalid path',
@@ -7487,7 +6605,7 @@ class GodotServer {
       }
 
       // Execute the list_missing_assets operation
-      const result = await this.executeOperation('list_missing_assets', params, args.projectPath);
+      const result = await this.executeOperation('list_missing_assets', params, args.projectPath, context);
 
       // Parse the result
       const lines = result.stdout.split('\n').filter(line => line.trim());
@@ -7497,10 +6615,14 @@ class GodotServer {
 
       // Try to parse as JSON
       try {
-        const jsonResult = JSON.parse(lastLine);
+        const operationResult = JSON.parse(lastLine);
 
-        if (jsonResult.success) {
-          const report: MissingAssetsReport = jsonResult.report;
+        if (operationResult.success) {
+          const report: MissingAssetsReport = operationResult.report;
+
+          if (outputOptions.format === 'json') {
+            return jsonResult(this.resultPager.firstPage(report, 'missing', outputOptions.cursorScope, outputOptions.limit));
+          }
 
           let response = `# Missing Assets Report\n\n`;
           response += `**Timestamp:** ${report.timestamp}\n`;
@@ -7548,7 +6670,7 @@ class GodotServer {
           };
         } else {
           return this.createErrorResponse(
-            `Failed to scan for missing assets: ${jsonResult.error || 'Unknown error'}`,
+            `Failed to scan for missing assets: ${operationResult.error || 'Unknown error'}`,
             [
               'Ensure the project has valid scene and resource files',
               'Check if you have read permissions for the project directory',
@@ -7579,19 +6701,174 @@ class GodotServer {
   }
 
   /**
-   * Handle the update_project_settings tool
+   * Handle the dependency_graph tool
    */
-  private async handleUpdateProjectSettings(args: any) {
-    // Normalize parameters to camelCase
-    args = this.normalizeParameters(args);
+  private async handleDependencyGraph(args: ToolArgs<'dependency_graph'>, context: ToolCallContext) {
+    if (!this.validatePath(args.projectPath) || (args.filePath && !this.validatePath(args.filePath))) {
+      return this.createErrorResponse(
+        'Invalid path',
+        ['Provide valid paths without ".." or other potentially unsafe characters']
+      );
+    }
+
+    const projectFile = join(args.projectPath, 'project.godot');
+    if (!existsSync(projectFile)) {
+      return this.createErrorResponse(
+        `Not a valid Godot project: ${args.projectPath}`,
+        [
+          'Ensure the path points to a directory containing a project.godot file',
+          'Use list_projects to find valid Godot projects',
+        ]
+      );
+    }
+
+    try {
+      // The operation reuses the reference scan of list_missing_assets
+      const { stdout, stderr } = await this.executeOperation('dependency_graph', {}, args.projectPath, context);
+      const resultLine = stdout.split('\n').reverse().find(line => line.trim().startsWith('{'));
+      const operationResult = resultLine ? JSON.parse(resultLine) : null;
+      if (!operationResult?.success) {
+        throw new DependencyGraphError(operationResult?.error || stderr.trim() || 'Godot printed no dependency graph');
+      }
+
+      const exists = (path: string) => existsSync(join(args.projectPath, path.replace(/^res:\/\//, '')));
+      let graph = new DependencyGraph(operationResult.files ?? [], (operationResult.edges ?? []) as DependencyEdge[], exists);
+      const report: Record<string, unknown> = {};
+
+      if (args.filePath) {
+        const file = args.filePath.startsWith('res://') ? args.filePath : `res://${args.filePath.replace(/\\/g, '/').replace(/^\.\//, '')}`;
+        const direction = args.direction ?? 'both';
+        const transitive = args.transitive !== false;
+        graph = graph.around(file, direction, transitive);
+        report.file = file;
+        if (direction !== 'dependents') {
+          report.dependencies = graph.dependenciesOf(file, transitive);
+        }
+        if (direction !== 'dependencies') {
+          report.dependents = graph.dependentsOf(file, transitive);
+        }
+      }
+
+      report.nodes = graph.nodes;
+      report.edges = graph.edges;
+      if (args.diagram) {
+        report.diagram = args.diagram === 'dot' ? graph.toDot() : graph.toMermaid();
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(report, null, 2),
+          },
+        ],
+      };
+    } catch (error: any) {
+      return this.createErrorResponse(
+        `Failed to build dependency graph: ${error?.message || 'Unknown error'}`,
+        [
+          error instanceof DependencyGraphError
+            ? 'Check that filePath is a file in the project or a path referenced by one, e.g. "scenes/main.tscn"'
+            : 'Ensure Godot is installed correctly',
+          'Verify the project path is accessible',
+        ]
+      );
+    }
+  }
+
+  /**
+   * Handle the get_project_settings tool
+   */
+  private async handleGetProjectSettings(args: ToolArgs<'get_project_settings'>, context?: ToolCallContext) {
+    if (!this.validatePath(args.projectPath)) {
+      return this.createErrorResponse(
+        'Invalid path',
+        ['Provide valid paths without ".." or other potentially unsafe characters']
+      );
+    }
 
-    if (!args.projectPath || !args.settings) {
+    const projectFile = join(args.projectPath, 'project.godot');
+    if (!existsSync(projectFile)) {
       return this.createErrorResponse(
-        'Missing required parameters',
-        ['Provide projectPath and settings']
+        `Not a valid Godot project: ${args.projectPath}`,
+        [
+          'Ensure the path points to a directory containing a project.godot file',
+          'Use list_projects to find valid Godot projects',
+        ]
       );
     }
 
+    let settings: ProjectSetting[];
+    try {
+      settings = filterSettings(readProjectSettings(args.projectPath), args.section, args.key);
+    } catch (error: unknown) {
+      if (error instanceof ProjectSettingsError) {
+        return this.createErrorResponse(
+          `Failed to read project settings: ${error.message}`,
+          ['Fix the syntax of project.godot, or open the project in the Godot editor and save it again']
+        );
+      }
+      throw error;
+    }
+
+    // project.godot only stores what differs from the engine defaults, so those come from Godot
+    const withDefaults = args.defaults !== false;
+    let defaults: Record<string, string | null> = {};
+    if (withDefaults && settings.length > 0) {
+      try {
+        const { stdout, stderr } = await this.executeOperation(
+          'get_project_setting_defaults',
+          { names: settings.map(setting => setting.name) },
+          args.projectPath,
+          context
+        );
+        const resultLine = stdout.split('\n').reverse().find(line => line.trim().startsWith('{'));
+        if (!resultLine) {
+          throw new Error(stderr.trim() || 'Godot printed no defaults');
+        }
+        defaults = JSON.parse(resultLine).defaults ?? {};
+      } catch (error: any) {
+        return this.createErrorResponse(
+          `Failed to read the engine defaults of project settings: ${error?.message || 'Unknown error'}`,
+          [
+            'Ensure Godot is installed correctly',
+            'Pass defaults: false to read the settings from project.godot without starting Godot',
+          ]
+        );
+      }
+    }
+
+    const report = settings.map(setting => {
+      const entry: Record<string, unknown> = { name: setting.name };
+      if (setting.value !== undefined) {
+        entry.value = variantToJson(setting.value);
+      }
+      if (withDefaults) {
+        const defaultText = defaults[setting.name] ?? null;
+        const defaultValue = defaultText === null ? null : parseVariant(defaultText);
+        entry.default = defaultValue === null ? null : variantToJson(defaultValue);
+        entry.isDefault = setting.value === undefined || (defaultValue !== null && variantEquals(setting.value, defaultValue));
+      }
+      if (setting.overrides.length > 0) {
+        entry.overrides = Object.fromEntries(setting.overrides.map(override => [override.feature, variantToJson(override.value)]));
+      }
+      return entry;
+    });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({ settings: report, featureOverrides: featureOverrides(settings) }, null, 2),
+        },
+      ],
+    };
+  }
+
+  /**
+   * Handle the update_project_settings tool
+   */
+  private async handleUpdateProjectSettings(args: ToolArgs<'update_project_settings'>) {
     if (!this.validatePath(args.projectPath)) {
       return this.createErrorResponse(
         'Invalid path',
@@ -7654,17 +6931,7 @@ class GodotServer {
   /**
    * Handle the configure_input_map tool
    */
-  private async handleConfigureInputMap(args: any) {
-    // Normalize parameters to camelCase
-    args = this.normalizeParameters(args);
-
-    if (!args.projectPath || !args.actions) {
-      return this.createErrorResponse(
-        'Missing required parameters',
-        ['Provide projectPath and actions']
-      );
-    }
-
+  private async handleConfigureInputMap(args: ToolArgs<'configure_input_map'>) {
     if (!this.validatePath(args.projectPath)) {
       return this.createErrorResponse(
         'Invalid path',
@@ -7728,17 +6995,7 @@ class GodotServer {
   /**
    * Handle the setup_autoload tool
    */
-  private async handleSetupAutoload(args: any) {
-    // Normalize parameters to camelCase
-    args = this.normalizeParameters(args);
-
-    if (!args.projectPath || !args.autoloads) {
-      return this.createErrorResponse(
-        'Missing required parameters',
-        ['Provide projectPath and autoloads']
-      );
-    }
-
+  private async handleSetupAutoload(args: ToolArgs<'setup_autoload'>) {
     if (!this.validatePath(args.projectPath)) {
       return this.createErrorResponse(
         'Invalid path',
@@ -7802,17 +7059,7 @@ class GodotServer {
   /**
    * Handle the manage_plugins tool
    */
-  private async handleManagePlugins(args: any) {
-    // Normalize parameters to camelCase
-    args = this.normalizeParameters(args);
-
-    if (!args.projectPath || !args.action) {
-      return this.createErrorResponse(
-        'Missing required parameters',
-        ['Provide projectPath and action']
-      );
-    }
-
+  private async handleManagePlugins(args: ToolArgs<'manage_plugins'>) {
     if (!this.validatePath(args.projectPath)) {
       return this.createErrorResponse(
         'Invalid path',
@@ -7911,17 +7158,7 @@ class GodotServer {
   /**
    * Handle the run_scene tool
    */
-  private async handleRunScene(args: any) {
-    // Normalize parameters to camelCase
-    args = this.normalizeParameters(args);
-
-    if (!args.projectPath || !args.scenePath) {
-      return this.createErrorResponse(
-        'Missing required parameters',
-        ['Provide projectPath and scenePath']
-      );
-    }
-
+  private async handleRunScene(args: ToolArgs<'run_scene'>, outputOptions: OutputOptions) {
     if (!this.validatePath(args.projectPath) || !this.validatePath(args.scenePath)) {
       return this.createErrorResponse(
         'Invalid path',
@@ -7955,13 +7192,8 @@ class GodotServer {
         );
       }
 
-      // Ensure godotPath is set
-      if (!this.godotPath) {
-        await this.detectGodotPath();
-        if (!this.godotPath) {
-          throw new Error('Could not find a valid Godot executable path');
-        }
-      }
+      // Use the project's configured executable, or the detected one
+      const godotPath = await this.godotPathFor(args.projectPath);
 
       this.logDebug(`Running scene: ${args.scenePath} in project: ${args.projectPath}`);
 
@@ -7983,7 +7215,7 @@ class GodotServer {
         cmdArgs.push(...args.additionalArgs);
       }
 
-      this.logDebug(`Command: ${this.godotPath} ${cmdArgs.join(' ')}`);
+      this.logDebug(`Command: ${godotPath} ${cmdArgs.join(' ')}`);
 
       // Run the scene and capture output
       return new Promise((resolve) => {
@@ -7991,10 +7223,21 @@ class GodotServer {
         const errors: ErrorInfo[] = [];
         let exitCode = 0;
 
-        const godotProcess = spawn(this.godotPath!, cmdArgs, {
+        const godotProcess = spawn(godotPath, cmdArgs, {
           cwd: args.projectPath,
         });
 
+        // Stop the scene once the project's run timeout has passed
+        const runTimeout = this.projectConfig(args.projectPath).timeouts?.run;
+        let timedOut = false;
+        const runTimer = runTimeout
+          ? setTimeout(() => {
+            timedOut = true;
+            this.logDebug(`Scene ran for ${runTimeout}ms, stopping it`);
+            godotProcess.kill();
+          }, runTimeout)
+          : null;
+
         // Capture stdout
         godotProcess.stdout.on('data', (data: Buffer) => {
           const lines = data.toString().split('\n');
@@ -8031,6 +7274,9 @@ class GodotServer {
 
         // Handle process exit
         godotProcess.on('close', (code: number | null) => {
+          if (runTimer) {
+            clearTimeout(runTimer);
+          }
           exitCode = code || 0;
           this.logDebug(`Godot process exited with code: ${exitCode}`);
 
@@ -8040,12 +7286,24 @@ class GodotServer {
             errors,
             exitCode,
           };
+          if (timedOut) {
+            result.timedOut = true;
+          }
+
+          if (outputOptions.format === 'json') {
+            resolve(jsonResult(this.resultPager.firstPage(result, 'output', outputOptions.cursorScope, outputOptions.limit)));
+            return;
+          }
 
           // Format the response
           let responseText = `# Scene Run Result\n\n`;
           responseText += `**Scene:** ${args.scenePath}\n`;
           responseText += `**Exit Code:** ${exitCode}\n`;
-          responseText += `**Status:** ${result.success ? '✓ Success' : '✗ Failed'}\n\n`;
+          responseText += `**Status:** ${result.success ? '✓ Success' : '✗ Failed'}\n`;
+          if (timedOut) {
+            responseText += `**Stopped:** after the project's ${runTimeout}ms run timeout\n`;
+          }
+          responseText += '\n';
 
           if (errors.length > 0) {
             responseText += `## Errors (${errors.length})\n\n`;
@@ -8097,6 +7355,9 @@ class GodotServer {
         // Handle process errors
         godotProcess.on('error', (error: Error) => {
           this.logDebug(`Godot process error: ${error.message}`);
+          if (runTimer) {
+            clearTimeout(runTimer);
+          }
           resolve(
             this.createErrorResponse(
               `Failed to run scene: ${error.message}`,
@@ -8125,17 +7386,7 @@ class GodotServer {
   /**
    * Handle the remote_tree_dump tool
    */
-  private async handleRemoteTreeDump(args: any) {
-    // Normalize parameters to camelCase
-    args = this.normalizeParameters(args);
-
-    if (!args.projectPath) {
-      return this.createErrorResponse(
-        'Project path is required',
-        ['Provide a valid path to a Godot project directory']
-      );
-    }
-
+  private async handleRemoteTreeDump(args: ToolArgs<'remote_tree_dump'>, outputOptions: OutputOptions) {
     if (!this.validatePath(args.projectPath)) {
       return this.createErrorResponse(
         'Invalid path',
@@ -8213,6 +7464,10 @@ class GodotServer {
         );
       }
 
+      if (outputOptions.format === 'json') {
+        return jsonResult(this.resultPager.firstPage(dumpResult, 'nodes', outputOptions.cursorScope, outputOptions.limit));
+      }
+
       // Format the response
       let responseText = `# Remote Scene Tree Dump\n\n`;
       responseText += `**Total Nodes:** ${dumpResult.totalNodes}\n`;
@@ -8308,17 +7563,7 @@ class GodotServer {
   /**
    * Handle the toggle_debug_draw tool
    */
-  private async handleToggleDebugDraw(args: any) {
-    // Normalize parameters to camelCase
-    args = this.normalizeParameters(args);
-
-    if (!args.projectPath) {
-      return this.createErrorResponse(
-        'Project path is required',
-        ['Provide a valid path to a Godot project directory']
-      );
-    }
-
+  private async handleToggleDebugDraw(args: ToolArgs<'toggle_debug_draw'>) {
     if (!args.mode) {
       return this.createErrorResponse(
         'Debug draw mode is required',
@@ -8483,6 +7728,132 @@ class GodotServer {
     }
   }
 
+  /**
+   * Handle the undo_last_change tool
+   * @param args Tool arguments
+   */
+  private async handleUndoLastChange(args: ToolArgs<'undo_last_change'>) {
+    try {
+      const entry = this.changeHistory.undo(args.projectPath, args.force ?? false);
+      return this.changeResponse(`Undid change #${entry.id} (${entry.tool})`, entry, true);
+    } catch (error: unknown) {
+      if (error instanceof ChangeHistoryError) {
+        return this.createErrorResponse(error.message, [
+          'Use list_change_history to see the changes that can be undone',
+          'Pass force: true to restore the files even though they changed again',
+        ]);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Handle the redo_change tool
+   * @param args Tool arguments
+   */
+  private async handleRedoChange(args: ToolArgs<'redo_change'>) {
+    try {
+      const entry = this.changeHistory.redo(args.projectPath, args.force ?? false);
+      return this.changeResponse(`Redid change #${entry.id} (${entry.tool})`, entry, false);
+    } catch (error: unknown) {
+      if (error instanceof ChangeHistoryError) {
+        return this.createErrorResponse(error.message, [
+          'Use list_change_history to see the changes that can be redone',
+          'A new change clears the changes that can be redone',
+          'Pass force: true to apply the change even though the files changed since the undo',
+        ]);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Handle the list_change_history tool
+   * @param args Tool arguments
+   */
+  private async handleListChangeHistory(args: ToolArgs<'list_change_history'>) {
+    const includeDiffs = args.includeDiffs ?? true;
+    const history = this.changeHistory.list(args.projectPath);
+    const describe = (entry: ChangeEntry) => ({
+      id: entry.id,
+      tool: entry.tool,
+      timestamp: entry.timestamp.toISOString(),
+      files: entry.files.map(file => ({
+        path: file.path,
+        status: file.before === null ? 'added' : file.after === null ? 'deleted' : 'modified',
+      })),
+      skipped: entry.skipped.length > 0 ? entry.skipped : undefined,
+      diff: includeDiffs ? entryDiff(entry) : undefined,
+    });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(
+            {
+              undo: history.undo.map(describe),
+              redo: history.redo.map(describe),
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  /**
+   * Build the response of an undo or redo with the diff it applied
+   * @param undone Whether the entry was undone (its diff is shown reversed)
+   */
+  private changeResponse(message: string, entry: ChangeEntry, undone: boolean) {
+    const lines = [
+      `${message}: ${entry.files.length} file(s) restored`,
+      ...entry.files.map(file => `- ${file.path}`),
+    ];
+    if (entry.skipped.length > 0) {
+      lines.push('', `Not restored (too large to snapshot): ${entry.skipped.join(', ')}`);
+    }
+    const diff = entryDiff(entry, undone);
+    if (diff) {
+      lines.push('', '```diff', diff.trimEnd(), '```');
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: lines.join('\n'),
+        },
+      ],
+    };
+  }
+
+  /**
+   * Start the HTTP/SSE transport
+   */
+  private async startHttpTransport() {
+    this.httpTransport = new HttpTransportHost({
+      host: this.httpHost,
+      port: this.httpPort,
+      authToken: this.httpAuthToken,
+      allowedHosts: this.httpAllowedHosts,
+      createServer: () => this.createServer(),
+      getHealth: () => ({
+        godotPath: this.godotPath,
+        godotVersion: this.godotVersion ? VersionValidator.formatVersion(this.godotVersion) : null,
+        runningSessions: this.processManager.running().length,
+        workers: this.workers.size,
+        policy: this.toolPolicy.describe(),
+        allowedRoots: this.pathSandbox.allowedRoots,
+      }),
+      debugMode: DEBUG_MODE,
+    });
+    await this.httpTransport.start();
+    console.error(`Godot MCP server running on ${this.httpTransport.url}/sse`);
+  }
+
   /**
    * Run the MCP server
    */
@@ -8516,9 +7887,25 @@ class GodotServer {
 
       console.log(`[SERVER] Using Godot at: ${this.godotPath}`);
 
-      const transport = new StdioServerTransport();
-      await this.server.connect(transport);
-      console.error('Godot MCP server running on stdio');
+      const policy = this.toolPolicy.describe();
+      if (policy.readOnly || policy.deniedTools.length > 0 || policy.writePaths.length > 0) {
+        console.error(`[SERVER] Tool policy: ${JSON.stringify(policy)}`);
+      }
+
+      if (!['stdio', 'http', 'both'].includes(this.transportMode)) {
+        console.error(`[SERVER] Unknown transport: ${this.transportMode}. Use "stdio", "http" or "both"`);
+        process.exit(1);
+      }
+
+      if (this.transportMode === 'http' || this.transportMode === 'both') {
+        await this.startHttpTransport();
+      }
+
+      if (this.transportMode === 'stdio' || this.transportMode === 'both') {
+        const transport = new StdioServerTransport();
+        await this.server.connect(transport);
+        console.error('Godot MCP server running on stdio');
+      }
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       console.error('[SERVER] Failed to start:', errorMessage);
@@ -0,0 +1,216 @@
+/**
+ * Log Streams for the Godot MCP Server
+ *
+ * This module lets a client subscribe to the output of running sessions.
+ * Every new line that matches a subscription is sent to that client as an
+ * MCP logging message (notifications/message) as soon as Godot prints it, so
+ * an agent can react to a script error without polling get_debug_output.
+ */
+
+import { LoggingLevel } from '@modelcontextprotocol/sdk/types.js';
+import { LogLevel, LogLine, LogStream } from './session-log.js';
+
+/**
+ * MCP logging levels, least severe first
+ */
+export const MCP_LOG_LEVELS: readonly LoggingLevel[] = [
+  'debug',
+  'info',
+  'notice',
+  'warning',
+  'error',
+  'critical',
+  'alert',
+  'emergency',
+];
+
+// Engine messages are debug output, and what the game prints is its regular output
+const MCP_LEVEL_OF: Record<LogLevel, LoggingLevel> = {
+  error: 'error',
+  warning: 'warning',
+  print: 'info',
+  info: 'debug',
+};
+
+// Location lines after an error: "at: _ready (res://player.gd:12)" or "at: res://player.gd:12"
+const LOCATION_PATTERN = /^\s*at:\s*(?:(.+?)\s+\()?((?:res|user):\/\/[^\s()]+|[^\s()]+\.\w+):(\d+)\)?\s*$/;
+
+// Error and warning lines: "SCRIPT ERROR: Parse Error: ..."
+const MESSAGE_PATTERN = /^\s*(?:(USER|SCRIPT|SHADER) )?(?:ERROR|WARNING):\s*(.*)$/;
+
+/**
+ * Interface for a subscription to session output
+ */
+export interface LogSubscription {
+  id: string;
+  sessionId?: string; // Omitted: every session, including sessions started later
+  levels?: LogLevel[]; // Omitted: every level
+  search?: RegExp;
+}
+
+/**
+ * Interface for where an error or warning was raised
+ */
+export interface LogLocation {
+  function?: string;
+  script: string;
+  line: number;
+}
+
+/**
+ * Interface for the data of a logging message about a line of output
+ */
+export interface LogLineData {
+  sessionId: string;
+  line: number; // Line number, as returned by get_debug_output
+  stream: LogStream;
+  level: LogLevel;
+  text: string;
+  source?: 'user' | 'script' | 'shader' | 'engine'; // Errors and warnings only
+  message?: string; // Errors and warnings only, without the prefix
+  location?: LogLocation; // Location lines that follow an error or warning
+}
+
+/**
+ * Interface for the data of a logging message sent when a session ends
+ */
+export interface SessionExitData {
+  sessionId: string;
+  event: 'exited';
+  status: 'exited' | 'failed';
+  exitCode: number | null;
+  exitSignal: string | null;
+}
+
+/**
+ * Interface for a logging message ready to send
+ */
+export interface LogMessage {
+  level: LoggingLevel;
+  logger: string;
+  data: LogLineData | SessionExitData;
+}
+
+/**
+ * Name of the logger of a session's messages
+ */
+export function sessionLogger(sessionId: string): string {
+  return `godot/${sessionId}`;
+}
+
+/**
+ * Parse the location line that follows an error or warning
+ */
+export function parseLocationLine(text: string): LogLocation | null {
+  const match = text.match(LOCATION_PATTERN);
+  if (!match) {
+    return null;
+  }
+  const location: LogLocation = { script: match[2], line: parseInt(match[3], 10) };
+  if (match[1]) {
+    location.function = match[1];
+  }
+  return location;
+}
+
+/**
+ * Build the logging message of a line of session output
+ */
+export function lineMessage(sessionId: string, line: LogLine): LogMessage {
+  const data: LogLineData = { sessionId, ...line };
+
+  if (line.level === 'error' || line.level === 'warning') {
+    const message = line.text.match(MESSAGE_PATTERN);
+    if (message) {
+      data.source = message[1] ? (message[1].toLowerCase() as LogLineData['source']) : 'engine';
+      data.message = message[2];
+    } else {
+      const location = parseLocationLine(line.text);
+      if (location) {
+        data.location = location;
+      }
+    }
+  }
+
+  return { level: MCP_LEVEL_OF[line.level], logger: sessionLogger(sessionId), data };
+}
+
+/**
+ * Build the logging message sent when a session ends
+ */
+export function exitMessage(data: Omit<SessionExitData, 'event'>): LogMessage {
+  return {
+    level: data.status === 'failed' ? 'error' : 'notice',
+    logger: sessionLogger(data.sessionId),
+    data: { ...data, event: 'exited' },
+  };
+}
+
+/**
+ * The log subscriptions of one client, with the minimum level it set with logging/setLevel
+ */
+export class LogSubscriptions {
+  minimumLevel: LoggingLevel = 'debug';
+  private subscriptions: Map<string, LogSubscription> = new Map();
+  private nextId: number = 1;
+
+  /**
+   * Add a subscription
+   */
+  add(filter: Omit<LogSubscription, 'id'>): LogSubscription {
+    const subscription: LogSubscription = { id: `log-${this.nextId++}`, ...filter };
+    this.subscriptions.set(subscription.id, subscription);
+    return subscription;
+  }
+
+  /**
+   * Remove a subscription
+   * @returns false if there was no subscription with this id
+   */
+  remove(id: string): boolean {
+    return this.subscriptions.delete(id);
+  }
+
+  /**
+   * Remove every subscription
+   * @returns The number of subscriptions removed
+   */
+  clear(): number {
+    const count = this.subscriptions.size;
+    this.subscriptions.clear();
+    return count;
+  }
+
+  /**
+   * All subscriptions, oldest first
+   */
+  list(): LogSubscription[] {
+    return Array.from(this.subscriptions.values());
+  }
+
+  /**
+   * Whether a message about a session should be sent to this client
+   * @param line The line the message is about; omitted for session events, which every subscription to the session receives
+   */
+  wants(sessionId: string, message: LogMessage, line?: LogLine): boolean {
+    if (MCP_LOG_LEVELS.indexOf(message.level) < MCP_LOG_LEVELS.indexOf(this.minimumLevel)) {
+      return false;
+    }
+    for (const subscription of this.subscriptions.values()) {
+      if (subscription.sessionId !== undefined && subscription.sessionId !== sessionId) {
+        continue;
+      }
+      if (!line) {
+        return true;
+      }
+      if (subscription.levels && subscription.levels.length > 0 && !subscription.levels.includes(line.level)) {
+        continue;
+      }
+      if (subscription.search && !subscription.search.test(line.text)) {
+        continue;
+      }
+      return true;
+    }
+    return false;
+  }
+}
@@ -0,0 +1,246 @@
+/**
+ * Output Formatting for the Godot MCP Server
+ *
+ * This module implements the JSON output mode: tool results are returned as
+ * JSON payloads instead of Markdown, and long lists are split into pages that
+ * are kept in memory so a cursor can fetch the next page without running the
+ * operation again.
+ */
+
+import { randomUUID } from 'crypto';
+
+export type OutputFormat = 'json' | 'markdown';
+
+/**
+ * Interface for the pagination block added to paged JSON payloads
+ */
+export interface PaginationInfo {
+  list: string; // Name of the paged array in the payload
+  offset: number;
+  limit: number;
+  total: number;
+  nextCursor?: string;
+}
+
+/**
+ * Interface for a tool result as returned to the MCP client
+ */
+export interface ToolResult {
+  content: Array<{ type: string; text?: string; [key: string]: unknown }>;
+  isError?: boolean;
+  [key: string]: unknown;
+}
+
+/**
+ * Interface for a stored result that can be paged through
+ */
+interface StoredResult {
+  payload: Record<string, any>;
+  list: string;
+  scope: string; // Tool and client session the result belongs to
+  expiresAt: number;
+}
+
+/**
+ * Error raised when a cursor is malformed or has expired
+ */
+export class CursorError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CursorError';
+  }
+}
+
+/**
+ * Check whether a value is a supported output format
+ */
+export function isOutputFormat(value: unknown): value is OutputFormat {
+  return value === 'json' || value === 'markdown';
+}
+
+/**
+ * Build a text tool result holding a JSON payload
+ */
+export function jsonResult(payload: unknown, isError: boolean = false): ToolResult {
+  const result: ToolResult = {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify(payload, null, 2),
+      },
+    ],
+  };
+  if (isError) {
+    result.isError = true;
+  }
+  return result;
+}
+
+/**
+ * Convert a Markdown or plain-text tool result to JSON.
+ * Results whose text is already JSON are returned unchanged.
+ */
+export function toJsonResult(result: ToolResult): ToolResult {
+  if (!result || !Array.isArray(result.content)) {
+    return result;
+  }
+
+  const texts = result.content.filter(item => item.type === 'text' && typeof item.text === 'string');
+  const others = result.content.filter(item => !texts.includes(item));
+  if (texts.length === 1 && isJson(texts[0].text as string)) {
+    return result;
+  }
+
+  let payload: Record<string, unknown>;
+  if (result.isError) {
+    // createErrorResponse puts the message first and the solutions second
+    const solutions = texts.slice(1).map(item => item.text as string)
+      .filter(text => text.startsWith('Possible solutions:'))
+      .flatMap(text => text.split('\n- ').slice(1));
+    payload = { success: false, error: texts[0]?.text ?? 'Unknown error' };
+    if (solutions.length > 0) {
+      payload.possibleSolutions = solutions;
+    }
+  } else {
+    payload = { success: true, message: texts.map(item => item.text).join('\n\n') };
+  }
+
+  const converted = jsonResult(payload, result.isError === true);
+  converted.content.push(...others);
+  return converted;
+}
+
+/**
+ * Check whether a string holds a JSON object or array
+ */
+function isJson(text: string): boolean {
+  const trimmed = text.trim();
+  if (!trimmed.startsWith('{') && !trimmed.startsWith('[')) {
+    return false;
+  }
+  try {
+    JSON.parse(trimmed);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Keeps large JSON payloads in memory and serves them one page at a time
+ */
+export class ResultPager {
+  private results: Map<string, StoredResult> = new Map();
+  private defaultLimit: number;
+  private maxResults: number;
+  private ttl: number;
+
+  constructor(options: { defaultLimit?: number; maxResults?: number; ttl?: number } = {}) {
+    this.defaultLimit = options.defaultLimit ?? 200;
+    this.maxResults = options.maxResults ?? 20;
+    this.ttl = options.ttl ?? 10 * 60 * 1000;
+  }
+
+  /**
+   * Return the first page of a payload, storing it if more pages follow
+   * @param payload Full payload
+   * @param list Name of the array property to page through
+   * @param scope Tool and client session that may fetch the next pages
+   * @param limit Items per page
+   */
+  firstPage(payload: Record<string, any>, list: string, scope: string, limit?: number): Record<string, any> {
+    const pageSize = this.pageSize(limit);
+    const items: unknown[] = Array.isArray(payload[list]) ? payload[list] : [];
+    let id: string | undefined;
+    if (items.length > pageSize) {
+      id = this.store(payload, list, scope);
+    }
+    return this.slice(payload, list, 0, pageSize, id);
+  }
+
+  /**
+   * Return the page a cursor points to
+   * @param scope Tool and client session asking for the page
+   * @throws CursorError if the cursor is malformed, its result has expired or
+   * it was issued to another tool or session
+   */
+  nextPage(cursor: string, scope: string, limit?: number): Record<string, any> {
+    let decoded: { id: string; offset: number };
+    try {
+      decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    } catch {
+      throw new CursorError('Malformed cursor');
+    }
+
+    if (typeof decoded?.id !== 'string' || !Number.isInteger(decoded.offset) || decoded.offset < 0) {
+      throw new CursorError('Malformed cursor');
+    }
+
+    this.prune();
+    const stored = this.results.get(decoded.id);
+    if (!stored) {
+      throw new CursorError('Cursor has expired. Run the tool again without a cursor');
+    }
+    if (stored.scope !== scope) {
+      throw new CursorError('Cursor was issued to another tool or session. Run the tool again without a cursor');
+    }
+    return this.slice(stored.payload, stored.list, decoded.offset, this.pageSize(limit), decoded.id);
+  }
+
+  /**
+   * Copy of the payload with only one page of the list
+   */
+  private slice(payload: Record<string, any>, list: string, offset: number, limit: number, id?: string): Record<string, any> {
+    const items: unknown[] = Array.isArray(payload[list]) ? payload[list] : [];
+    const pagination: PaginationInfo = {
+      list,
+      offset,
+      limit,
+      total: items.length,
+    };
+    if (id && offset + limit < items.length) {
+      pagination.nextCursor = Buffer.from(JSON.stringify({ id, offset: offset + limit })).toString('base64url');
+    }
+    return {
+      ...payload,
+      [list]: items.slice(offset, offset + limit),
+      pagination,
+    };
+  }
+
+  /**
+   * Store a payload and return its id
+   */
+  private store(payload: Record<string, any>, list: string, scope: string): string {
+    this.prune();
+    while (this.results.size >= this.maxResults) {
+      const oldest = this.results.keys().next().value as string;
+      this.results.delete(oldest);
+    }
+    const id = randomUUID();
+    this.results.set(id, { payload, list, scope, expiresAt: Date.now() + this.ttl });
+    return id;
+  }
+
+  /**
+   * Drop expired results
+   */
+  private prune(): void {
+    const now = Date.now();
+    for (const [id, stored] of this.results) {
+      if (stored.expiresAt < now) {
+        this.results.delete(id);
+      }
+    }
+  }
+
+  /**
+   * Clamp a requested page size
+   */
+  private pageSize(limit?: number): number {
+    if (typeof limit !== 'number' || !Number.isFinite(limit) || limit < 1) {
+      return this.defaultLimit;
+    }
+    return Math.min(Math.floor(limit), 1000);
+  }
+}
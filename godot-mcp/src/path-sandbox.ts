@@ -0,0 +1,173 @@
+/**
+ * Path Sandbox for the Godot MCP Server
+ *
+ * This module keeps tool calls inside the directories an administrator
+ * allows. Paths are resolved with symlinks followed, so a link inside an
+ * allowed root cannot point the server somewhere else, and Godot's res://
+ * and user:// paths are mapped to the directories they stand for.
+ */
+
+import { existsSync, readFileSync, realpathSync } from 'fs';
+import { homedir } from 'os';
+import { basename, dirname, isAbsolute, join, relative, resolve, sep } from 'path';
+
+/**
+ * Error raised when a path is outside the allowed directories
+ */
+export class PathSandboxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PathSandboxError';
+  }
+}
+
+/**
+ * Checks paths against the allowed roots and resolves Godot paths
+ */
+export class PathSandbox {
+  private roots: string[];
+
+  /**
+   * @param roots Directories tool calls may use. When empty, projects may live
+   * anywhere, but paths inside a project must still stay inside it.
+   */
+  constructor(roots: string[] = []) {
+    this.roots = roots.map(root => canonicalPath(root));
+  }
+
+  /**
+   * Allowed roots with symlinks resolved
+   */
+  get allowedRoots(): string[] {
+    return [...this.roots];
+  }
+
+  /**
+   * Check that a directory is inside an allowed root
+   * @returns The directory with symlinks resolved
+   * @throws PathSandboxError if it is outside every allowed root
+   */
+  resolveDirectory(directory: string): string {
+    const path = canonicalPath(directory);
+    if (this.roots.length > 0 && !this.roots.some(root => isInside(root, path))) {
+      throw new PathSandboxError(
+        `${directory} is outside the allowed roots (${this.roots.join(', ')})`
+      );
+    }
+    return path;
+  }
+
+  /**
+   * Resolve a path used by a tool call against its project.
+   * Relative and res:// paths are relative to the project root, user:// paths
+   * to the project's user data directory.
+   * @returns The absolute path with symlinks resolved
+   * @throws PathSandboxError if the path leaves the project (or, for user://
+   * paths, the user data directory)
+   */
+  resolveInProject(projectPath: string, path: string): string {
+    const root = this.resolveDirectory(projectPath);
+
+    if (path.startsWith('user://')) {
+      const userDir = canonicalPath(godotUserDataDir(root));
+      const resolved = canonicalPath(join(userDir, path.slice('user://'.length)));
+      if (!isInside(userDir, resolved)) {
+        throw new PathSandboxError(`${path} is outside the project's user data directory`);
+      }
+      return resolved;
+    }
+
+    const local = path.replace(/^res:\/\//, '');
+    const resolved = canonicalPath(isAbsolute(local) ? local : join(root, local));
+    if (!isInside(root, resolved)) {
+      throw new PathSandboxError(`${path} is outside the project ${projectPath}`);
+    }
+    return resolved;
+  }
+}
+
+/**
+ * Resolve a path with symlinks followed. For a path that does not exist yet,
+ * its deepest existing ancestor is resolved and the rest appended.
+ */
+export function canonicalPath(path: string): string {
+  let existing = resolve(path);
+  const missing: string[] = [];
+  while (!existsSync(existing)) {
+    const parent = dirname(existing);
+    if (parent === existing) {
+      break;
+    }
+    missing.unshift(basename(existing));
+    existing = parent;
+  }
+
+  let real = existing;
+  try {
+    real = realpathSync.native(existing);
+  } catch {
+    // Keep the unresolved path if it cannot be read
+  }
+  return missing.length > 0 ? join(real, ...missing) : real;
+}
+
+/**
+ * Check whether a path is a root or inside it
+ */
+export function isInside(root: string, path: string): boolean {
+  const rel = relative(root, path);
+  return rel === '' || (rel !== '..' && !rel.startsWith(`..${sep}`) && !isAbsolute(rel));
+}
+
+/**
+ * Directory Godot uses for a project's user:// files, following the
+ * application/config/use_custom_user_dir and custom_user_dir_name settings
+ */
+export function godotUserDataDir(projectPath: string): string {
+  let name = basename(projectPath);
+  let useCustomDir = false;
+  let customDirName = '';
+
+  const projectFile = join(projectPath, 'project.godot');
+  if (existsSync(projectFile)) {
+    let section = '';
+    for (const line of readFileSync(projectFile, 'utf8').split(/\r?\n/)) {
+      const header = line.match(/^\[([^\]]+)\]\s*$/);
+      if (header) {
+        section = header[1];
+        continue;
+      }
+      if (section !== 'application') {
+        continue;
+      }
+      const entry = line.match(/^(config\/name|config\/use_custom_user_dir|config\/custom_user_dir_name)\s*=\s*(.*)$/);
+      if (!entry) {
+        continue;
+      }
+      const value = entry[2].trim().replace(/^"(.*)"$/, '$1');
+      if (entry[1] === 'config/name' && value) {
+        name = value;
+      } else if (entry[1] === 'config/use_custom_user_dir') {
+        useCustomDir = value === 'true';
+      } else {
+        customDirName = value;
+      }
+    }
+  }
+
+  let dataDir: string;
+  let godotDir = 'Godot';
+  if (process.platform === 'win32') {
+    dataDir = process.env.APPDATA || join(homedir(), 'AppData', 'Roaming');
+  } else if (process.platform === 'darwin') {
+    dataDir = join(homedir(), 'Library', 'Application Support');
+  } else {
+    dataDir = process.env.XDG_DATA_HOME || join(homedir(), '.local', 'share');
+    godotDir = 'godot';
+  }
+
+  if (useCustomDir) {
+    return join(dataDir, customDirName || name);
+  }
+  return join(dataDir, godotDir, 'app_userdata', name);
+}
@@ -0,0 +1,300 @@
+/**
+ * Process Launcher for the Godot MCP Server
+ *
+ * This module runs short-lived Godot commands without a shell. Arguments are
+ * passed to the executable as an array, so JSON parameters containing quotes,
+ * spaces or unicode reach Godot unchanged on every platform. Each run has a
+ * timeout, a cap on the output it keeps, and can be cancelled.
+ */
+
+import { spawn } from 'child_process';
+import { StringDecoder } from 'string_decoder';
+
+/**
+ * Default cap on the bytes kept from each of stdout and stderr
+ */
+export const DEFAULT_MAX_BUFFER = 1024 * 1024;
+
+/**
+ * Milliseconds a stopped process gets to quit before it is killed
+ */
+const KILL_GRACE_PERIOD = 2000;
+
+/**
+ * Interface for the options of a process run
+ */
+export interface LaunchOptions {
+  cwd?: string;
+  env?: NodeJS.ProcessEnv;
+  timeout?: number; // Milliseconds before the process is killed (no limit when omitted or 0)
+  maxBuffer?: number; // Bytes kept from each stream before the process is killed
+  signal?: AbortSignal; // Kills the process when aborted
+  onStdout?: (chunk: string) => void; // Called with output as it arrives, never splitting a character
+  onStderr?: (chunk: string) => void;
+}
+
+/**
+ * Interface for how a process run ended
+ */
+export interface LaunchResult {
+  command: string[]; // Executable followed by its arguments
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  signal: string | null;
+  timedOut: boolean;
+  cancelled: boolean;
+  truncated: boolean; // Output of a stream exceeded maxBuffer and the process was killed
+  durationMs: number;
+}
+
+export type ProcessFailureReason = 'spawn' | 'exit' | 'timeout' | 'cancelled' | 'maxBuffer';
+
+/**
+ * Error raised when a process could not be started or did not succeed
+ */
+export class ProcessLaunchError extends Error {
+  reason: ProcessFailureReason;
+  result?: LaunchResult; // Output gathered before the failure, when the process started
+
+  constructor(message: string, reason: ProcessFailureReason, result?: LaunchResult) {
+    super(message);
+    this.name = 'ProcessLaunchError';
+    this.reason = reason;
+    this.result = result;
+  }
+
+  get stdout(): string {
+    return this.result?.stdout ?? '';
+  }
+
+  get stderr(): string {
+    return this.result?.stderr ?? '';
+  }
+}
+
+/**
+ * Run a process to completion.
+ * The promise resolves however the process ends, with the reason recorded in
+ * the result; it only rejects if the executable cannot be started.
+ * @throws ProcessLaunchError with reason "spawn" if the process cannot be started
+ */
+export function launchProcess(file: string, args: string[], options: LaunchOptions = {}): Promise<LaunchResult> {
+  const command = [file, ...args];
+  const maxBuffer = options.maxBuffer ?? DEFAULT_MAX_BUFFER;
+  const startedAt = Date.now();
+
+  return new Promise((resolve, reject) => {
+    if (options.signal?.aborted) {
+      resolve(cancelledResult(command));
+      return;
+    }
+
+    const child = spawn(file, args, {
+      cwd: options.cwd,
+      env: options.env,
+      stdio: ['ignore', 'pipe', 'pipe'],
+      windowsHide: true,
+    });
+
+    const stdout = new StreamCapture(options.onStdout);
+    const stderr = new StreamCapture(options.onStderr);
+    let timedOut = false;
+    let cancelled = false;
+    let settled = false;
+    let killTimer: NodeJS.Timeout | null = null;
+
+    // Ask the process to quit, and kill it if it does not
+    const stop = () => {
+      if (child.exitCode === null && child.signalCode === null && !killTimer) {
+        child.kill();
+        killTimer = setTimeout(() => child.kill('SIGKILL'), KILL_GRACE_PERIOD);
+      }
+    };
+
+    const timer = options.timeout
+      ? setTimeout(() => {
+        timedOut = true;
+        stop();
+      }, options.timeout)
+      : null;
+
+    const onAbort = () => {
+      cancelled = true;
+      stop();
+    };
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+
+    const cleanup = () => {
+      settled = true;
+      if (timer) {
+        clearTimeout(timer);
+      }
+      if (killTimer) {
+        clearTimeout(killTimer);
+      }
+      options.signal?.removeEventListener('abort', onAbort);
+    };
+
+    // Each stream keeps at most maxBuffer bytes, and the process is stopped beyond that
+    child.stdout?.on('data', (data: Buffer) => {
+      if (!stdout.add(data, maxBuffer)) {
+        stop();
+      }
+    });
+
+    child.stderr?.on('data', (data: Buffer) => {
+      if (!stderr.add(data, maxBuffer)) {
+        stop();
+      }
+    });
+
+    child.on('error', (err: Error) => {
+      if (settled) {
+        return;
+      }
+      cleanup();
+      reject(new ProcessLaunchError(`Failed to start ${file}: ${err.message}`, 'spawn'));
+    });
+
+    child.on('close', (code: number | null, signal: NodeJS.Signals | null) => {
+      if (settled) {
+        return;
+      }
+      cleanup();
+      stdout.end();
+      stderr.end();
+      resolve({
+        command,
+        stdout: stdout.text(),
+        stderr: stderr.text(),
+        exitCode: code,
+        signal,
+        timedOut,
+        cancelled,
+        truncated: stdout.truncated || stderr.truncated,
+        durationMs: Date.now() - startedAt,
+      });
+    });
+  });
+}
+
+/**
+ * Output of one stream of a process: the bytes kept, and the text passed on
+ * as it arrives. Characters split across chunks are held back until complete.
+ */
+class StreamCapture {
+  truncated: boolean = false;
+  private chunks: Buffer[] = [];
+  private size: number = 0;
+  private decoder: StringDecoder = new StringDecoder('utf8');
+  private onText?: (chunk: string) => void;
+
+  constructor(onText?: (chunk: string) => void) {
+    this.onText = onText;
+  }
+
+  /**
+   * Take a chunk of output
+   * @returns False if the stream went over maxBuffer with it
+   */
+  add(data: Buffer, maxBuffer: number): boolean {
+    if (this.onText) {
+      const text = this.decoder.write(data);
+      if (text) {
+        this.onText(text);
+      }
+    }
+    if (this.truncated) {
+      return false;
+    }
+    const room = maxBuffer - this.size;
+    if (data.length > room) {
+      if (room > 0) {
+        this.chunks.push(data.subarray(0, room));
+      }
+      this.size = maxBuffer;
+      this.truncated = true;
+      return false;
+    }
+    this.chunks.push(data);
+    this.size += data.length;
+    return true;
+  }
+
+  /**
+   * Pass on what is left of an incomplete character once the stream has ended
+   */
+  end(): void {
+    const rest = this.decoder.end();
+    if (rest && this.onText) {
+      this.onText(rest);
+    }
+  }
+
+  text(): string {
+    return Buffer.concat(this.chunks).toString();
+  }
+}
+
+/**
+ * Run a process and require it to succeed
+ * @returns The result of a run that exited with code 0
+ * @throws ProcessLaunchError if the process cannot be started, times out, is
+ * cancelled, exceeds maxBuffer or exits with another code
+ */
+export async function runProcess(file: string, args: string[], options: LaunchOptions = {}): Promise<LaunchResult> {
+  const result = await launchProcess(file, args, options);
+  const failure = describeFailure(result);
+  if (failure) {
+    throw new ProcessLaunchError(failure.message, failure.reason, result);
+  }
+  return result;
+}
+
+/**
+ * Why a finished run did not succeed
+ * @returns The reason and a message, or null if the process exited with code 0
+ */
+export function describeFailure(result: LaunchResult): { reason: ProcessFailureReason; message: string } | null {
+  const name = result.command[0];
+  if (result.cancelled) {
+    return { reason: 'cancelled', message: `${name} was cancelled` };
+  }
+  if (result.timedOut) {
+    return { reason: 'timeout', message: `${name} timed out after ${result.durationMs}ms` };
+  }
+  if (result.truncated) {
+    return { reason: 'maxBuffer', message: `${name} produced more output than the allowed buffer` };
+  }
+  if (result.exitCode !== 0) {
+    const status = result.signal ? `was killed by ${result.signal}` : `exited with code ${result.exitCode}`;
+    const detail = result.stderr.trim().split('\n').pop();
+    return { reason: 'exit', message: `${name} ${status}${detail ? `: ${detail}` : ''}` };
+  }
+  return null;
+}
+
+/**
+ * Format a command for logs, quoting arguments that contain spaces
+ */
+export function formatCommand(command: string[]): string {
+  return command.map(arg => (/[\s"']/.test(arg) || arg === '' ? JSON.stringify(arg) : arg)).join(' ');
+}
+
+/**
+ * Result of a run that never started because it was cancelled beforehand
+ */
+function cancelledResult(command: string[]): LaunchResult {
+  return {
+    command,
+    stdout: '',
+    stderr: '',
+    exitCode: null,
+    signal: null,
+    timedOut: false,
+    cancelled: true,
+    truncated: false,
+    durationMs: 0,
+  };
+}
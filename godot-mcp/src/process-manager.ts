@@ -0,0 +1,329 @@
+/**
+ * Process Manager for the Godot MCP Server
+ *
+ * This module tracks running Godot projects as named sessions, so several
+ * instances (for example a multiplayer server and two clients) can run side
+ * by side and be inspected or stopped individually.
+ */
+
+import { spawn, ChildProcess } from 'child_process';
+import { DEFAULT_SESSION_LOG_LINES, LogLine, SessionLog } from './session-log.js';
+
+/**
+ * Interface for the options used to start a session
+ */
+export interface StartSessionOptions {
+  godotPath: string;
+  args: string[];
+  projectPath: string;
+  scene?: string;
+  sessionId?: string; // Defaults to an automatically generated id
+  kind?: 'run' | 'debug';
+  cwd?: string;
+  maxLogLines?: number; // Output lines kept (defaults to the manager's setting)
+}
+
+/**
+ * Interface for a Godot process started by the manager
+ */
+export interface ProcessSession {
+  id: string;
+  kind: 'run' | 'debug';
+  projectPath: string;
+  scene?: string;
+  command: string[]; // Executable followed by its arguments
+  process: ChildProcess;
+  pid?: number;
+  log: SessionLog; // Most recent stdout and stderr lines
+  status: 'running' | 'exited' | 'failed';
+  startedAt: Date;
+  exitedAt?: Date;
+  exitCode: number | null;
+  exitSignal: string | null;
+  spawnError?: string;
+}
+
+/**
+ * Interface for the serializable summary of a session
+ */
+export interface ProcessSessionInfo {
+  id: string;
+  kind: 'run' | 'debug';
+  projectPath: string;
+  scene?: string;
+  pid?: number;
+  status: 'running' | 'exited' | 'failed';
+  commandLine: string;
+  startedAt: string;
+  exitedAt?: string;
+  uptimeMs: number;
+  exitCode: number | null;
+  exitSignal: string | null;
+  spawnError?: string;
+  outputLines: number; // stdout lines received
+  errorLines: number; // stderr lines received
+  droppedLines: number; // Oldest lines dropped to stay within maxLogLines
+  maxLogLines: number;
+}
+
+/**
+ * Interface for the options of a process manager
+ */
+export interface ProcessManagerOptions {
+  maxFinishedSessions?: number;
+  maxLogLines?: number;
+  debugMode?: boolean;
+  onLogLine?: (session: ProcessSession, line: LogLine) => void; // Called with every line of output as it arrives
+  onSessionEnd?: (session: ProcessSession) => void; // Called once a session's process and its output are closed
+}
+
+/**
+ * Error raised when a session cannot be started or found
+ */
+export class ProcessSessionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProcessSessionError';
+  }
+}
+
+/**
+ * Valid session ids: letters, digits, dashes, underscores and dots
+ */
+const SESSION_ID_PATTERN = /^[A-Za-z0-9_.-]{1,64}$/;
+
+/**
+ * Keeps track of every Godot process started by run_project and run_with_debug
+ */
+export class ProcessManager {
+  private sessions: Map<string, ProcessSession> = new Map();
+  private nextSessionNumber: number = 1;
+  private maxFinishedSessions: number;
+  private maxLogLines: number;
+  private debugMode: boolean;
+  private onLogLine?: (session: ProcessSession, line: LogLine) => void;
+  private onSessionEnd?: (session: ProcessSession) => void;
+
+  constructor(options: ProcessManagerOptions = {}) {
+    this.maxFinishedSessions = options.maxFinishedSessions ?? 20;
+    this.maxLogLines = options.maxLogLines ?? DEFAULT_SESSION_LOG_LINES;
+    this.debugMode = options.debugMode ?? false;
+    this.onLogLine = options.onLogLine;
+    this.onSessionEnd = options.onSessionEnd;
+  }
+
+  /**
+   * Log debug messages if debug mode is enabled
+   */
+  private logDebug(message: string): void {
+    if (this.debugMode) {
+      console.debug(`[SESSIONS] ${message}`);
+    }
+  }
+
+  /**
+   * Start a Godot process as a new session
+   * @throws ProcessSessionError if the id is invalid or already used by a running session
+   */
+  start(options: StartSessionOptions): ProcessSession {
+    const id = options.sessionId || this.generateSessionId();
+    if (!SESSION_ID_PATTERN.test(id)) {
+      throw new ProcessSessionError(
+        `Invalid session id: ${id}. Use up to 64 letters, digits, dashes, underscores or dots`
+      );
+    }
+
+    const existing = this.sessions.get(id);
+    if (existing && existing.status === 'running') {
+      throw new ProcessSessionError(`Session ${id} is already running (pid ${existing.pid})`);
+    }
+
+    const command = [options.godotPath, ...options.args];
+    this.logDebug(`Starting session ${id}: ${formatCommandLine(command)}`);
+
+    const child = spawn(options.godotPath, options.args, {
+      cwd: options.cwd,
+      stdio: 'pipe',
+    });
+
+    const session: ProcessSession = {
+      id,
+      kind: options.kind ?? 'run',
+      projectPath: options.projectPath,
+      scene: options.scene,
+      command,
+      process: child,
+      pid: child.pid,
+      log: new SessionLog(options.maxLogLines ?? this.maxLogLines, line => this.onLogLine?.(session, line)),
+      status: 'running',
+      startedAt: new Date(),
+      exitCode: null,
+      exitSignal: null,
+    };
+
+    child.stdout?.on('data', (data: Buffer) => {
+      const text = data.toString();
+      session.log.append('stdout', text);
+      text.split('\n').forEach((line: string) => {
+        if (line.trim()) this.logDebug(`[${id} stdout] ${line}`);
+      });
+    });
+
+    child.stderr?.on('data', (data: Buffer) => {
+      const text = data.toString();
+      session.log.append('stderr', text);
+      text.split('\n').forEach((line: string) => {
+        if (line.trim()) this.logDebug(`[${id} stderr] ${line}`);
+      });
+    });
+
+    // The streams may still hold an unterminated last line
+    child.on('close', () => {
+      session.log.flush();
+      this.onSessionEnd?.(session);
+    });
+
+    child.on('exit', (code: number | null, signal: NodeJS.Signals | null) => {
+      this.logDebug(`Session ${id} exited with code ${code}${signal ? ` (signal ${signal})` : ''}`);
+      if (session.status === 'running') {
+        session.status = 'exited';
+      }
+      session.exitCode = code;
+      session.exitSignal = signal;
+      session.exitedAt = new Date();
+      this.pruneFinishedSessions();
+    });
+
+    child.on('error', (err: Error) => {
+      console.error(`[SESSIONS] Failed to start session ${id}:`, err.message);
+      session.status = 'failed';
+      session.spawnError = err.message;
+      session.exitedAt = session.exitedAt ?? new Date();
+    });
+
+    // A finished session with the same id is replaced by the new run
+    this.sessions.delete(id);
+    this.sessions.set(id, session);
+    return session;
+  }
+
+  /**
+   * Get a session by id
+   */
+  get(id: string): ProcessSession | undefined {
+    return this.sessions.get(id);
+  }
+
+  /**
+   * All sessions, oldest first
+   */
+  list(): ProcessSession[] {
+    return Array.from(this.sessions.values());
+  }
+
+  /**
+   * Sessions whose process is still running
+   */
+  running(): ProcessSession[] {
+    return this.list().filter(session => session.status === 'running');
+  }
+
+  /**
+   * The most recently started session, preferring running ones
+   */
+  latest(): ProcessSession | undefined {
+    const running = this.running();
+    const candidates = running.length > 0 ? running : this.list();
+    return candidates[candidates.length - 1];
+  }
+
+  /**
+   * Stop a running session and wait for its process to exit
+   * @param timeout Milliseconds to wait before sending SIGKILL
+   */
+  async stop(id: string, timeout: number = 5000): Promise<ProcessSession> {
+    const session = this.sessions.get(id);
+    if (!session) {
+      throw new ProcessSessionError(`Unknown session: ${id}`);
+    }
+    if (session.status !== 'running') {
+      return session;
+    }
+
+    this.logDebug(`Stopping session ${id}`);
+    await new Promise<void>(resolve => {
+      const timer = setTimeout(() => {
+        this.logDebug(`Session ${id} did not exit in time, killing it`);
+        session.process.kill('SIGKILL');
+      }, timeout);
+      session.process.once('exit', () => {
+        clearTimeout(timer);
+        resolve();
+      });
+      session.process.kill();
+    });
+
+    return session;
+  }
+
+  /**
+   * Stop every running session
+   */
+  async stopAll(): Promise<void> {
+    await Promise.all(this.running().map(session => this.stop(session.id)));
+  }
+
+  /**
+   * Serializable summary of a session
+   */
+  describe(session: ProcessSession): ProcessSessionInfo {
+    const end = session.exitedAt ? session.exitedAt.getTime() : Date.now();
+    return {
+      id: session.id,
+      kind: session.kind,
+      projectPath: session.projectPath,
+      scene: session.scene,
+      pid: session.pid,
+      status: session.status,
+      commandLine: formatCommandLine(session.command),
+      startedAt: session.startedAt.toISOString(),
+      exitedAt: session.exitedAt?.toISOString(),
+      uptimeMs: end - session.startedAt.getTime(),
+      exitCode: session.exitCode,
+      exitSignal: session.exitSignal,
+      spawnError: session.spawnError,
+      outputLines: session.log.linesOf('stdout'),
+      errorLines: session.log.linesOf('stderr'),
+      droppedLines: session.log.droppedLines,
+      maxLogLines: session.log.maxLines,
+    };
+  }
+
+  /**
+   * Generate an unused session id
+   */
+  private generateSessionId(): string {
+    let id: string;
+    do {
+      id = `session-${this.nextSessionNumber++}`;
+    } while (this.sessions.has(id));
+    return id;
+  }
+
+  /**
+   * Forget the oldest finished sessions beyond the configured limit
+   */
+  private pruneFinishedSessions(): void {
+    const finished = this.list().filter(session => session.status !== 'running');
+    for (const session of finished.slice(0, Math.max(0, finished.length - this.maxFinishedSessions))) {
+      this.sessions.delete(session.id);
+    }
+  }
+}
+
+/**
+ * Format a command for display, quoting arguments that contain spaces
+ */
+export function formatCommandLine(command: string[]): string {
+  return command.map(arg => (/[\s"']/.test(arg) ? JSON.stringify(arg) : arg)).join(' ');
+}
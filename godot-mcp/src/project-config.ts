@@ -0,0 +1,258 @@
+/**
+ * Project Configuration for the Godot MCP Server
+ *
+ * This module reads per-project server settings, so one server can drive
+ * several projects with different engines, timeouts and enabled tools.
+ * Settings come from a .godot-mcp.json file at the project root or, when
+ * that file does not exist, from the [mcp] section of project.godot.
+ */
+
+import { existsSync, readFileSync, statSync } from 'fs';
+import { isAbsolute, join, resolve } from 'path';
+import { JsonSchema, formatIssue, snakeToCamelCase, validateArguments } from './tool-schema.js';
+
+export const PROJECT_CONFIG_FILE = '.godot-mcp.json';
+
+/**
+ * Interface for the settings of one project
+ */
+export interface ProjectConfig {
+  godotPath?: string; // Godot executable used for this project
+  defaultScene?: string; // Scene run when run_project, run_with_debug or capture_screenshot get none
+  timeouts?: {
+    operation?: number; // Milliseconds allowed for a scene or resource operation
+    run?: number; // Milliseconds run_scene lets the scene run before stopping it
+    screenshot?: number; // Milliseconds allowed for capture_screenshot
+  };
+  screenshot?: {
+    width: number;
+    height: number;
+  };
+  tools?: {
+    enabled?: string[]; // Only these tools may be used with the project
+    disabled?: string[]; // These tools may not be used with the project
+  };
+  projectRoots?: string[]; // Extra directories searched by list_projects
+  docsCacheDir?: string; // Directory for the documentation cache
+  source?: string; // File the settings were read from
+}
+
+/**
+ * Error raised when a project configuration cannot be read or is invalid
+ */
+export class ProjectConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProjectConfigError';
+  }
+}
+
+const STRING_LIST: JsonSchema = { type: 'array', items: { type: 'string' } };
+
+/**
+ * Schema of the configuration, checked after [mcp] keys are converted to camelCase
+ */
+export const PROJECT_CONFIG_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    godotPath: { type: 'string' },
+    defaultScene: { type: 'string' },
+    timeouts: {
+      type: 'object',
+      properties: {
+        operation: { type: 'number' },
+        run: { type: 'number' },
+        screenshot: { type: 'number' },
+      },
+    },
+    screenshot: {
+      type: 'object',
+      properties: {
+        width: { type: 'number' },
+        height: { type: 'number' },
+      },
+      required: ['width', 'height'],
+    },
+    tools: {
+      type: 'object',
+      properties: {
+        enabled: STRING_LIST,
+        disabled: STRING_LIST,
+      },
+    },
+    projectRoots: STRING_LIST,
+    docsCacheDir: { type: 'string' },
+  },
+};
+
+/**
+ * Interface for a cached configuration
+ */
+interface CachedConfig {
+  stamp: string;
+  config: ProjectConfig;
+}
+
+/**
+ * Loads project configurations and reloads them when their file changes
+ */
+export class ProjectConfigStore {
+  private cache: Map<string, CachedConfig> = new Map();
+
+  /**
+   * Get the configuration of a project
+   * @returns The configuration, or an empty one if the project has none
+   * @throws ProjectConfigError if the configuration cannot be parsed or is invalid
+   */
+  get(projectPath: string): ProjectConfig {
+    const root = resolve(projectPath);
+    const jsonPath = join(root, PROJECT_CONFIG_FILE);
+    const godotPath = join(root, 'project.godot');
+    const stamp = `${modifiedTime(jsonPath)}:${modifiedTime(godotPath)}`;
+
+    const cached = this.cache.get(root);
+    if (cached && cached.stamp === stamp) {
+      return cached.config;
+    }
+
+    let config: ProjectConfig = {};
+    if (existsSync(jsonPath)) {
+      config = this.load(root, jsonPath, readJsonConfig(jsonPath));
+    } else if (existsSync(godotPath)) {
+      const section = readMcpSection(readFileSync(godotPath, 'utf8'));
+      if (section) {
+        config = this.load(root, godotPath, section);
+      }
+    }
+
+    this.cache.set(root, { stamp, config });
+    return config;
+  }
+
+  /**
+   * Validate raw settings and resolve their paths against the project root
+   */
+  private load(root: string, source: string, raw: Record<string, unknown>): ProjectConfig {
+    const issues = validateArguments(PROJECT_CONFIG_SCHEMA, raw);
+    if (issues.length > 0) {
+      throw new ProjectConfigError(`Invalid project configuration in ${source}: ${issues.map(formatIssue).join('; ')}`);
+    }
+
+    const config = { ...raw, source } as ProjectConfig;
+    if (config.godotPath && (config.godotPath.startsWith('.') || config.godotPath.includes('/') || config.godotPath.includes('\\'))) {
+      config.godotPath = resolveFrom(root, config.godotPath);
+    }
+    if (config.docsCacheDir) {
+      config.docsCacheDir = resolveFrom(root, config.docsCacheDir);
+    }
+    if (config.projectRoots) {
+      config.projectRoots = config.projectRoots.map(dir => resolveFrom(root, dir));
+    }
+    return config;
+  }
+}
+
+/**
+ * Check whether a project configuration allows a tool
+ */
+export function isToolEnabled(config: ProjectConfig, toolName: string): boolean {
+  if (config.tools?.enabled && !config.tools.enabled.includes(toolName)) {
+    return false;
+  }
+  return !config.tools?.disabled?.includes(toolName);
+}
+
+/**
+ * Read a .godot-mcp.json file
+ */
+function readJsonConfig(path: string): Record<string, unknown> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new ProjectConfigError(`Cannot parse ${path}: ${message}`);
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new ProjectConfigError(`${path} must contain a JSON object`);
+  }
+  return parsed as Record<string, unknown>;
+}
+
+/**
+ * Read the [mcp] section of project.godot as a nested object.
+ * Keys such as timeouts/operation become nested camelCase properties.
+ * @returns The settings, or null if the file has no [mcp] section
+ */
+export function readMcpSection(content: string): Record<string, unknown> | null {
+  const result: Record<string, unknown> = {};
+  let inSection = false;
+  let found = false;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith(';')) {
+      continue;
+    }
+
+    const header = line.match(/^\[([^\]]+)\]$/);
+    if (header) {
+      inSection = header[1] === 'mcp';
+      found = found || inSection;
+      continue;
+    }
+
+    if (!inSection) {
+      continue;
+    }
+
+    const equals = line.indexOf('=');
+    if (equals < 0) {
+      continue;
+    }
+
+    const keys = line.slice(0, equals).trim().split('/').map(snakeToCamelCase);
+    const value = parseGodotValue(line.slice(equals + 1).trim());
+    let target = result;
+    for (const key of keys.slice(0, -1)) {
+      if (!target[key] || typeof target[key] !== 'object') {
+        target[key] = {};
+      }
+      target = target[key] as Record<string, unknown>;
+    }
+    target[keys[keys.length - 1]] = value;
+  }
+
+  return found ? result : null;
+}
+
+/**
+ * Parse a single-line project.godot value: strings, numbers, booleans,
+ * arrays, PackedStringArray and dictionaries with JSON-compatible content
+ */
+function parseGodotValue(text: string): unknown {
+  const json = text.replace(/^Packed\w+Array\((.*)\)$/, '[$1]');
+  try {
+    return JSON.parse(json);
+  } catch {
+    throw new ProjectConfigError(`Unsupported value in [mcp] section of project.godot: ${text}`);
+  }
+}
+
+/**
+ * Resolve a path relative to the project root
+ */
+function resolveFrom(root: string, path: string): string {
+  return isAbsolute(path) ? path : resolve(root, path);
+}
+
+/**
+ * Modification time of a file, or 0 if it does not exist
+ */
+function modifiedTime(path: string): number {
+  try {
+    return statSync(path).mtimeMs;
+  } catch {
+    return 0;
+  }
+}
@@ -0,0 +1,369 @@
+/**
+ * Project Prompts for the Godot MCP Server
+ *
+ * This module provides parameterized prompt templates for common Godot
+ * workflows. Each prompt is filled in with live context read from the
+ * project's project.godot file (name, main scene, autoloads, input actions).
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+
+/**
+ * Interface for a prompt argument
+ */
+export interface PromptArgument {
+  name: string;
+  description: string;
+  required?: boolean;
+}
+
+/**
+ * Interface for a prompt definition returned by prompts/list
+ */
+export interface PromptDefinition {
+  name: string;
+  description: string;
+  arguments: PromptArgument[];
+}
+
+/**
+ * Interface for a rendered prompt returned by prompts/get
+ */
+export interface RenderedPrompt {
+  description: string;
+  messages: Array<{
+    role: 'user';
+    content: { type: 'text'; text: string };
+  }>;
+}
+
+/**
+ * Interface for an autoload declared in project.godot
+ */
+export interface AutoloadInfo {
+  name: string;
+  path: string;
+  singleton: boolean;
+  exists: boolean;
+}
+
+/**
+ * Interface for the project context used to fill in prompts
+ */
+export interface ProjectContext {
+  projectPath: string;
+  name: string;
+  mainScene: string | null;
+  mainSceneExists: boolean;
+  features: string[];
+  autoloads: AutoloadInfo[];
+  inputActions: string[];
+}
+
+/**
+ * Error raised when a prompt is unknown or its arguments are invalid
+ */
+export class ProjectPromptError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProjectPromptError';
+  }
+}
+
+/**
+ * Prompts offered by the server
+ */
+export const PROMPT_DEFINITIONS: PromptDefinition[] = [
+  {
+    name: 'debug_crash',
+    description: 'Debug this crash: run a scene, collect its errors and explain them with get_error_context',
+    arguments: [
+      { name: 'projectPath', description: 'Path to the Godot project directory', required: true },
+      { name: 'scenePath', description: 'Scene to run (defaults to the main scene)' },
+      { name: 'errorMessage', description: 'Error message already seen, if any' },
+    ],
+  },
+  {
+    name: 'add_player_character',
+    description: 'Add a player character: physics body, movement script and input actions',
+    arguments: [
+      { name: 'projectPath', description: 'Path to the Godot project directory', required: true },
+      { name: 'scenePath', description: 'Scene to add the player to (defaults to the main scene)' },
+      { name: 'dimension', description: '"2d" (default) or "3d"' },
+      { name: 'characterName', description: 'Name of the player node (default: Player)' },
+    ],
+  },
+  {
+    name: 'audit_project_health',
+    description: 'Audit project health: missing assets, broken autoloads, script errors and UID problems',
+    arguments: [
+      { name: 'projectPath', description: 'Path to the Godot project directory', required: true },
+    ],
+  },
+];
+
+/**
+ * Strip quotes from a project.godot string value
+ */
+function unquote(value: string): string {
+  const trimmed = value.trim();
+  if (trimmed.startsWith('"') && trimmed.endsWith('"')) {
+    try {
+      return JSON.parse(trimmed);
+    } catch {
+      return trimmed.slice(1, -1);
+    }
+  }
+  return trimmed;
+}
+
+/**
+ * Convert a res:// path to a path on disk
+ */
+function resPathOnDisk(projectPath: string, resPath: string): string {
+  return join(projectPath, resPath.replace(/^res:\/\//, ''));
+}
+
+/**
+ * Read the context used by prompts from a project's project.godot
+ * @throws ProjectPromptError if the project has no project.godot
+ */
+export function readProjectContext(projectPath: string): ProjectContext {
+  const projectFile = join(projectPath, 'project.godot');
+  if (!existsSync(projectFile)) {
+    throw new ProjectPromptError(`Not a valid Godot project: ${projectPath}`);
+  }
+
+  const context: ProjectContext = {
+    projectPath,
+    name: projectPath,
+    mainScene: null,
+    mainSceneExists: false,
+    features: [],
+    autoloads: [],
+    inputActions: [],
+  };
+
+  let section = '';
+  let depth = 0;
+  for (const line of readFileSync(projectFile, 'utf8').split(/\r?\n/)) {
+    // Skip the continuation lines of multi-line values such as input events
+    if (depth > 0) {
+      depth += bracketDepth(line);
+      continue;
+    }
+
+    const sectionMatch = line.match(/^\[([^\]]+)\]\s*$/);
+    if (sectionMatch) {
+      section = sectionMatch[1];
+      continue;
+    }
+
+    const entry = line.match(/^([A-Za-z0-9_/.-]+)\s*=\s*(.*)$/);
+    if (!entry) {
+      continue;
+    }
+    const [, key, value] = entry;
+    depth = bracketDepth(value);
+
+    if (section === 'application' && key === 'config/name') {
+      context.name = unquote(value);
+    } else if (section === 'application' && key === 'run/main_scene') {
+      context.mainScene = unquote(value);
+    } else if (section === 'application' && key === 'config/features') {
+      context.features = Array.from(value.matchAll(/"([^"]*)"/g), match => match[1]);
+    } else if (section === 'autoload') {
+      const target = unquote(value);
+      const singleton = target.startsWith('*');
+      const path = singleton ? target.slice(1) : target;
+      context.autoloads.push({
+        name: key,
+        path,
+        singleton,
+        exists: existsSync(resPathOnDisk(projectPath, path)),
+      });
+    } else if (section === 'input') {
+      context.inputActions.push(key);
+    }
+  }
+
+  if (context.mainScene) {
+    context.mainSceneExists = existsSync(resPathOnDisk(projectPath, context.mainScene));
+  }
+  return context;
+}
+
+/**
+ * Net number of opening brackets in a line, ignoring brackets inside strings
+ */
+function bracketDepth(text: string): number {
+  const stripped = text.replace(/"(?:[^"\\]|\\.)*"/g, '');
+  const opening = (stripped.match(/[{[(]/g) || []).length;
+  const closing = (stripped.match(/[}\])]/g) || []).length;
+  return opening - closing;
+}
+
+/**
+ * Format the project context as a Markdown section
+ */
+function formatContext(context: ProjectContext): string {
+  let text = '## Project Context\n\n';
+  text += `- Project: ${context.name} (${context.projectPath})\n`;
+  if (context.mainScene) {
+    text += `- Main scene: ${context.mainScene}${context.mainSceneExists ? '' : ' (MISSING)'}\n`;
+  } else {
+    text += '- Main scene: not set\n';
+  }
+  if (context.features.length > 0) {
+    text += `- Features: ${context.features.join(', ')}\n`;
+  }
+
+  if (context.autoloads.length > 0) {
+    text += '- Autoloads:\n';
+    for (const autoload of context.autoloads) {
+      text += `  - ${autoload.name}: ${autoload.path}${autoload.singleton ? ' (singleton)' : ''}${autoload.exists ? '' : ' (MISSING)'}\n`;
+    }
+  } else {
+    text += '- Autoloads: none\n';
+  }
+
+  text += `- Input actions: ${context.inputActions.length > 0 ? context.inputActions.join(', ') : 'none (only built-in ui_* actions)'}\n`;
+  return text;
+}
+
+/**
+ * Scene path relative to the project, as expected by the tools
+ */
+function toolScenePath(scenePath: string): string {
+  return scenePath.replace(/^res:\/\//, '');
+}
+
+/**
+ * Render a prompt with live project context
+ * @throws ProjectPromptError if the prompt is unknown or a required argument is missing
+ */
+export function renderPrompt(name: string, args: Record<string, string>, context: ProjectContext): RenderedPrompt {
+  const definition = PROMPT_DEFINITIONS.find(prompt => prompt.name === name);
+  if (!definition) {
+    throw new ProjectPromptError(`Unknown prompt: ${name}`);
+  }
+  for (const argument of definition.arguments) {
+    if (argument.required && !args[argument.name]) {
+      throw new ProjectPromptError(`Missing required argument: ${argument.name}`);
+    }
+  }
+
+  let text: string;
+  switch (name) {
+    case 'debug_crash':
+      text = renderDebugCrash(args, context);
+      break;
+    case 'add_player_character':
+      text = renderAddPlayerCharacter(args, context);
+      break;
+    default:
+      text = renderAuditProjectHealth(context);
+      break;
+  }
+
+  return {
+    description: definition.description,
+    messages: [
+      {
+        role: 'user',
+        content: { type: 'text', text: `${text}\n${formatContext(context)}` },
+      },
+    ],
+  };
+}
+
+/**
+ * Render the debug_crash prompt
+ */
+function renderDebugCrash(args: Record<string, string>, context: ProjectContext): string {
+  const scenePath = args.scenePath || (context.mainScene ? toolScenePath(context.mainScene) : '');
+  let text = '# Debug This Crash\n\n';
+  if (args.errorMessage) {
+    text += `The project crashes with this error:\n\n\`\`\`\n${args.errorMessage}\n\`\`\`\n\n`;
+  } else {
+    text += 'The project crashes. Find out why and fix it.\n\n';
+  }
+
+  text += '## Steps\n\n';
+  if (scenePath) {
+    text += `1. Call \`run_scene\` with projectPath "${context.projectPath}" and scenePath "${scenePath}" to reproduce the crash and capture its output.\n`;
+  } else {
+    text += `1. No main scene is set. Ask which scene crashes, then call \`run_scene\` with projectPath "${context.projectPath}" and that scenePath.\n`;
+  }
+  text += '2. For every error in the output, call `get_error_context` with the error message, script and line.\n';
+  text += '3. Read the scripts involved (`godot://project/...` resources) and explain the root cause.\n';
+  text += '4. Propose a minimal fix, then check it with `validate_script` and run the scene again to confirm the crash is gone.\n';
+  if (context.autoloads.some(autoload => !autoload.exists)) {
+    text += '\nNote: some autoloads point to missing files (see below). Check them first, they fail on every scene.\n';
+  }
+  return text;
+}
+
+/**
+ * Render the add_player_character prompt
+ */
+function renderAddPlayerCharacter(args: Record<string, string>, context: ProjectContext): string {
+  const is3D = (args.dimension || '2d').toLowerCase() === '3d';
+  const characterName = args.characterName || 'Player';
+  const scenePath = args.scenePath || (context.mainScene ? toolScenePath(context.mainScene) : '');
+  const bodyType = is3D ? 'CharacterBody3D' : 'CharacterBody2D';
+  const shapeType = is3D ? 'CapsuleShape3D' : 'CapsuleShape2D';
+  const scriptPath = `scripts/${characterName.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase()}.gd`;
+  const wantedActions = is3D
+    ? ['move_left', 'move_right', 'move_forward', 'move_back', 'jump']
+    : ['move_left', 'move_right', 'move_up', 'move_down', 'jump'];
+  const missingActions = wantedActions.filter(action => !context.inputActions.includes(action));
+
+  let text = `# Add a ${is3D ? '3D' : '2D'} Player Character\n\n`;
+  text += '## Steps\n\n';
+  if (scenePath) {
+    text += `1. Call \`add_physics_body\` with projectPath "${context.projectPath}", scenePath "${scenePath}", bodyType "${bodyType}", nodeName "${characterName}" and a ${shapeType} collision shape.\n`;
+  } else {
+    text += `1. No main scene is set. Create one with \`create_scene\`, then call \`add_physics_body\` with bodyType "${bodyType}", nodeName "${characterName}" and a ${shapeType} collision shape.\n`;
+  }
+  text += `2. Call \`create_script\` with scriptPath "${scriptPath}" and baseClass "${bodyType}". Implement movement in \`_physics_process\` with \`Input.get_vector\`, gravity and jumping, using \`move_and_slide()\`.\n`;
+  text += `3. Call \`attach_script\` to attach "${scriptPath}" to "root/${characterName}".\n`;
+  if (missingActions.length > 0) {
+    text += `4. Call \`configure_input_map\` to add the missing actions: ${missingActions.join(', ')} (keyboard and gamepad events).\n`;
+  } else {
+    text += `4. The input actions ${wantedActions.join(', ')} already exist; reuse them in the script.\n`;
+  }
+  text += `5. Call \`validate_script\` on "${scriptPath}" and fix any errors.\n`;
+  return text;
+}
+
+/**
+ * Render the audit_project_health prompt
+ */
+function renderAuditProjectHealth(context: ProjectContext): string {
+  let text = '# Audit Project Health\n\n';
+  text += 'Review the project and report problems ordered by severity, with a suggested fix for each.\n\n';
+
+  const findings: string[] = [];
+  if (!context.mainScene) {
+    findings.push('No main scene is set (application/run/main_scene)');
+  } else if (!context.mainSceneExists) {
+    findings.push(`The main scene ${context.mainScene} does not exist`);
+  }
+  for (const autoload of context.autoloads.filter(item => !item.exists)) {
+    findings.push(`Autoload ${autoload.name} points to missing file ${autoload.path}`);
+  }
+  if (findings.length > 0) {
+    text += '## Already Found\n\n';
+    text += findings.map(finding => `- ${finding}`).join('\n') + '\n\n';
+  }
+
+  text += '## Steps\n\n';
+  text += `1. Call \`get_project_info\` with projectPath "${context.projectPath}" for an overview of the project structure.\n`;
+  text += '2. Call `list_missing_assets` to find broken resource references.\n';
+  text += '3. Call `validate_script` for the autoload scripts and the scripts used by the main scene.\n';
+  text += '4. Call `get_uid` on key resources and suggest `update_project_uids` if references are outdated.\n';
+  text += '5. Summarize the findings in a table: severity, location, problem, fix.\n';
+  return text;
+}
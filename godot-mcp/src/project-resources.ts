@@ -0,0 +1,403 @@
+/**
+ * Project Resources for the Godot MCP Server
+ *
+ * This module exposes the files of the active Godot project as MCP resources
+ * (godot://project/<path>) and the parsed node tree of each scene through the
+ * godot://scene-tree/<path> resource template. A file watcher reports changes
+ * so clients can refresh the resources they are subscribed to.
+ */
+
+import { existsSync, readdirSync, readFileSync, statSync, watch, FSWatcher } from 'fs';
+import { extname, join, relative, sep } from 'path';
+import { Variant } from './godot-variant.js';
+import { PathSandbox, PathSandboxError } from './path-sandbox.js';
+import { TextResource, TextResourceError, extResources, sceneNodes } from './text-resource.js';
+
+export const PROJECT_URI_PREFIX = 'godot://project/';
+export const SCENE_TREE_URI_PREFIX = 'godot://scene-tree/';
+
+/**
+ * Interface for a resource entry returned by resources/list
+ */
+export interface ProjectResource {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType: string;
+}
+
+/**
+ * Interface for the content returned by resources/read
+ */
+export interface ProjectResourceContent {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+/**
+ * Interface for a node of a parsed scene tree
+ */
+export interface SceneTreeNode {
+  name: string;
+  type?: string;
+  path: string;
+  instance?: string;
+  script?: string;
+  groups?: string[];
+  children: SceneTreeNode[];
+}
+
+/**
+ * Interface for a batch of file changes reported by the watcher
+ */
+export interface ProjectResourceChange {
+  updatedUris: string[];
+  listChanged: boolean;
+}
+
+/**
+ * Error raised when a resource URI cannot be resolved or read
+ */
+export class ProjectResourceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProjectResourceError';
+  }
+}
+
+/**
+ * MIME types of the files exposed as resources, by extension
+ */
+const RESOURCE_MIME_TYPES: Record<string, string> = {
+  '.godot': 'text/plain',
+  '.tscn': 'application/x-godot-scene',
+  '.tres': 'application/x-godot-resource',
+  '.gd': 'text/x-gdscript',
+  '.gdshader': 'text/x-gdshader',
+};
+
+/**
+ * Directories never exposed or watched
+ */
+const IGNORED_DIRECTORIES = new Set(['.godot', '.import', '.git', 'node_modules']);
+
+/**
+ * Resources returned per resources/list page
+ */
+const PAGE_SIZE = 200;
+
+/**
+ * Exposes the files of one Godot project as MCP resources
+ */
+export class ProjectResources {
+  private projectPath: string | null = null;
+  private watcher: FSWatcher | null = null;
+  private pendingChanges: Map<string, boolean> = new Map();
+  private flushTimer: NodeJS.Timeout | null = null;
+  private onChange: (change: ProjectResourceChange) => void;
+  private sandbox: PathSandbox;
+  private debugMode: boolean;
+
+  /**
+   * @param sandbox Checks projects against the allowed roots and keeps resources inside their project
+   */
+  constructor(onChange: (change: ProjectResourceChange) => void, sandbox: PathSandbox = new PathSandbox(), debugMode: boolean = false) {
+    this.onChange = onChange;
+    this.sandbox = sandbox;
+    this.debugMode = debugMode;
+  }
+
+  /**
+   * Log debug messages if debug mode is enabled
+   */
+  private logDebug(message: string): void {
+    if (this.debugMode) {
+      console.debug(`[RESOURCES] ${message}`);
+    }
+  }
+
+  /**
+   * Directory of the project currently exposed, if any
+   */
+  get activeProject(): string | null {
+    return this.projectPath;
+  }
+
+  /**
+   * Expose a project, replacing the previous one
+   * @returns True if the active project changed
+   * @throws PathSandboxError if the project is outside the allowed roots
+   */
+  setProject(projectPath: string): boolean {
+    const root = this.sandbox.resolveDirectory(projectPath);
+    if (root === this.projectPath || !existsSync(join(root, 'project.godot'))) {
+      return false;
+    }
+
+    this.logDebug(`Exposing project: ${root}`);
+    this.close();
+    this.projectPath = root;
+    this.startWatching(root);
+    return true;
+  }
+
+  /**
+   * Stop watching the project
+   */
+  close(): void {
+    if (this.watcher) {
+      this.watcher.close();
+      this.watcher = null;
+    }
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    this.pendingChanges.clear();
+  }
+
+  /**
+   * List the project files exposed as resources
+   * @param cursor Opaque cursor returned by a previous call
+   */
+  list(cursor?: string): { resources: ProjectResource[]; nextCursor?: string } {
+    if (!this.projectPath) {
+      return { resources: [] };
+    }
+
+    const files = this.collectFiles(this.projectPath);
+    const offset = cursor ? parseInt(cursor, 10) || 0 : 0;
+    const page = files.slice(offset, offset + PAGE_SIZE);
+    const resources = page.map(file => ({
+      uri: this.toUri(PROJECT_URI_PREFIX, file),
+      name: file,
+      description: file === 'project.godot' ? 'Project settings' : undefined,
+      mimeType: RESOURCE_MIME_TYPES[this.extensionOf(file)],
+    }));
+
+    const next = offset + PAGE_SIZE;
+    return next < files.length ? { resources, nextCursor: String(next) } : { resources };
+  }
+
+  /**
+   * Resource templates offered by the server
+   */
+  listTemplates() {
+    return [
+      {
+        uriTemplate: `${SCENE_TREE_URI_PREFIX}{scenePath}`,
+        name: 'Scene tree',
+        description: 'Parsed node tree of a .tscn scene in the active project (e.g. godot://scene-tree/scenes/main.tscn)',
+        mimeType: 'application/json',
+      },
+    ];
+  }
+
+  /**
+   * Read a godot://project/ or godot://scene-tree/ resource
+   * @throws ProjectResourceError if the URI is unknown or outside the project
+   */
+  read(uri: string): ProjectResourceContent {
+    if (uri.startsWith(SCENE_TREE_URI_PREFIX)) {
+      const file = this.resolveUri(uri, SCENE_TREE_URI_PREFIX);
+      if (this.extensionOf(file) !== '.tscn') {
+        throw new ProjectResourceError(`Scene tree is only available for .tscn files: ${uri}`);
+      }
+      let tree: SceneTreeNode | null;
+      try {
+        tree = parseSceneTree(readFileSync(file, 'utf8'));
+      } catch (error: unknown) {
+        if (error instanceof TextResourceError) {
+          throw new ProjectResourceError(`Failed to parse scene ${uri}: ${error.message}`);
+        }
+        throw error;
+      }
+      return { uri, mimeType: 'application/json', text: JSON.stringify(tree, null, 2) };
+    }
+
+    if (uri.startsWith(PROJECT_URI_PREFIX)) {
+      const file = this.resolveUri(uri, PROJECT_URI_PREFIX);
+      const mimeType = RESOURCE_MIME_TYPES[this.extensionOf(file)];
+      if (!mimeType) {
+        throw new ProjectResourceError(`Unsupported resource type: ${uri}`);
+      }
+      return { uri, mimeType, text: readFileSync(file, 'utf8') };
+    }
+
+    throw new ProjectResourceError(`Unknown resource URI: ${uri}`);
+  }
+
+  /**
+   * Resolve a resource URI to a file inside the active project
+   */
+  private resolveUri(uri: string, prefix: string): string {
+    if (!this.projectPath) {
+      throw new ProjectResourceError('No active project. Call a tool with a projectPath or set GODOT_PROJECT_PATH');
+    }
+
+    let relativePath: string;
+    try {
+      relativePath = uri.slice(prefix.length).split('/').map(decodeURIComponent).join('/');
+    } catch {
+      throw new ProjectResourceError(`Malformed resource URI: ${uri}`);
+    }
+
+    // Symlinks are followed, so a link inside the project cannot expose files elsewhere
+    let file: string;
+    try {
+      if (relativePath.startsWith('user://') || relativePath.split('/').includes('..')) {
+        throw new PathSandboxError(`${relativePath} is outside the project`);
+      }
+      file = this.sandbox.resolveInProject(this.projectPath, relativePath);
+    } catch (error: unknown) {
+      if (error instanceof PathSandboxError) {
+        throw new ProjectResourceError(`Resource is outside the project: ${uri}`);
+      }
+      throw error;
+    }
+    if (relative(this.projectPath, file).split(sep).some(part => IGNORED_DIRECTORIES.has(part))) {
+      throw new ProjectResourceError(`Resource is not exposed: ${uri}`);
+    }
+    if (!existsSync(file) || !statSync(file).isFile()) {
+      throw new ProjectResourceError(`Resource not found: ${uri}`);
+    }
+    return file;
+  }
+
+  /**
+   * Build a URI for a project-relative path
+   */
+  private toUri(prefix: string, relativePath: string): string {
+    return prefix + relativePath.split('/').map(encodeURIComponent).join('/');
+  }
+
+  /**
+   * Extension used to look up MIME types ("project.godot" maps to ".godot")
+   */
+  private extensionOf(file: string): string {
+    return extname(file).toLowerCase();
+  }
+
+  /**
+   * Collect exposed files as sorted project-relative paths
+   */
+  private collectFiles(root: string): string[] {
+    const files: string[] = [];
+    const walk = (dir: string) => {
+      let entries;
+      try {
+        entries = readdirSync(dir, { withFileTypes: true });
+      } catch {
+        return;
+      }
+      for (const entry of entries) {
+        if (entry.isDirectory()) {
+          if (!IGNORED_DIRECTORIES.has(entry.name)) {
+            walk(join(dir, entry.name));
+          }
+        } else if (entry.isFile() && RESOURCE_MIME_TYPES[this.extensionOf(entry.name)]) {
+          const relativePath = relative(root, join(dir, entry.name)).split(sep).join('/');
+          // project.godot is the only .godot file worth exposing
+          if (this.extensionOf(entry.name) !== '.godot' || relativePath === 'project.godot') {
+            files.push(relativePath);
+          }
+        }
+      }
+    };
+    walk(root);
+    return files.sort();
+  }
+
+  /**
+   * Watch the project directory and batch change events
+   */
+  private startWatching(root: string): void {
+    try {
+      this.watcher = watch(root, { recursive: true }, (eventType, filename) => {
+        if (!filename) {
+          return;
+        }
+        const relativePath = filename.toString().split(sep).join('/');
+        if (relativePath.split('/').some(part => IGNORED_DIRECTORIES.has(part))) {
+          return;
+        }
+        if (!RESOURCE_MIME_TYPES[this.extensionOf(relativePath)]) {
+          return;
+        }
+        // Renames cover files being created or deleted, which changes the resource list
+        const renamed = eventType === 'rename' || this.pendingChanges.get(relativePath) === true;
+        this.pendingChanges.set(relativePath, renamed);
+        if (!this.flushTimer) {
+          this.flushTimer = setTimeout(() => this.flushChanges(), 200);
+        }
+      });
+      this.watcher.on('error', error => {
+        console.warn(`[RESOURCES] File watcher stopped: ${error.message}`);
+        this.watcher?.close();
+        this.watcher = null;
+      });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.warn(`[RESOURCES] Cannot watch ${root} for changes: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Report the changes collected since the last flush
+   */
+  private flushChanges(): void {
+    this.flushTimer = null;
+    const changes = Array.from(this.pendingChanges.entries());
+    this.pendingChanges.clear();
+
+    const updatedUris: string[] = [];
+    let listChanged = false;
+    for (const [relativePath, renamed] of changes) {
+      listChanged = listChanged || renamed;
+      updatedUris.push(this.toUri(PROJECT_URI_PREFIX, relativePath));
+      if (this.extensionOf(relativePath) === '.tscn') {
+        updatedUris.push(this.toUri(SCENE_TREE_URI_PREFIX, relativePath));
+      }
+    }
+
+    this.logDebug(`Changed resources: ${updatedUris.join(', ')}`);
+    this.onChange({ updatedUris, listChanged });
+  }
+}
+
+/**
+ * Parse the node hierarchy of a .tscn file without loading it in Godot
+ * @param content Text content of the scene
+ * @returns Root node of the scene, or null if the scene has no nodes
+ * @throws TextResourceError if the content is not a text scene
+ */
+export function parseSceneTree(content: string): SceneTreeNode | null {
+  const document = TextResource.parse(content);
+  const resources = extResources(document);
+  const resourcePath = (value: Variant | undefined): string | undefined =>
+    value && typeof value === 'object' && !Array.isArray(value) && value.kind === 'ExtResource' ? resources.get(value.id)?.path : undefined;
+
+  const nodesByPath: Map<string, SceneTreeNode> = new Map();
+  let root: SceneTreeNode | null = null;
+  for (const sceneNode of sceneNodes(document)) {
+    const node: SceneTreeNode = {
+      name: sceneNode.name,
+      type: sceneNode.type,
+      path: sceneNode.path,
+      instance: sceneNode.instance ? resourcePath(sceneNode.instance) : undefined,
+      script: resourcePath(sceneNode.section.get('script')),
+      groups: sceneNode.groups.length > 0 ? sceneNode.groups : undefined,
+      children: [],
+    };
+
+    if (sceneNode.parent === null) {
+      root = root ?? node;
+    } else {
+      nodesByPath.get(sceneNode.parent)?.children.push(node);
+    }
+    nodesByPath.set(sceneNode.path, node);
+  }
+
+  return root;
+}
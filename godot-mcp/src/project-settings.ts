@@ -0,0 +1,154 @@
+/**
+ * Project Settings for the Godot MCP Server
+ *
+ * This module reads project.godot: the settings stored in each section with
+ * their values as Godot Variants, and the feature tag overrides such as
+ * display/window/size/mode.mobile, which apply a different value when the
+ * game runs with that feature. Only settings that differ from the engine
+ * default are stored, so defaults come from the engine.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { Variant, VariantReader, VariantSyntaxError, variantToJson } from './godot-variant.js';
+import { globToRegExp } from './tool-policy.js';
+
+/**
+ * Error raised for a project.godot that cannot be read
+ */
+export class ProjectSettingsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProjectSettingsError';
+  }
+}
+
+/**
+ * Interface for a value a setting takes with a feature tag, e.g. window/size/mode.mobile
+ */
+export interface FeatureOverride {
+  feature: string; // Tag after the dot, e.g. "mobile" or "windows"
+  value: Variant;
+}
+
+/**
+ * Interface for a setting of project.godot
+ */
+export interface ProjectSetting {
+  name: string; // Full name, e.g. display/window/size/viewport_width
+  section: string; // e.g. display; empty for config_version, which is outside any section
+  key: string; // Name within the section, e.g. window/size/viewport_width
+  value?: Variant; // Omitted when only feature overrides are stored
+  overrides: FeatureOverride[];
+}
+
+// Keys are written without quotes unless they contain spaces or "="
+const KEY_PATTERN = /[^\s=]+/y;
+const SECTION_PATTERN = /\[([^\]\n]+)\]/y;
+
+/**
+ * Parse the text of project.godot, in file order. A key with a dot, such as
+ * run/main_scene.mobile, is an override of run/main_scene for the mobile feature.
+ * @throws ProjectSettingsError if the text is not in the project.godot format
+ */
+export function parseProjectSettings(text: string): ProjectSetting[] {
+  const reader = new VariantReader(text);
+  const settings: Map<string, ProjectSetting> = new Map();
+  let section = '';
+
+  try {
+    while (true) {
+      reader.skipSpace();
+      if (reader.pos >= text.length) {
+        break;
+      }
+
+      if (text[reader.pos] === '[') {
+        SECTION_PATTERN.lastIndex = reader.pos;
+        const header = SECTION_PATTERN.exec(text);
+        if (!header) {
+          throw new VariantSyntaxError('Expected a section header such as [application]', reader.pos);
+        }
+        section = header[1].trim();
+        reader.pos += header[0].length;
+        continue;
+      }
+
+      let entry: string;
+      if (text[reader.pos] === '"') {
+        entry = reader.readString();
+      } else {
+        KEY_PATTERN.lastIndex = reader.pos;
+        entry = KEY_PATTERN.exec(text)![0];
+        reader.pos += entry.length;
+      }
+      reader.expect('=');
+      const value = reader.readValue();
+
+      const dot = entry.indexOf('.');
+      const key = dot >= 0 ? entry.slice(0, dot) : entry;
+      const name = section ? `${section}/${key}` : key;
+      let setting = settings.get(name);
+      if (!setting) {
+        setting = { name, section, key, overrides: [] };
+        settings.set(name, setting);
+      }
+      if (dot >= 0) {
+        setting.overrides.push({ feature: entry.slice(dot + 1), value });
+      } else {
+        setting.value = value;
+      }
+    }
+  } catch (error: unknown) {
+    if (error instanceof VariantSyntaxError) {
+      throw new ProjectSettingsError(`Line ${text.slice(0, error.position).split('\n').length}: ${error.message}`);
+    }
+    throw error;
+  }
+
+  return [...settings.values()];
+}
+
+/**
+ * Read the settings of a project
+ * @throws ProjectSettingsError if the project has no project.godot or it cannot be parsed
+ */
+export function readProjectSettings(projectPath: string): ProjectSetting[] {
+  const projectFile = join(projectPath, 'project.godot');
+  if (!existsSync(projectFile)) {
+    throw new ProjectSettingsError(`Not a valid Godot project: ${projectPath}`);
+  }
+  return parseProjectSettings(readFileSync(projectFile, 'utf8'));
+}
+
+/**
+ * Settings whose section and key match globs, e.g. section "display" and key "window/**".
+ * "*" matches within one part of a key and "**" across parts, as in path globs.
+ */
+export function filterSettings(settings: ProjectSetting[], section?: string, key?: string): ProjectSetting[] {
+  const sectionPattern = section ? globToRegExp(section) : null;
+  const keyPattern = key ? globToRegExp(key) : null;
+  return settings.filter(setting =>
+    (!sectionPattern || sectionPattern.test(setting.section)) && (!keyPattern || keyPattern.test(setting.key)));
+}
+
+/**
+ * Value of a setting as plain JSON, or undefined if it is not stored
+ */
+export function settingValue(settings: ProjectSetting[], name: string): unknown {
+  const setting = settings.find(candidate => candidate.name === name);
+  return setting?.value === undefined ? undefined : variantToJson(setting.value);
+}
+
+/**
+ * Names of the settings overridden for each feature tag, e.g. { mobile: ["display/window/size/mode"] }
+ */
+export function featureOverrides(settings: ProjectSetting[]): Record<string, string[]> {
+  const features: Record<string, string[]> = {};
+  for (const setting of settings) {
+    for (const override of setting.overrides) {
+      (features[override.feature] ??= []).push(setting.name);
+    }
+  }
+  return features;
+}
@@ -0,0 +1,385 @@
+/**
+ * Scene Diffs for the Godot MCP Server
+ *
+ * This module compares two versions of a text scene at the node-tree level:
+ * nodes added, removed or moved to another parent, properties changed,
+ * signal connections changed and external resources swapped. Resource ids are
+ * resolved to the files and sub-resources they stand for, so renumbered ids
+ * do not show up as changes.
+ */
+
+import { Variant, VariantResource, formatVariant, replaceResources } from './godot-variant.js';
+import { ResourceSection, SceneConnection, SceneNode, TextResource, extResources, sceneConnections, sceneNodes } from './text-resource.js';
+
+// Sub-resources are followed this deep when resolving references
+const MAX_SUB_RESOURCE_DEPTH = 8;
+
+/**
+ * Error raised when a version of a scene cannot be read
+ */
+export class SceneDiffError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SceneDiffError';
+  }
+}
+
+/**
+ * Interface for a value that differs, as written in the scene with resources resolved
+ */
+export interface ValueChange {
+  name: string;
+  before: string | null; // null when the value is not set
+  after: string | null;
+}
+
+/**
+ * Interface for a node added or removed
+ */
+export interface NodeSummary {
+  path: string;
+  type?: string;
+  instance?: string;
+}
+
+/**
+ * Interface for a node moved to another parent
+ */
+export interface NodeMove {
+  from: string;
+  to: string;
+}
+
+/**
+ * Interface for the changes of a node found in both versions
+ */
+export interface NodeChange {
+  path: string; // Path in the newer version
+  attributes?: ValueChange[]; // Header attributes, such as type, instance or groups
+  properties?: ValueChange[];
+}
+
+/**
+ * Interface for a signal connection added or removed
+ */
+export interface ConnectionSummary {
+  signal: string;
+  from: string;
+  to: string;
+  method: string;
+}
+
+/**
+ * Interface for a connection whose flags, binds or unbinds changed
+ */
+export interface ConnectionChange extends ConnectionSummary {
+  changes: ValueChange[];
+}
+
+/**
+ * Interface for an external resource added or removed
+ */
+export interface ResourceSummary {
+  type: string;
+  path: string;
+}
+
+/**
+ * Interface for an external resource replaced by another of the same type
+ */
+export interface ResourceSwap {
+  type: string;
+  before: string;
+  after: string;
+}
+
+/**
+ * Interface for the differences between two versions of a scene
+ */
+export interface SceneDiff {
+  identical: boolean;
+  nodes: {
+    added: NodeSummary[];
+    removed: NodeSummary[];
+    moved: NodeMove[];
+    changed: NodeChange[];
+  };
+  connections: {
+    added: ConnectionSummary[];
+    removed: ConnectionSummary[];
+    changed: ConnectionChange[];
+  };
+  resources: {
+    added: ResourceSummary[];
+    removed: ResourceSummary[];
+    swapped: ResourceSwap[];
+  };
+}
+
+/**
+ * Compare two versions of a scene
+ */
+export function diffScenes(before: TextResource, after: TextResource): SceneDiff {
+  const oldScene = new ResolvedScene(before);
+  const newScene = new ResolvedScene(after);
+  const diff: SceneDiff = {
+    identical: false,
+    nodes: { added: [], removed: [], moved: [], changed: [] },
+    connections: { added: [], removed: [], changed: [] },
+    resources: { added: [], removed: [], swapped: [] },
+  };
+
+  // Pair the nodes of both versions: by path, then nodes whose parent moved, then nodes moved on their own
+  const newNodes = new Map(sceneNodes(after).map(node => [node.path, node]));
+  const paired: Map<string, string> = new Map(); // Old path to new path
+  const unpaired: SceneNode[] = [];
+  for (const node of sceneNodes(before)) {
+    if (newNodes.has(node.path)) {
+      paired.set(node.path, node.path);
+    } else {
+      unpaired.push(node);
+    }
+  }
+  const used = new Set(paired.values());
+  for (const node of unpaired) {
+    const movedParent = node.parent !== null ? paired.get(node.parent) : undefined;
+    const followed = movedParent !== undefined && movedParent !== node.parent ? joinPath(movedParent, node.name) : undefined;
+    const candidate = followed !== undefined && !used.has(followed) && newNodes.has(followed) && oldScene.identity(node) === newScene.identity(newNodes.get(followed)!)
+      ? newNodes.get(followed)
+      : [...newNodes.values()].find(other =>
+          !used.has(other.path) && other.name === node.name && other.parent !== null && oldScene.identity(node) === newScene.identity(other)
+        );
+    if (!candidate) {
+      diff.nodes.removed.push(oldScene.summary(node));
+      continue;
+    }
+    paired.set(node.path, candidate.path);
+    used.add(candidate.path);
+    if (candidate.path !== followed) {
+      diff.nodes.moved.push({ from: node.path, to: candidate.path });
+    }
+  }
+  for (const node of newNodes.values()) {
+    if (!used.has(node.path)) {
+      diff.nodes.added.push(newScene.summary(node));
+    }
+  }
+
+  const oldNodes = new Map(sceneNodes(before).map(node => [node.path, node]));
+  for (const [oldPath, newPath] of paired) {
+    const oldNode = oldNodes.get(oldPath)!;
+    const newNode = newNodes.get(newPath)!;
+    const change: NodeChange = { path: newPath };
+    const attributes = compareValues(oldScene.attributes(oldNode), newScene.attributes(newNode));
+    const properties = compareValues(oldScene.properties(oldNode.section), newScene.properties(newNode.section));
+    if (attributes.length > 0) {
+      change.attributes = attributes;
+    }
+    if (properties.length > 0) {
+      change.properties = properties;
+    }
+    if (attributes.length > 0 || properties.length > 0) {
+      diff.nodes.changed.push(change);
+    }
+  }
+
+  // Connections of moved nodes are compared with their new paths
+  const movedPath = (path: string): string => {
+    for (let prefix = path; prefix !== ''; prefix = prefix.includes('/') ? prefix.slice(0, prefix.lastIndexOf('/')) : '') {
+      const moved = paired.get(prefix);
+      if (moved !== undefined) {
+        return moved + path.slice(prefix.length);
+      }
+    }
+    return path;
+  };
+  const oldConnections = new Map(sceneConnections(before).map(connection => {
+    const key = connectionKey({ ...connectionSummary(connection), from: movedPath(connection.from), to: movedPath(connection.to) });
+    return [key, { summary: connectionSummary(connection), connection }];
+  }));
+  for (const connection of sceneConnections(after)) {
+    const summary = connectionSummary(connection);
+    const old = oldConnections.get(connectionKey(summary));
+    if (!old) {
+      diff.connections.added.push(summary);
+      continue;
+    }
+    oldConnections.delete(connectionKey(summary));
+    const changes = compareValues(connectionOptions(old.connection), connectionOptions(connection));
+    if (changes.length > 0) {
+      diff.connections.changed.push({ ...summary, changes });
+    }
+  }
+  diff.connections.removed = [...oldConnections.values()].map(({ summary }) => summary);
+
+  // External resources are the same when they point at the same file
+  const oldResources = [...extResources(before).values()];
+  const newResources = [...extResources(after).values()];
+  const removed = oldResources.filter(resource => !newResources.some(other => other.path === resource.path));
+  const added = newResources.filter(resource => !oldResources.some(other => other.path === resource.path));
+  for (const resource of removed) {
+    const index = added.findIndex(other => other.type === resource.type);
+    if (index >= 0) {
+      diff.resources.swapped.push({ type: resource.type, before: resource.path, after: added[index].path });
+      added.splice(index, 1);
+    } else {
+      diff.resources.removed.push({ type: resource.type, path: resource.path });
+    }
+  }
+  diff.resources.added = added.map(resource => ({ type: resource.type, path: resource.path }));
+
+  diff.identical = [
+    ...Object.values(diff.nodes),
+    ...Object.values(diff.connections),
+    ...Object.values(diff.resources),
+  ].every(list => list.length === 0);
+  return diff;
+}
+
+/**
+ * Describe a diff in one line per change, e.g. "~ Player: position Vector2(0, 0) → Vector2(8, 0)"
+ */
+export function summarizeDiff(diff: SceneDiff): string[] {
+  const lines: string[] = [];
+  const value = (text: string | null) => (text === null ? '(unset)' : text.replace(/\s*\n\s*/g, ' '));
+  const describe = (node: NodeSummary) => (node.instance ? `instance of ${node.instance}` : node.type ?? 'Node');
+  const change = (prefix: string, { name, before, after }: ValueChange) => `~ ${prefix}: ${name} ${value(before)} → ${value(after)}`;
+
+  for (const node of diff.nodes.added) {
+    lines.push(`+ node ${node.path} (${describe(node)})`);
+  }
+  for (const node of diff.nodes.removed) {
+    lines.push(`- node ${node.path} (${describe(node)})`);
+  }
+  for (const move of diff.nodes.moved) {
+    lines.push(`> node ${move.from} moved to ${move.to}`);
+  }
+  for (const node of diff.nodes.changed) {
+    lines.push(...(node.attributes ?? []).map(attribute => change(node.path, attribute)));
+    lines.push(...(node.properties ?? []).map(property => change(node.path, property)));
+  }
+  const connection = ({ signal, from, to, method }: ConnectionSummary) => `${signal} from ${from} to ${to} (${method})`;
+  for (const added of diff.connections.added) {
+    lines.push(`+ connection ${connection(added)}`);
+  }
+  for (const removed of diff.connections.removed) {
+    lines.push(`- connection ${connection(removed)}`);
+  }
+  for (const changed of diff.connections.changed) {
+    lines.push(...changed.changes.map(option => change(`connection ${connection(changed)}`, option)));
+  }
+  for (const resource of diff.resources.added) {
+    lines.push(`+ resource ${resource.path} (${resource.type})`);
+  }
+  for (const resource of diff.resources.removed) {
+    lines.push(`- resource ${resource.path} (${resource.type})`);
+  }
+  for (const swap of diff.resources.swapped) {
+    lines.push(`~ resource ${swap.before} → ${swap.after} (${swap.type})`);
+  }
+  return lines;
+}
+
+/**
+ * A scene with its resource references resolved, so versions can be compared
+ */
+export class ResolvedScene {
+  readonly document: TextResource;
+  private resources: Map<string, string>; // ext_resource id to path
+
+  constructor(document: TextResource) {
+    this.document = document;
+    this.resources = new Map([...extResources(document).values()].map(resource => [resource.id, resource.path]));
+  }
+
+  /**
+   * What a node is, for pairing moved nodes: its type or instanced scene
+   */
+  identity(node: SceneNode): string {
+    return node.instance ? `instance:${this.resources.get(node.instance.id) ?? node.instance.id}` : `type:${node.type ?? ''}`;
+  }
+
+  summary(node: SceneNode): NodeSummary {
+    const summary: NodeSummary = { path: node.path };
+    if (node.type) {
+      summary.type = node.type;
+    }
+    if (node.instance) {
+      summary.instance = this.resources.get(node.instance.id) ?? node.instance.id;
+    }
+    return summary;
+  }
+
+  /**
+   * Header attributes of a node other than its place in the tree
+   */
+  attributes(node: SceneNode): Map<string, string> {
+    const attributes: Map<string, string> = new Map();
+    for (const [name, value] of node.section.attributeList()) {
+      if (name !== 'parent' && (name !== 'name' || node.parent === null)) {
+        attributes.set(name, this.canonical(value));
+      }
+    }
+    return attributes;
+  }
+
+  properties(section: ResourceSection): Map<string, string> {
+    return new Map(section.properties().map(([key, value]) => [key, this.canonical(value)]));
+  }
+
+  /**
+   * Write a value with ExtResource ids replaced by paths and SubResources by their content
+   */
+  canonical(value: Variant, depth: number = 0): string {
+    return formatVariant(replaceResources(value, reference => this.resolve(reference, depth)));
+  }
+
+  private resolve(reference: VariantResource, depth: number): Variant {
+    if (reference.kind === 'ExtResource') {
+      return { kind: 'Constructor', type: 'ExtResource', args: [this.resources.get(reference.id) ?? reference.id] };
+    }
+    const section = this.document.resourceSection(reference);
+    if (!section || depth >= MAX_SUB_RESOURCE_DEPTH) {
+      return { kind: 'Constructor', type: 'SubResource', args: [reference.id] };
+    }
+    const properties = section.properties().map(([key, value]): [string, Variant] => [
+      key,
+      replaceResources(value, nested => this.resolve(nested, depth + 1)),
+    ]);
+    return { kind: 'Object', className: section.stringAttribute('type') ?? 'Resource', properties };
+  }
+}
+
+function compareValues(before: Map<string, string>, after: Map<string, string>): ValueChange[] {
+  const changes: ValueChange[] = [];
+  for (const name of new Set([...before.keys(), ...after.keys()])) {
+    const old = before.get(name) ?? null;
+    const current = after.get(name) ?? null;
+    if (old !== current) {
+      changes.push({ name, before: old, after: current });
+    }
+  }
+  return changes;
+}
+
+function connectionSummary({ signal, from, to, method }: SceneConnection): ConnectionSummary {
+  return { signal, from, to, method };
+}
+
+function connectionKey({ signal, from, to, method }: ConnectionSummary): string {
+  return JSON.stringify([signal, from, to, method]);
+}
+
+function connectionOptions(connection: SceneConnection): Map<string, string> {
+  const options: Map<string, string> = new Map();
+  for (const [name, value] of connection.section.attributeList()) {
+    if (!['signal', 'from', 'to', 'method'].includes(name)) {
+      options.set(name, formatVariant(value));
+    }
+  }
+  return options;
+}
+
+function joinPath(parent: string, name: string): string {
+  return parent === '.' ? name : `${parent}/${name}`;
+}
@@ -0,0 +1,523 @@
+/**
+ * Scene Merges for the Godot MCP Server
+ *
+ * This module merges two versions of a text scene that were changed from a
+ * common ancestor. Nodes, their properties and header attributes, signal
+ * connections and editable children are merged one by one, so edits to
+ * different nodes or different properties of a node never conflict. Resources
+ * that values taken from theirs use are matched by path or copied, with a new
+ * id where theirs uses an id the merged file already has, and resources no
+ * longer used after the merge are dropped. Only the
+ * same value changed differently on both sides is reported as a conflict.
+ */
+
+import { createHash } from 'crypto';
+import { Variant, VariantResource, replaceResources } from './godot-variant.js';
+import { ResolvedScene } from './scene-diff.js';
+import {
+  ResourceSection,
+  SceneNode,
+  TextResource,
+  extResources,
+  idOf,
+  sceneConnections,
+  sceneNodes,
+} from './text-resource.js';
+
+/**
+ * Interface for a change both sides made differently
+ */
+export interface MergeConflict {
+  kind: 'header' | 'node' | 'attribute' | 'property' | 'connection';
+  path: string; // Node path, or the connection as "signal from A to B (method)"
+  name?: string; // Property or attribute; omitted for node and connection conflicts
+  reason?: string; // Why a node or connection conflicts
+  base: string | null; // Values with resources resolved; null when not set or absent
+  ours: string | null;
+  theirs: string | null;
+}
+
+/**
+ * Interface for the result of a merge
+ */
+export interface SceneMergeResult {
+  clean: boolean;
+  conflicts: MergeConflict[];
+  merged: TextResource | null; // null when there are conflicts
+}
+
+/**
+ * Merge ours and theirs, two versions of a scene changed from base.
+ * The merged file starts from ours, so what theirs did not change keeps the formatting of ours.
+ */
+export function mergeScenes(base: TextResource, ours: TextResource, theirs: TextResource): SceneMergeResult {
+  const merge = new SceneMerge(base, ours, theirs);
+  merge.run();
+  const clean = merge.conflicts.length === 0;
+  return { clean, conflicts: merge.conflicts, merged: clean ? merge.result : null };
+}
+
+/**
+ * Three versions of a value, as written with resources resolved
+ */
+interface Versions {
+  base: string | null;
+  ours: string | null;
+  theirs: string | null;
+}
+
+/**
+ * Which side's value the merged file keeps
+ */
+type Resolution = 'ours' | 'theirs' | 'conflict';
+
+class SceneMerge {
+  readonly conflicts: MergeConflict[] = [];
+  readonly result: TextResource;
+  private base: ResolvedScene;
+  private ours: ResolvedScene;
+  private theirs: ResolvedScene;
+  private copiedSubResources: Map<string, string> = new Map(); // Id in theirs to id in the result
+  private referencedBefore: Set<string>;
+
+  constructor(base: TextResource, ours: TextResource, theirs: TextResource) {
+    this.base = new ResolvedScene(base);
+    this.ours = new ResolvedScene(ours);
+    this.theirs = new ResolvedScene(theirs);
+    this.result = TextResource.parse(ours.toString());
+    this.referencedBefore = references(this.result);
+  }
+
+  run(): void {
+    this.mergeHeader();
+    this.mergeNodes();
+    this.mergeConnections();
+    this.mergeEditable();
+    this.checkParents();
+    this.dropUnusedResources();
+    this.mergeLoadSteps();
+  }
+
+  private mergeHeader(): void {
+    const attributes = (scene: ResolvedScene) => {
+      const values: Map<string, string> = new Map();
+      for (const [name, value] of scene.document.header.attributeList()) {
+        if (name !== 'load_steps') {
+          values.set(name, scene.canonical(value));
+        }
+      }
+      return values;
+    };
+    const [base, ours, theirs] = [attributes(this.base), attributes(this.ours), attributes(this.theirs)];
+    for (const name of union(base, ours, theirs)) {
+      const versions = { base: base.get(name) ?? null, ours: ours.get(name) ?? null, theirs: theirs.get(name) ?? null };
+      const resolution = resolve(versions);
+      if (resolution === 'conflict') {
+        this.conflicts.push({ kind: 'header', path: '.', name, ...versions });
+      } else if (resolution === 'theirs') {
+        this.takeAttribute(this.result.header, name, this.theirs.document.header);
+      }
+    }
+  }
+
+  /**
+   * Count load_steps again from the merged resources, or drop it when the
+   * merge keeps a side that has none, as Godot 4.5 and later write
+   */
+  private mergeLoadSteps(): void {
+    const present = (scene: ResolvedScene) => scene.document.header.attribute('load_steps') !== undefined ? 'load_steps' : null;
+    const versions = { base: present(this.base), ours: present(this.ours), theirs: present(this.theirs) };
+    if ((resolve(versions) === 'theirs' ? versions.theirs : versions.ours) !== null) {
+      const resources = this.result.sections.filter(section => section.tag === 'ext_resource' || section.tag === 'sub_resource').length;
+      this.result.header.setAttribute('load_steps', resources + 1);
+    } else {
+      this.result.header.removeAttribute('load_steps');
+    }
+  }
+
+  private mergeNodes(): void {
+    const base = byPath(sceneNodes(this.base.document));
+    const ours = byPath(sceneNodes(this.ours.document));
+    const theirs = byPath(sceneNodes(this.theirs.document));
+
+    for (const path of union(base, ours, theirs)) {
+      const [baseNode, ourNode, theirNode] = [base.get(path), ours.get(path), theirs.get(path)];
+      if (ourNode && theirNode) {
+        this.mergeNode(path, baseNode, ourNode, theirNode);
+      } else if (baseNode && ourNode && !theirNode) {
+        if (this.nodeState(this.base, baseNode) === this.nodeState(this.ours, ourNode)) {
+          this.result.removeSection(this.resultNode(path)!.section);
+        } else {
+          this.conflicts.push(this.nodeConflict(path, 'changed in ours, removed in theirs', baseNode, ourNode, undefined));
+        }
+      } else if (baseNode && !ourNode && theirNode) {
+        if (this.nodeState(this.base, baseNode) !== this.nodeState(this.theirs, theirNode)) {
+          this.conflicts.push(this.nodeConflict(path, 'removed in ours, changed in theirs', baseNode, undefined, theirNode));
+        }
+      }
+    }
+
+    // Nodes only theirs added, in their file order so parents come first
+    for (const node of theirs.values()) {
+      if (!base.has(node.path) && !ours.has(node.path)) {
+        this.addNode(node, [...theirs.values()]);
+      }
+    }
+  }
+
+  private mergeNode(path: string, baseNode: SceneNode | undefined, ourNode: SceneNode, theirNode: SceneNode): void {
+    const target = this.resultNode(path)!.section;
+
+    const attributes = [baseNode ? this.base.attributes(baseNode) : new Map<string, string>(), this.ours.attributes(ourNode), this.theirs.attributes(theirNode)];
+    for (const name of union(...attributes)) {
+      const versions = { base: attributes[0].get(name) ?? null, ours: attributes[1].get(name) ?? null, theirs: attributes[2].get(name) ?? null };
+      const resolution = resolve(versions);
+      if (resolution === 'conflict') {
+        this.conflicts.push({ kind: 'attribute', path, name, ...versions });
+      } else if (resolution === 'theirs') {
+        this.takeAttribute(target, name, theirNode.section);
+      }
+    }
+
+    const properties = [
+      baseNode ? this.base.properties(baseNode.section) : new Map<string, string>(),
+      this.ours.properties(ourNode.section),
+      this.theirs.properties(theirNode.section),
+    ];
+    for (const name of union(...properties)) {
+      const versions = { base: properties[0].get(name) ?? null, ours: properties[1].get(name) ?? null, theirs: properties[2].get(name) ?? null };
+      const resolution = resolve(versions);
+      if (resolution === 'conflict') {
+        this.conflicts.push({ kind: 'property', path, name, ...versions });
+      } else if (resolution === 'theirs') {
+        this.takeProperty(target, name, theirNode.section);
+      }
+    }
+  }
+
+  /**
+   * Add a node of theirs after the node before it in their file, or after the last node
+   */
+  private addNode(node: SceneNode, theirOrder: SceneNode[]): void {
+    if (node.parent !== null && !this.resultNode(node.parent)) {
+      this.conflicts.push(this.nodeConflict(node.path, 'added in theirs under a node removed in ours', undefined, undefined, node));
+      return;
+    }
+
+    // Adopting resources adds sections, so the position is found afterwards
+    const section = new ResourceSection('node', node.section.attributeList().map(([name, value]) => [name, this.adopt(value)]));
+    for (const [key] of node.section.properties()) {
+      this.takeProperty(section, key, node.section);
+    }
+    let index = -1;
+    for (const previous of theirOrder.slice(0, theirOrder.indexOf(node)).reverse()) {
+      const existing = this.resultNode(previous.path);
+      if (existing) {
+        index = this.result.sections.indexOf(existing.section) + 1;
+        break;
+      }
+    }
+    this.result.addSection(section, index >= 0 ? index : this.lastIndexOf(['node']) + 1 || this.result.sections.length);
+  }
+
+  private mergeConnections(): void {
+    const collect = (scene: ResolvedScene) => new Map(sceneConnections(scene.document).map(connection => [
+      connectionName(connection),
+      { section: connection.section, options: connectionOptions(scene, connection.section) },
+    ]));
+    const [base, ours, theirs] = [collect(this.base), collect(this.ours), collect(this.theirs)];
+    const resultSections = new Map(sceneConnections(this.result).map(connection => [connectionName(connection), connection.section]));
+
+    for (const name of union(base, ours, theirs)) {
+      const [baseConnection, ourConnection, theirConnection] = [base.get(name), ours.get(name), theirs.get(name)];
+      if (ourConnection && theirConnection) {
+        const options = [baseConnection?.options ?? new Map<string, string>(), ourConnection.options, theirConnection.options];
+        for (const option of union(...options)) {
+          const versions = { base: options[0].get(option) ?? null, ours: options[1].get(option) ?? null, theirs: options[2].get(option) ?? null };
+          const resolution = resolve(versions);
+          if (resolution === 'conflict') {
+            this.conflicts.push({ kind: 'connection', path: name, name: option, ...versions });
+          } else if (resolution === 'theirs') {
+            this.takeAttribute(resultSections.get(name)!, option, theirConnection.section);
+          }
+        }
+      } else if (baseConnection && ourConnection && !theirConnection) {
+        if (sameOptions(baseConnection.options, ourConnection.options)) {
+          this.result.removeSection(resultSections.get(name)!);
+        } else {
+          this.conflicts.push({ kind: 'connection', path: name, reason: 'changed in ours, removed in theirs', base: name, ours: name, theirs: null });
+        }
+      } else if (baseConnection && !ourConnection && theirConnection) {
+        if (!sameOptions(baseConnection.options, theirConnection.options)) {
+          this.conflicts.push({ kind: 'connection', path: name, reason: 'removed in ours, changed in theirs', base: name, ours: null, theirs: name });
+        }
+      } else if (!baseConnection && !ourConnection && theirConnection) {
+        this.result.addSection(new ResourceSection(
+          'connection',
+          theirConnection.section.attributeList().map(([attribute, value]) => [attribute, this.adopt(value)])
+        ));
+      }
+    }
+  }
+
+  private mergeEditable(): void {
+    const paths = (document: TextResource) => new Set(document.sectionsOf('editable').map(section => section.stringAttribute('path') ?? ''));
+    const [base, ours, theirs] = [paths(this.base.document), paths(this.ours.document), paths(this.theirs.document)];
+    for (const path of theirs) {
+      if (!base.has(path) && !ours.has(path)) {
+        this.result.addSection(new ResourceSection('editable', [['path', path]]));
+      }
+    }
+    for (const path of base) {
+      const section = this.result.sectionsOf('editable').find(candidate => candidate.stringAttribute('path') === path);
+      if (!theirs.has(path) && section) {
+        this.result.removeSection(section);
+      }
+    }
+  }
+
+  /**
+   * Nodes ours added under a node theirs removed cannot be placed
+   */
+  private checkParents(): void {
+    const nodes = sceneNodes(this.result);
+    const paths = new Set(nodes.map(node => node.path));
+    for (const node of nodes) {
+      if (node.parent !== null && !paths.has(node.parent) && !this.conflicts.some(conflict => conflict.path === node.parent)) {
+        this.conflicts.push({
+          kind: 'node',
+          path: node.path,
+          reason: 'added in ours under a node removed in theirs',
+          base: null,
+          ours: this.nodeState(this.ours, node),
+          theirs: null,
+        });
+      }
+    }
+  }
+
+  /**
+   * Remove the ext_resource and sub_resource sections that were used before
+   * the merge and no longer are
+   */
+  private dropUnusedResources(): void {
+    let removed = true;
+    while (removed) {
+      removed = false;
+      const used = references(this.result);
+      for (const section of this.result.sections.filter(candidate => candidate.tag === 'ext_resource' || candidate.tag === 'sub_resource')) {
+        const key = resourceKey(section.tag === 'ext_resource' ? 'ExtResource' : 'SubResource', idOf(section));
+        if (this.referencedBefore.has(key) && !used.has(key)) {
+          this.result.removeSection(section);
+          removed = true;
+        }
+      }
+    }
+  }
+
+  /**
+   * Set an attribute of a result section to the value theirs has, or remove it
+   */
+  private takeAttribute(target: ResourceSection, name: string, source: ResourceSection): void {
+    const value = source.attribute(name);
+    if (value === undefined) {
+      target.removeAttribute(name);
+    } else {
+      target.setAttribute(name, this.adopt(value));
+    }
+  }
+
+  /**
+   * Set a property of a result section to the value theirs has, or remove it.
+   * Values without resources keep the text of theirs.
+   */
+  private takeProperty(target: ResourceSection, key: string, source: ResourceSection): void {
+    const value = source.get(key);
+    if (value === undefined) {
+      target.delete(key);
+    } else if (hasResources(value)) {
+      target.set(key, this.adopt(value));
+    } else {
+      target.setText(key, source.valueText(key)!, value);
+    }
+  }
+
+  /**
+   * Give the resource references of a value from theirs the ids of the result
+   */
+  private adopt(value: Variant): Variant {
+    return replaceResources(value, reference => ({ kind: reference.kind, id: this.adoptResource(reference) }));
+  }
+
+  private adoptResource(reference: VariantResource): string {
+    const source = this.theirs.document.resourceSection(reference);
+    if (!source) {
+      return reference.id;
+    }
+
+    if (reference.kind === 'ExtResource') {
+      const path = source.stringAttribute('path') ?? '';
+      const existing = [...extResources(this.result).values()].find(resource => resource.path === path);
+      if (existing) {
+        return existing.id;
+      }
+      const id = this.freeId(reference.id) ?? this.uniqueId(`${this.result.sectionsOf('ext_resource').length + 1}_${shortHash(path)}`);
+      const attributes: Array<[string, Variant]> = [['type', source.stringAttribute('type') ?? 'Resource']];
+      const uid = source.stringAttribute('uid');
+      if (uid) {
+        attributes.push(['uid', uid]);
+      }
+      attributes.push(['path', path], ['id', id]);
+      this.result.addSection(new ResourceSection('ext_resource', attributes), this.lastIndexOf(['ext_resource']) + 1 || 1);
+      return id;
+    }
+
+    const copied = this.copiedSubResources.get(reference.id);
+    if (copied) {
+      return copied;
+    }
+    const type = source.stringAttribute('type') ?? 'Resource';
+    const id = this.freeId(reference.id) ?? this.uniqueId(`${type}_${shortHash(this.theirs.canonical(reference))}`);
+    this.copiedSubResources.set(reference.id, id);
+    const section = new ResourceSection('sub_resource', [['type', type], ['id', id]]);
+    for (const [key] of source.properties()) {
+      this.takeProperty(section, key, source);
+    }
+    this.result.addSection(section, this.lastIndexOf(['sub_resource', 'ext_resource']) + 1 || 1);
+    return id;
+  }
+
+  /**
+   * The id theirs uses, if the result does not use it already
+   */
+  private freeId(id: string): string | null {
+    return this.resultIds().has(id) ? null : id;
+  }
+
+  /**
+   * A new id, e.g. "3_1a2b3" or "RectangleShape2D_1a2b3", with a number added if it is taken
+   */
+  private uniqueId(candidate: string): string {
+    const ids = this.resultIds();
+    let id = candidate;
+    for (let suffix = 2; ids.has(id); suffix++) {
+      id = `${candidate}${suffix}`;
+    }
+    return id;
+  }
+
+  private resultIds(): Set<string> {
+    return new Set(this.result.sections.filter(section => section.tag === 'ext_resource' || section.tag === 'sub_resource').map(idOf));
+  }
+
+  /**
+   * Index of the last result section with one of the tags, preferring the first tag; -1 if there is none
+   */
+  private lastIndexOf(tags: string[]): number {
+    for (const tag of tags) {
+      const sections = this.result.sectionsOf(tag);
+      if (sections.length > 0) {
+        return this.result.sections.indexOf(sections[sections.length - 1]);
+      }
+    }
+    return -1;
+  }
+
+  private resultNode(path: string): SceneNode | undefined {
+    return sceneNodes(this.result).find(node => node.path === path);
+  }
+
+  private nodeState(scene: ResolvedScene, node: SceneNode): string {
+    return JSON.stringify([[...scene.attributes(node)], [...scene.properties(node.section)]]);
+  }
+
+  private nodeConflict(path: string, reason: string, baseNode?: SceneNode, ourNode?: SceneNode, theirNode?: SceneNode): MergeConflict {
+    return {
+      kind: 'node',
+      path,
+      reason,
+      base: baseNode ? this.nodeState(this.base, baseNode) : null,
+      ours: ourNode ? this.nodeState(this.ours, ourNode) : null,
+      theirs: theirNode ? this.nodeState(this.theirs, theirNode) : null,
+    };
+  }
+}
+
+/**
+ * Which side wins a three-way merge of one value
+ */
+function resolve({ base, ours, theirs }: Versions): Resolution {
+  if (ours === theirs || base === theirs) {
+    return 'ours';
+  }
+  return base === ours ? 'theirs' : 'conflict';
+}
+
+/**
+ * Keys of several maps, in the order they first appear
+ */
+function union(...maps: Array<Map<string, unknown> | Set<string>>): string[] {
+  const keys: Set<string> = new Set();
+  for (const map of maps) {
+    for (const key of map.keys()) {
+      keys.add(key);
+    }
+  }
+  return [...keys];
+}
+
+function byPath(nodes: SceneNode[]): Map<string, SceneNode> {
+  return new Map(nodes.map(node => [node.path, node]));
+}
+
+function connectionName({ signal, from, to, method }: { signal: string; from: string; to: string; method: string }): string {
+  return `${signal} from ${from} to ${to} (${method})`;
+}
+
+function connectionOptions(scene: ResolvedScene, section: ResourceSection): Map<string, string> {
+  const options: Map<string, string> = new Map();
+  for (const [name, value] of section.attributeList()) {
+    if (!['signal', 'from', 'to', 'method'].includes(name)) {
+      options.set(name, scene.canonical(value));
+    }
+  }
+  return options;
+}
+
+function sameOptions(a: Map<string, string>, b: Map<string, string>): boolean {
+  return JSON.stringify([...a]) === JSON.stringify([...b]);
+}
+
+function hasResources(value: Variant): boolean {
+  let found = false;
+  replaceResources(value, reference => {
+    found = true;
+    return reference;
+  });
+  return found;
+}
+
+/**
+ * The resources referenced anywhere in a document, as "ExtResource:id" or "SubResource:id"
+ */
+function references(document: TextResource): Set<string> {
+  const used: Set<string> = new Set();
+  const collect = (value: Variant) => replaceResources(value, reference => {
+    used.add(resourceKey(reference.kind, reference.id));
+    return reference;
+  });
+  for (const section of document.sections) {
+    section.attributeList().forEach(([, value]) => collect(value));
+    section.properties().forEach(([, value]) => collect(value));
+  }
+  return used;
+}
+
+function resourceKey(kind: VariantResource['kind'], id: string): string {
+  return `${kind}:${id}`;
+}
+
+// Ids Godot writes end in five random characters; hashing keeps merges repeatable
+function shortHash(text: string): string {
+  return createHash('sha1').update(text).digest('hex').slice(0, 5);
+}
@@ -0,0 +1,371 @@
+/**
+ * Scene Queries for the Godot MCP Server
+ *
+ * This module answers the read-only scene and asset tools from the project
+ * files, using the text resource parser instead of loading them in Godot.
+ * What only the engine knows, such as the properties, signals and methods a
+ * class inherits, is left to the engine operations the tools fall back to.
+ */
+
+import { existsSync, readdirSync, readFileSync, statSync } from 'fs';
+import { extname, join } from 'path';
+import { VariantResource, variantToJson } from './godot-variant.js';
+import {
+  SceneNode,
+  TextResource,
+  TextResourceError,
+  childNodes,
+  extResources,
+  findSceneNode,
+  sceneConnections,
+  sceneNodes,
+} from './text-resource.js';
+
+// Scenes are followed this deep through instances when looking up the type of a node
+const MAX_INSTANCE_DEPTH = 16;
+
+// Types of the files that are not text resources, by extension
+const ASSET_TYPES: Record<string, string> = {
+  tscn: 'PackedScene',
+  scn: 'PackedScene',
+  tres: 'Resource',
+  res: 'Resource',
+  gd: 'GDScript',
+  gdshader: 'Shader',
+  shader: 'Shader',
+  png: 'Texture2D',
+  jpg: 'Texture2D',
+  jpeg: 'Texture2D',
+  bmp: 'Texture2D',
+  tga: 'Texture2D',
+  webp: 'Texture2D',
+  svg: 'Texture2D',
+  wav: 'AudioStream',
+  ogg: 'AudioStream',
+  mp3: 'AudioStream',
+  gltf: 'PackedScene',
+  glb: 'PackedScene',
+  obj: 'PackedScene',
+  fbx: 'PackedScene',
+  dae: 'PackedScene',
+  ttf: 'Font',
+  otf: 'Font',
+  woff: 'Font',
+  woff2: 'Font',
+  material: 'Material',
+};
+
+// Files the editor keeps next to assets, which are not assets themselves
+const SIDECAR_EXTENSIONS = new Set(['.import', '.uid']);
+
+/**
+ * Error raised when a scene cannot be read or has no such node
+ */
+export class SceneQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SceneQueryError';
+  }
+}
+
+/**
+ * Interface for the node information of query_node
+ */
+export interface NodeInfo {
+  name: string;
+  type: string;
+  path: string;
+  children: Array<{ name: string; type: string }>;
+  properties: Record<string, unknown>; // Properties the scene sets on the node
+  groups: string[];
+  script?: string;
+  instance?: string;
+  connections: Array<{ signal: string; to: string; method: string; flags?: number }>;
+}
+
+/**
+ * Interface for a signal of list_signals
+ */
+export interface SignalInfo {
+  name: string;
+  parameters: Array<{ name: string; type: string }>;
+  connections: Array<{ target: string; method: string; flags: number }>;
+}
+
+/**
+ * Interface for the signal listing of list_signals
+ */
+export interface NodeSignals {
+  node_path: string;
+  node_type: string;
+  signals: SignalInfo[];
+  signal_count: number;
+}
+
+/**
+ * Interface for an asset of list_assets
+ */
+export interface AssetInfo {
+  path: string;
+  name: string;
+  extension: string;
+  type: string;
+  size: number;
+  uid: string;
+  dependencies: string[];
+}
+
+/**
+ * Interface for the asset listing of list_assets
+ */
+export interface AssetList {
+  assets: AssetInfo[];
+  count: number;
+  search_directory: string;
+  recursive: boolean;
+}
+
+/**
+ * Interface for the options of list_assets
+ */
+export interface AssetListOptions {
+  directory?: string;
+  fileTypes?: string[];
+  recursive?: boolean;
+}
+
+/**
+ * Describe a node of a scene from the file
+ * @returns null if the node is inside an instanced or inherited scene, which only the engine can look into
+ * @throws SceneQueryError if the scene cannot be parsed or has no such node
+ */
+export function queryNode(projectPath: string, scenePath: string, nodePath: string): NodeInfo | null {
+  const document = readScene(projectPath, scenePath);
+  const nodes = sceneNodes(document);
+  const node = findSceneNode(nodes, nodePath);
+  if (!node) {
+    if (nodes.some(candidate => candidate.instance)) {
+      return null;
+    }
+    throw new SceneQueryError(`Node not found: ${nodePath}`);
+  }
+
+  const resources = extResources(document);
+  const resolve = (reference: VariantResource): unknown =>
+    reference.kind === 'ExtResource' ? resources.get(reference.id)?.path ?? `ExtResource("${reference.id}")` : `SubResource("${reference.id}")`;
+  const typeOf = (candidate: SceneNode): string =>
+    candidate.type ?? (candidate.instance ? instancedType(projectPath, resources.get(candidate.instance.id)?.path, 0) : 'Node');
+
+  const properties: Record<string, unknown> = {};
+  for (const [key, value] of node.section.properties()) {
+    properties[key] = variantToJson(value, resolve);
+  }
+
+  const info: NodeInfo = {
+    name: node.name,
+    type: typeOf(node),
+    path: node.path,
+    children: childNodes(nodes, node).map(child => ({ name: child.name, type: typeOf(child) })),
+    properties,
+    groups: node.groups,
+    connections: sceneConnections(document)
+      .filter(connection => connection.from === node.path)
+      .map(({ signal, to, method, flags }) => (flags === undefined ? { signal, to, method } : { signal, to, method, flags })),
+  };
+  const script = node.section.get('script');
+  if (script && typeof script === 'object' && !Array.isArray(script) && script.kind === 'ExtResource') {
+    info.script = resources.get(script.id)?.path;
+  }
+  if (node.instance) {
+    info.instance = resources.get(node.instance.id)?.path;
+  }
+  return info;
+}
+
+/**
+ * List the signals of a node that the scene knows about: those its script
+ * declares and those the scene connects
+ * @returns null if the node is inside an instanced or inherited scene, which only the engine can look into
+ * @throws SceneQueryError if the scene cannot be parsed or has no such node
+ */
+export function listNodeSignals(projectPath: string, scenePath: string, nodePath: string): NodeSignals | null {
+  const info = queryNode(projectPath, scenePath, nodePath);
+  if (!info) {
+    return null;
+  }
+
+  const signals: Map<string, SignalInfo> = new Map();
+  if (info.script) {
+    const scriptFile = projectFile(projectPath, info.script);
+    if (existsSync(scriptFile)) {
+      for (const signal of scriptSignals(readFileSync(scriptFile, 'utf8'))) {
+        signals.set(signal.name, signal);
+      }
+    }
+  }
+  for (const connection of info.connections) {
+    let signal = signals.get(connection.signal);
+    if (!signal) {
+      signal = { name: connection.signal, parameters: [], connections: [] };
+      signals.set(connection.signal, signal);
+    }
+    signal.connections.push({ target: connection.to, method: connection.method, flags: connection.flags ?? 0 });
+  }
+
+  return {
+    node_path: nodePath,
+    node_type: info.type,
+    signals: [...signals.values()],
+    signal_count: signals.size,
+  };
+}
+
+/**
+ * List the assets of a project with their types, UIDs and dependencies.
+ * Hidden files and the .import and .uid files next to assets are left out.
+ */
+export function listAssets(projectPath: string, options: AssetListOptions = {}): AssetList {
+  let directory = options.directory ?? 'res://';
+  if (!directory.startsWith('res://')) {
+    directory = `res://${directory}`;
+  }
+  const recursive = options.recursive ?? true;
+  const fileTypes = (options.fileTypes ?? []).map(type => type.toLowerCase());
+
+  const assets: AssetInfo[] = [];
+  const scan = (resPath: string): void => {
+    const directoryPath = projectFile(projectPath, resPath);
+    if (!existsSync(directoryPath)) {
+      return;
+    }
+    const entries = readdirSync(directoryPath, { withFileTypes: true }).sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+    for (const entry of entries) {
+      if (entry.name.startsWith('.')) {
+        continue;
+      }
+      const entryPath = resPath.endsWith('/') ? `${resPath}${entry.name}` : `${resPath}/${entry.name}`;
+      if (entry.isDirectory()) {
+        if (recursive) {
+          scan(entryPath);
+        }
+        continue;
+      }
+      const extension = extname(entry.name).slice(1);
+      if (SIDECAR_EXTENSIONS.has(extname(entry.name)) || (fileTypes.length > 0 && !fileTypes.includes(extension.toLowerCase()))) {
+        continue;
+      }
+      assets.push(assetInfo(projectPath, entryPath, entry.name, extension));
+    }
+  };
+  scan(directory);
+
+  return {
+    assets,
+    count: assets.length,
+    search_directory: directory,
+    recursive,
+  };
+}
+
+/**
+ * Parse the signal declarations of a GDScript file
+ */
+export function scriptSignals(source: string): SignalInfo[] {
+  const signals: SignalInfo[] = [];
+  for (const match of source.matchAll(/^\s*signal\s+([A-Za-z_]\w*)\s*(?:\(([^)]*)\))?/gm)) {
+    const parameters = (match[2] ?? '')
+      .split(',')
+      .map(parameter => parameter.trim())
+      .filter(parameter => parameter !== '')
+      .map(parameter => {
+        const [name, type] = parameter.split(':').map(part => part.trim());
+        return { name, type: type || 'Variant' };
+      });
+    signals.push({ name: match[1], parameters, connections: [] });
+  }
+  return signals;
+}
+
+/**
+ * Read and parse a scene of a project
+ * @throws SceneQueryError if the scene cannot be parsed
+ */
+function readScene(projectPath: string, scenePath: string): TextResource {
+  try {
+    return TextResource.read(projectFile(projectPath, scenePath));
+  } catch (error: unknown) {
+    if (error instanceof TextResourceError) {
+      throw new SceneQueryError(`Failed to parse scene ${scenePath}: ${error.message}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * The type of the root node of an instanced scene
+ */
+function instancedType(projectPath: string, resPath: string | undefined, depth: number): string {
+  if (!resPath || depth >= MAX_INSTANCE_DEPTH || extname(resPath) !== '.tscn') {
+    return 'Node';
+  }
+  const file = projectFile(projectPath, resPath);
+  if (!existsSync(file)) {
+    return 'Node';
+  }
+  try {
+    const document = TextResource.read(file);
+    const root = sceneNodes(document)[0];
+    if (!root) {
+      return 'Node';
+    }
+    return root.type ?? (root.instance ? instancedType(projectPath, extResources(document).get(root.instance.id)?.path, depth + 1) : 'Node');
+  } catch (error: unknown) {
+    if (error instanceof TextResourceError) {
+      return 'Node';
+    }
+    throw error;
+  }
+}
+
+/**
+ * Information about an asset file, from the file itself and the .uid or .import file next to it
+ */
+function assetInfo(projectPath: string, resPath: string, name: string, extension: string): AssetInfo {
+  const file = projectFile(projectPath, resPath);
+  const info: AssetInfo = {
+    path: resPath,
+    name,
+    extension,
+    type: ASSET_TYPES[extension.toLowerCase()] ?? 'Unknown',
+    size: statSync(file).size,
+    uid: '',
+    dependencies: [],
+  };
+
+  if (extension === 'tscn' || extension === 'tres') {
+    try {
+      const document = TextResource.read(file);
+      info.uid = document.header.stringAttribute('uid') ?? '';
+      if (document.kind === 'resource') {
+        info.type = document.header.stringAttribute('type') ?? info.type;
+      }
+      info.dependencies = [...extResources(document).values()].map(resource => resource.path);
+    } catch (error: unknown) {
+      if (!(error instanceof TextResourceError)) {
+        throw error;
+      }
+    }
+  } else if (existsSync(`${file}.uid`)) {
+    info.uid = readFileSync(`${file}.uid`, 'utf8').trim();
+  } else if (existsSync(`${file}.import`)) {
+    info.uid = readFileSync(`${file}.import`, 'utf8').match(/^uid="([^"]*)"/m)?.[1] ?? '';
+  }
+  return info;
+}
+
+/**
+ * The file of a project path, with or without the res:// prefix
+ */
+function projectFile(projectPath: string, path: string): string {
+  return join(projectPath, path.startsWith('res://') ? path.slice('res://'.length) : path);
+}
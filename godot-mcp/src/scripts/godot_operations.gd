@@ -4,6 +4,25 @@ extends SceneTree
 # Debug mode flag
 var debug_mode = false
 
+# Markers used to frame requests when running as a persistent worker
+const WORKER_READY_MARKER = "[MCP-WORKER-READY]"
+const WORKER_END_MARKER = "[MCP-WORKER-END]"
+
+# Marker for progress updates of long-running operations
+const PROGRESS_MARKER = "[MCP-PROGRESS]"
+
+# Patterns of the references that make up the dependency graph, by kind. Unlike
+# the reference scan of list_missing_assets, load does not match inside preload,
+# and a string that merely holds a path is not a dependency.
+const DEPENDENCY_PATTERNS = {
+    "ext_resource": '\\[ext_resource[^\\]]*\\bpath="(res://[^"]+)"',
+    "preload": '\\bpreload\\(\\s*"(res://[^"]+)"\\s*\\)',
+    "load": '\\bload\\(\\s*"(res://[^"]+)"',
+}
+
+# Resource paths seen by the worker and their last known modification time
+var worker_tracked_paths: Dictionary = {}
+
 func _init():
     var args = OS.get_cmdline_args()
     
@@ -38,6 +57,12 @@ func _init():
     log_info("Operation: " + operation)
     log_debug("Params JSON: " + params_json)
     
+    # Worker mode keeps the engine running and reads operations from stdin
+    if operation == "worker":
+        run_worker()
+        quit()
+        return
+    
     # Parse JSON using Godot 4.x API
     var json = JSON.new()
     var error = json.parse(params_json)
@@ -56,6 +81,22 @@ func _init():
     
     log_info("Executing operation: " + operation)
     
+    if operation == "capture_screenshot":
+        # Async operation - needs to wait for frames
+        await capture_screenshot(params)
+        quit()
+        return
+    
+    if not execute_operation(operation, params):
+        log_error("Unknown operation: " + operation)
+        quit(1)
+        return
+    
+    quit()
+
+# Dispatch a synchronous operation by name
+# Returns false if the operation is unknown
+func execute_operation(operation: String, params) -> bool:
     match operation:
         "create_scene":
             create_scene(params)
@@ -67,6 +108,8 @@ func _init():
             modify_node(params)
         "duplicate_node":
             duplicate_node(params)
+        "batch_operations":
+            batch_operations(params)
         "query_node":
             query_node(params)
         "create_script":
@@ -127,6 +170,8 @@ func _init():
             get_uid(params)
         "resave_resources":
             resave_resources(params)
+        "get_project_setting_defaults":
+            get_project_setting_defaults(params)
         "update_project_settings":
             update_project_settings(params)
         "configure_input_map":
@@ -135,22 +180,120 @@ func _init():
             setup_autoload(params)
         "manage_plugins":
             manage_plugins(params)
-        "capture_screenshot":
-            # Async operation - needs to wait for frames
-            await capture_screenshot(params)
-            quit()
-            return
         "list_missing_assets":
             list_missing_assets(params)
+        "dependency_graph":
+            dependency_graph(params)
         "remote_tree_dump":
             remote_tree_dump(params)
         "toggle_debug_draw":
             toggle_debug_draw(params)
         _:
-            log_error("Unknown operation: " + operation)
-            quit(1)
+            return false
     
-    quit()
+    return true
+
+# Run as a persistent worker: read one JSON-RPC request per line from stdin,
+# execute it and frame its output with an end marker on stdout and stderr
+func run_worker():
+    print(WORKER_READY_MARKER)
+    
+    while true:
+        var line = read_stdin_line()
+        if line == null:
+            log_debug("Worker stdin closed, shutting down")
+            break
+        
+        line = line.strip_edges()
+        if line.is_empty():
+            continue
+        
+        var json = JSON.new()
+        if json.parse(line) != OK or not json.get_data() is Dictionary:
+            log_error("Failed to parse worker request: " + line)
+            continue
+        
+        var request = json.get_data() as Dictionary
+        var request_id = request.get("id")
+        var method = str(request.get("method", ""))
+        var params = request.get("params", {})
+        
+        if method == "shutdown":
+            finish_worker_request(request_id, true)
+            break
+        
+        log_info("Executing operation: " + method)
+        
+        var handled = false
+        if method == "worker" or method == "capture_screenshot":
+            log_error("Operation not supported in worker mode: " + method)
+        elif not params is Dictionary:
+            log_error("Invalid params for operation: " + method)
+        else:
+            refresh_worker_cache(params)
+            handled = execute_operation(method, params)
+            if not handled:
+                log_error("Unknown operation: " + method)
+        
+        finish_worker_request(request_id, handled)
+
+# Print the end-of-request markers so the server can split the output streams
+func finish_worker_request(request_id, handled: bool):
+    var response = {
+        "jsonrpc": "2.0",
+        "id": request_id,
+        "result": {"handled": handled}
+    }
+    print(WORKER_END_MARKER + " " + JSON.stringify(response))
+    printerr(WORKER_END_MARKER + " " + JSON.stringify(response))
+
+# Read a single line from stdin, or null once stdin is closed
+func read_stdin_line():
+    var bytes = PackedByteArray()
+    while true:
+        var chunk = OS.read_buffer_from_stdin(1)
+        if chunk.is_empty():
+            if bytes.is_empty():
+                return null
+            break
+        if chunk[0] == 10:
+            break
+        bytes.append_array(chunk)
+    return bytes.get_string_from_utf8()
+
+# Reload cached resources that were touched by a previous request or changed on disk,
+# so the warm resource cache never serves a stale scene or script
+func refresh_worker_cache(params: Dictionary):
+    # Batch steps carry their own resource paths
+    if params.get("operations") is Array:
+        for step in params.operations:
+            if step is Dictionary and step.get("params") is Dictionary:
+                track_worker_paths(step.params)
+    track_worker_paths(params)
+    
+    for res_path in worker_tracked_paths.keys():
+        if not FileAccess.file_exists(res_path):
+            worker_tracked_paths.erase(res_path)
+            continue
+        var modified_time = FileAccess.get_modified_time(res_path)
+        if modified_time != worker_tracked_paths[res_path] and ResourceLoader.has_cached(res_path):
+            log_debug("Reloading cached resource: " + res_path)
+            ResourceLoader.load(res_path, "", ResourceLoader.CACHE_MODE_REPLACE)
+        worker_tracked_paths[res_path] = modified_time
+
+# Mark every resource path referenced by a parameter dictionary for a reload check
+func track_worker_paths(params: Dictionary):
+    for key in params:
+        var value = params[key]
+        if not (key as String).ends_with("_path") or not value is String or value.is_empty():
+            continue
+        var res_path = value as String
+        if not res_path.begins_with("res://"):
+            if res_path.is_absolute_path():
+                continue
+            res_path = "res://" + res_path
+        # Force a reload check for every path the current request refers to
+        worker_tracked_paths[res_path] = -1
 
 # Logging functions
 func log_debug(message):
@@ -163,6 +306,14 @@ func log_info(message):
 func log_error(message):
     printerr("[ERROR] " + message)
 
+# Print a progress update for the server to forward to the client
+# A total of 0 means the total is not known yet
+func report_progress(progress: int, total: int, message: String):
+    var update = {"progress": progress, "message": message}
+    if total > 0:
+        update["total"] = total
+    print(PROGRESS_MARKER + " " + JSON.stringify(update))
+
 # Get a script by name or path
 func get_script_by_name(name_of_class):
     if debug_mode:
@@ -796,7 +947,50 @@ func modify_node(params):
         print("Node type: " + target_node.get_class())
     
     # Apply properties with type checking (GDScript 2.0)
-    var properties = params.properties
+    var applied = apply_node_properties(target_node, params.properties)
+    var modified_properties: Array[String] = applied.modified
+    var failed_properties: Array[String] = applied.failed
+    
+    if debug_mode:
+        print("Modified properties: " + str(modified_properties))
+        if not failed_properties.is_empty():
+            print("Failed properties: " + str(failed_properties))
+    
+    # Pack and save the scene
+    var packed_scene = PackedScene.new()
+    var result = packed_scene.pack(scene_root)
+    if debug_mode:
+        print("Pack result: " + str(result) + " (OK=" + str(OK) + ")")
+    
+    if result == OK:
+        if debug_mode:
+            print("Saving scene to: " + absolute_scene_path)
+        var save_error = ResourceSaver.save(packed_scene, absolute_scene_path)
+        if debug_mode:
+            print("Save result: " + str(save_error) + " (OK=" + str(OK) + ")")
+        if save_error == OK:
+            if debug_mode:
+                var file_check_after = FileAccess.file_exists(absolute_scene_path)
+                print("File exists check after save: " + str(file_check_after))
+                if file_check_after:
+                    print("Node '" + node_path + "' modified successfully")
+                    print("Modified " + str(modified_properties.size()) + " properties")
+                    if not failed_properties.is_empty():
+                        print("Warning: " + str(failed_properties.size()) + " properties not found: " + str(failed_properties))
+                else:
+                    printerr("File reported as saved but does not exist at: " + absolute_scene_path)
+            else:
+                print("Node '" + node_path + "' modified successfully")
+                if not failed_properties.is_empty():
+                    print("Warning: Some properties not found: " + str(failed_properties))
+        else:
+            printerr("Failed to save scene: " + str(save_error))
+    else:
+        printerr("Failed to pack scene: " + str(result))
+
+# Apply a dictionary of properties to a node, converting dictionaries to
+# transforms, vectors and colors where the property expects them
+func apply_node_properties(target_node: Node, properties: Dictionary) -> Dictionary:
     var modified_properties: Array[String] = []
     var failed_properties: Array[String] = []
     
@@ -884,42 +1078,7 @@ func modify_node(params):
                 push_warning("Property not found on node: " + property_name)
             failed_properties.append(property_name)
     
-    if debug_mode:
-        print("Modified properties: " + str(modified_properties))
-        if not failed_properties.is_empty():
-            print("Failed properties: " + str(failed_properties))
-    
-    # Pack and save the scene
-    var packed_scene = PackedScene.new()
-    var result = packed_scene.pack(scene_root)
-    if debug_mode:
-        print("Pack result: " + str(result) + " (OK=" + str(OK) + ")")
-    
-    if result == OK:
-        if debug_mode:
-            print("Saving scene to: " + absolute_scene_path)
-        var save_error = ResourceSaver.save(packed_scene, absolute_scene_path)
-        if debug_mode:
-            print("Save result: " + str(save_error) + " (OK=" + str(OK) + ")")
-        if save_error == OK:
-            if debug_mode:
-                var file_check_after = FileAccess.file_exists(absolute_scene_path)
-                print("File exists check after save: " + str(file_check_after))
-                if file_check_after:
-                    print("Node '" + node_path + "' modified successfully")
-                    print("Modified " + str(modified_properties.size()) + " properties")
-                    if not failed_properties.is_empty():
-                        print("Warning: " + str(failed_properties.size()) + " properties not found: " + str(failed_properties))
-                else:
-                    printerr("File reported as saved but does not exist at: " + absolute_scene_path)
-            else:
-                print("Node '" + node_path + "' modified successfully")
-                if not failed_properties.is_empty():
-                    print("Warning: Some properties not found: " + str(failed_properties))
-        else:
-            printerr("Failed to save scene: " + str(save_error))
-    else:
-        printerr("Failed to pack scene: " + str(result))
+    return {"modified": modified_properties, "failed": failed_properties}
 
 # Duplicate an existing node in a scene with all its children
 func duplicate_node(params):
@@ -1057,6 +1216,306 @@ func duplicate_node(params):
     else:
         printerr("Failed to pack scene: " + str(result))
 
+# Run an ordered list of scene operations against a single instance of a scene.
+# The scene is only written once every step has succeeded, so a failing step
+# leaves the file on disk untouched.
+func batch_operations(params):
+    print("Running batch operations on scene: " + params.scene_path)
+    
+    var full_scene_path = params.scene_path
+    if not full_scene_path.begins_with("res://"):
+        full_scene_path = "res://" + full_scene_path
+    if debug_mode:
+        print("Scene path (with res://): " + full_scene_path)
+    
+    if not FileAccess.file_exists(full_scene_path):
+        printerr("Scene file does not exist at: " + full_scene_path)
+        quit(1)
+        return
+    
+    var scene = load(full_scene_path)
+    if not scene:
+        printerr("Failed to load scene: " + full_scene_path)
+        quit(1)
+        return
+    
+    var scene_root = scene.instantiate()
+    if debug_mode:
+        print("Scene instantiated")
+    
+    var save_path = full_scene_path
+    var steps = []
+    var failed_index = -1
+    var operations = params.get("operations", [])
+    
+    for i in range(operations.size()):
+        var step = operations[i]
+        var operation = ""
+        var step_params = {}
+        if step is Dictionary:
+            operation = str(step.get("operation", ""))
+            step_params = step.get("params", {})
+        
+        if debug_mode:
+            print("Batch step " + str(i) + ": " + operation)
+        
+        var step_result: Dictionary
+        if not step_params is Dictionary:
+            step_result = {"success": false, "error": "Step params must be an object"}
+        else:
+            match operation:
+                "add_node":
+                    step_result = batch_add_node(scene_root, step_params)
+                "remove_node":
+                    step_result = batch_remove_node(scene_root, step_params)
+                "modify_node":
+                    step_result = batch_modify_node(scene_root, step_params)
+                "duplicate_node":
+                    step_result = batch_duplicate_node(scene_root, step_params)
+                "attach_script":
+                    step_result = batch_attach_script(scene_root, step_params)
+                "connect_signal":
+                    step_result = batch_connect_signal(scene_root, step_params)
+                "disconnect_signal":
+                    step_result = batch_disconnect_signal(scene_root, step_params)
+                "save_scene":
+                    # Saving is deferred until every step has succeeded
+                    if step_params.has("new_path"):
+                        save_path = step_params.new_path
+                        if not save_path.begins_with("res://"):
+                            save_path = "res://" + save_path
+                    step_result = {"success": true, "message": "Scene will be saved to " + save_path}
+                _:
+                    step_result = {"success": false, "error": "Unsupported batch operation: " + operation}
+        
+        step_result["index"] = i
+        step_result["operation"] = operation
+        steps.append(step_result)
+        
+        if not step_result.success:
+            failed_index = i
+            break
+    
+    # Mark the steps that never ran because an earlier step failed
+    if failed_index != -1:
+        for i in range(failed_index + 1, operations.size()):
+            var skipped_operation = ""
+            if operations[i] is Dictionary:
+                skipped_operation = str(operations[i].get("operation", ""))
+            steps.append({"index": i, "operation": skipped_operation, "success": false, "skipped": true})
+    
+    var result = {
+        "success": failed_index == -1,
+        "scene_path": full_scene_path,
+        "saved_to": "",
+        "rolled_back": failed_index != -1,
+        "failed_step": failed_index,
+        "steps": steps
+    }
+    
+    if failed_index == -1:
+        var save_error = batch_save_scene(scene_root, save_path)
+        if save_error == "":
+            result["saved_to"] = save_path
+        else:
+            result["success"] = false
+            result["rolled_back"] = true
+            result["error"] = save_error
+    
+    scene_root.free()
+    print(JSON.stringify(result))
+
+# Pack a scene root and write it to disk, returning an error message or an empty string
+func batch_save_scene(scene_root: Node, save_path: String) -> String:
+    var save_dir = save_path.get_base_dir()
+    if save_dir != "res://" and not DirAccess.dir_exists_absolute(save_dir):
+        var dir_error = DirAccess.make_dir_recursive_absolute(save_dir)
+        if dir_error != OK:
+            return "Failed to create directory: " + save_dir + ", error: " + str(dir_error)
+    
+    var packed_scene = PackedScene.new()
+    var pack_error = packed_scene.pack(scene_root)
+    if pack_error != OK:
+        return "Failed to pack scene: " + str(pack_error)
+    
+    var save_error = ResourceSaver.save(packed_scene, save_path)
+    if save_error != OK:
+        return "Failed to save scene: " + str(save_error)
+    
+    if debug_mode:
+        print("Batch saved scene to: " + save_path)
+    return ""
+
+# Look up a node for a batch step without printing engine errors for missing paths
+func batch_get_node(scene_root: Node, node_path: String) -> Node:
+    if node_path == "root":
+        return scene_root
+    if node_path.begins_with("root/"):
+        node_path = node_path.substr(5)
+    return scene_root.get_node_or_null(node_path)
+
+# Batch step: add a new node under a parent
+func batch_add_node(scene_root: Node, params: Dictionary) -> Dictionary:
+    if not params.has("node_type") or not params.has("node_name"):
+        return {"success": false, "error": "add_node requires node_type and node_name"}
+    
+    var parent_path = params.get("parent_node_path", "root")
+    var parent = batch_get_node(scene_root, parent_path)
+    if not parent:
+        return {"success": false, "error": "Parent node not found: " + parent_path}
+    
+    var new_node = instantiate_class(params.node_type)
+    if not new_node:
+        return {"success": false, "error": "Failed to instantiate node of type: " + params.node_type}
+    new_node.name = params.node_name
+    
+    if params.has("properties"):
+        var properties = params.properties
+        for property in properties:
+            new_node.set(property, properties[property])
+    
+    parent.add_child(new_node)
+    new_node.owner = scene_root
+    return {"success": true, "message": "Node '" + params.node_name + "' of type '" + params.node_type + "' added"}
+
+# Batch step: remove a node and its children
+func batch_remove_node(scene_root: Node, params: Dictionary) -> Dictionary:
+    if not params.has("node_path"):
+        return {"success": false, "error": "remove_node requires node_path"}
+    if params.node_path == "root":
+        return {"success": false, "error": "Cannot remove root node"}
+    
+    var target_node = batch_get_node(scene_root, params.node_path)
+    if not target_node:
+        return {"success": false, "error": "Node not found: " + params.node_path}
+    
+    target_node.get_parent().remove_child(target_node)
+    target_node.free()
+    return {"success": true, "message": "Node '" + params.node_path + "' removed"}
+
+# Batch step: modify properties of a node
+func batch_modify_node(scene_root: Node, params: Dictionary) -> Dictionary:
+    if not params.has("node_path") or not params.has("properties"):
+        return {"success": false, "error": "modify_node requires node_path and properties"}
+    
+    var target_node = batch_get_node(scene_root, params.node_path)
+    if not target_node:
+        return {"success": false, "error": "Node not found: " + params.node_path}
+    
+    var applied = apply_node_properties(target_node, params.properties)
+    if not applied.failed.is_empty():
+        return {"success": false, "error": "Properties not found on node: " + str(applied.failed)}
+    return {"success": true, "message": "Node '" + params.node_path + "' modified", "modified": applied.modified}
+
+# Batch step: duplicate a node with all its children
+func batch_duplicate_node(scene_root: Node, params: Dictionary) -> Dictionary:
+    if not params.has("node_path") or not params.has("new_name"):
+        return {"success": false, "error": "duplicate_node requires node_path and new_name"}
+    if params.node_path == "root":
+        return {"success": false, "error": "Cannot duplicate root node"}
+    
+    var source_node = batch_get_node(scene_root, params.node_path)
+    if not source_node:
+        return {"success": false, "error": "Node not found: " + params.node_path}
+    
+    var parent_node = source_node.get_parent()
+    if params.has("parent_node_path"):
+        parent_node = batch_get_node(scene_root, params.parent_node_path)
+        if not parent_node:
+            return {"success": false, "error": "Parent node not found: " + params.parent_node_path}
+    
+    # Same flags as duplicate_node: signals | groups | scripts
+    var duplicated_node = source_node.duplicate(7)
+    if not duplicated_node:
+        return {"success": false, "error": "Failed to duplicate node: " + params.node_path}
+    duplicated_node.name = params.new_name
+    parent_node.add_child(duplicated_node)
+    
+    var children_to_process: Array[Node] = [duplicated_node]
+    while not children_to_process.is_empty():
+        var current_node = children_to_process.pop_back()
+        current_node.owner = scene_root
+        for child in current_node.get_children():
+            children_to_process.append(child)
+    
+    return {"success": true, "message": "Node '" + params.node_path + "' duplicated as '" + params.new_name + "'"}
+
+# Batch step: attach an existing script to a node
+func batch_attach_script(scene_root: Node, params: Dictionary) -> Dictionary:
+    if not params.has("node_path") or not params.has("script_path"):
+        return {"success": false, "error": "attach_script requires node_path and script_path"}
+    
+    var full_script_path = params.script_path
+    if not full_script_path.begins_with("res://"):
+        full_script_path = "res://" + full_script_path
+    if not FileAccess.file_exists(full_script_path):
+        return {"success": false, "error": "Script file does not exist: " + full_script_path}
+    
+    var target_node = batch_get_node(scene_root, params.node_path)
+    if not target_node:
+        return {"success": false, "error": "Node not found: " + params.node_path}
+    
+    var script = load(full_script_path)
+    if not script:
+        return {"success": false, "error": "Failed to load script: " + full_script_path}
+    
+    target_node.set_script(script)
+    return {"success": true, "message": "Script '" + params.script_path + "' attached to '" + params.node_path + "'"}
+
+# Batch step: connect a signal between two nodes
+func batch_connect_signal(scene_root: Node, params: Dictionary) -> Dictionary:
+    for key in ["source_node_path", "signal_name", "target_node_path", "method_name"]:
+        if not params.has(key):
+            return {"success": false, "error": "connect_signal requires " + key}
+    
+    var source_node = batch_get_node(scene_root, params.source_node_path)
+    if not source_node:
+        return {"success": false, "error": "Source node not found: " + params.source_node_path}
+    var target_node = batch_get_node(scene_root, params.target_node_path)
+    if not target_node:
+        return {"success": false, "error": "Target node not found: " + params.target_node_path}
+    
+    var signal_name = params.signal_name as StringName
+    if not source_node.has_signal(signal_name):
+        return {"success": false, "error": "Signal not found on source node: " + params.signal_name}
+    var method_name = params.method_name as StringName
+    if not target_node.has_method(method_name):
+        return {"success": false, "error": "Method not found on target node: " + params.method_name}
+    
+    var callable = Callable(target_node, method_name)
+    if params.has("binds") and params.binds.size() > 0:
+        callable = callable.bindv(params.binds)
+    if source_node.is_connected(signal_name, callable):
+        return {"success": false, "error": "Signal is already connected"}
+    
+    # Connections must be persistent to be packed into the scene
+    var flags = int(params.get("flags", 0)) | CONNECT_PERSIST
+    var error = source_node.connect(signal_name, callable, flags)
+    if error != OK:
+        return {"success": false, "error": "Failed to connect signal: " + str(error)}
+    return {"success": true, "message": "Signal '" + params.signal_name + "' connected from " + params.source_node_path + " to " + params.target_node_path + "." + params.method_name + "()"}
+
+# Batch step: disconnect a signal between two nodes
+func batch_disconnect_signal(scene_root: Node, params: Dictionary) -> Dictionary:
+    for key in ["source_node_path", "signal_name", "target_node_path", "method_name"]:
+        if not params.has(key):
+            return {"success": false, "error": "disconnect_signal requires " + key}
+    
+    var source_node = batch_get_node(scene_root, params.source_node_path)
+    if not source_node:
+        return {"success": false, "error": "Source node not found: " + params.source_node_path}
+    var target_node = batch_get_node(scene_root, params.target_node_path)
+    if not target_node:
+        return {"success": false, "error": "Target node not found: " + params.target_node_path}
+    
+    var signal_name = params.signal_name as StringName
+    var callable = Callable(target_node, params.method_name)
+    if not source_node.has_signal(signal_name) or not source_node.is_connected(signal_name, callable):
+        return {"success": false, "error": "Signal is not connected"}
+    
+    source_node.disconnect(signal_name, callable)
+    return {"success": true, "message": "Signal '" + params.signal_name + "' disconnected from " + params.source_node_path + " to " + params.target_node_path + "." + params.method_name + "()"}
+
 # Query detailed information about a node in a scene
 func query_node(params):
     log_info("Querying node in scene: " + params.scene_path)
@@ -1448,7 +1907,11 @@ func export_mesh_library(params):
     if debug_mode:
         print("Processing child nodes...")
     
-    for child in scene_root.get_children():
+    var children = scene_root.get_children()
+    var checked_nodes = 0
+    for child in children:
+        checked_nodes += 1
+        report_progress(checked_nodes, children.size(), "checked " + str(checked_nodes) + "/" + str(children.size()) + " nodes")
         if debug_mode:
             print("Checking child node: " + child.name)
         
@@ -1608,7 +2071,8 @@ func get_uid(params):
         printerr("Absolute file path that doesn't exist: " + absolute_path)
         quit(1)
     
-    # Check if the UID file exists
+    # Scripts and shaders keep their UIDs in .uid files; other resources have
+    # theirs in the file itself or in its .import file
     var uid_path = file_path + ".uid"
     if debug_mode:
         print("UID file path: " + uid_path)
@@ -1617,7 +2081,7 @@ func get_uid(params):
     if debug_mode:
         print("UID file exists check: " + str(uid_check))
     
-    var f = FileAccess.open(uid_path, FileAccess.READ)
+    var f = FileAccess.open(uid_path, FileAccess.READ) if uid_check else null
     
     if f:
         # Read the UID content
@@ -1636,16 +2100,29 @@ func get_uid(params):
         if debug_mode:
             print("UID result: " + JSON.stringify(result))
         print(JSON.stringify(result))
+        return
+    
+    var uid_id = ResourceLoader.get_resource_uid(file_path)
+    if uid_id != ResourceUID.INVALID_ID:
+        var result = {
+            "file": file_path,
+            "absolutePath": absolute_path,
+            "uid": ResourceUID.id_to_text(uid_id),
+            "exists": true
+        }
+        if debug_mode:
+            print("UID result: " + JSON.stringify(result))
+        print(JSON.stringify(result))
     else:
         if debug_mode:
-            print("UID file does not exist or could not be opened")
+            print("The file has no UID")
         
-        # UID file doesn't exist
+        # Neither a UID file nor a UID in the resource
         var result = {
             "file": file_path,
             "absolutePath": absolute_path,
             "exists": false,
-            "message": "UID file does not exist for this file. Use resave_resources to generate UIDs."
+            "message": "The file has no UID yet. Use resave_resources to generate UIDs."
         }
         if debug_mode:
             print("UID result: " + JSON.stringify(result))
@@ -1674,11 +2151,24 @@ func resave_resources(params):
     if debug_mode:
         print("Found " + str(scenes.size()) + " scenes")
     
+    # Get all .gd and .shader files
+    if debug_mode:
+        print("Searching for script and shader files in: " + project_path)
+    var scripts = find_files(project_path, ".gd") + find_files(project_path, ".shader") + find_files(project_path, ".gdshader")
+    if debug_mode:
+        print("Found " + str(scripts.size()) + " scripts/shaders")
+    
+    var total_resources = scenes.size() + scripts.size()
+    var processed = 0
+    report_progress(0, total_resources, "Found " + str(total_resources) + " resources")
+    
     # Resave each scene
     var success_count = 0
     var error_count = 0
     
     for scene_path in scenes:
+        processed += 1
+        report_progress(processed, total_resources, "resaved " + str(processed) + "/" + str(total_resources) + " resources")
         if debug_mode:
             print("Processing scene: " + scene_path)
         
@@ -1719,18 +2209,13 @@ func resave_resources(params):
             error_count += 1
             printerr("Failed to load: " + scene_path)
     
-    # Get all .gd and .shader files
-    if debug_mode:
-        print("Searching for script and shader files in: " + project_path)
-    var scripts = find_files(project_path, ".gd") + find_files(project_path, ".shader") + find_files(project_path, ".gdshader")
-    if debug_mode:
-        print("Found " + str(scripts.size()) + " scripts/shaders")
-    
     # Check for missing .uid files
     var missing_uids = 0
     var generated_uids = 0
     
     for script_path in scripts:
+        processed += 1
+        report_progress(processed, total_resources, "resaved " + str(processed) + "/" + str(total_resources) + " resources")
         if debug_mode:
             print("Checking UID for: " + script_path)
         var uid_path = script_path + ".uid"
@@ -3792,6 +4277,13 @@ func configure_physics(params):
     if debug_mode:
         print("Configuring physics properties")
     
+    # Physics interpolation, set by value like the other enum properties of the tools
+    if props.has("physics_interpolation_mode"):
+        var interpolation_modes = {"inherit": 0, "on": 1, "off": 2}
+        node.set("physics_interpolation_mode", interpolation_modes[props.physics_interpolation_mode])
+        if debug_mode:
+            print("Set physics_interpolation_mode: " + props.physics_interpolation_mode)
+    
     # RigidBody properties
     if node is RigidBody2D or node is RigidBody3D:
         if props.has("mass"):
@@ -5127,6 +5619,27 @@ func add_particles(params):
             particles.emitting = props.emitting
             if debug_mode:
                 print("Set emitting: " + str(props.emitting))
+        
+        # Newer properties; the server refuses them for engines that do not have them
+        if props.has("amount_ratio"):
+            particles.amount_ratio = props.amount_ratio
+            if debug_mode:
+                print("Set amount_ratio: " + str(props.amount_ratio))
+        
+        if props.has("interp_to_end"):
+            particles.interp_to_end = props.interp_to_end
+            if debug_mode:
+                print("Set interp_to_end: " + str(props.interp_to_end))
+        
+        if props.has("use_fixed_seed"):
+            particles.use_fixed_seed = props.use_fixed_seed
+            if debug_mode:
+                print("Set use_fixed_seed: " + str(props.use_fixed_seed))
+        
+        if props.has("seed"): # Godot 4.4+
+            particles.seed = int(props.seed)
+            if debug_mode:
+                print("Set seed: " + str(props.seed))
     
     # Create and configure ParticleProcessMaterial if properties provided
     if params.has("process_material"):
@@ -5218,6 +5731,22 @@ func add_particles(params):
         printerr("Failed to pack scene: " + str(result))
         quit(1)
 
+# Print the engine defaults of project settings as text Variants, null for settings the engine does not define
+func get_project_setting_defaults(params):
+    if not params.has("names"):
+        printerr("Missing required parameter: names")
+        quit(1)
+    
+    var defaults = {}
+    for setting_name in params.names:
+        # The revert value is the initial value the engine registered, whatever the project sets
+        var default_value = ProjectSettings.property_get_revert(setting_name) if ProjectSettings.has_setting(setting_name) else null
+        defaults[setting_name] = null if default_value == null else var_to_str(default_value)
+    
+    if debug_mode:
+        print("Read defaults of " + str(defaults.size()) + " setting(s)")
+    print(JSON.stringify({"defaults": defaults}))
+
 # Update project settings in project.godot file
 func update_project_settings(params):
     print("Updating project settings...")
@@ -5781,7 +6310,12 @@ func list_missing_assets(params):
         print("Found " + str(resource_references.size()) + " resource references")
     
     # Check each referenced resource to see if it exists
-    for resource_path in resource_references.keys():
+    # Progress continues from the scan, so it keeps increasing
+    var referenced_paths = resource_references.keys()
+    var checked_references = 0
+    for resource_path in referenced_paths:
+        checked_references += 1
+        report_progress(checked_paths.size() + checked_references, checked_paths.size() + referenced_paths.size(), "checked " + str(checked_references) + "/" + str(referenced_paths.size()) + " references")
         var referenced_by = resource_references[resource_path] as Array
         
         # Skip if not checking this type
@@ -5826,8 +6360,49 @@ func list_missing_assets(params):
     
     print(JSON.stringify(result))
 
+# Build the dependency graph of the project: ext_resource references of scenes
+# and resources, preload and load calls in scripts, autoloads and the main scene
+func dependency_graph(params):
+    print("Building dependency graph...")
+    
+    var references: Dictionary = {}
+    var checked_paths: Array[String] = []
+    var edges: Array[Dictionary] = []
+    _scan_directory_for_references("res://", references, checked_paths, edges)
+    
+    # project.godot pulls in the main scene and the autoloads
+    var main_scene = str(ProjectSettings.get_setting("application/run/main_scene", ""))
+    if main_scene != "":
+        edges.append({"from": "res://project.godot", "to": _resource_path_of(main_scene), "kind": "main_scene"})
+    for property in ProjectSettings.get_property_list():
+        var setting_name: String = property.name
+        if setting_name.begins_with("autoload/"):
+            # A leading "*" marks an autoload that is added as a node
+            var autoload_path = str(ProjectSettings.get_setting(setting_name)).trim_prefix("*")
+            edges.append({"from": "res://project.godot", "to": _resource_path_of(autoload_path), "kind": "autoload", "name": setting_name.trim_prefix("autoload/")})
+    
+    if debug_mode:
+        print("Found " + str(edges.size()) + " dependencies in " + str(checked_paths.size()) + " files")
+    
+    var result = {
+        "success": true,
+        "files": checked_paths,
+        "edges": edges
+    }
+    
+    print(JSON.stringify(result))
+
+# The res:// path of a uid:// path, or the path itself
+func _resource_path_of(path: String) -> String:
+    if path.begins_with("uid://"):
+        var id = ResourceUID.text_to_id(path)
+        if ResourceUID.has_id(id):
+            return ResourceUID.get_id_path(id)
+    return path
+
 # Recursively scan directory for resource references
-func _scan_directory_for_references(dir_path: String, references: Dictionary, checked_paths: Array):
+# If edges is given, the dependencies of each file are added to it as well
+func _scan_directory_for_references(dir_path: String, references: Dictionary, checked_paths: Array, edges = null):
     var dir = DirAccess.open(dir_path)
     if not dir:
         if debug_mode:
@@ -5847,20 +6422,21 @@ func _scan_directory_for_references(dir_path: String, references: Dictionary, ch
         
         if dir.current_is_dir():
             # Recursively scan subdirectories
-            _scan_directory_for_references(full_path, references, checked_paths)
+            _scan_directory_for_references(full_path, references, checked_paths, edges)
         else:
             # Check if this is a file we should scan
             var ext = file_name.get_extension().to_lower()
             if ext in ["tscn", "tres", "gd", "gdscript"]:
                 checked_paths.append(full_path)
-                _extract_resource_references(full_path, references)
+                _extract_resource_references(full_path, references, edges)
+                report_progress(checked_paths.size(), 0, "scanned " + str(checked_paths.size()) + " files")
         
         file_name = dir.get_next()
     
     dir.list_dir_end()
 
 # Extract resource references from a file
-func _extract_resource_references(file_path: String, references: Dictionary):
+func _extract_resource_references(file_path: String, references: Dictionary, edges = null):
     var file = FileAccess.open(file_path, FileAccess.READ)
     if not file:
         if debug_mode:
@@ -5904,6 +6480,22 @@ func _extract_resource_references(file_path: String, references: Dictionary):
                 var refs = references[resource_path] as Array
                 if not refs.has(file_path):
                     refs.append(file_path)
+    
+    if edges != null:
+        _extract_dependencies(file_path, content, edges)
+
+# Add the dependencies of a file to edges, once per target and kind
+func _extract_dependencies(file_path: String, content: String, edges: Array):
+    var found = {}
+    for kind in DEPENDENCY_PATTERNS:
+        var regex = RegEx.new()
+        regex.compile(DEPENDENCY_PATTERNS[kind])
+        for match_result in regex.search_all(content):
+            var target = match_result.get_string(1)
+            var key = kind + " " + target
+            if not found.has(key):
+                found[key] = true
+                edges.append({"from": file_path, "to": target, "kind": kind})
 
 # Get the type of a resource based on its extension
 func _get_resource_type(resource_path: String) -> String:
@@ -0,0 +1,219 @@
+/**
+ * Session Logs for the Godot MCP Server
+ *
+ * This module keeps the console output of a running Godot session in a ring
+ * buffer of numbered lines, so long play sessions use bounded memory and
+ * clients can read only the lines they have not seen yet. Each line is
+ * classified as an error, warning, engine message or game print, so a client
+ * can ask for just the errors.
+ */
+
+/**
+ * Default number of lines kept per session
+ */
+export const DEFAULT_SESSION_LOG_LINES = 10000;
+
+/**
+ * Default number of lines returned by one read
+ */
+export const DEFAULT_LOG_READ_LINES = 200;
+
+export const LOG_LEVELS = ['error', 'warning', 'info', 'print'] as const;
+
+export type LogLevel = typeof LOG_LEVELS[number];
+
+export type LogStream = 'stdout' | 'stderr';
+
+/**
+ * Interface for one line of session output
+ */
+export interface LogLine {
+  line: number; // Position in the session output, starting at 1
+  stream: LogStream;
+  level: LogLevel;
+  text: string;
+}
+
+/**
+ * Interface for a read of session output
+ */
+export interface LogQuery {
+  sinceLine?: number; // Only lines after this one (0 or omitted: from the oldest kept line)
+  levels?: LogLevel[];
+  search?: RegExp;
+  maxLines?: number; // Matching lines returned at most
+}
+
+/**
+ * Interface for the result of a read
+ */
+export interface LogPage {
+  lines: LogLine[];
+  nextCursor: number; // Pass as sinceLine to continue after the last line read
+  hasMore: boolean; // Lines after nextCursor were not read yet because maxLines was reached
+  skipped: number; // Lines after sinceLine that were dropped from the buffer before they were read
+  totalLines: number; // Lines received since the session started
+}
+
+// Godot prefixes errors and warnings, and indents the location lines that follow them
+const ERROR_PATTERN = /^\s*(?:USER |SCRIPT |SHADER )?ERROR:/;
+const WARNING_PATTERN = /^\s*(?:USER |SCRIPT |SHADER )?WARNING:/;
+const CONTINUATION_PATTERN = /^\s+(?:at:|GDScript backtrace|\[\d+\])/;
+
+// Engine banner, renderer and verbose messages, and the [INFO]/[DEBUG] lines of the operations script
+const INFO_PATTERN = /^(?:Godot Engine v|(?:OpenGL|Vulkan|Metal|D3D12) API |\[(?:INFO|DEBUG)\] |Loading resource: |Loaded builtin certs)/;
+
+/**
+ * Classify a line of Godot output
+ * @param previous Level of the previous line of the same stream, inherited by location lines
+ */
+export function classifyLine(text: string, previous?: LogLevel): LogLevel {
+  if (ERROR_PATTERN.test(text)) {
+    return 'error';
+  }
+  if (WARNING_PATTERN.test(text)) {
+    return 'warning';
+  }
+  if (previous && CONTINUATION_PATTERN.test(text)) {
+    return previous;
+  }
+  if (INFO_PATTERN.test(text)) {
+    return 'info';
+  }
+  return 'print';
+}
+
+/**
+ * Ring buffer of the output of one session
+ */
+export class SessionLog {
+  readonly maxLines: number;
+  private buffer: LogLine[] = [];
+  private start: number = 0; // Index of the oldest line once the buffer is full
+  private nextLine: number = 1;
+  private partial: Record<LogStream, string> = { stdout: '', stderr: '' };
+  private lastLevel: Partial<Record<LogStream, LogLevel>> = {};
+  private streamLines: Record<LogStream, number> = { stdout: 0, stderr: 0 };
+  private onLine?: (line: LogLine) => void;
+
+  /**
+   * @param onLine Called with every line as it is added
+   */
+  constructor(maxLines: number = DEFAULT_SESSION_LOG_LINES, onLine?: (line: LogLine) => void) {
+    this.maxLines = Math.max(1, Math.floor(maxLines));
+    this.onLine = onLine;
+  }
+
+  /**
+   * Add output as it arrives. A line split across chunks is added once complete.
+   */
+  append(stream: LogStream, chunk: string): void {
+    const lines = (this.partial[stream] + chunk).split('\n');
+    this.partial[stream] = lines.pop() ?? '';
+    for (const line of lines) {
+      this.add(stream, line.endsWith('\r') ? line.slice(0, -1) : line);
+    }
+  }
+
+  /**
+   * Add the unterminated last lines, once the process has exited
+   */
+  flush(): void {
+    for (const stream of ['stdout', 'stderr'] as const) {
+      if (this.partial[stream] !== '') {
+        this.add(stream, this.partial[stream]);
+        this.partial[stream] = '';
+      }
+    }
+  }
+
+  /**
+   * Lines received since the session started, including dropped ones
+   */
+  get totalLines(): number {
+    return this.nextLine - 1;
+  }
+
+  /**
+   * Lines dropped to stay within maxLines
+   */
+  get droppedLines(): number {
+    return this.totalLines - this.buffer.length;
+  }
+
+  /**
+   * Lines received on one stream since the session started
+   */
+  linesOf(stream: LogStream): number {
+    return this.streamLines[stream];
+  }
+
+  /**
+   * Read the lines after a cursor that match a filter
+   */
+  read(query: LogQuery = {}): LogPage {
+    const sinceLine = Math.max(0, Math.floor(query.sinceLine ?? 0));
+    const maxLines = Math.max(1, Math.floor(query.maxLines ?? DEFAULT_LOG_READ_LINES));
+    const levels = query.levels && query.levels.length > 0 ? new Set(query.levels) : null;
+    const oldest = this.nextLine - this.buffer.length;
+
+    const lines: LogLine[] = [];
+    let cursor = Math.max(sinceLine, oldest - 1);
+    let index = cursor - oldest + 1;
+    for (; index < this.buffer.length && lines.length < maxLines; index++) {
+      const line = this.at(index);
+      cursor = line.line;
+      if (levels && !levels.has(line.level)) {
+        continue;
+      }
+      if (query.search && !query.search.test(line.text)) {
+        continue;
+      }
+      lines.push(line);
+    }
+
+    return {
+      lines,
+      nextCursor: Math.min(cursor, this.totalLines),
+      hasMore: index < this.buffer.length,
+      skipped: Math.max(0, oldest - 1 - sinceLine),
+      totalLines: this.totalLines,
+    };
+  }
+
+  /**
+   * The most recent lines of a stream, oldest first
+   */
+  tail(stream: LogStream, count: number): string[] {
+    const lines: string[] = [];
+    for (let index = this.buffer.length - 1; index >= 0 && lines.length < count; index--) {
+      const line = this.at(index);
+      if (line.stream === stream) {
+        lines.push(line.text);
+      }
+    }
+    return lines.reverse();
+  }
+
+  private add(stream: LogStream, text: string): void {
+    const level = classifyLine(text, this.lastLevel[stream]);
+    this.lastLevel[stream] = level;
+    this.streamLines[stream]++;
+
+    const line: LogLine = { line: this.nextLine++, stream, level, text };
+    if (this.buffer.length < this.maxLines) {
+      this.buffer.push(line);
+    } else {
+      this.buffer[this.start] = line;
+      this.start = (this.start + 1) % this.maxLines;
+    }
+    this.onLine?.(line);
+  }
+
+  /**
+   * Line at a position in the buffer, 0 being the oldest kept line
+   */
+  private at(index: number): LogLine {
+    return this.buffer[(this.start + index) % this.buffer.length];
+  }
+}
@@ -0,0 +1,238 @@
+/**
+ * Text Diffs for the Godot MCP Server
+ *
+ * This module compares two versions of a file line by line and formats the
+ * differences as a unified diff, the format used by git and patch, so changes
+ * to scenes, resources and scripts can be reviewed before or after they are
+ * written.
+ */
+
+/**
+ * Interface for unified diff options
+ */
+export interface UnifiedDiffOptions {
+  oldLabel?: string; // Name after "---", "/dev/null" for a new file
+  newLabel?: string; // Name after "+++", "/dev/null" for a deleted file
+  context?: number; // Unchanged lines shown around each change (default 3)
+}
+
+/**
+ * Interface for a single line of a line diff
+ */
+export interface DiffLine {
+  type: 'equal' | 'delete' | 'insert';
+  text: string; // Line including its line break, if it has one
+  oldIndex: number; // Index of the line in the old text, or of the next old line for inserts
+  newIndex: number; // Index of the line in the new text, or of the next new line for deletes
+}
+
+// Frontier entries kept while searching (about 32 MB) before a diff gives up
+// and replaces the whole changed region instead
+const MAX_TRACE_SIZE = 8 * 1024 * 1024;
+
+/**
+ * Split text into lines, keeping each line's line break
+ */
+export function splitLines(text: string): string[] {
+  const lines = text.match(/[^\n]*\n|[^\n]+$/g);
+  return lines ?? [];
+}
+
+/**
+ * Check whether content looks binary (contains a NUL byte)
+ */
+export function isBinary(content: Buffer | string): boolean {
+  return typeof content === 'string' ? content.includes('\0') : content.includes(0);
+}
+
+/**
+ * Compare two texts line by line with the Myers algorithm
+ * @returns Every line of both texts, marked equal, deleted or inserted
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+
+  // Lines shared at the start and end are equal and need no search
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const result: DiffLine[] = [];
+  for (let i = 0; i < prefix; i++) {
+    result.push({ type: 'equal', text: a[i], oldIndex: i, newIndex: i });
+  }
+
+  const middle = myers(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix));
+  for (const line of middle) {
+    result.push({ ...line, oldIndex: line.oldIndex + prefix, newIndex: line.newIndex + prefix });
+  }
+
+  for (let i = suffix; i > 0; i--) {
+    result.push({ type: 'equal', text: a[a.length - i], oldIndex: a.length - i, newIndex: b.length - i });
+  }
+  return result;
+}
+
+/**
+ * Format the differences between two texts as a unified diff
+ * @returns The diff, or an empty string if the texts are equal
+ */
+export function unifiedDiff(oldText: string, newText: string, options: UnifiedDiffOptions = {}): string {
+  if (oldText === newText) {
+    return '';
+  }
+
+  const context = options.context ?? 3;
+  const lines = diffLines(oldText, newText);
+  const output = [`--- ${options.oldLabel ?? 'a'}`, `+++ ${options.newLabel ?? 'b'}`];
+
+  for (const [start, end] of hunkRanges(lines, context)) {
+    const hunk = lines.slice(start, end);
+    const oldCount = hunk.filter(line => line.type !== 'insert').length;
+    const newCount = hunk.filter(line => line.type !== 'delete').length;
+    const oldStart = oldCount === 0 ? hunk[0].oldIndex : hunk[0].oldIndex + 1;
+    const newStart = newCount === 0 ? hunk[0].newIndex : hunk[0].newIndex + 1;
+    output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+
+    for (const line of hunk) {
+      const marker = line.type === 'equal' ? ' ' : line.type === 'delete' ? '-' : '+';
+      if (line.text.endsWith('\n')) {
+        output.push(marker + line.text.slice(0, -1));
+      } else {
+        output.push(marker + line.text, '\\ No newline at end of file');
+      }
+    }
+  }
+
+  return output.join('\n') + '\n';
+}
+
+/**
+ * Unified diff of two file versions, where null stands for a missing file
+ * @param path Project-relative path shown in the diff headers
+ */
+export function fileDiff(path: string, before: Buffer | string | null, after: Buffer | string | null): string {
+  const oldLabel = before === null ? '/dev/null' : `a/${path}`;
+  const newLabel = after === null ? '/dev/null' : `b/${path}`;
+
+  if ((before !== null && isBinary(before)) || (after !== null && isBinary(after))) {
+    const same = before !== null && after !== null && toBuffer(before).equals(toBuffer(after));
+    return same ? '' : `Binary files ${oldLabel} and ${newLabel} differ\n`;
+  }
+
+  return unifiedDiff(before?.toString() ?? '', after?.toString() ?? '', { oldLabel, newLabel });
+}
+
+/**
+ * Bytes of file content
+ */
+function toBuffer(content: Buffer | string): Buffer {
+  return typeof content === 'string' ? Buffer.from(content) : content;
+}
+
+/**
+ * Ranges of diff lines that form hunks: each change with its context,
+ * merged when the context of two changes overlaps
+ */
+function hunkRanges(lines: DiffLine[], context: number): Array<[number, number]> {
+  const ranges: Array<[number, number]> = [];
+  lines.forEach((line, index) => {
+    if (line.type === 'equal') {
+      return;
+    }
+    const start = Math.max(0, index - context);
+    const end = Math.min(lines.length, index + context + 1);
+    const last = ranges[ranges.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = end;
+    } else {
+      ranges.push([start, end]);
+    }
+  });
+  return ranges;
+}
+
+/**
+ * Shortest edit script between two line arrays (Myers, "An O(ND) Difference
+ * Algorithm"). Very different inputs are reported as one replacement.
+ */
+function myers(a: string[], b: string[]): DiffLine[] {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  let found = false;
+  for (let d = 0; d <= max && !found; d++) {
+    if ((d + 1) * v.length > MAX_TRACE_SIZE) {
+      return replaceAll(a, b);
+    }
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+  }
+
+  // Walk back through the saved frontiers to recover the edits
+  const result: DiffLine[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const frontier = trace[d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && frontier[offset + k - 1] < frontier[offset + k + 1]) ? k + 1 : k - 1;
+    const prevX = d === 0 ? 0 : frontier[offset + prevK];
+    const prevY = d === 0 ? 0 : prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      x--;
+      y--;
+      result.push({ type: 'equal', text: a[x], oldIndex: x, newIndex: y });
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        y--;
+        result.push({ type: 'insert', text: b[y], oldIndex: x, newIndex: y });
+      } else {
+        x--;
+        result.push({ type: 'delete', text: a[x], oldIndex: x, newIndex: y });
+      }
+    }
+  }
+
+  return result.reverse();
+}
+
+/**
+ * Edit script that deletes every old line and inserts every new one
+ */
+function replaceAll(a: string[], b: string[]): DiffLine[] {
+  return [
+    ...a.map((text, index) => ({ type: 'delete' as const, text, oldIndex: index, newIndex: 0 })),
+    ...b.map((text, index) => ({ type: 'insert' as const, text, oldIndex: a.length, newIndex: index })),
+  ];
+}
@@ -0,0 +1,584 @@
+/**
+ * Text Resources for the Godot MCP Server
+ *
+ * This module parses Godot's text scene and resource formats (.tscn, .tres):
+ * the [gd_scene] or [gd_resource] header, ext_resource, sub_resource, node,
+ * connection and editable sections, and the property values in them. Every
+ * section and property keeps the exact text it was read from, so writing a
+ * document back gives the same bytes, and only what was changed is formatted
+ * anew. The scene helpers build the node tree, so read-only tools can answer
+ * without starting Godot.
+ */
+
+import { readFileSync } from 'fs';
+import {
+  Variant,
+  VariantReader,
+  VariantResource,
+  VariantSyntaxError,
+  formatString,
+  formatVariant,
+  parseVariant,
+} from './godot-variant.js';
+
+/**
+ * Error raised for a file that is not in the text resource format
+ */
+export class TextResourceError extends Error {
+  readonly line: number;
+
+  constructor(message: string, line: number) {
+    super(`Line ${line}: ${message}`);
+    this.name = 'TextResourceError';
+    this.line = line;
+  }
+}
+
+/**
+ * Interface for an attribute of a section header, e.g. type="Node2D"
+ */
+interface SectionAttribute {
+  name: string;
+  value: Variant;
+  text: string; // The value as written
+}
+
+/**
+ * Interface for a property line of a section
+ */
+interface SectionProperty {
+  key: string;
+  value: Variant;
+  leading: string; // Text between the previous element and this property
+  text: string | null; // The property as written; null once changed
+  keyText: string; // The key as written, quoted or not
+}
+
+// Property keys that need no quotes, e.g. position, metadata/_edit_group_ or 0:0/0/physics_layer_0/polygon_0/points
+const PLAIN_KEY_PATTERN = /^[^\s="\[\]]+$/;
+const KEY_PATTERN = /[^\s=]+/y;
+
+/**
+ * A section of a text resource: its header and the properties under it
+ */
+export class ResourceSection {
+  readonly tag: string;
+  leading: string; // Text between the previous section and this header
+  private attributes: SectionAttribute[];
+  private headerText: string | null; // The header as written; null once changed
+  private entries: SectionProperty[] = [];
+
+  constructor(tag: string, attributes: Array<[string, Variant]> = [], leading: string = '') {
+    this.tag = tag;
+    this.leading = leading;
+    this.attributes = attributes.map(([name, value]) => ({ name, value, text: formatVariant(value) }));
+    this.headerText = null;
+  }
+
+  /**
+   * Value of a header attribute
+   */
+  attribute(name: string): Variant | undefined {
+    return this.attributes.find(attribute => attribute.name === name)?.value;
+  }
+
+  /**
+   * Value of a header attribute that holds a string
+   */
+  stringAttribute(name: string): string | undefined {
+    const value = this.attribute(name);
+    return typeof value === 'string' ? value : undefined;
+  }
+
+  /**
+   * All header attributes, in file order
+   */
+  attributeList(): Array<[string, Variant]> {
+    return this.attributes.map(attribute => [attribute.name, attribute.value]);
+  }
+
+  /**
+   * Set a header attribute; new attributes are added at the end
+   */
+  setAttribute(name: string, value: Variant): void {
+    const text = formatVariant(value);
+    const existing = this.attributes.find(attribute => attribute.name === name);
+    if (existing) {
+      if (existing.text === text) {
+        return;
+      }
+      existing.value = value;
+      existing.text = text;
+    } else {
+      this.attributes.push({ name, value, text });
+    }
+    this.headerText = null;
+  }
+
+  /**
+   * Remove a header attribute
+   */
+  removeAttribute(name: string): void {
+    const index = this.attributes.findIndex(attribute => attribute.name === name);
+    if (index >= 0) {
+      this.attributes.splice(index, 1);
+      this.headerText = null;
+    }
+  }
+
+  /**
+   * Value of a property
+   */
+  get(key: string): Variant | undefined {
+    return this.entries.find(entry => entry.key === key)?.value;
+  }
+
+  /**
+   * Whether the section sets a property
+   */
+  has(key: string): boolean {
+    return this.entries.some(entry => entry.key === key);
+  }
+
+  /**
+   * The value of a property as written in the file
+   */
+  valueText(key: string): string | undefined {
+    const entry = this.entries.find(candidate => candidate.key === key);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.text === null) {
+      return formatVariant(entry.value);
+    }
+    return entry.text.slice(entry.text.indexOf('=') + 1).trimStart();
+  }
+
+  /**
+   * All properties, in file order
+   */
+  properties(): Array<[string, Variant]> {
+    return this.entries.map(entry => [entry.key, entry.value]);
+  }
+
+  /**
+   * Set a property; new properties are added at the end of the section
+   */
+  set(key: string, value: Variant): void {
+    this.setText(key, formatVariant(value), value);
+  }
+
+  /**
+   * Set a property to a value written as text, e.g. copied from another file
+   * @throws VariantSyntaxError if the text is not a valid value
+   */
+  setText(key: string, valueText: string, value: Variant = parseVariant(valueText)): void {
+    const existing = this.entries.find(entry => entry.key === key);
+    if (existing) {
+      if (existing.text !== null && this.valueText(key) === valueText) {
+        return;
+      }
+      existing.value = value;
+      existing.text = `${existing.keyText} = ${valueText}`;
+      return;
+    }
+    const keyText = PLAIN_KEY_PATTERN.test(key) ? key : formatString(key);
+    this.entries.push({ key, value, leading: '\n', text: `${keyText} = ${valueText}`, keyText });
+  }
+
+  /**
+   * Remove a property
+   * @returns false if the section did not set it
+   */
+  delete(key: string): boolean {
+    const index = this.entries.findIndex(entry => entry.key === key);
+    if (index < 0) {
+      return false;
+    }
+    this.entries.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * The header line, e.g. [node name="Player" type="CharacterBody2D" parent="."]
+   */
+  headerLine(): string {
+    if (this.headerText !== null) {
+      return this.headerText;
+    }
+    const attributes = this.attributes.map(attribute => ` ${attribute.name}=${attribute.text}`).join('');
+    return `[${this.tag}${attributes}]`;
+  }
+
+  /**
+   * The section as it is written to the file, with the text before it
+   */
+  toString(): string {
+    const properties = this.entries.map(entry => entry.leading + (entry.text ?? `${entry.keyText} = ${formatVariant(entry.value)}`));
+    return this.leading + this.headerLine() + properties.join('');
+  }
+
+  /**
+   * Used by the parser to keep the header exactly as written
+   */
+  static read(tag: string, attributes: SectionAttribute[], headerText: string, leading: string): ResourceSection {
+    const section = new ResourceSection(tag, [], leading);
+    section.attributes = attributes;
+    section.headerText = headerText;
+    return section;
+  }
+
+  /**
+   * Used by the parser to add a property exactly as written
+   */
+  addRead(entry: SectionProperty): void {
+    this.entries.push(entry);
+  }
+}
+
+/**
+ * A parsed .tscn or .tres file
+ */
+export class TextResource {
+  readonly sections: ResourceSection[];
+  trailing: string; // Text after the last section, usually the final line break
+
+  constructor(sections: ResourceSection[], trailing: string = '\n') {
+    this.sections = sections;
+    this.trailing = trailing;
+  }
+
+  /**
+   * Parse the text of a .tscn or .tres file
+   * @throws TextResourceError if the text is not in the text resource format
+   */
+  static parse(text: string): TextResource {
+    const reader = new VariantReader(text);
+    const sections: ResourceSection[] = [];
+    let mark = 0;
+
+    try {
+      while (true) {
+        reader.skipSpace();
+        if (reader.pos >= text.length) {
+          break;
+        }
+        const start = reader.pos;
+        const leading = text.slice(mark, start);
+
+        if (text[start] === '[') {
+          reader.pos++;
+          const tag = reader.readIdentifier();
+          const attributes: SectionAttribute[] = [];
+          while (true) {
+            reader.skipSpace();
+            if (text[reader.pos] === ']') {
+              reader.pos++;
+              break;
+            }
+            const name = reader.readIdentifier();
+            reader.expect('=');
+            reader.skipSpace();
+            const valueStart = reader.pos;
+            const value = reader.readValue();
+            attributes.push({ name, value, text: text.slice(valueStart, reader.pos) });
+          }
+          sections.push(ResourceSection.read(tag, attributes, text.slice(start, reader.pos), leading));
+        } else {
+          const section = sections[sections.length - 1];
+          if (!section) {
+            throw new VariantSyntaxError('Expected a section header such as [gd_scene]', start);
+          }
+          let key: string;
+          if (text[start] === '"') {
+            key = reader.readString();
+          } else {
+            KEY_PATTERN.lastIndex = start;
+            key = KEY_PATTERN.exec(text)![0];
+            reader.pos += key.length;
+          }
+          const keyText = text.slice(start, reader.pos);
+          reader.expect('=');
+          const value = reader.readValue();
+          section.addRead({ key, value, leading, text: text.slice(start, reader.pos), keyText });
+        }
+        mark = reader.pos;
+      }
+    } catch (error: unknown) {
+      if (error instanceof VariantSyntaxError) {
+        throw new TextResourceError(error.message, lineAt(text, error.position));
+      }
+      throw error;
+    }
+
+    if (sections.length === 0 || (sections[0].tag !== 'gd_scene' && sections[0].tag !== 'gd_resource')) {
+      throw new TextResourceError('The file does not start with [gd_scene] or [gd_resource]', 1);
+    }
+    return new TextResource(sections, text.slice(mark));
+  }
+
+  /**
+   * Read and parse a file
+   * @throws TextResourceError if the file is not in the text resource format
+   */
+  static read(path: string): TextResource {
+    return TextResource.parse(readFileSync(path, 'utf8'));
+  }
+
+  /**
+   * The [gd_scene] or [gd_resource] header
+   */
+  get header(): ResourceSection {
+    return this.sections[0];
+  }
+
+  /**
+   * Whether the file is a scene or a resource
+   */
+  get kind(): 'scene' | 'resource' {
+    return this.header.tag === 'gd_scene' ? 'scene' : 'resource';
+  }
+
+  /**
+   * Sections with a tag, in file order
+   */
+  sectionsOf(tag: string): ResourceSection[] {
+    return this.sections.filter(section => section.tag === tag);
+  }
+
+  /**
+   * The sub_resource or ext_resource section with an id
+   */
+  resourceSection(reference: VariantResource): ResourceSection | undefined {
+    const tag = reference.kind === 'ExtResource' ? 'ext_resource' : 'sub_resource';
+    return this.sections.find(section => section.tag === tag && idOf(section) === reference.id);
+  }
+
+  /**
+   * Add a section, by default after the last section with the same tag, or at the end.
+   * ext_resource sections follow each other directly, other sections are separated by a blank line.
+   */
+  addSection(section: ResourceSection, index?: number): void {
+    if (index === undefined) {
+      let last = -1;
+      this.sections.forEach((candidate, position) => {
+        if (candidate.tag === section.tag) {
+          last = position;
+        }
+      });
+      index = last >= 0 ? last + 1 : this.sections.length;
+    }
+    const previous = this.sections[index - 1];
+    section.leading = !previous ? '' : previous.tag === 'ext_resource' && section.tag === 'ext_resource' ? '\n' : '\n\n';
+    this.sections.splice(index, 0, section);
+    this.updateLoadSteps();
+  }
+
+  /**
+   * Remove a section
+   */
+  removeSection(section: ResourceSection): void {
+    const index = this.sections.indexOf(section);
+    if (index > 0) {
+      const next = this.sections[index + 1];
+      // The next section of a group, such as the ext_resource lines, takes the blank line before the group
+      if (next && next.tag === section.tag && this.sections[index - 1].tag !== section.tag) {
+        next.leading = section.leading;
+      }
+      this.sections.splice(index, 1);
+      this.updateLoadSteps();
+    }
+  }
+
+  /**
+   * The document as it is written to the file
+   */
+  toString(): string {
+    return this.sections.map(section => section.toString()).join('') + this.trailing;
+  }
+
+  /**
+   * Keep load_steps, where the header has it, at the number of resources plus one
+   */
+  private updateLoadSteps(): void {
+    if (this.header.attribute('load_steps') !== undefined) {
+      const resources = this.sections.filter(section => section.tag === 'ext_resource' || section.tag === 'sub_resource').length;
+      this.header.setAttribute('load_steps', resources + 1);
+    }
+  }
+}
+
+/**
+ * Interface for an ext_resource section
+ */
+export interface ExtResource {
+  id: string;
+  type: string;
+  path: string;
+  uid?: string;
+}
+
+/**
+ * Interface for a node of a scene
+ */
+export interface SceneNode {
+  name: string;
+  path: string; // Relative to the root, which is "."
+  parent: string | null; // Path of the parent; null for the root
+  type?: string; // Omitted for instanced scenes and nodes of an instanced scene that are only overridden
+  instance?: VariantResource; // ExtResource of the instanced scene
+  groups: string[];
+  section: ResourceSection;
+}
+
+/**
+ * Interface for a signal connection of a scene
+ */
+export interface SceneConnection {
+  signal: string;
+  from: string; // Path of the emitting node
+  to: string; // Path of the receiving node
+  method: string;
+  flags?: number;
+  binds?: Variant[];
+  unbinds?: number;
+  section: ResourceSection;
+}
+
+/**
+ * The id of an ext_resource or sub_resource section
+ */
+export function idOf(section: ResourceSection): string {
+  const id = section.attribute('id');
+  return typeof id === 'number' ? String(id) : typeof id === 'string' ? id : '';
+}
+
+/**
+ * The ext_resource sections by id
+ */
+export function extResources(document: TextResource): Map<string, ExtResource> {
+  const resources: Map<string, ExtResource> = new Map();
+  for (const section of document.sectionsOf('ext_resource')) {
+    const resource: ExtResource = {
+      id: idOf(section),
+      type: section.stringAttribute('type') ?? '',
+      path: section.stringAttribute('path') ?? '',
+    };
+    const uid = section.stringAttribute('uid');
+    if (uid) {
+      resource.uid = uid;
+    }
+    resources.set(resource.id, resource);
+  }
+  return resources;
+}
+
+/**
+ * The nodes of a scene, in file order (parents before their children)
+ */
+export function sceneNodes(document: TextResource): SceneNode[] {
+  return document.sectionsOf('node').map(section => {
+    const name = section.stringAttribute('name') ?? '';
+    const parentAttribute = section.attribute('parent');
+    const parent = typeof parentAttribute === 'string' ? parentAttribute : null;
+    const node: SceneNode = {
+      name,
+      path: parent === null ? '.' : parent === '.' ? name : `${parent}/${name}`,
+      parent,
+      groups: stringList(section.attribute('groups')),
+      section,
+    };
+    const type = section.stringAttribute('type');
+    if (type) {
+      node.type = type;
+    }
+    const instance = section.attribute('instance');
+    if (instance && typeof instance === 'object' && !Array.isArray(instance) && instance.kind === 'ExtResource') {
+      node.instance = instance;
+    }
+    return node;
+  });
+}
+
+/**
+ * Find a node by path: "root" or "." for the root node, and paths relative
+ * to the root with or without a "root/" prefix
+ */
+export function findSceneNode(nodes: SceneNode[], nodePath: string): SceneNode | undefined {
+  return nodes.find(node => node.path === normalizeNodePath(nodePath));
+}
+
+/**
+ * Normalize a node path to the form used in parent attributes
+ */
+export function normalizeNodePath(nodePath: string): string {
+  const trimmed = nodePath.trim().replace(/^\.\//, '').replace(/\/+$/, '');
+  if (trimmed === '' || trimmed === '.' || trimmed === 'root') {
+    return '.';
+  }
+  return trimmed.startsWith('root/') ? trimmed.slice(5) : trimmed;
+}
+
+/**
+ * The children of a node, in file order
+ */
+export function childNodes(nodes: SceneNode[], node: SceneNode): SceneNode[] {
+  return nodes.filter(candidate => candidate.parent === node.path);
+}
+
+/**
+ * The signal connections of a scene, in file order
+ */
+export function sceneConnections(document: TextResource): SceneConnection[] {
+  return document.sectionsOf('connection').map(section => {
+    const connection: SceneConnection = {
+      signal: section.stringAttribute('signal') ?? '',
+      from: section.stringAttribute('from') ?? '',
+      to: section.stringAttribute('to') ?? '',
+      method: section.stringAttribute('method') ?? '',
+      section,
+    };
+    const flags = section.attribute('flags');
+    if (typeof flags === 'number') {
+      connection.flags = flags;
+    }
+    const binds = section.attribute('binds');
+    if (Array.isArray(binds)) {
+      connection.binds = binds;
+    }
+    const unbinds = section.attribute('unbinds');
+    if (typeof unbinds === 'number') {
+      connection.unbinds = unbinds;
+    }
+    return connection;
+  });
+}
+
+/**
+ * Paths of the instanced scenes whose children are editable
+ */
+export function editablePaths(document: TextResource): string[] {
+  return document.sectionsOf('editable').map(section => section.stringAttribute('path') ?? '');
+}
+
+/**
+ * Strings of an array or PackedStringArray attribute, such as groups
+ */
+function stringList(value: Variant | undefined): string[] {
+  const items = Array.isArray(value)
+    ? value
+    : value && typeof value === 'object' && value.kind === 'Constructor'
+      ? value.args
+      : [];
+  return items.map(item => (typeof item === 'string' ? item : item && typeof item === 'object' && !Array.isArray(item) && item.kind === 'StringName' ? item.value : String(item)));
+}
+
+function lineAt(text: string, position: number): number {
+  let line = 1;
+  for (let index = 0; index < position && index < text.length; index++) {
+    if (text[index] === '\n') {
+      line++;
+    }
+  }
+  return line;
+}
@@ -0,0 +1,2345 @@
+/**
+ * Tool Definitions for the Godot MCP Server
+ *
+ * One definition per tool. The input schema is advertised by tools/list,
+ * enforced before the tool's handler runs and used to derive the type of the
+ * handler's arguments.
+ */
+
+import { SchemaType, ToolDefinition } from './tool-schema.js';
+
+export const TOOL_DEFINITIONS = [
+  {
+    name: 'launch_editor',
+    description: 'Launch Godot editor for a specific project',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectPath: {
+          type: 'string',
+          description: 'Path to the Godot project directory',
+        },
+      },
+      required: ['projectPath'],
+    },
+  },
+  {
+    name: 'run_project',
+    description: 'Run the Godot project and capture output. Each run is a separate session, so several instances can run at the same time',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectPath: {
+          type: 'string',
+          description: 'Path to the Godot project directory',
+        },
+        scene: {
+          type: 'string',
+          description: 'Optional: Specific scene to run',
+        },
+        sessionId: {
+          type: 'string',
+          description: 'Optional: Name for the session (e.g., "server", "client1"). Defaults to a generated id',
+        },
+        maxLogLines: {
+          type: 'number',
+          description: 'Optional: Output lines kept for the session; older lines are dropped (default: 10000)',
+        },
+      },
+      required: ['projectPath'],
+    },
+  },
+  {
+    name: 'get_debug_output',
+    description: 'Get the console output of a running or finished session. Lines are numbered; pass nextCursor from the previous call as sinceLine to get only new lines',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        sessionId: {
+          type: 'string',
+          description: 'Optional: Session to read (defaults to the most recently started session)',
+        },
+        sinceLine: {
+          type: 'number',
+          description: 'Optional: Only return lines after this line number, usually nextCursor of the previous call (default: 0, from the oldest kept line)',
+        },
+        levels: {
+          type: 'array',
+          description: 'Optional: Only return lines of these levels',
+          items: {
+            type: 'string',
+            enum: ['error', 'warning', 'info', 'print'],
+          },
+        },
+        search: {
+          type: 'string',
+          description: 'Optional: Only return lines matching this regular expression',
+        },
+        ignoreCase: {
+          type: 'boolean',
+          description: 'Optional: Match search without regard to case (default: false)',
+        },
+        maxLines: {
+          type: 'number',
+          description: 'Optional: Maximum number of lines to return (default: 200)',
+        },
+      },
+      required: [],
+    },
+  },
+  {
+    name: 'stop_project',
+    description: 'Stop a running Godot project session',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        sessionId: {
+          type: 'string',
+          description: 'Optional: Session to stop (required when several sessions are running)',
+        },
+        all: {
+          type: 'boolean',
+          description: 'Optional: Stop every running session',
+        },
+      },
+      required: [],
+    },
+  },
+  {
+    name: 'list_sessions',
+    description: 'List Godot project sessions started by run_project and run_with_debug, with status, exit code, start time and command line',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+      required: [],
+    },
+  },
+  {
+    name: 'subscribe_session_output',
+    description: 'Stream the output of sessions to this client as MCP logging messages (notifications/message), sent as soon as Godot prints each line. Errors and warnings carry their message, and the location lines after them carry the script, line and function',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        sessionId: {
+          type: 'string',
+          description: 'Optional: Session to stream, which may be started after subscribing (default: every session)',
+        },
+        levels: {
+          type: 'array',
+          description: 'Optional: Only stream lines of these levels',
+          items: {
+            type: 'string',
+            enum: ['error', 'warning', 'info', 'print'],
+          },
+        },
+        search: {
+          type: 'string',
+          description: 'Optional: Only stream lines matching this regular expression',
+        },
+        ignoreCase: {
+          type: 'boolean',
+          description: 'Optional: Match search without regard to case (default: false)',
+        },
+      },
+      required: [],
+    },
+  },
+  {
+    name: 'unsubscribe_session_output',
+    description: 'Stop streaming session output started by subscribe_session_output',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        subscriptionId: {
+          type: 'string',
+          description: 'Optional: Subscription to remove, as returned by subscribe_session_output',
+        },
+        all: {
+          type: 'boolean',
+          description: 'Optional: Remove every subscription of this client',
+        },
+      },
+      required: [],
+    },
+  },
+  {
+    name: 'get_godot_version',
+    description: 'Get the installed Godot version',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+      required: [],
+    },
+  },
+  {
+    name: 'list_godot_installations',
+    description: 'List the Godot executables found on this machine with their versions, and which one a project uses. A project uses the executable in its configuration, else an installation matching the engine version in config/features of its project.godot, else the default one',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectPath: {
+          type: 'string',
+          description: 'Optional: Project to show the selected executable for',
+        },
+        refresh: {
+          type: 'boolean',
+          description: 'Optional: Search for installations again instead of using the previous search (default: false)',
+        },
+      },
+      required: [],
+    },
+  },
+  {
+    name: 'list_projects',
+    description: 'List Godot projects in a directory',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        directory: {
+          type: 'string',
+          description: 'Directory to search for Godot projects',
+        },
+        recursive: {
+          type: 'boolean',
+          description: 'Whether to search recursively (default: false)',
+        },
+      },
+      required: ['directory'],
+    },
+  },
+  {
+    name: 'get_project_info',
+    description: 'Retrieve metadata about a Godot project',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectPath: {
+          type: 'string',
+          description: 'Path to the Godot project directory',
+        },
+      },
+      required: ['projectPath'],
+    },
+  },
+  {
+    name: 'create_scene',
+    description: 'Create a new Godot scene file',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectPath: {
+          type: 'string',
+          description: 'Path to the Godot project directory',
+        },
+        scenePath: {
+          type: 'string',
+          description: 'Path where the scene file will be saved (relative to project)',
+        },
+        rootNodeType: {
+          type: 'string',
+          description: 'Type of the root node (e.g., Node2D, Node3D)',
+          default: 'Node2D',
+        },
+      },
+      required: ['projectPath', 'scenePath'],
+    },
+  },
+  {
+    name: 'add_node',
+    description: 'Add a node to an existing scene',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectPath: {
+          type: 'string',
+          description: 'Path to the Godot project directory',
+        },
+        scenePath: {
+          type: 'string',
+          description: 'Path to the scene file (relative to project)',
+        },
+        parentNodePath: {
+          type: 'string',
+          description: 'Path to the parent node (e.g., "root" or "root/Player")',
+          default: 'root',
+        },
+        nodeType: {
+          type: 'string',
+          description: 'Type of node to add (e.g., Sprite2D, CollisionShape2D)',
+        },
+        nodeName: {
+          type: 'string',
+          description: 'Name for the new node',
+        },
+        properties: {
+          type: 'object',
+          description: 'Optional properties to set on the node',
+        },
+      },
+      required: ['projectPath', 'scenePath', 'nodeType', 'nodeName'],
+    },
+  },
+  {
+    name: 'create_animation_player',
+    description: 'Create an AnimationPlayer node with basic animations',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectPath: {
+          type: 'string',
+          description: 'Path to the Godot project directory',
+        },
+        scenePath: {
+          type: 'string',
+          description: 'Path to the scene file (relative to project)',
+        },
+        parentNodePath: {
+          type: 'string',
+          description: 'Path to the parent node',
+          default: 'root',
+        },
+        nodeName: {
+          type: 'string',
+          description: 'Name for the AnimationPlayer node',
+          default: 'AnimationPlayer',
+        },
+        animations: {
+          type: 'array',
+          description: 'Optional array of animation names to create',
+          items: {
+            type: 'string',
+          },
+        },
+      },
+      required: ['projectPath', 'scenePath'],
+    },
+  },
+  {
+    name: 'add_keyframes',
+    description: 'Add keyframes to an animation in an AnimationPlayer',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectPath: {
+          type: 'string',
+          description: 'Path to the Godot project directory',
+        },
+        scenePath: {
+          type: 'string',
+          description: 'Path to the scene file (relative to project)',
+        },
+        animationPlayerPath: {
+          type: 'string',
+          description: 'Path to the AnimationPlayer node (e.g., "root/AnimationPlayer")',
+        },
+        animationName: {
+          type: 'string',
+          description: 'Name of the animation to add keyframes to',
+        },
+        track: {
+          type: 'object',
+          description: 'Track configuration with keyframes',
+          properties: {
+            nodePath: {
+              type: 'string',
+              description: 'Path to the node to animate (relative to AnimationPlayer parent)',
+            },
+            property: {
+              type: 'string',
+              description: 'Property to animate (e.g., "position", "rotation", "modulate")',
+            },
+            keyframes: {
+              type: 'array',
+              description: 'Array of keyframe definitions',
+              items: {
+                type: 'object',
+                properties: {
+                  time: {
+                    type: 'number',
+                    description: 'Time in seconds for this keyframe',
+                  },
+                  value: {
+                    description: 'Value at this keyframe (type depends on property)',
+                  },
+                  transition: {
+                    type: 'number',
+                    description: 'Transition type (default: 1.0 for linear)',
+                  },
+                },
+                required: ['time', 'value'],
+              },
+            },
+          },
+          required: ['nodePath', 'property', 'keyframes'],
+        },
+      },
+      required: ['projectPath', 'scenePath', 'animationPlayerPath', 'animationName', 'track'],
+    },
+  },
+  {
+    name: 'setup_animation_tree',
+    description: 'Setup an AnimationTree with a state machine for managing animations',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectPath: {
+          type: 'string',
+          description: 'Path to the Godot project directory',
+        },
+        scenePath: {
+          type: 'string',
+          description: 'Path to the scene file (relative to project)',
+        },
+        parentNodePath: {
+          type: 'string',
+          description: 'Path to the parent node',
+          default: 'root',
+        },
+        nodeName: {
+          type: 'string',
+          description: 'Name for the AnimationTree node',
+          default: 'AnimationTree',
+        },
+        animationPlayerPath: {
+          type: 'string',
+          description: 'Path to the AnimationPlayer node to connect to',
+        },
+        states: {
+          type: 'array',
+          description: 'Array of state names for the state machine',
+          items: {
+            type: 'string',
+          },
+        },
+        transitions: {
+          type: 'array',
+          description: 'Array of transition definitions between states',
+          items: {
+            type: 'object',
+            properties: {
+              from: {
+                type: 'string',
+                description: 'Source state name',
+              },
+              to: {
+                type: 'string',
+                description: 'Target state name',
+              },
+              condition: {
+                type: 'string',
+                description: 'Optional condition parameter name',
+              },
+            },
+            required: ['from', 'to'],
+          },
+        },
+      },
+      required: ['projectPath', 'scenePath', 'animationPlayerPath'],
+    },
+  },
+  {
+    name: 'add_particles',
+    description: 'Add GPUParticles2D or GPUParticles3D node with particle settings (Godot 4.5+)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectPath: {
+          type: 'string',
+          description: 'Path to the Godot project directory',
+        },
+        scenePath: {
+          type: 'string',
+          description: 'Path to the scene file (relative to project)',
+        },
+        parentNodePath: {
+          type: 'string',
+          description: 'Path to the parent node',
+          default: 'root',
+        },
+        particleType: {
+          type: 'string',
+          description: 'Type of particle system',
+          enum: ['GPUParticles2D', 'GPUParticles3D'],
+        },
+        nodeName: {
+          type: 'string',
+          description: 'Name for the particle node',
+        },
+        properties: {
+          type: 'object',
+          description: 'Particle system properties',
+          properties: {
+            amount: {
+              type: 'number',
+              description: 'Number of particles (default: 8)',
+            },
+            lifetime: {
+              type: 'number',
+              description: 'Particle lifetime in seconds (default: 1.0)',
+            },
+            oneShot: {
+              type: 'boolean',
+              description: 'Whether particles emit once or continuously (default: false)',
+            },
+            preprocess: {
+              type: 'number',
+              description: 'Preprocess time in seconds (default: 0.0)',
+            },
+            speedScale: {
+              type: 'number',
+              description: 'Speed scale multiplier (default: 1.0)',
+            },
+            explosiveness: {
+              type: 'number',
+              description: 'Explosiveness ratio 0-1 (default: 0.0)',
+            },
+            randomness: {
+              type: 'number',
+              description: 'Randomness ratio 0-1 (default: 0.0)',
+            },
+            fixedFps: {
+              type: 'number',
+              description: 'Fixed FPS for particle simulation (default: 30)',
+            },
+            emitting: {
+              type: 'boolean',
+              description: 'Whether particles are emitting (default: true)',
+            },
+            amountRatio: {
+              type: 'number',
+              description: 'Ratio 0-1 of the particles actually emitted (default: 1.0)',
+            },
+            interpToEnd: {
+              type: 'number',
+              description: 'Ratio 0-1 that moves every particle towards the end of its lifetime (default: 0.0)',
+            },
+            useFixedSeed: {
+              type: 'boolean',
+              description: 'Whether every emission uses the same random seed (default: false)',
+            },
+            seed: {
+              type: 'number',
+              description: 'Random seed used with useFixedSeed',
+            },
+          },
+        },
+        processMaterial: {
+          type: 'object',
+          description: 'ParticleProcessMaterial properties',
+          properties: {
+            direction: {
+              type: 'object',
+              description: 'Emission direction (Vector3)',
+            },
+            spread: {
+              type: 'number',
+              description: 'Emission spread in degrees',
+            },
+            gravity: {
+              type: 'object',
+              description: 'Gravity vector (Vector3)',
+            },
+            initialVelocityMin: {
+              type: 'number',
+              description: 'Minimum initial velocity',
+            },
+            initialVelocityMax: {
+              type: 'number',
+              description: 'Maximum initial velocity',
+            },
+            angularVelocityMin: {
+              type: 'number',
+              description: 'Minimum angular velocity',
+            },
+            angularVelocityMax: {
+              type: 'number',
+              description: 'Maximum angular velocity',
+            },
+            scaleMin: {
+              type: 'number',
+              description: 'Minimum particle scale',
+            },
+            scaleMax: {
+              type: 'number',
+              description: 'Maximum particle scale',
+            },
+            color: {
+              type: 'object',
+              description: 'Particle color (Color with r, g, b, a)',
+            },
+          },
+        },
+      },
+      required: ['projectPath', 'scenePath', 'particleType', 'nodeName'],
+    },
+  },
+  {
+    name: 'create_ui_element',
+    description: 'Create a UI element (Control node) in a scene with proper anchors',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectPath: {
+          type: 'string',
+          description: 'Path to the Godot project directory',
+        },
+        scenePath: {
+          type: 'string',
+          description: 'Path to the scene file (relative to project)',
+        },
+        parentNodePath: {
+          type: 'string',
+          description: 'Path to the parent node (e.g., "root" or "root/UI")',
+          default: 'root',
+        },
+        elementType: {
+          type: 'string',
+          description: 'Type of UI element (Button, Label, TextEdit, Panel, VBoxContainer, HBoxContainer, etc.)',
+        },
+        elementName: {
+          type: 'string',
+          description: 'Name for the new UI element',
+        },
+        properties: {
+          type: 'object',
+          description: 'Optional properties to set on the element (text, size, etc.)',
+        },
+        anchors: {
+          type: 'object',
+          description: 'Anchor settings (anchor_left, anchor_top, anchor_right, anchor_bottom)',
+          properties: {
+            anchor_left: { type: 'number' },
+            anchor_top: { type: 'number' },
+            anchor_right: { type: 'number' },
+            anchor_bottom: { type: 'number' },
+          },
+        },
+      },
+      required: ['projectPath', 'scenePath', 'elementType', 'elementName'],
+    },
+  },
+  {
+    name: 'apply_theme',
+    description: 'Apply a Theme resource to a Control node or its children',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectPath: {
+          type: 'string',
+          description: 'Path to the Godot project directory',
+        },
+        scenePath: {
+          type: 'string',
+          description: 'Path to the scene file (relative to project)',
+        },
+        nodePath: {
+          type: 'string',
+          description: 'Path to the Control node (e.g., "root/UI")',
+        },
+        themePath: {
+          type: 'string',
+          description: 'Path to the Theme resource file (relative to project)',
+        },
+      },
+      required: ['projectPath', 'scenePath', 'nodePath', 'themePath'],
+    },
+  },
+  {
+    name: 'setup_layout',
+    description: 'Setup layout properties for Container nodes (VBoxContainer, HBoxContainer, GridContainer, etc.)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectPath: {
+          type: 'string',
+          description: 'Path to the Godot project directory',
+        },
+        scenePath: {
+          type: 'string',
+          description: 'Path to the scene file (relative to project)',
+        },
+        nodePath: {
+          type: 'string',
+          description: 'Path to the Container node (e.g., "root/UI/VBoxContainer")',
+        },
+        properties: {
+          type: 'object',
+          description: 'Layout properties to set',
+          properties: {
+            alignment: {
+              type: 'string',
+              description: 'Alignment for BoxContainer (BEGIN, CENTER, END)',
+            },
+            columns: {
+              type: 'number',
+              description: 'Number of columns for GridContainer',
+            },
+            separation: {
+              type: 'number',
+              description: 'Separation between children',
+            },
+          },
+        },
+      },
+      required: ['projectPath', 'scenePath', 'nodePath', 'properties'],
+    },
+  },
+  {
+    name: 'create_menu',
+    description: 'Create a menu structure with buttons and navigation',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectPath: {
+          type: 'string',
+          description: 'Path to the Godot project directory',
+        },
+        scenePath: {
+          type: 'string',
+          description: 'Path to the scene file (relative to project)',
+        },
+        parentNodePath: {
+          type: 'string',
+          description: 'Path to the parent node (e.g., "root" or "root/UI")',
+          default: 'root',
+        },
+        menuName: {
+          type: 'string',
+          description: 'Name for the menu container',
+        },
+        buttons: {
+          type: 'array',
+          description: 'Array of button definitions',
+          items: {
+            type: 'object',
+            properties: {
+              name: {
+                type: 'string',
+                description: 'Button name',
+              },
+              text: {
+                type: 'string',
+                description: 'Button text',
+              },
+            },
+            required: ['name', 'text'],
+          },
+        },
+        layout: {
+          type: 'string',
+          description: 'Layout type: vertical or horizontal',
+          enum: ['vertical', 'horizontal'],
+          default: 'vertical',
+        },
+      },
+      required: ['projectPath', 'scenePath', 'menuName', 'buttons'],
+    },
+  },
+  {
+    name: 'import_asset',
+    description: 'Import an asset into the Godot project with custom import settings',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectPath: {
+          type: 'string',
+          description: 'Path to the Godot project directory',
+        },
+        assetPath: {
+          type: 'string',
+          description: 'Path to the asset file to import (relative to project)',
+        },
+        importSettings: {
+          type: 'object',
+          description: 'Optional import settings for the asset',
+          properties: {
+            type: {
+              type: 'string',
+              enum: ['texture', 'audio', 'model', 'font'],
+              description: 'Type of asset being imported',
+            },
+            compression: {
+              type: 'string',
+              description: 'Compression mode for the asset',
+            },
+            mipmaps: {
+              type: 'boolean',
+              description: 'Generate mipmaps for textures',
+            },
+            filter: {
+              type: 'boolean',
+              description: 'Enable filtering for textures',
+            },
+          },
+        },
+      },
+      required: ['projectPath', 'assetPath'],
+    },
+  },
+  {
+    name: 'create_resource',
+    description: 'Create a new resource (Material, Shader, etc.) in the Godot project',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectPath: {
+          type: 'string',
+          description: 'Path to the Godot project directory',
+        },
+        resourcePath: {
+          type: 'string',
+          description: 'Path where the resource will be saved (relative to project)',
+        },
+        resourceType: {
+          type: 'string',
+          enum: ['StandardMaterial3D', 'ShaderMaterial', 'Shader', 'Theme', 'Environment', 'PhysicsMaterial'],
+          description: 'Type of resource to create',
+        },
+        properties: {
+          type: 'object',
+          description: 'Optional properties to set on the resource',
+        },
+      },
+      required: ['projectPath', 'resourcePath', 'resourceType'],
+    },
+  },
+  {
+    name: 'list_assets',
+    description: 'List all assets in the Godot project with their metadata and UIDs',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectPath: {
+          type: 'string',
+          description: 'Path to the Godot project directory',
+        },
+        directory: {
+          type: 'string',
+          description: 'Optional: Specific directory to list (relative to project, defaults to entire project)',
+        },
+        fileTypes: {
+          type: 'array',
+          items: {
+            type: 'string',
+          },
+          description: 'Optional: Filter by file types (e.g., ["tscn", "tres", "gd"])',
+        },
+        recursive: {
+          type: 'boolean',
+          description: 'Whether to search recursively (default: true)',
+        },
+      },
+      required: ['projectPath'],
+    },
+  },
+  {
+    name: 'configure_import',
+    description: 'Configure or modify import settings for an asset',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectPath: {
+          type: 'string',
+          description: 'Path to the Godot project directory',
+        },
+        assetPath: {
+          type: 'string',
+          description: 'Path to the asset file (relative to project)',
+        },
+        importSettings: {
+          type: 'object',
+          description: 'Import settings to apply',
+          properties: {
+            type: {
+              type: 'string',
+              enum: ['texture', 'audio', 'model', 'font'],
+              description: 'Type of asset',
+            },
+            compression: {
+              type: 'string',
+              description: 'Compression mode',
+            },
+            mipmaps: {
+              type: 'boolean',
+              description: 'Generate mipmaps for textures',
+            },
+            filter: {
+              type: 'boolean',
+              description: 'Enable filtering for textures',
+            },
+            loop: {
+              type: 'boolean',
+              description: 'Enable looping for audio',
+            },
+          },
+        },
+      },
+      required: ['projectPath', 'assetPath', 'importSettings'],
+    },
+  },
+  {
+    name: 'create_script',
+    description: 'Create a new GDScript file with template',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectPath: {
+          type: 'string',
+          description: 'Path to the Godot project directory',
+        },
+        scriptPath: {
+          type: 'string',
+          description: 'Path where the script file will be saved (relative to project)',
+        },
+        template: {
+          type: 'string',
+          description: 'Template type: node, resource, or custom',
+          enum: ['node', 'resource', 'custom'],
+          default: 'node',
+        },
+        baseClass: {
+          type: 'string',
+          description: 'Base class for the script (e.g., Node2D, CharacterBody2D, Resource)',
+        },
+        signals: {
+          type: 'array',
+          description: 'Array of signal names to add to the script',
+          items: {
+            type: 'string',
+          },
+        },
+        exports: {
+          type: 'array',
+          description: 'Array of exported variables',
+          items: {
+            type: 'object',
+            properties: {
+              name: { type: 'string' },
+              type: { type: 'string' },
+              defaultValue: { type: 'string' },
+            },
+          },
+        },
+      },
+      required: ['projectPath', 'scriptPath'],
+    },
+  },
+  {
+    name: 'attach_script',
+    description: 'Attach a GDScript to a node in a scene',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectPath: {
+          type: 'string',
+          description: 'Path to the Godot project directory',
+        },
+        scenePath: {
+          type: 'string',
+          description: 'Path to the scene file (relative to project)',
+        },
+        nodePath: {
+          type: 'string',
+          description: 'Path to the node (e.g., "root/Player")',
+        },
+        scriptPath: {
+          type: 'string',
+          description: 'Path to the script file (relative to project)',
+        },
+      },
+      required: ['projectPath', 'scenePath', 'nodePath', 'scriptPath'],
+    },
+  },
+  {
+    name: 'validate_script',
+    description: 'Validate a GDScript file for syntax and semantic errors',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectPath: {
+          type: 'string',
+          description: 'Path to the Godot project directory',
+        },
+        scriptPath: {
+          type: 'string',
+          description: 'Path to the script file (relative to project)',
+        },
+      },
+      required: ['projectPath', 'scriptPath'],
+    },
+  },
+  {
+    name: 'get_node_methods',
+    description: 'Get available methods for a specific node type',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectPath: {
+          type: 'string',
+          description: 'Path to the Godot project directory',
+        },
+        nodeType: {
+          type: 'string',
+          description: 'Type of node (e.g., Node2D, CharacterBody2D, Sprite2D)',
+        },
+      },
+      required: ['projectPath', 'nodeType'],
+    },
+  },
+  {
+    name: 'create_signal',
+    description: 'Create a custom signal in a GDScript file',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectPath: {
+          type: 'string',
+          description: 'Path to the Godot project directory',
+        },
+        scriptPath: {
+          type: 'string',
+          description: 'Path to the script file (relative to project)',
+        },
+        signalName: {
+          type: 'string',
+          description: 'Name of the signal to create',
+        },
+        parameters: {
+          type: 'array',
+          description: 'Optional signal parameters with types',
+          items: {
+            type: 'object',
+            properties: {
+              name: {
+                type: 'string',
+                description: 'Parameter name',
+              },
+              type: {
+                type: 'string',
+                description: 'Parameter type (e.g., int, String, Node)',
+              },
+            },
+            required: ['name'],
+          },
+        },
+      },
+      required: ['projectPath', 'scriptPath', 'signalName'],
+    },
+  },
+  {
+    name: 'connect_signal',
+    description: 'Connect a signal from one node to a method on another node using Godot 4.5+ Callable API',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectPath: {
+          type: 'string',
+          description: 'Path to the Godot project directory',
+        },
+        scenePath: {
+          type: 'string',
+          description: 'Path to the scene file (relative to project)',
+        },
+        sourceNodePath: {
+          type: 'string',
+          description: 'Path to the node emitting the signal (e.g., "root/Button")',
+        },
+        signalName: {
+          type: 'string',
+          description: 'Name of the signal to connect',
+        },
+        targetNodePath: {
+          type: 'string',
+          description: 'Path to the node receiving the signal (e.g., "root/Player")',
+        },
+        methodName: {
+          type: 'string',
+          description: 'Name of the method to call when signal is emitted',
+        },
+        binds: {
+          type: 'array',
+          description: 'Optional additional parameters to bind to the callable',
+          items: {
+            type: 'string',
+          },
+        },
+        flags: {
+          type: 'number',
+          description: 'Optional connection flags (default: 0)',
+        },
+      },
+      required: ['projectPath', 'scenePath', 'sourceNodePath', 'signalName', 'targetNodePath', 'methodName'],
+    },
+  },
+  {
+    name: 'list_signals',
+    description: 'List the signals of a node: those its script declares and those the scene connects. Set engine to load the scene in Godot and include the built-in signals of its class',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectPath: {
+          type: 'string',
+          description: 'Path to the Godot project directory',
+        },
+        scenePath: {
+          type: 'string',
+          description: 'Path to the scene file (relative to project)',
+        },
+        nodePath: {
+          type: 'string',
+          description: 'Path to the node (e.g., "root/Button")',
+        },
+        engine: {
+          type: 'boolean',
+          description: 'Optional: Load the scene in Godot to include the built-in signals of the node\'s class (slower; default: false)',
+        },
+      },
+      required: ['projectPath', 'scenePath', 'nodePath'],
+    },
+  },
+  {
+    name: 'disconnect_signal',
+    description: 'Disconnect a signal connection between two nodes',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectPath: {
+          type: 'string',
+          description: 'Path to the Godot project directory',
+        },
+        scenePath: {
+          type: 'string',
+          description: 'Path to the scene file (relative to project)',
+        },
+        sourceNodePath: {
+          type: 'string',
+          description: 'Path to the node emitting the signal (e.g., "root/Button")',
+        },
+        signalName: {
+          type: 'string',
+          description: 'Name of the signal to disconnect',
+        },
+        targetNodePath: {
+          type: 'string',
+          description: 'Path to the node receiving the signal (e.g., "root/Player")',
+        },
+        methodName: {
+          type: 'string',
+          description: 'Name of the method that was connected',
+        },
+      },
+      required: ['projectPath', 'scenePath', 'sourceNodePath', 'signalName', 'targetNodePath', 'methodName'],
+    },
+  },
+  {
+    name: 'remove_node',
+    description: 'Remove a node from an existing scene',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectPath: {
+          type: 'string',
+          description: 'Path to the Godot project directory',
+        },
+        scenePath: {
+          type: 'string',
+          description: 'Path to the scene file (relative to project)',
+        },
+        nodePath: {
+          type: 'string',
+          description: 'Path to the node to remove (e.g., "root/Player" or "root/Player/Sprite")',
+        },
+      },
+      required: ['projectPath', 'scenePath', 'nodePath'],
+    },
+  },
+  {
+    name: 'modify_node',
+    description: 'Modify properties of an existing node in a scene',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectPath: {
+          type: 'string',
+          description: 'Path to the Godot project directory',
+        },
+        scenePath: {
+          type: 'string',
+          description: 'Path to the scene file (relative to project)',
+        },
+        nodePath: {
+          type: 'string',
+          description: 'Path to the node to modify (e.g., "root/Player" or "root/Player/Sprite")',
+        },
+        properties: {
+          type: 'object',
+          description: 'Properties to set on the node (e.g., {"position": {"x": 100, "y": 200}, "visible": true})',
+        },
+      },
+      required: ['projectPath', 'scenePath', 'nodePath', 'properties'],
+    },
+  },
+  {
+    name: 'duplicate_node',
+    description: 'Duplicate an existing node in a scene with all its children',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectPath: {
+          type: 'string',
+          description: 'Path to the Godot project directory',
+        },
+        scenePath: {
+          type: 'string',
+          description: 'Path to the scene file (relative to project)',
+        },
+        nodePath: {
+          type: 'string',
+          description: 'Path to the node to duplicate (e.g., "root/Player" or "root/Enemy")',
+        },
+        newName: {
+          type: 'string',
+          description: 'Name for the duplicated node',
+        },
+        parentNodePath: {
+          type: 'string',
+          description: 'Optional: Path to the parent node for the duplicate (defaults to same parent as original)',
+        },
+      },
+      required: ['projectPath', 'scenePath', 'nodePath', 'newName'],
+    },
+  },
+  {
+    name: 'batch_operations',
+    description: 'Run an ordered list of scene operations (add_node, remove_node, modify_node, duplicate_node, attach_script, connect_signal, disconnect_signal, save_scene) against one loaded scene. If any step fails, nothing is written to disk',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectPath: {
+          type: 'string',
+          description: 'Path to the Godot project directory',
+        },
+        scenePath: {
+          type: 'string',
+          description: 'Path to the scene file (relative to project)',
+        },
+        operations: {
+          type: 'array',
+          description: 'Ordered list of steps. Each step takes the same parameters as the standalone tool, without projectPath and scenePath. A save_scene step may set newPath to save the result elsewhere',
+          items: {
+            type: 'object',
+            properties: {
+              operation: {
+                type: 'string',
+                enum: [
+                  'add_node',
+                  'remove_node',
+                  'modify_node',
+                  'duplicate_node',
+                  'attach_script',
+                  'connect_signal',
+                  'disconnect_signal',
+                  'save_scene',
+                ],
+                description: 'Name of the operation to run',
+              },
+              params: {
+                type: 'object',
+                description: 'Parameters for the operation (e.g., { "nodeType": "Sprite2D", "nodeName": "Icon" })',
+              },
+            },
+            required: ['operation'],
+          },
+        },
+      },
+      required: ['projectPath', 'scenePath', 'operations'],
+    },
+  },
+  {
+    name: 'query_node',
+    description: 'Get detailed information about a node in a scene. Reads the scene file directly; set engine to load the scene in Godot',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectPath: {
+          type: 'string',
+          description: 'Path to the Godot project directory',
+        },
+        scenePath: {
+          type: 'string',
+          description: 'Path to the scene file (relative to project)',
+        },
+        nodePath: {
+          type: 'string',
+          description: 'Path to the node to query (e.g., "root/Player" or "root/Enemy/Sprite")',
+        },
+        engine: {
+          type: 'boolean',
+          description: 'Optional: Load the scene in Godot to include the properties, signals and methods of the node\'s class (slower; default: false)',
+        },
+      },
+      required: ['projectPath', 'scenePath', 'nodePath'],
+    },
+  },
+  {
+    name: 'diff_scenes',
+    description: 'Compare two versions of a scene at the node-tree level: added, removed and moved nodes, changed properties, connections and external resources. Compares two scene files, or one scene at two git revisions',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectPath: {
+          type: 'string',
+          description: 'Path to the Godot project directory',
+        },
+        scenePath: {
+          type: 'string',
+          description: 'Path to the scene file (relative to project)',
+        },
+        otherScenePath: {
+          type: 'string',
+          description: 'Optional: Scene file to compare scenePath with (relative to project). Without it, scenePath is compared with itself at fromRevision',
+        },
+        fromRevision: {
+          type: 'string',
+          description: 'Optional: Git revision of scenePath to compare from, e.g. "HEAD~1" or "main" (default: HEAD when otherScenePath is not set, otherwise the file on disk)',
+        },
+        toRevision: {
+          type: 'string',
+          description: 'Optional: Git revision of the scene to compare to (default: the file on disk)',
+        },
+      },
+      required: ['projectPath', 'scenePath'],
+    },
+  },
+  {
+    name: 'merge_scene',
+    description: 'Merge two versions of a scene changed from a common ancestor, node by node and property by property. Returns the merged scene, or the conflicts where both sides changed the same value. By default the versions are read from the git index of a scene with a merge conflict',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectPath: {
+          type: 'string',
+          description: 'Path to the Godot project directory',
+        },
+        scenePath: {
+          type: 'string',
+          description: 'Path to the scene file (relative to project). Versions without a path or revision are read from its merge conflict in the git index',
+        },
+        basePath: {
+          type: 'string',
+          description: 'Optional: File holding the common ancestor of the scene (relative to project)',
+        },
+        baseRevision: {
+          type: 'string',
+          description: 'Optional: Git revision holding the common ancestor of scenePath, used when basePath is not set',
+        },
+        oursPath: {
+          type: 'string',
+          description: 'Optional: File holding our version of the scene (relative to project)',
+        },
+        oursRevision: {
+          type: 'string',
+          description: 'Optional: Git revision holding our version of scenePath, used when oursPath is not set',
+        },
+        theirsPath: {
+          type: 'string',
+          description: 'Optional: File holding their version of the scene (relative to project)',
+        },
+        theirsRevision: {
+          type: 'string',
+          description: 'Optional: Git revision holding their version of scenePath, used when theirsPath is not set',
+        },
+        write: {
+          type: 'boolean',
+          description: 'Optional: Write the merged scene to scenePath when there are no conflicts (default: false)',
+        },
+      },
+      required: ['projectPath', 'scenePath'],
+    },
+  },
+  {
+    name: 'load_sprite',
+    description: 'Load a sprite into a Sprite2D node',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectPath: {
+          type: 'string',
+          description: 'Path to the Godot project directory',
+        },
+        scenePath: {
+          type: 'string',
+          description: 'Path to the scene file (relative to project)',
+        },
+        nodePath: {
+          type: 'string',
+          description: 'Path to the Sprite2D node (e.g., "root/Player/Sprite2D")',
+        },
+        texturePath: {
+          type: 'string',
+          description: 'Path to the texture file (relative to project)',
+        },
+      },
+      required: ['projectPath', 'scenePath', 'nodePath', 'texturePath'],
+    },
+  },
+  {
+    name: 'export_mesh_library',
+    description: 'Export a scene as a MeshLibrary resource',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectPath: {
+          type: 'string',
+          description: 'Path to the Godot project directory',
+        },
+        scenePath: {
+          type: 'string',
+          description: 'Path to the scene file (.tscn) to export',
+        },
+        outputPath: {
+          type: 'string',
+          description: 'Path where the mesh library (.res) will be saved',
+        },
+        meshItemNames: {
+          type: 'array',
+          items: {
+            type: 'string',
+          },
+          description: 'Optional: Names of specific mesh items to include (defaults to all)',
+        },
+      },
+      required: ['projectPath', 'scenePath', 'outputPath'],
+    },
+  },
+  {
+    name: 'save_scene',
+    description: 'Save changes to a scene file',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectPath: {
+          type: 'string',
+          description: 'Path to the Godot project directory',
+        },
+        scenePath: {
+          type: 'string',
+          description: 'Path to the scene file (relative to project)',
+        },
+        newPath: {
+          type: 'string',
+          description: 'Optional: New path to save the scene to (for creating variants)',
+        },
+      },
+      required: ['projectPath', 'scenePath'],
+    },
+  },
+  {
+    name: 'get_uid',
+    description: 'Get the UID for a specific file in a Godot project. Scripts and shaders have UIDs from Godot 4.4; other resources in any Godot 4 version',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectPath: {
+          type: 'string',
+          description: 'Path to the Godot project directory',
+        },
+        filePath: {
+          type: 'string',
+          description: 'Path to the file (relative to project) for which to get the UID',
+        },
+      },
+      required: ['projectPath', 'filePath'],
+    },
+  },
+  {
+    name: 'update_project_uids',
+    description: 'Update UID references in a Godot project by resaving resources (for Godot 4.4+)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectPath: {
+          type: 'string',
+          description: 'Path to the Godot project directory',
+        },
+      },
+      required: ['projectPath'],
+    },
+  },
+  {
+    name: 'add_physics_body',
+    description: 'Add a physics body (CharacterBody2D/3D, RigidBody2D/3D, StaticBody2D/3D, AnimatableBody2D/3D) to a scene with collision shape (Godot 4.5+)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectPath: {
+          type: 'string',
+          description: 'Path to the Godot project directory',
+        },
+        scenePath: {
+          type: 'string',
+          description: 'Path to the scene file (relative to project)',
+        },
+        parentNodePath: {
+          type: 'string',
+          description: 'Path to the parent node (e.g., "root" or "root/Player")',
+          default: 'root',
+        },
+        bodyType: {
+          type: 'string',
+          description: 'Type of physics body',
+          enum: ['CharacterBody2D', 'RigidBody2D', 'StaticBody2D', 'AnimatableBody2D', 'CharacterBody3D', 'RigidBody3D', 'StaticBody3D', 'AnimatableBody3D'],
+        },
+        nodeName: {
+          type: 'string',
+          description: 'Name for the physics body node',
+        },
+        collisionShape: {
+          type: 'object',
+          description: 'Collision shape configuration',
+          properties: {
+            type: {
+              type: 'string',
+              description: 'Type of collision shape',
+              enum: ['RectangleShape2D', 'CircleShape2D', 'CapsuleShape2D', 'ConvexPolygonShape2D', 'BoxShape3D', 'SphereShape3D', 'CapsuleShape3D', 'CylinderShape3D', 'ConvexPolygonShape3D'],
+            },
+            size: {
+              type: 'object',
+              description: 'Size for rectangle/box shapes (Vector2 or Vector3)',
+            },
+            radius: {
+              type: 'number',
+              description: 'Radius for circle/sphere/capsule shapes',
+            },
+            height: {
+              type: 'number',
+              description: 'Height for capsule/cylinder shapes',
+            },
+          },
+          required: ['type'],
+        },
+        physicsProperties: {
+          type: 'object',
+          description: 'Physics properties (optional)',
+          properties: {
+            mass: {
+              type: 'number',
+              description: 'Mass for RigidBody (default: 1.0)',
+            },
+            physicsMaterial: {
+              type: 'object',
+              description: 'Physics material properties',
+              properties: {
+                friction: {
+                  type: 'number',
+                  description: 'Friction coefficient (default: 1.0)',
+                },
+                bounce: {
+                  type: 'number',
+                  description: 'Bounce/restitution coefficient (default: 0.0)',
+                },
+                absorbent: {
+                  type: 'boolean',
+                  description: 'Whether the material is absorbent (Godot 4.5+, default: false)',
+                },
+              },
+            },
+            gravityScale: {
+              type: 'number',
+              description: 'Gravity scale multiplier (default: 1.0)',
+            },
+            linearDamp: {
+              type: 'number',
+              description: 'Linear damping (default: 0.0)',
+            },
+            angularDamp: {
+              type: 'number',
+              description: 'Angular damping (default: 0.0)',
+            },
+            motionMode: {
+              type: 'string',
+              description: 'Motion mode for CharacterBody',
+              enum: ['MOTION_MODE_GROUNDED', 'MOTION_MODE_FLOATING'],
+            },
+            platformOnLeave: {
+              type: 'string',
+              description: 'Platform behavior when leaving for CharacterBody',
+              enum: ['PLATFORM_ON_LEAVE_ADD_VELOCITY', 'PLATFORM_ON_LEAVE_ADD_UPWARD_VELOCITY', 'PLATFORM_ON_LEAVE_DO_NOTHING'],
+            },
+          },
+        },
+      },
+      required: ['projectPath', 'scenePath', 'bodyType', 'nodeName', 'collisionShape'],
+    },
+  },
+  {
+    name: 'configure_physics',
+    description: 'Configure physics properties of an existing physics body',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectPath: {
+          type: 'string',
+          description: 'Path to the Godot project directory',
+        },
+        scenePath: {
+          type: 'string',
+          description: 'Path to the scene file (relative to project)',
+        },
+        nodePath: {
+          type: 'string',
+          description: 'Path to the physics body node (e.g., "root/Player")',
+        },
+        properties: {
+          type: 'object',
+          description: 'Physics properties to configure',
+          properties: {
+            mass: {
+              type: 'number',
+              description: 'Mass for RigidBody',
+            },
+            physicsMaterial: {
+              type: 'object',
+              description: 'Physics material properties',
+              properties: {
+                friction: {
+                  type: 'number',
+                  description: 'Friction coefficient',
+                },
+                bounce: {
+                  type: 'number',
+                  description: 'Bounce/restitution coefficient',
+                },
+                absorbent: {
+                  type: 'boolean',
+                  description: 'Whether the material is absorbent (Godot 4.5+)',
+                },
+              },
+            },
+            gravityScale: {
+              type: 'number',
+              description: 'Gravity scale multiplier',
+            },
+            linearDamp: {
+              type: 'number',
+              description: 'Linear damping',
+            },
+            angularDamp: {
+              type: 'number',
+              description: 'Angular damping',
+            },
+            motionMode: {
+              type: 'string',
+              description: 'Motion mode for CharacterBody',
+              enum: ['MOTION_MODE_GROUNDED', 'MOTION_MODE_FLOATING'],
+            },
+            platformOnLeave: {
+              type: 'string',
+              description: 'Platform behavior when leaving for CharacterBody',
+              enum: ['PLATFORM_ON_LEAVE_ADD_VELOCITY', 'PLATFORM_ON_LEAVE_ADD_UPWARD_VELOCITY', 'PLATFORM_ON_LEAVE_DO_NOTHING'],
+            },
+            physicsInterpolationMode: {
+              type: 'string',
+              description: 'Physics interpolation of the body',
+              enum: ['inherit', 'on', 'off'],
+            },
+          },
+        },
+      },
+      required: ['projectPath', 'scenePath', 'nodePath', 'properties'],
+    },
+  },
+  {
+    name: 'setup_collision_layers',
+    description: 'Configure collision layers and masks for a physics body',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectPath: {
+          type: 'string',
+          description: 'Path to the Godot project directory',
+        },
+        scenePath: {
+          type: 'string',
+          description: 'Path to the scene file (relative to project)',
+        },
+        nodePath: {
+          type: 'string',
+          description: 'Path to the physics body node (e.g., "root/Player")',
+        },
+        collisionLayer: {
+          type: 'number',
+          description: 'Collision layer bitmask (which layers this body is on)',
+        },
+        collisionMask: {
+          type: 'number',
+          description: 'Collision mask bitmask (which layers this body can collide with)',
+        },
+      },
+      required: ['projectPath', 'scenePath', 'nodePath'],
+    },
+  },
+  {
+    name: 'create_area',
+    description: 'Create an Area2D or Area3D node with collision shape for detecting overlaps',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectPath: {
+          type: 'string',
+          description: 'Path to the Godot project directory',
+        },
+        scenePath: {
+          type: 'string',
+          description: 'Path to the scene file (relative to project)',
+        },
+        parentNodePath: {
+          type: 'string',
+          description: 'Path to the parent node (e.g., "root" or "root/Player")',
+          default: 'root',
+        },
+        areaType: {
+          type: 'string',
+          description: 'Type of area node',
+          enum: ['Area2D', 'Area3D'],
+        },
+        nodeName: {
+          type: 'string',
+          description: 'Name for the area node',
+        },
+        collisionShape: {
+          type: 'object',
+          description: 'Collision shape configuration',
+          properties: {
+            type: {
+              type: 'string',
+              description: 'Type of collision shape',
+              enum: ['RectangleShape2D', 'CircleShape2D', 'CapsuleShape2D', 'BoxShape3D', 'SphereShape3D', 'CapsuleShape3D'],
+            },
+            size: {
+              type: 'object',
+              description: 'Size for rectangle/box shapes (Vector2 or Vector3)',
+            },
+            radius: {
+              type: 'number',
+              description: 'Radius for circle/sphere/capsule shapes',
+            },
+            height: {
+              type: 'number',
+              description: 'Height for capsule shapes',
+            },
+          },
+          required: ['type'],
+        },
+        monitorable: {
+          type: 'boolean',
+          description: 'Whether other areas can detect this area (default: true)',
+        },
+        monitoring: {
+          type: 'boolean',
+          description: 'Whether this area can detect other bodies/areas (default: true)',
+        },
+      },
+      required: ['projectPath', 'scenePath', 'areaType', 'nodeName', 'collisionShape'],
+    },
+  },
+  {
+    name: 'get_class_info',
+    description: 'Get detailed information about a Godot class from the official documentation (Godot 4.5+)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        className: {
+          type: 'string',
+          description: 'Name of the Godot class (e.g., Node2D, CharacterBody2D, AnimationPlayer)',
+        },
+      },
+      required: ['className'],
+    },
+  },
+  {
+    name: 'get_method_info',
+    description: 'Get detailed information about a specific method of a Godot class',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        className: {
+          type: 'string',
+          description: 'Name of the Godot class',
+        },
+        methodName: {
+          type: 'string',
+          description: 'Name of the method',
+        },
+      },
+      required: ['className', 'methodName'],
+    },
+  },
+  {
+    name: 'search_docs',
+    description: 'Search Godot documentation for classes, methods, properties, and signals',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'Search query (e.g., "move_and_slide", "CharacterBody", "physics")',
+        },
+      },
+      required: ['query'],
+    },
+  },
+  {
+    name: 'get_best_practices',
+    description: 'Get best practices and recommendations for a specific Godot topic',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        topic: {
+          type: 'string',
+          description: 'Topic to get best practices for (e.g., "physics", "signals", "gdscript", "scene organization")',
+        },
+      },
+      required: ['topic'],
+    },
+  },
+  {
+    name: 'run_with_debug',
+    description: 'Run the Godot project in debug mode and capture all console output, errors, and warnings',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectPath: {
+          type: 'string',
+          description: 'Path to the Godot project directory',
+        },
+        scene: {
+          type: 'string',
+          description: 'Optional: Specific scene to run',
+        },
+        breakpoints: {
+          type: 'array',
+          description: 'Optional: Array of breakpoints to set',
+          items: {
+            type: 'object',
+            properties: {
+              script: {
+                type: 'string',
+                description: 'Path to the script file',
+              },
+              line: {
+                type: 'number',
+                description: 'Line number for the breakpoint',
+              },
+            },
+            required: ['script', 'line'],
+          },
+        },
+        captureOutput: {
+          type: 'boolean',
+          description: 'Whether to capture console output (default: true)',
+          default: true,
+        },
+        sessionId: {
+          type: 'string',
+          description: 'Optional: Name for the session (e.g., "server", "client1"). Defaults to a generated id',
+        },
+        maxLogLines: {
+          type: 'number',
+          description: 'Optional: Output lines kept for the session; older lines are dropped (default: 10000)',
+        },
+      },
+      required: ['projectPath'],
+    },
+  },
+  {
+    name: 'get_error_context',
+    description: 'Get detailed context for an error including stack trace and suggested solutions from documentation',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectPath: {
+          type: 'string',
+          description: 'Path to the Godot project directory',
+        },
+        errorMessage: {
+          type: 'string',
+          description: 'The error message to analyze',
+        },
+        script: {
+          type: 'string',
+          description: 'Optional: Path to the script where the error occurred',
+        },
+        line: {
+          type: 'number',
+          description: 'Optional: Line number where the error occurred',
+        },
+      },
+      required: ['projectPath', 'errorMessage'],
+    },
+  },
+  {
+    name: 'capture_screenshot',
+    description: 'Capture a screenshot from a running Godot scene using Viewport.get_texture(). Note: Without scenePath, captures empty viewport (gray screen).',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectPath: {
+          type: 'string',
+          description: 'Path to the Godot project directory',
+        },
+        outputPath: {
+          type: 'string',
+          description: 'Path where the screenshot will be saved (relative to project or absolute)',
+        },
+        scenePath: {
+          type: 'string',
+          description: 'Path to the scene to capture (relative to project). Recommended to avoid empty screenshots.',
+        },
+        delay: {
+          type: 'number',
+          description: 'Optional: Delay in seconds before capturing the screenshot (default: 0)',
+        },
+        size: {
+          type: 'object',
+          description: 'Optional: Custom viewport size for the screenshot',
+          properties: {
+            width: {
+              type: 'number',
+              description: 'Width in pixels',
+            },
+            height: {
+              type: 'number',
+              description: 'Height in pixels',
+            },
+          },
+          required: ['width', 'height'],
+        },
+      },
+      required: ['projectPath', 'outputPath'],
+    },
+  },
+  {
+    name: 'list_missing_assets',
+    description: 'Scan the project for missing assets (textures, audio, scripts, scenes, materials, meshes) and generate a report with suggested fixes',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectPath: {
+          type: 'string',
+          description: 'Path to the Godot project directory',
+        },
+        checkTypes: {
+          type: 'array',
+          description: 'Optional: Types of assets to check for (default: all types)',
+          items: {
+            type: 'string',
+            enum: ['texture', 'audio', 'script', 'scene', 'material', 'mesh'],
+          },
+        },
+      },
+      required: ['projectPath'],
+    },
+  },
+  {
+    name: 'dependency_graph',
+    description: 'Build the graph of file dependencies in the project (ext_resource references, preload and load calls, autoloads and the main scene), and find what depends on a file or what it pulls in',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectPath: {
+          type: 'string',
+          description: 'Path to the Godot project directory',
+        },
+        filePath: {
+          type: 'string',
+          description: 'Optional: Only the part of the graph around this file, project-relative or res:// (e.g. "scenes/player.tscn")',
+        },
+        direction: {
+          type: 'string',
+          enum: ['dependencies', 'dependents', 'both'],
+          description: 'Optional: With filePath, follow what the file pulls in, what depends on it, or both (default: both)',
+        },
+        transitive: {
+          type: 'boolean',
+          description: 'Optional: With filePath, also follow the dependencies of dependencies (default: true)',
+        },
+        diagram: {
+          type: 'string',
+          enum: ['dot', 'mermaid'],
+          description: 'Optional: Also draw the graph as Graphviz DOT or a Mermaid flowchart',
+        },
+      },
+      required: ['projectPath'],
+    },
+  },
+  {
+    name: 'get_project_settings',
+    description: 'Read settings from project.godot with their decoded values, engine defaults and feature tag overrides (e.g. .mobile, .windows)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectPath: {
+          type: 'string',
+          description: 'Path to the Godot project directory',
+        },
+        section: {
+          type: 'string',
+          description: 'Optional: Glob for the section, e.g. "display" or "input"',
+        },
+        key: {
+          type: 'string',
+          description: 'Optional: Glob for the key within the section; "*" matches within one part and "**" across parts (e.g. "window/size/*" or "window/**")',
+        },
+        defaults: {
+          type: 'boolean',
+          description: 'Optional: Start Godot to report the engine default of each setting (default: true)',
+        },
+      },
+      required: ['projectPath'],
+    },
+  },
+  {
+    name: 'update_project_settings',
+    description: 'Update project settings in project.godot file',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectPath: {
+          type: 'string',
+          description: 'Path to the Godot project directory',
+        },
+        settings: {
+          type: 'object',
+          description: 'Settings to update (e.g., {"application/config/name": "My Game", "display/window/size/width": 1920})',
+        },
+      },
+      required: ['projectPath', 'settings'],
+    },
+  },
+  {
+    name: 'configure_input_map',
+    description: 'Configure input action mappings in the project',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectPath: {
+          type: 'string',
+          description: 'Path to the Godot project directory',
+        },
+        actions: {
+          type: 'array',
+          description: 'Array of input actions to configure',
+          items: {
+            type: 'object',
+            properties: {
+              name: {
+                type: 'string',
+                description: 'Action name (e.g., "move_left", "jump")',
+              },
+              deadzone: {
+                type: 'number',
+                description: 'Deadzone for the action (default: 0.5)',
+              },
+              events: {
+                type: 'array',
+                description: 'Array of input events for this action',
+                items: {
+                  type: 'object',
+                  properties: {
+                    type: {
+                      type: 'string',
+                      description: 'Event type',
+                      enum: ['key', 'mouse_button', 'joypad_button', 'joypad_motion'],
+                    },
+                    keycode: {
+                      type: 'string',
+                      description: 'Key code for keyboard events (e.g., "KEY_A", "KEY_SPACE")',
+                    },
+                    button: {
+                      type: 'number',
+                      description: 'Button index for mouse/joypad button events',
+                    },
+                    axis: {
+                      type: 'number',
+                      description: 'Axis index for joypad motion events',
+                    },
+                    axisValue: {
+                      type: 'number',
+                      description: 'Axis value for joypad motion events (-1.0 or 1.0)',
+                    },
+                  },
+                  required: ['type'],
+                },
+              },
+            },
+            required: ['name', 'events'],
+          },
+        },
+      },
+      required: ['projectPath', 'actions'],
+    },
+  },
+  {
+    name: 'setup_autoload',
+    description: 'Register autoload (singleton) scripts in the project',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectPath: {
+          type: 'string',
+          description: 'Path to the Godot project directory',
+        },
+        autoloads: {
+          type: 'array',
+          description: 'Array of autoload configurations',
+          items: {
+            type: 'object',
+            properties: {
+              name: {
+                type: 'string',
+                description: 'Autoload name (will be accessible globally)',
+              },
+              path: {
+                type: 'string',
+                description: 'Path to the script or scene (relative to project, e.g., "res://scripts/GameManager.gd")',
+              },
+              enabled: {
+                type: 'boolean',
+                description: 'Whether the autoload is enabled (default: true)',
+              },
+            },
+            required: ['name', 'path'],
+          },
+        },
+      },
+      required: ['projectPath', 'autoloads'],
+    },
+  },
+  {
+    name: 'manage_plugins',
+    description: 'Manage editor plugins (enable, disable, or list)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectPath: {
+          type: 'string',
+          description: 'Path to the Godot project directory',
+        },
+        action: {
+          type: 'string',
+          description: 'Action to perform',
+          enum: ['list', 'enable', 'disable'],
+        },
+        pluginName: {
+          type: 'string',
+          description: 'Plugin name (required for enable/disable actions)',
+        },
+      },
+      required: ['projectPath', 'action'],
+    },
+  },
+  {
+    name: 'run_scene',
+    description: 'Run a specific scene in debug mode through Godot CLI with -d flag, capturing console output and errors',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectPath: {
+          type: 'string',
+          description: 'Path to the Godot project directory',
+        },
+        scenePath: {
+          type: 'string',
+          description: 'Path to the scene file to run (relative to project, e.g., "scenes/main.tscn")',
+        },
+        debug: {
+          type: 'boolean',
+          description: 'Whether to run in debug mode with -d flag (default: true)',
+          default: true,
+        },
+        additionalArgs: {
+          type: 'array',
+          description: 'Additional CLI arguments to pass to Godot',
+          items: {
+            type: 'string',
+          },
+        },
+      },
+      required: ['projectPath', 'scenePath'],
+    },
+  },
+  {
+    name: 'remote_tree_dump',
+    description: 'Dump the remote scene tree during runtime with recursive traversal, supporting filtering by type, name, script presence, and depth. Optionally includes node properties and signal connections.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectPath: {
+          type: 'string',
+          description: 'Path to the Godot project directory',
+        },
+        scenePath: {
+          type: 'string',
+          description: 'Optional: Path to the scene to run before dumping (relative to project)',
+        },
+        filter: {
+          type: 'object',
+          description: 'Optional: Filters to apply to the tree dump',
+          properties: {
+            nodeType: {
+              type: 'string',
+              description: 'Filter by node type (e.g., "CharacterBody2D", "Sprite2D")',
+            },
+            nodeName: {
+              type: 'string',
+              description: 'Filter by node name (supports regex patterns)',
+            },
+            hasScript: {
+              type: 'boolean',
+              description: 'Only include nodes that have scripts attached',
+            },
+            depth: {
+              type: 'number',
+              description: 'Maximum depth of tree traversal (-1 for unlimited)',
+            },
+          },
+        },
+        includeProperties: {
+          type: 'boolean',
+          description: 'Include node properties in the dump (default: false)',
+          default: false,
+        },
+        includeSignals: {
+          type: 'boolean',
+          description: 'Include connected signals in the dump (default: false)',
+          default: false,
+        },
+      },
+      required: ['projectPath'],
+    },
+  },
+  {
+    name: 'toggle_debug_draw',
+    description: 'Toggle Viewport debug draw mode for visual diagnostics. Supports all Godot 4.5+ debug draw modes including wireframe, overdraw, lighting, normal buffer, and various GI/shadow visualization modes.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectPath: {
+          type: 'string',
+          description: 'Path to the Godot project directory',
+        },
+        mode: {
+          type: 'string',
+          description: 'Debug draw mode to enable',
+          enum: [
+            'disabled',
+            'unshaded',
+            'lighting',
+            'overdraw',
+            'wireframe',
+            'normal_buffer',
+            'voxel_gi_albedo',
+            'voxel_gi_lighting',
+            'voxel_gi_emission',
+            'shadow_atlas',
+            'directional_shadow_atlas',
+            'scene_luminance',
+            'ssao',
+            'ssil',
+            'pssm_splits',
+            'decal_atlas',
+            'sdfgi',
+            'sdfgi_probes',
+            'gi_buffer',
+            'disable_lod',
+            'cluster_omni_lights',
+            'cluster_spot_lights',
+            'cluster_decals',
+            'cluster_reflection_probes',
+            'occluders',
+            'motion_vectors',
+            'internal_buffer',
+          ],
+        },
+        viewport: {
+          type: 'string',
+          description: 'Optional: Path to specific Viewport node (default: "/root")',
+        },
+      },
+      required: ['projectPath', 'mode'],
+    },
+  },
+  {
+    name: 'undo_last_change',
+    description: 'Undo the most recent file change made by a tool in the project, restoring the files it touched',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectPath: {
+          type: 'string',
+          description: 'Path to the Godot project directory',
+        },
+        force: {
+          type: 'boolean',
+          description: 'Optional: Restore the files even if they were changed again since (default: false)',
+        },
+      },
+      required: ['projectPath'],
+    },
+  },
+  {
+    name: 'redo_change',
+    description: 'Apply the most recently undone change again',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectPath: {
+          type: 'string',
+          description: 'Path to the Godot project directory',
+        },
+        force: {
+          type: 'boolean',
+          description: 'Optional: Apply the change even if the files were changed since the undo (default: false)',
+        },
+      },
+      required: ['projectPath'],
+    },
+  },
+  {
+    name: 'list_change_history',
+    description: 'List the changes that can be undone or redone in the project, most recent first, with a unified diff of each',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectPath: {
+          type: 'string',
+          description: 'Path to the Godot project directory',
+        },
+        includeDiffs: {
+          type: 'boolean',
+          description: 'Optional: Include the diff of each change (default: true)',
+        },
+      },
+      required: ['projectPath'],
+    },
+  },
+] as const satisfies readonly ToolDefinition[];
+
+export type ToolName = typeof TOOL_DEFINITIONS[number]['name'];
+
+/**
+ * Type of the validated arguments of a tool
+ */
+export type ToolArgs<N extends ToolName> = SchemaType<Extract<typeof TOOL_DEFINITIONS[number], { name: N }>['inputSchema']>;
+
+const TOOLS_BY_NAME: Map<string, ToolDefinition> = new Map(
+  TOOL_DEFINITIONS.map((tool): [string, ToolDefinition] => [tool.name, tool])
+);
+
+/**
+ * Look up the definition of a tool by name
+ */
+export function getToolDefinition(name: string): ToolDefinition | undefined {
+  return TOOLS_BY_NAME.get(name);
+}
@@ -0,0 +1,290 @@
+/**
+ * Tool Policy for the Godot MCP Server
+ *
+ * This module classifies every tool as read, write or execute and decides
+ * whether a tool call may run. Administrators can run the server read-only,
+ * deny individual tools, or restrict writes to files matching path globs.
+ * The policy is set when the server starts and cannot be changed by a project.
+ */
+
+import { isAbsolute, relative, resolve, sep } from 'path';
+import { ToolName } from './tool-definitions.js';
+
+/**
+ * What a tool does with the project
+ */
+export type ToolAccess = 'read' | 'write' | 'execute';
+
+/**
+ * Access class of every tool. Read tools only inspect files, write tools
+ * change project files, and execute tools start Godot with the game running.
+ */
+export const TOOL_ACCESS: Record<ToolName, ToolAccess> = {
+  launch_editor: 'execute',
+  run_project: 'execute',
+  get_debug_output: 'read',
+  stop_project: 'execute',
+  list_sessions: 'read',
+  subscribe_session_output: 'read',
+  unsubscribe_session_output: 'read',
+  get_godot_version: 'read',
+  list_godot_installations: 'read',
+  list_projects: 'read',
+  get_project_info: 'read',
+  create_scene: 'write',
+  add_node: 'write',
+  create_animation_player: 'write',
+  add_keyframes: 'write',
+  setup_animation_tree: 'write',
+  add_particles: 'write',
+  create_ui_element: 'write',
+  apply_theme: 'write',
+  setup_layout: 'write',
+  create_menu: 'write',
+  import_asset: 'write',
+  create_resource: 'write',
+  list_assets: 'read',
+  configure_import: 'write',
+  create_script: 'write',
+  attach_script: 'write',
+  validate_script: 'read',
+  get_node_methods: 'read',
+  create_signal: 'write',
+  connect_signal: 'write',
+  list_signals: 'read',
+  disconnect_signal: 'write',
+  remove_node: 'write',
+  modify_node: 'write',
+  duplicate_node: 'write',
+  batch_operations: 'write',
+  query_node: 'read',
+  diff_scenes: 'read',
+  merge_scene: 'write',
+  load_sprite: 'write',
+  export_mesh_library: 'write',
+  save_scene: 'write',
+  get_uid: 'read',
+  update_project_uids: 'write',
+  add_physics_body: 'write',
+  configure_physics: 'write',
+  setup_collision_layers: 'write',
+  create_area: 'write',
+  get_class_info: 'read',
+  get_method_info: 'read',
+  search_docs: 'read',
+  get_best_practices: 'read',
+  run_with_debug: 'execute',
+  get_error_context: 'read',
+  capture_screenshot: 'write',
+  list_missing_assets: 'read',
+  dependency_graph: 'read',
+  get_project_settings: 'read',
+  update_project_settings: 'write',
+  configure_input_map: 'write',
+  setup_autoload: 'write',
+  manage_plugins: 'write',
+  run_scene: 'execute',
+  remote_tree_dump: 'execute',
+  toggle_debug_draw: 'execute',
+  undo_last_change: 'write',
+  redo_change: 'write',
+  list_change_history: 'read',
+};
+
+/**
+ * Project files changed by write tools that do not simply write their scenePath.
+ * Returns project-relative or absolute paths, or null when the tool may change
+ * any file in the project.
+ */
+const WRITE_TARGETS: Partial<Record<ToolName, (args: Record<string, any>) => string[] | null>> = {
+  save_scene: args => [args.newPath || args.scenePath],
+  merge_scene: args => [args.scenePath],
+  batch_operations: args => [
+    args.scenePath,
+    ...(Array.isArray(args.operations) ? args.operations : [])
+      .map((step: any) => step?.params?.newPath ?? step?.params?.new_path)
+      .filter((path: unknown): path is string => typeof path === 'string' && path !== ''),
+  ],
+  export_mesh_library: args => [args.outputPath],
+  create_script: args => [args.scriptPath],
+  create_signal: args => [args.scriptPath],
+  import_asset: args => [args.assetPath, args.assetPath && `${args.assetPath}.import`],
+  configure_import: args => [args.assetPath, args.assetPath && `${args.assetPath}.import`],
+  create_resource: args => [args.resourcePath],
+  capture_screenshot: args => [args.outputPath],
+  update_project_settings: () => ['project.godot'],
+  configure_input_map: () => ['project.godot'],
+  setup_autoload: () => ['project.godot'],
+  manage_plugins: () => ['project.godot'],
+  update_project_uids: () => null,
+  undo_last_change: () => null,
+  redo_change: () => null,
+};
+
+/**
+ * Interface for policy configuration
+ */
+export interface ToolPolicyOptions {
+  readOnly?: boolean; // Only read tools may run
+  deniedTools?: string[]; // Tools that may never run
+  writePaths?: string[]; // Globs every file changed by a write tool must match
+}
+
+/**
+ * Error raised when the policy does not allow a tool call
+ */
+export class ToolPolicyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ToolPolicyError';
+  }
+}
+
+/**
+ * Decides which tool calls may run
+ */
+export class ToolPolicy {
+  private readOnly: boolean;
+  private deniedTools: Set<string>;
+  private writePaths: string[];
+  private writePatterns: RegExp[];
+
+  constructor(options: ToolPolicyOptions = {}) {
+    this.readOnly = options.readOnly ?? false;
+    this.deniedTools = new Set(options.deniedTools ?? []);
+    this.writePaths = options.writePaths ?? [];
+    this.writePatterns = this.writePaths.map(globToRegExp);
+  }
+
+  /**
+   * Access class of a tool call. Listing plugins and merging a scene without
+   * writing the result do not change the project.
+   */
+  accessOf(name: string, args: Record<string, any> = {}): ToolAccess {
+    if ((name === 'manage_plugins' && args.action === 'list') || (name === 'merge_scene' && args.write !== true)) {
+      return 'read';
+    }
+    return TOOL_ACCESS[name as ToolName] ?? 'execute';
+  }
+
+  /**
+   * Check whether a tool is advertised by tools/list.
+   * Write path globs depend on the arguments, so they are only checked on calls.
+   */
+  isListed(name: string): boolean {
+    if (this.deniedTools.has(name)) {
+      return false;
+    }
+    return !this.readOnly || this.accessOf(name) === 'read' || name === 'manage_plugins';
+  }
+
+  /**
+   * Check a tool call against the policy
+   * @param args Normalized tool arguments
+   * @throws ToolPolicyError if the call is not allowed
+   */
+  assertAllowed(name: string, args: Record<string, any>): void {
+    if (this.deniedTools.has(name)) {
+      throw new ToolPolicyError(`Tool ${name} is denied by the server policy`);
+    }
+
+    const access = this.accessOf(name, args);
+    if (this.readOnly && access !== 'read') {
+      throw new ToolPolicyError(`Tool ${name} is not allowed because the server is read-only (it needs ${access} access)`);
+    }
+
+    if (access !== 'write' || this.writePatterns.length === 0) {
+      return;
+    }
+
+    const targets = writeTargets(name, args);
+    if (targets === null) {
+      throw new ToolPolicyError(
+        `Tool ${name} may change any file in the project, which write path restrictions do not allow`
+      );
+    }
+
+    for (const target of targets) {
+      const path = projectRelativePath(args.projectPath, target);
+      if (path === null) {
+        throw new ToolPolicyError(`Tool ${name} may not write ${target}: the path is outside the project`);
+      }
+      if (!this.writePatterns.some(pattern => pattern.test(path))) {
+        throw new ToolPolicyError(
+          `Tool ${name} may not write ${path}: it matches none of the allowed write paths (${this.writePaths.join(', ')})`
+        );
+      }
+    }
+  }
+
+  /**
+   * Serializable summary of the policy
+   */
+  describe(): { readOnly: boolean; deniedTools: string[]; writePaths: string[] } {
+    return {
+      readOnly: this.readOnly,
+      deniedTools: Array.from(this.deniedTools),
+      writePaths: [...this.writePaths],
+    };
+  }
+}
+
+/**
+ * Files a write tool call changes, or null if it may change any file
+ * @returns Project-relative, res:// or absolute paths
+ */
+export function writeTargets(name: string, args: Record<string, any>): string[] | null {
+  const targets = WRITE_TARGETS[name as ToolName];
+  const paths = targets ? targets(args) : [args.scenePath];
+  return paths === null ? null : paths.filter((path): path is string => typeof path === 'string' && path !== '');
+}
+
+/**
+ * Convert a path glob to a regular expression.
+ * "**" matches across directories, "*" and "?" match within one path segment.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let pattern = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      // "**/" also matches no directory at all
+      if (glob[i + 2] === '/') {
+        pattern += '(?:.*/)?';
+        i += 2;
+      } else {
+        pattern += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      pattern += '[^/]*';
+    } else if (char === '?') {
+      pattern += '[^/]';
+    } else {
+      pattern += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${pattern}$`);
+}
+
+/**
+ * Split a comma-separated list, ignoring blank entries
+ */
+export function parseList(value: string | undefined): string[] {
+  return (value ?? '').split(',').map(item => item.trim()).filter(item => item !== '');
+}
+
+/**
+ * Path of a target relative to the project root, with forward slashes
+ * @returns The relative path, or null if the target is outside the project
+ */
+function projectRelativePath(projectPath: string | undefined, target: string): string | null {
+  const root = resolve(projectPath ?? '.');
+  const withoutScheme = target.replace(/^res:\/\//, '');
+  const absolute = isAbsolute(withoutScheme) ? withoutScheme : resolve(root, withoutScheme);
+  const path = relative(root, absolute);
+  if (path === '' || path.startsWith('..') || isAbsolute(path)) {
+    return null;
+  }
+  return path.split(sep).join('/');
+}
@@ -0,0 +1,109 @@
+/**
+ * Tool Progress for the Godot MCP Server
+ *
+ * Long-running operations in godot_operations.gd print progress lines while
+ * they work. This module parses those lines and carries the progress callback
+ * and the cancellation signal of a tool call down to the Godot process, so
+ * clients see how far an operation got and can stop it.
+ */
+
+import { LogSubscriptions } from './log-streams.js';
+
+/**
+ * Marker starting each progress line printed by godot_operations.gd
+ */
+export const PROGRESS_MARKER = '[MCP-PROGRESS]';
+
+/**
+ * Interface for one progress update
+ */
+export interface ProgressUpdate {
+  progress: number; // Increases with every update of a call
+  total?: number; // Omitted while the total is not known
+  message?: string;
+}
+
+/**
+ * Interface for what a tool call passes down to its handler and the processes it starts
+ */
+export interface ToolCallContext {
+  signal?: AbortSignal; // Aborted when the client cancels the request
+  onProgress?: (update: ProgressUpdate) => void; // Set when the client asked for progress
+  logSubscriptions?: LogSubscriptions; // Session output streamed to the client that made the call
+}
+
+/**
+ * Parse a progress line
+ * @returns The update, or null if the line is not a well-formed progress line
+ */
+export function parseProgressLine(line: string): ProgressUpdate | null {
+  const trimmed = line.trim();
+  if (!trimmed.startsWith(PROGRESS_MARKER)) {
+    return null;
+  }
+
+  try {
+    const data = JSON.parse(trimmed.slice(PROGRESS_MARKER.length));
+    if (typeof data?.progress !== 'number') {
+      return null;
+    }
+    const update: ProgressUpdate = { progress: data.progress };
+    if (typeof data.total === 'number' && data.total > 0) {
+      update.total = data.total;
+    }
+    if (typeof data.message === 'string') {
+      update.message = data.message;
+    }
+    return update;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Remove progress lines from operation output, so handlers parse the same
+ * output with or without progress reporting
+ */
+export function stripProgressLines(output: string): string {
+  if (!output.includes(PROGRESS_MARKER)) {
+    return output;
+  }
+  return output
+    .split('\n')
+    .filter(line => !line.trim().startsWith(PROGRESS_MARKER))
+    .join('\n');
+}
+
+/**
+ * Splits streamed output into lines and reports the progress lines among them
+ */
+export class ProgressLineReader {
+  private buffer = '';
+  private onProgress: (update: ProgressUpdate) => void;
+
+  constructor(onProgress: (update: ProgressUpdate) => void) {
+    this.onProgress = onProgress;
+  }
+
+  /**
+   * Feed a chunk of output. A line split across chunks is reported once complete.
+   */
+  push(chunk: string): void {
+    this.buffer += chunk;
+    const lines = this.buffer.split('\n');
+    this.buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      this.line(line);
+    }
+  }
+
+  /**
+   * Feed one complete line
+   */
+  line(line: string): void {
+    const update = parseProgressLine(line);
+    if (update) {
+      this.onProgress(update);
+    }
+  }
+}
@@ -0,0 +1,135 @@
+/**
+ * Tool Requirements for the Godot MCP Server
+ *
+ * This module lists the engine features that tools and their arguments need.
+ * The server uses it to hide or mark the tools the engine of the active
+ * project cannot run, and to refuse arguments the engine of a project does
+ * not have before Godot is started.
+ */
+
+import { ToolName } from './tool-definitions.js';
+import { ToolDefinition } from './tool-schema.js';
+import { EngineFeature, GodotVersion, VersionValidator } from './version-validator.js';
+
+/**
+ * What tools/list does with tools the engine cannot run
+ */
+export type UnsupportedToolMode = 'hide' | 'mark';
+
+/**
+ * Features a tool cannot work without
+ */
+export const TOOL_FEATURES: Partial<Record<ToolName, EngineFeature>> = {
+  add_particles: 'modernNodeTypes',
+  add_physics_body: 'enhancedPhysics',
+  connect_signal: 'improvedGDScript',
+  get_class_info: 'modernNodeTypes',
+  toggle_debug_draw: 'compositorEffects',
+};
+
+/**
+ * Interface for an argument that needs an engine feature
+ */
+export interface ArgumentRequirement {
+  path: string[]; // Path of the argument, e.g. ['properties', 'physicsMaterial', 'absorbent']
+  feature: EngineFeature;
+}
+
+/**
+ * Arguments that need a feature, for tools that work without them
+ */
+export const ARGUMENT_FEATURES: Partial<Record<ToolName, ArgumentRequirement[]>> = {
+  configure_physics: [
+    { path: ['properties', 'physicsMaterial', 'absorbent'], feature: 'enhancedPhysics' },
+  ],
+};
+
+/**
+ * Interface for a feature a tool call needs that the engine does not have
+ */
+export interface MissingFeature {
+  feature: EngineFeature;
+  argument?: string; // Dotted path of the argument needing it; omitted when the tool itself needs it
+}
+
+/**
+ * Check whether a tool call needs any engine feature, so calls that do not
+ * can skip reading the engine version
+ */
+export function needsFeatures(name: string, args: Record<string, any>): boolean {
+  return TOOL_FEATURES[name as ToolName] !== undefined || presentArguments(name, args).length > 0;
+}
+
+/**
+ * The features a tool call needs that an engine version does not have
+ */
+export function missingFeatures(name: string, args: Record<string, any>, version: GodotVersion): MissingFeature[] {
+  const supported = VersionValidator.getSupportedFeatures(version);
+  const missing: MissingFeature[] = [];
+
+  const feature = TOOL_FEATURES[name as ToolName];
+  if (feature && !supported[feature]) {
+    missing.push({ feature });
+  }
+  for (const requirement of presentArguments(name, args)) {
+    if (!supported[requirement.feature]) {
+      missing.push({ feature: requirement.feature, argument: requirement.path.join('.') });
+    }
+  }
+  return missing;
+}
+
+/**
+ * Describe the minimum version of a feature, e.g. "Godot 4.4 or later (UID System)"
+ */
+export function featureRequirement(feature: EngineFeature): string {
+  const release = VersionValidator.getFeatureRelease(feature);
+  return `Godot ${release.major}.${release.minor} or later (${VersionValidator.getFeatureName(feature)})`;
+}
+
+/**
+ * Explain why a tool call cannot run on an engine version
+ */
+export function unsupportedMessage(name: string, missing: MissingFeature[], version: GodotVersion): string {
+  const reasons = missing.map(({ feature, argument }) =>
+    argument ? `${argument} needs ${featureRequirement(feature)}` : `${name} needs ${featureRequirement(feature)}`
+  );
+  return `${reasons.join('; ')}. The project uses Godot ${VersionValidator.formatVersion(version)}`;
+}
+
+/**
+ * Apply an engine version to the tool list: tools it cannot run are left out
+ * in hide mode, and get the reason at the start of their description in mark mode
+ * @param version Engine version of the active project; null lists every tool unchanged
+ */
+export function gateTools(tools: readonly ToolDefinition[], version: GodotVersion | null, mode: UnsupportedToolMode): ToolDefinition[] {
+  if (!version) {
+    return [...tools];
+  }
+
+  const supported = VersionValidator.getSupportedFeatures(version);
+  const gated: ToolDefinition[] = [];
+  for (const tool of tools) {
+    const feature = TOOL_FEATURES[tool.name as ToolName];
+    if (!feature || supported[feature]) {
+      gated.push(tool);
+    } else if (mode === 'mark') {
+      const reason = `Unavailable: needs ${featureRequirement(feature)}, the active project uses Godot ${VersionValidator.formatVersion(version)}`;
+      gated.push({ ...tool, description: `[${reason}] ${tool.description}` });
+    }
+  }
+  return gated;
+}
+
+/**
+ * Requirements of the arguments a tool call sets
+ */
+function presentArguments(name: string, args: Record<string, any>): ArgumentRequirement[] {
+  return (ARGUMENT_FEATURES[name as ToolName] ?? []).filter(requirement => {
+    let value: any = args;
+    for (const key of requirement.path) {
+      value = value !== null && typeof value === 'object' ? value[key] : undefined;
+    }
+    return value !== undefined && value !== null;
+  });
+}
@@ -0,0 +1,222 @@
+/**
+ * Tool Argument Schemas for the Godot MCP Server
+ *
+ * Tool arguments are described with a subset of JSON Schema. One definition
+ * per tool is advertised to clients as its inputSchema, checked against the
+ * incoming arguments before the handler runs, and mapped to the TypeScript
+ * type of the handler's arguments.
+ */
+
+export type JsonSchemaType = 'string' | 'number' | 'boolean' | 'array' | 'object';
+
+/**
+ * Interface for the supported subset of JSON Schema
+ */
+export interface JsonSchema {
+  type?: JsonSchemaType; // Any value is accepted when omitted
+  description?: string;
+  enum?: readonly (string | number)[];
+  default?: unknown;
+  items?: JsonSchema;
+  properties?: { readonly [key: string]: JsonSchema };
+  required?: readonly string[];
+}
+
+/**
+ * Interface for a tool definition as advertised by tools/list
+ */
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: JsonSchema & { type: 'object' };
+}
+
+/**
+ * Interface for a single argument that failed validation
+ */
+export interface ArgumentIssue {
+  path: string; // Field path, e.g. "steps[2].operation"
+  message: string;
+}
+
+/**
+ * TypeScript type of the values accepted by a schema
+ */
+export type SchemaType<S> =
+  S extends { enum: readonly (infer E)[] } ? E :
+  S extends { type: 'string' } ? string :
+  S extends { type: 'number' } ? number :
+  S extends { type: 'boolean' } ? boolean :
+  S extends { type: 'array'; items: infer I } ? SchemaType<I>[] :
+  S extends { type: 'array' } ? any[] :
+  S extends { type: 'object'; properties: infer P } ?
+    ObjectType<P, S extends { required: readonly (infer R)[] } ? R : never> :
+  S extends { type: 'object' } ? Record<string, any> :
+  any;
+
+type ObjectType<P, R> = {
+  -readonly [K in keyof P as K extends R ? K : never]: SchemaType<P[K]>;
+} & {
+  -readonly [K in keyof P as K extends R ? never : K]?: SchemaType<P[K]>;
+};
+
+/**
+ * Error raised when tool arguments do not match the tool's schema
+ */
+export class ToolArgumentError extends Error {
+  issues: ArgumentIssue[];
+
+  constructor(toolName: string, issues: ArgumentIssue[]) {
+    super(`Invalid arguments for ${toolName}: ${issues.map(formatIssue).join('; ')}`);
+    this.name = 'ToolArgumentError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Format an issue as "path: message"
+ */
+export function formatIssue(issue: ArgumentIssue): string {
+  return issue.path ? `${issue.path}: ${issue.message}` : issue.message;
+}
+
+/**
+ * Check a value against a schema.
+ * Unknown object properties are accepted, null counts as absent for optional
+ * properties, and required strings must not be empty.
+ * @returns Every mismatch found, or an empty array if the value is valid
+ */
+export function validateArguments(schema: JsonSchema, value: unknown, path: string = ''): ArgumentIssue[] {
+  const actual = describeType(value);
+
+  if (schema.enum) {
+    if (!schema.enum.includes(value as string | number)) {
+      const allowed = schema.enum.map(item => JSON.stringify(item)).join(', ');
+      return [{ path, message: `expected one of ${allowed}, got ${describeValue(value)}` }];
+    }
+    return [];
+  }
+
+  if (schema.type && actual !== schema.type) {
+    return [{ path, message: `expected ${schema.type}, got ${actual}` }];
+  }
+
+  const issues: ArgumentIssue[] = [];
+
+  if (schema.type === 'array' && schema.items) {
+    (value as unknown[]).forEach((item, index) => {
+      issues.push(...validateArguments(schema.items as JsonSchema, item, `${path}[${index}]`));
+    });
+  }
+
+  if (schema.type === 'object' && schema.properties) {
+    const object = value as Record<string, unknown>;
+    const required = new Set(schema.required ?? []);
+
+    for (const [key, propertySchema] of Object.entries(schema.properties)) {
+      const propertyPath = path ? `${path}.${key}` : key;
+      const propertyValue = object[key];
+
+      if (propertyValue === undefined || propertyValue === null) {
+        if (required.has(key)) {
+          issues.push({ path: propertyPath, message: `required ${propertySchema.type ?? 'value'} is missing` });
+        }
+        continue;
+      }
+
+      if (required.has(key) && propertySchema.type === 'string' && propertyValue === '') {
+        issues.push({ path: propertyPath, message: 'expected non-empty string, got ""' });
+        continue;
+      }
+
+      issues.push(...validateArguments(propertySchema, propertyValue, propertyPath));
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Convert snake_case argument keys to the camelCase names used by the schema.
+ * Keys of objects declared with properties are converted unless the schema
+ * declares the snake_case name itself; free-form objects (node properties,
+ * project settings) are left untouched. Without a schema only the top-level
+ * keys are converted. When both spellings are given, the camelCase one wins.
+ */
+export function normalizeArgumentKeys(schema: JsonSchema | undefined, value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return schema?.items ? value.map(item => normalizeArgumentKeys(schema.items, item)) : value;
+  }
+
+  if (!value || typeof value !== 'object' || (schema && !schema.properties)) {
+    return value;
+  }
+
+  const properties = schema?.properties;
+  const result: Record<string, unknown> = {};
+  const converted: Record<string, unknown> = {};
+
+  for (const [key, item] of Object.entries(value as Record<string, unknown>)) {
+    const normalizedKey = properties && key in properties ? key : snakeToCamelCase(key);
+    const normalizedValue = properties?.[normalizedKey]
+      ? normalizeArgumentKeys(properties[normalizedKey], item)
+      : item;
+
+    if (normalizedKey === key) {
+      result[key] = normalizedValue;
+    } else {
+      converted[normalizedKey] = normalizedValue;
+    }
+  }
+
+  for (const [key, item] of Object.entries(converted)) {
+    if (!(key in result)) {
+      result[key] = item;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Convert a snake_case name to camelCase, leaving other names unchanged
+ */
+export function snakeToCamelCase(name: string): string {
+  if (!/^[a-z][a-z0-9]*(_[a-z0-9]+)+$/.test(name)) {
+    return name;
+  }
+  return name.replace(/_([a-z0-9])/g, (_match, letter: string) => letter.toUpperCase());
+}
+
+/**
+ * Convert a camelCase name to snake_case
+ */
+export function camelToSnakeCase(name: string): string {
+  return name.replace(/[A-Z]/g, letter => `_${letter.toLowerCase()}`);
+}
+
+/**
+ * JSON Schema type name of a value
+ */
+function describeType(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  if (typeof value === 'number' && !Number.isFinite(value)) {
+    return 'non-finite number';
+  }
+  return typeof value;
+}
+
+/**
+ * Short description of a value for error messages
+ */
+function describeValue(value: unknown): string {
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    return JSON.stringify(value);
+  }
+  return describeType(value);
+}
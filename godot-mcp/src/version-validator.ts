@@ -1,8 +1,9 @@
 /**
- * Version Validator for Godot 4.5+
+ * Version Validator for Godot 4
  * 
  * This module provides version validation and compatibility checking
- * for Godot Engine, ensuring minimum version requirements are met.
+ * for Godot Engine, ensuring minimum version requirements are met, and
+ * knows which engine features each minor version introduced.
  */
 
 export interface GodotVersion {
@@ -18,15 +19,62 @@ export interface VersionRequirement {
   recommended?: GodotVersion;
 }
 
+/**
+ * Engine features the tools depend on
+ */
+export type EngineFeature =
+  | 'stdinWorker'
+  | 'uidSystem'
+  | 'compositorEffects'
+  | 'enhancedPhysics'
+  | 'improvedGDScript'
+  | 'modernNodeTypes';
+
+/**
+ * Interface for the features introduced by one minor version
+ */
+export interface FeatureRelease {
+  major: number;
+  minor: number;
+  features: Partial<Record<EngineFeature, string>>; // Feature name to display name
+}
+
+/**
+ * Engine features by the minor version that introduced them, oldest first.
+ * Features older than the minimum version are not listed, since every
+ * engine the server accepts has them.
+ */
+export const FEATURE_RELEASES: readonly FeatureRelease[] = [
+  {
+    major: 4,
+    minor: 4,
+    features: {
+      stdinWorker: 'Reading Standard Input', // OS.read_buffer_from_stdin, which godot_operations.gd needs to compile
+      uidSystem: 'UID System', // .uid files for scripts and shaders
+    },
+  },
+  {
+    major: 4,
+    minor: 5,
+    features: {
+      compositorEffects: 'Compositor Effects',
+      enhancedPhysics: 'Enhanced Physics',
+      improvedGDScript: 'Improved GDScript',
+      modernNodeTypes: 'Modern Node Types',
+    },
+  },
+];
+
 /**
  * VersionValidator class for checking Godot version compatibility
  */
 export class VersionValidator {
+  // godot_operations.gd calls OS.read_buffer_from_stdin, so older engines cannot compile it
   private static readonly MINIMUM_VERSION: GodotVersion = {
     major: 4,
-    minor: 5,
+    minor: 4,
     patch: 0,
-    full: '4.5.0',
+    full: '4.4.0',
   };
 
   /**
@@ -87,7 +135,7 @@ export class VersionValidator {
   /**
    * Check if a version meets the minimum requirement
    * @param version Version to check
-   * @param minimum Minimum required version (defaults to 4.5.0)
+   * @param minimum Minimum required version (defaults to 4.4.0)
    * @returns True if version meets or exceeds minimum
    */
   static meetsMinimumVersion(
@@ -123,7 +171,7 @@ export class VersionValidator {
       return {
         valid: false,
         version,
-        message: `Godot version ${version.major}.${version.minor}.${version.patch} does not meet minimum requirement of ${VersionValidator.MINIMUM_VERSION.major}.${VersionValidator.MINIMUM_VERSION.minor}.${VersionValidator.MINIMUM_VERSION.patch}. Please upgrade to Godot 4.5.0 or later.`,
+        message: `Godot version ${version.major}.${version.minor}.${version.patch} does not meet minimum requirement of ${VersionValidator.MINIMUM_VERSION.full}. Please upgrade to Godot ${VersionValidator.MINIMUM_VERSION.full} or later.`,
       };
     }
 
@@ -142,38 +190,33 @@ export class VersionValidator {
   }
 
   /**
-   * Check if a version supports specific Godot 4.5+ features
+   * Check which engine features a version supports
    * @param version Version to check
    * @returns Object indicating which features are supported
    */
-  static getSupportedFeatures(version: GodotVersion): {
-    uidSystem: boolean;
-    compositorEffects: boolean;
-    enhancedPhysics: boolean;
-    improvedGDScript: boolean;
-    modernNodeTypes: boolean;
-  } {
-    const is45OrLater = VersionValidator.compareVersions(version, {
-      major: 4,
-      minor: 5,
-      patch: 0,
-      full: '4.5.0',
-    }) >= 0;
-
-    const is44OrLater = VersionValidator.compareVersions(version, {
-      major: 4,
-      minor: 4,
-      patch: 0,
-      full: '4.4.0',
-    }) >= 0;
+  static getSupportedFeatures(version: Pick<GodotVersion, 'major' | 'minor'>): Record<EngineFeature, boolean> {
+    const supported = {} as Record<EngineFeature, boolean>;
+    for (const release of FEATURE_RELEASES) {
+      const included = version.major > release.major || (version.major === release.major && version.minor >= release.minor);
+      for (const feature of Object.keys(release.features) as EngineFeature[]) {
+        supported[feature] = included;
+      }
+    }
+    return supported;
+  }
 
-    return {
-      uidSystem: is44OrLater, // UID system introduced in 4.4
-      compositorEffects: is45OrLater, // Compositor system in 4.5+
-      enhancedPhysics: is45OrLater, // Enhanced physics in 4.5+
-      improvedGDScript: is45OrLater, // Improved GDScript parser in 4.5+
-      modernNodeTypes: is45OrLater, // Modern node types in 4.5+
-    };
+  /**
+   * Get the release that introduced a feature
+   */
+  static getFeatureRelease(feature: EngineFeature): FeatureRelease {
+    return FEATURE_RELEASES.find(release => feature in release.features)!;
+  }
+
+  /**
+   * Get the display name of a feature
+   */
+  static getFeatureName(feature: EngineFeature): string {
+    return VersionValidator.getFeatureRelease(feature).features[feature]!;
   }
 
   /**
@@ -0,0 +1,147 @@
+/**
+ * Incremental reads of session output with get_debug_output
+ */
+
+import assert from 'node:assert/strict';
+import { after, before, describe, test } from 'node:test';
+import { SessionLog, classifyLine } from '../src/session-log.js';
+import { TestServer, createProject, removeProject } from './helpers/server.js';
+
+const GAME_OUTPUT = [
+  'Godot Engine v4.5.stable.official.876b29033 - https://godotengine.org',
+  'Player spawned',
+  'WARNING: Texture is larger than 4096 pixels',
+  '     at: load (core/io/image.cpp:120)',
+  'SCRIPT ERROR: Invalid call. Nonexistent function "jump"',
+  '          at: _physics_process (res://scripts/player.gd:12)',
+  'Score: 10',
+].join('\n');
+
+describe('session log', () => {
+  test('lines are classified by level, with location lines joining their message', () => {
+    const log = new SessionLog();
+    log.append('stdout', GAME_OUTPUT + '\n');
+    assert.deepEqual(log.read().lines.map(line => line.level), [
+      'info', 'print', 'warning', 'warning', 'error', 'error', 'print',
+    ]);
+    assert.equal(classifyLine('[INFO] Executing operation: add_node'), 'info');
+    assert.equal(classifyLine('USER ERROR: Failed'), 'error');
+  });
+
+  test('a line split across chunks is added once', () => {
+    const log = new SessionLog();
+    log.append('stdout', 'Hel');
+    log.append('stdout', 'lo\r\nWor');
+    assert.deepEqual(log.read().lines.map(line => line.text), ['Hello']);
+    log.append('stdout', 'ld');
+    log.flush();
+    assert.deepEqual(log.read({ sinceLine: 1 }).lines.map(line => line.text), ['World']);
+  });
+
+  test('the oldest lines are dropped beyond the cap and reported as skipped', () => {
+    const log = new SessionLog(3);
+    log.append('stdout', 'a\nb\nc\nd\ne\n');
+    const page = log.read();
+    assert.deepEqual(page.lines.map(line => [line.line, line.text]), [[3, 'c'], [4, 'd'], [5, 'e']]);
+    assert.equal(page.skipped, 2);
+    assert.equal(log.droppedLines, 2);
+    assert.equal(log.read({ sinceLine: 3 }).skipped, 0);
+  });
+
+  test('the cursor moves past lines that do not match the filter', () => {
+    const log = new SessionLog();
+    log.append('stdout', 'one\ntwo\nERROR: three\nfour\nERROR: five\nsix\n');
+
+    const first = log.read({ levels: ['error'], maxLines: 1 });
+    assert.deepEqual(first.lines.map(line => line.line), [3]);
+    assert.equal(first.nextCursor, 3);
+    assert.equal(first.hasMore, true);
+
+    const second = log.read({ sinceLine: first.nextCursor, levels: ['error'] });
+    assert.deepEqual(second.lines.map(line => line.line), [5]);
+    assert.equal(second.nextCursor, 6);
+    assert.equal(second.hasMore, false);
+  });
+});
+
+describe('get_debug_output', () => {
+  let server: TestServer;
+  let projectPath: string;
+
+  before(async () => {
+    server = await TestServer.start();
+    projectPath = createProject();
+  });
+
+  after(async () => {
+    await server.close();
+    removeProject(projectPath);
+  });
+
+  /**
+   * Run the project with the given output and wait for the session to finish
+   */
+  async function runSession(sessionId: string, stdout: string, extra: Record<string, unknown> = {}): Promise<void> {
+    server.fake.setScenario({ run: { stdout, stderr: 'ERROR: Failed to load resource' } });
+    const started = await server.call('run_project', { projectPath, sessionId, ...extra });
+    assert.equal(started.isError, false, started.text);
+
+    const deadline = Date.now() + 5000;
+    while ((await server.call('get_debug_output', { sessionId })).json().status === 'running') {
+      assert.ok(Date.now() < deadline, 'the session finishes');
+      await new Promise(resolve => setTimeout(resolve, 50));
+    }
+  }
+
+  test('returns numbered lines and a cursor for the next call', async () => {
+    await runSession('cursor', GAME_OUTPUT);
+
+    const all = (await server.call('get_debug_output', { sessionId: 'cursor' })).json();
+    assert.equal(all.totalLines, 8);
+    assert.equal(all.nextCursor, 8);
+    assert.equal(all.hasMore, false);
+    assert.ok(all.lines.some((line: any) => line.stream === 'stderr' && line.level === 'error'));
+
+    const page = (await server.call('get_debug_output', { sessionId: 'cursor', maxLines: 3 })).json();
+    assert.deepEqual(page.lines.map((line: any) => line.line), [1, 2, 3]);
+    assert.equal(page.hasMore, true);
+
+    const rest = (await server.call('get_debug_output', { sessionId: 'cursor', sinceLine: page.nextCursor })).json();
+    assert.equal(rest.lines[0].line, 4);
+
+    const none = (await server.call('get_debug_output', { sessionId: 'cursor', sinceLine: all.nextCursor })).json();
+    assert.deepEqual(none.lines, []);
+    assert.equal(none.nextCursor, 8);
+  });
+
+  test('filters by level and regular expression', async () => {
+    await runSession('filter', GAME_OUTPUT);
+
+    const errors = (await server.call('get_debug_output', { sessionId: 'filter', levels: ['error'] })).json();
+    assert.deepEqual(errors.lines.map((line: any) => line.text), [
+      'SCRIPT ERROR: Invalid call. Nonexistent function "jump"',
+      '          at: _physics_process (res://scripts/player.gd:12)',
+      'ERROR: Failed to load resource',
+    ]);
+
+    const prints = (await server.call('get_debug_output', { sessionId: 'filter', levels: ['print'], search: 'score', ignoreCase: true })).json();
+    assert.deepEqual(prints.lines.map((line: any) => line.text), ['Score: 10']);
+
+    const invalid = await server.call('get_debug_output', { sessionId: 'filter', search: '(' });
+    assert.equal(invalid.isError, true);
+    assert.match(invalid.text, /^Invalid search pattern/);
+  });
+
+  test('keeps at most maxLogLines lines per session', async () => {
+    const lines = Array.from({ length: 50 }, (_, i) => `tick ${i + 1}`).join('\n');
+    await runSession('capped', lines, { maxLogLines: 10 });
+
+    const output = (await server.call('get_debug_output', { sessionId: 'capped' })).json();
+    assert.equal(output.lines.length, 10);
+    assert.equal(output.skippedLines, 41);
+    assert.equal(output.totalLines, 51);
+
+    const sessions = (await server.call('list_sessions')).text;
+    assert.match(sessions, /"droppedLines": 41/);
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Dependency graphs of project files, and the dependency_graph tool on the references Godot reports
+ */
+
+import assert from 'node:assert/strict';
+import { after, before, beforeEach, describe, test } from 'node:test';
+import { DependencyEdge, DependencyGraph } from '../src/dependency-graph.js';
+import { TestServer, createProject, removeProject } from './helpers/server.js';
+
+const FILES = [
+  'res://scenes/main.tscn',
+  'res://scenes/player.tscn',
+  'res://scripts/player.gd',
+  'res://scripts/game_state.gd',
+  'res://scripts/bullet.gd',
+];
+
+const EDGES: DependencyEdge[] = [
+  { from: 'res://project.godot', to: 'res://scenes/main.tscn', kind: 'main_scene' },
+  { from: 'res://project.godot', to: 'res://scripts/game_state.gd', kind: 'autoload', name: 'GameState' },
+  { from: 'res://scenes/main.tscn', to: 'res://scenes/player.tscn', kind: 'ext_resource' },
+  { from: 'res://scenes/player.tscn', to: 'res://scripts/player.gd', kind: 'ext_resource' },
+  { from: 'res://scripts/player.gd', to: 'res://scenes/bullet.tscn', kind: 'preload' },
+  { from: 'res://scripts/player.gd', to: 'res://scripts/game_state.gd', kind: 'load' },
+];
+
+const graph = () => new DependencyGraph(FILES, EDGES, path => path !== 'res://scenes/bullet.tscn');
+
+describe('dependency graphs', () => {
+  test('what a file pulls in and what depends on it, nearest first', () => {
+    assert.deepEqual(graph().dependenciesOf('res://scenes/main.tscn'), [
+      'res://scenes/player.tscn',
+      'res://scripts/player.gd',
+      'res://scenes/bullet.tscn',
+      'res://scripts/game_state.gd',
+    ]);
+    assert.deepEqual(graph().dependenciesOf('res://scenes/main.tscn', false), ['res://scenes/player.tscn']);
+    assert.deepEqual(graph().dependentsOf('res://scripts/game_state.gd'), [
+      'res://project.godot',
+      'res://scripts/player.gd',
+      'res://scenes/player.tscn',
+      'res://scenes/main.tscn',
+    ]);
+    assert.deepEqual(graph().dependentsOf('res://scripts/bullet.gd'), [], 'nothing refers to an unused script');
+  });
+
+  test('files referenced but not on disk are missing', () => {
+    assert.deepEqual(graph().nodes.filter(node => node.missing), [{ path: 'res://scenes/bullet.tscn', missing: true }]);
+  });
+
+  test('the part of the graph around a file', () => {
+    const around = graph().around('res://scripts/player.gd', 'dependents', false);
+    assert.deepEqual(around.nodes.map(node => node.path), ['res://scenes/player.tscn', 'res://scripts/player.gd']);
+    assert.deepEqual(around.edges, [{ from: 'res://scenes/player.tscn', to: 'res://scripts/player.gd', kind: 'ext_resource' }]);
+    assert.throws(() => graph().around('res://nowhere.gd', 'both'), /DependencyGraphError: No file or reference in the project matches res:\/\/nowhere\.gd/);
+  });
+
+  test('DOT and Mermaid', () => {
+    const around = graph().around('res://scripts/player.gd', 'dependencies', false);
+    assert.equal(around.toDot(), [
+      'digraph dependencies {',
+      '  rankdir=LR;',
+      '  node [shape=box];',
+      '  "res://scenes/bullet.tscn" [style=dashed];',
+      '  "res://scripts/game_state.gd";',
+      '  "res://scripts/player.gd";',
+      '  "res://scripts/player.gd" -> "res://scenes/bullet.tscn" [label="preload"];',
+      '  "res://scripts/player.gd" -> "res://scripts/game_state.gd" [label="load"];',
+      '}',
+    ].join('\n'));
+
+    const project = graph().around('res://project.godot', 'dependencies', false);
+    assert.equal(project.toMermaid(), [
+      'flowchart LR',
+      '  n0["res://project.godot"]',
+      '  n1["res://scenes/main.tscn"]',
+      '  n2["res://scripts/game_state.gd"]',
+      '  n0 -->|main_scene| n1',
+      '  n0 -->|autoload GameState| n2',
+    ].join('\n'));
+    assert.match(around.toMermaid(), /\n {2}classDef missing stroke-dasharray: 5 5\n {2}class n0 missing$/);
+  });
+});
+
+describe('dependency_graph', () => {
+  let server: TestServer;
+  let projectPath: string;
+
+  before(async () => {
+    server = await TestServer.start();
+    projectPath = createProject({ 'scenes/player.tscn': '[gd_scene format=3]\n\n[node name="Player" type="Node2D"]\n' });
+  });
+
+  beforeEach(() => {
+    server.fake.reset();
+    server.fake.setScenario({
+      operations: {
+        dependency_graph: { stdout: `Building dependency graph...\n${JSON.stringify({ success: true, files: FILES, edges: EDGES })}` },
+      },
+    });
+  });
+
+  after(async () => {
+    await server.close();
+    removeProject(projectPath);
+  });
+
+  test('answers what depends on a file, with a diagram', async () => {
+    const result = await server.call('dependency_graph', { projectPath, filePath: 'scripts/player.gd', direction: 'dependents', diagram: 'mermaid' });
+    assert.equal(result.isError, false, result.text);
+    const report = result.json();
+    assert.equal(report.file, 'res://scripts/player.gd');
+    assert.deepEqual(report.dependents, ['res://scenes/player.tscn', 'res://scenes/main.tscn', 'res://project.godot']);
+    assert.equal(report.dependencies, undefined);
+    assert.match(report.diagram, /^flowchart LR\n/);
+    assert.deepEqual(server.fake.operations().map(call => call.operation), ['dependency_graph']);
+  });
+
+  test('the whole graph marks files that do not exist', async () => {
+    const result = await server.call('dependency_graph', { projectPath });
+    assert.equal(result.isError, false, result.text);
+    const { nodes, edges } = result.json();
+    assert.equal(edges.length, EDGES.length);
+    assert.deepEqual(nodes.filter((node: { missing?: boolean }) => node.missing).map((node: { path: string }) => node.path), [
+      'res://scenes/bullet.tscn',
+      'res://scripts/bullet.gd',
+      'res://scripts/game_state.gd',
+    ]);
+  });
+
+  test('a file outside the graph is an error', async () => {
+    const result = await server.call('dependency_graph', { projectPath, filePath: 'res://scripts/unknown.gd' });
+    assert.equal(result.isError, true);
+    assert.match(result.text, /Failed to build dependency graph: No file or reference in the project matches res:\/\/scripts\/unknown\.gd/);
+  });
+});
@@ -0,0 +1,157 @@
+#!/usr/bin/env node
+/**
+ * Fake Godot executable for the integration tests
+ *
+ * Records every invocation and answers with scripted output, so the server
+ * can be tested on machines without Godot. The directory named by
+ * FAKE_GODOT_DIR holds:
+ * - calls.jsonl: one line per invocation (and per worker request) with its argv and pid
+ * - scenario.json: the replies, read again on every invocation
+ *
+ * A reply is { stdout, stderr, exitCode, delayMs, files }, where files maps
+ * project-relative paths to content written before the reply is printed.
+ * The scenario has a reply for `--version` (version), for operations run
+ * with `--script` (operations[name], or operationDefault), for
+ * `--doctool` (doctool, mapping class names to XML) and for everything
+ * else, such as running the project or opening the editor (run).
+ * In a persistent worker, a nonzero exitCode ends the worker after the
+ * reply, as a crash would, and a reply for the "worker" operation with a
+ * nonzero exitCode makes the worker fail to start.
+ *
+ * FAKE_GODOT_VERSION, set by the wrapper scripts that stand for other
+ * installations, replaces the scripted `--version` reply and is recorded
+ * with every invocation.
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { createInterface } from 'readline';
+
+const WORKER_READY_MARKER = '[MCP-WORKER-READY]';
+const WORKER_END_MARKER = '[MCP-WORKER-END]';
+
+const stateDir = process.env.FAKE_GODOT_DIR;
+const argv = process.argv.slice(2);
+const installation = process.env.FAKE_GODOT_VERSION;
+
+function record(entry) {
+  if (stateDir) {
+    appendFileSync(join(stateDir, 'calls.jsonl'), JSON.stringify({ ...entry, cwd: process.cwd(), pid: process.pid, installation }) + '\n');
+  }
+}
+
+function scenario() {
+  const path = stateDir ? join(stateDir, 'scenario.json') : '';
+  return path && existsSync(path) ? JSON.parse(readFileSync(path, 'utf8')) : {};
+}
+
+function argAfter(flag) {
+  const index = argv.indexOf(flag);
+  return index >= 0 ? argv[index + 1] : undefined;
+}
+
+function writeFiles(projectPath, files = {}) {
+  for (const [path, content] of Object.entries(files)) {
+    const target = join(projectPath, path.replace(/^res:\/\//, ''));
+    mkdirSync(dirname(target), { recursive: true });
+    writeFileSync(target, content);
+  }
+}
+
+function sleep(ms) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+async function reply(response, projectPath) {
+  writeFiles(projectPath, response.files);
+  if (response.stdout) {
+    process.stdout.write(response.stdout.endsWith('\n') ? response.stdout : response.stdout + '\n');
+  }
+  if (response.stderr) {
+    process.stderr.write(response.stderr.endsWith('\n') ? response.stderr : response.stderr + '\n');
+  }
+  if (response.delayMs) {
+    await sleep(response.delayMs);
+  }
+}
+
+function operationReply(operation) {
+  const current = scenario();
+  return current.operations?.[operation] ?? current.operationDefault ?? { stdout: '{"success": true}' };
+}
+
+async function runWorker(projectPath) {
+  console.log('Godot Engine v4.5.stable.official - https://godotengine.org');
+  console.log(WORKER_READY_MARKER);
+
+  const lines = createInterface({ input: process.stdin });
+  for await (const line of lines) {
+    if (!line.trim()) {
+      continue;
+    }
+    const request = JSON.parse(line);
+    if (request.method === 'shutdown') {
+      process.exit(0);
+    }
+    record({ argv, worker: true, operation: request.method, params: request.params });
+    const response = operationReply(request.method);
+    await reply(response, projectPath);
+    if (response.exitCode) {
+      process.exit(response.exitCode);
+    }
+    const end = `${WORKER_END_MARKER} ${JSON.stringify({ jsonrpc: '2.0', id: request.id, result: {} })}`;
+    process.stdout.write(end + '\n');
+    process.stderr.write(end + '\n');
+  }
+}
+
+async function main() {
+  const projectPath = argAfter('--path') ?? process.cwd();
+  const scriptIndex = argv.indexOf('--script');
+
+  if (argv.includes('--version')) {
+    record({ argv });
+    const response = installation ? { stdout: installation } : scenario().version ?? { stdout: '4.5.stable.official' };
+    await reply(response, projectPath);
+    process.exit(response.exitCode ?? 0);
+  }
+
+  if (argv.includes('--doctool')) {
+    record({ argv });
+    const docDir = join(argAfter('--doctool'), 'doc', 'classes');
+    mkdirSync(docDir, { recursive: true });
+    for (const [className, xml] of Object.entries(scenario().doctool ?? {})) {
+      writeFileSync(join(docDir, `${className}.xml`), xml);
+    }
+    process.exit(0);
+  }
+
+  if (scriptIndex >= 0) {
+    const operation = argv[scriptIndex + 2];
+    if (operation === 'worker') {
+      record({ argv, worker: true });
+      const startup = scenario().operations?.worker;
+      if (startup?.exitCode) {
+        await reply(startup, projectPath);
+        process.exit(startup.exitCode);
+      }
+      await runWorker(projectPath);
+      return;
+    }
+    const params = argv[scriptIndex + 3] ? JSON.parse(argv[scriptIndex + 3]) : {};
+    record({ argv, operation, params });
+    const response = operationReply(operation);
+    await reply(response, projectPath);
+    process.exit(response.exitCode ?? 0);
+  }
+
+  record({ argv });
+  const response = scenario().run ?? {};
+  await reply(response, projectPath);
+  process.exit(response.exitCode ?? 0);
+}
+
+main().catch(error => {
+  process.stderr.write(`fake-godot: ${error.stack ?? error}\n`);
+  process.exit(70);
+});
@@ -0,0 +1,149 @@
+/**
+ * Discovery of Godot installations and per-project engine selection
+ */
+
+import assert from 'node:assert/strict';
+import { after, before, describe, test } from 'node:test';
+import { chmodSync, existsSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { GodotInstallation, projectEngineVersion, selectInstallation } from '../src/godot-installations.js';
+import { VersionValidator } from '../src/version-validator.js';
+import { TestServer, createProject, removeProject } from './helpers/server.js';
+
+const installation = (path: string, version: string): GodotInstallation => ({
+  path,
+  version: VersionValidator.parseVersion(version)!,
+  source: 'path',
+});
+
+/**
+ * project.godot of a project made with an engine version
+ */
+const projectFile = (engineVersion: string) => [
+  'config_version=5',
+  '',
+  '[application]',
+  '',
+  'config/name="Test Project"',
+  `config/features=PackedStringArray("${engineVersion}", "Forward Plus")`,
+  '',
+].join('\n');
+
+describe('installation selection', () => {
+  test('the engine version comes from config/features', () => {
+    assert.deepEqual(projectEngineVersion(['4.4', 'Forward Plus']), { major: 4, minor: 4 });
+    assert.deepEqual(projectEngineVersion(['Mobile', '4.6']), { major: 4, minor: 6 });
+    assert.equal(projectEngineVersion(['Forward Plus']), null);
+  });
+
+  test('stable builds are preferred, then the highest patch', () => {
+    const installations = [
+      installation('beta', '4.5.beta3.official'),
+      installation('old', '4.5.stable.official'),
+      installation('new', '4.5.1.stable.official'),
+      installation('other', '4.4.1.stable.official'),
+    ];
+    assert.equal(selectInstallation(installations, { major: 4, minor: 5 })?.path, 'new');
+    assert.equal(selectInstallation(installations, { major: 4, minor: 4 })?.path, 'other');
+    assert.equal(selectInstallation(installations, { major: 4, minor: 6 }), null);
+    assert.equal(selectInstallation([installation('beta', '4.6.beta2.official')], { major: 4, minor: 6 })?.path, 'beta');
+  });
+});
+
+describe('list_godot_installations', () => {
+  let server: TestServer;
+  let installDir: string;
+  let godot44: string;
+  let godot46: string;
+
+  before(async () => {
+    installDir = mkdtempSync(join(tmpdir(), 'godot-mcp-installs-'));
+    const broken = join(installDir, 'godot-4.2');
+    writeFileSync(broken, '#!/bin/sh\nexit 1\n');
+    chmodSync(broken, 0o755);
+
+    server = await TestServer.start({ env: { GODOT_MCP_GODOT_PATHS: installDir } });
+    godot44 = server.fake.installation(installDir, 'godot-4.4', '4.4.1.stable.official');
+    godot46 = server.fake.installation(installDir, 'Godot_v4.6-beta2_linux.x86_64', '4.6.beta2.official');
+  });
+
+  after(async () => {
+    await server.close();
+    rmSync(installDir, { recursive: true, force: true });
+  });
+
+  test('lists the default executable and every configured installation with its version', async () => {
+    const result = (await server.call('list_godot_installations', { refresh: true })).json();
+    assert.deepEqual(
+      result.installations.map((found: any) => [found.path, found.version, found.source, found.default]),
+      [
+        [server.fake.path, '4.5.0.stable', 'godotPath', true],
+        [godot46, '4.6.0.beta', 'configured', false],
+        [godot44, '4.4.1.stable', 'configured', false],
+      ]
+    );
+    assert.deepEqual(result.skipped.map((skipped: any) => skipped.path), [join(installDir, 'godot-4.2')]);
+  });
+
+  test('selects the installation matching the engine version of a project', async () => {
+    const projectPath = createProject({ 'project.godot': projectFile('4.6') });
+    try {
+      const result = (await server.call('list_godot_installations', { projectPath })).json();
+      assert.deepEqual(result.project, { projectPath, engineVersion: '4.6', godotPath: godot46, reason: 'engineVersion' });
+
+      server.fake.reset();
+      server.fake.setScenario({ operations: { query_node: { stdout: '{"name": "Player", "type": "CharacterBody2D", "children": []}' } } });
+      const queried = await server.call('query_node', { projectPath, scenePath: 'scenes/main.tscn', nodePath: 'Player', engine: true });
+      assert.equal(queried.isError, false, queried.text);
+      assert.deepEqual(server.fake.operations().map(call => call.installation), ['4.6.beta2.official']);
+    } finally {
+      removeProject(projectPath);
+    }
+  });
+
+  test('falls back to the default executable without a matching installation', async () => {
+    for (const features of ['4.3', null]) {
+      const projectPath = createProject(features ? { 'project.godot': projectFile(features) } : {});
+      try {
+        const result = (await server.call('list_godot_installations', { projectPath })).json();
+        assert.equal(result.project.godotPath, server.fake.path);
+        assert.equal(result.project.reason, 'default');
+        assert.equal(result.project.engineVersion, features);
+      } finally {
+        removeProject(projectPath);
+      }
+    }
+  });
+});
+
+describe('installations on PATH', () => {
+  let server: TestServer;
+  let binDir: string;
+
+  before(async () => {
+    binDir = mkdtempSync(join(tmpdir(), 'godot-mcp-bin-'));
+    // Other programs whose names start with "godot" must not be run to ask for their version
+    for (const name of ['godot-mcp', 'godotenv']) {
+      const path = join(binDir, name);
+      writeFileSync(path, `#!/bin/sh\ntouch '${path}.ran'\necho 4.5.stable.official\n`);
+      chmodSync(path, 0o755);
+    }
+    server = await TestServer.start({ env: { GODOT_MCP_DISCOVER: 'true', PATH: `${binDir}:${process.env.PATH ?? ''}` } });
+    server.fake.installation(binDir, 'godot4', '4.4.1.stable.official');
+  });
+
+  after(async () => {
+    await server.close();
+    rmSync(binDir, { recursive: true, force: true });
+  });
+
+  test('only executables named like Godot are run', async () => {
+    const result = (await server.call('list_godot_installations', { refresh: true })).json();
+    const inBin = (found: { path: string }) => found.path.startsWith(binDir);
+    assert.deepEqual(result.installations.filter(inBin).map((found: any) => [found.path, found.source]), [[join(binDir, 'godot4'), 'path']]);
+    assert.deepEqual(result.skipped.filter(inBin), []);
+    assert.equal(existsSync(join(binDir, 'godot-mcp.ran')), false, 'godot-mcp was run');
+    assert.equal(existsSync(join(binDir, 'godotenv.ran')), false, 'godotenv was run');
+  });
+});
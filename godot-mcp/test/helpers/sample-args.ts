@@ -0,0 +1,76 @@
+/**
+ * Sample Tool Arguments
+ *
+ * Builds the smallest valid arguments for a tool from its input schema, with
+ * paths pointing at the files of a project made by createProject, so every
+ * tool can be called without hand-written arguments.
+ */
+
+import { JsonSchema } from '../../src/tool-schema.js';
+
+/**
+ * Values for arguments whose meaning a generic value would not satisfy
+ */
+const NAMED_VALUES: Record<string, unknown> = {
+  scenePath: 'scenes/main.tscn',
+  scene: 'scenes/main.tscn',
+  scriptPath: 'scripts/player.gd',
+  script: 'scripts/player.gd',
+  filePath: 'scenes/main.tscn',
+  texturePath: 'icon.svg',
+  assetPath: 'icon.svg',
+  resourcePath: 'resources/sample.tres',
+  themePath: 'resources/theme.tres',
+  outputPath: 'exports/output.res',
+  nodePath: 'Player',
+  parentNodePath: '.',
+  sourceNodePath: 'Player',
+  targetNodePath: '.',
+  animationPlayerPath: 'AnimationPlayer',
+  path: 'scripts/player.gd',
+  settings: { 'application/config/description': 'Sample' },
+  properties: { visible: true },
+};
+
+/**
+ * Smallest valid value for a schema: required properties only, one item per required array
+ * @param projectPath Value used for projectPath and directory arguments
+ */
+export function sampleValue(schema: JsonSchema, name: string, projectPath: string): unknown {
+  if (name === 'projectPath' || name === 'directory') {
+    return projectPath;
+  }
+  if (schema.enum) {
+    return schema.enum[0];
+  }
+  if (name in NAMED_VALUES) {
+    return NAMED_VALUES[name];
+  }
+
+  switch (schema.type) {
+    case 'string':
+      return 'Sample';
+    case 'number':
+      return 1;
+    case 'boolean':
+      return true;
+    case 'array':
+      return schema.items ? [sampleValue(schema.items, name, projectPath)] : [];
+    case 'object': {
+      const value: Record<string, unknown> = {};
+      for (const key of schema.required ?? []) {
+        value[key] = sampleValue(schema.properties![key], key, projectPath);
+      }
+      return value;
+    }
+    default:
+      return 1;
+  }
+}
+
+/**
+ * Smallest valid arguments of a tool
+ */
+export function sampleArgs(schema: JsonSchema, projectPath: string): Record<string, unknown> {
+  return sampleValue(schema, '', projectPath) as Record<string, unknown>;
+}
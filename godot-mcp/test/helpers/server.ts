@@ -0,0 +1,284 @@
+/**
+ * Test Harness for the Godot MCP Server
+ *
+ * Starts the compiled server over stdio with the fake Godot executable and
+ * connects an MCP client to it, so tests exercise the same code path as a
+ * real assistant: argument validation, policies and the tool handlers.
+ */
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { CallToolResultSchema, LoggingMessageNotification, LoggingMessageNotificationSchema, Progress } from '@modelcontextprotocol/sdk/types.js';
+import { chmodSync, existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join, resolve } from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+// The tests run from build-test/test/helpers; the fixtures are not compiled
+const SERVER_ENTRY = resolve(__dirname, '../../src/index.js');
+export const FAKE_GODOT_PATH = resolve(__dirname, '../../../test/fixtures/fake-godot.mjs');
+
+/**
+ * Interface for a scripted reply of the fake Godot executable
+ */
+export interface FakeReply {
+  stdout?: string;
+  stderr?: string;
+  exitCode?: number;
+  delayMs?: number;
+  files?: Record<string, string>; // Project-relative paths written before replying
+}
+
+/**
+ * Interface for the replies of the fake Godot executable
+ */
+export interface FakeScenario {
+  version?: FakeReply;
+  operations?: Record<string, FakeReply>;
+  operationDefault?: FakeReply;
+  doctool?: Record<string, string>; // Class name to XML written by --doctool
+  run?: FakeReply;
+}
+
+/**
+ * Interface for one recorded invocation of the fake Godot executable
+ */
+export interface FakeCall {
+  argv: string[];
+  cwd: string;
+  pid: number;
+  worker?: boolean;
+  operation?: string;
+  params?: Record<string, any>;
+  installation?: string; // Version of the installation made by FakeGodot.installation, if one was used
+}
+
+/**
+ * Interface for the result of a tool call
+ */
+export interface ToolCallResult {
+  isError: boolean;
+  text: string; // Text of all content items
+  json<T = any>(): T;
+}
+
+/**
+ * Interface for a tool call in progress
+ */
+export interface PendingToolCall {
+  result: Promise<ToolCallResult>;
+  cancel(): Promise<void>; // Ask the server to cancel the call; result then rejects
+}
+
+/**
+ * State directory of the fake Godot executable
+ */
+export class FakeGodot {
+  readonly dir: string;
+  readonly path: string = FAKE_GODOT_PATH;
+
+  constructor() {
+    this.dir = mkdtempSync(join(tmpdir(), 'godot-mcp-fake-'));
+    chmodSync(this.path, 0o755);
+  }
+
+  setScenario(scenario: FakeScenario): void {
+    writeFileSync(join(this.dir, 'scenario.json'), JSON.stringify(scenario));
+  }
+
+  /**
+   * Every invocation since the last reset
+   */
+  calls(): FakeCall[] {
+    const log = join(this.dir, 'calls.jsonl');
+    if (!existsSync(log)) {
+      return [];
+    }
+    return readFileSync(log, 'utf8').split('\n').filter(line => line !== '').map(line => JSON.parse(line));
+  }
+
+  /**
+   * Operations run with --script, in one-shot processes or by a worker
+   */
+  operations(): FakeCall[] {
+    return this.calls().filter(call => call.operation !== undefined);
+  }
+
+  /**
+   * Create another fake installation reporting a version
+   * @param dir Directory to create it in
+   * @returns Path of its executable
+   */
+  installation(dir: string, name: string, version: string): string {
+    mkdirSync(dir, { recursive: true });
+    const path = join(dir, name);
+    writeFileSync(path, `#!/bin/sh\nFAKE_GODOT_VERSION='${version}' exec '${this.path}' "$@"\n`);
+    chmodSync(path, 0o755);
+    return path;
+  }
+
+  reset(): void {
+    rmSync(join(this.dir, 'calls.jsonl'), { force: true });
+    rmSync(join(this.dir, 'scenario.json'), { force: true });
+  }
+
+  dispose(): void {
+    rmSync(this.dir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * A running server with a connected client
+ */
+export class TestServer {
+  readonly client: Client;
+  readonly fake: FakeGodot;
+  readonly logMessages: LoggingMessageNotification['params'][] = []; // Logging messages received, oldest first
+  private cacheDir: string;
+
+  private constructor(client: Client, fake: FakeGodot, cacheDir: string) {
+    this.client = client;
+    this.fake = fake;
+    this.cacheDir = cacheDir;
+    client.setNotificationHandler(LoggingMessageNotificationSchema, notification => {
+      this.logMessages.push(notification.params);
+    });
+  }
+
+  /**
+   * Start a server. Persistent workers are off unless requested, so every
+   * operation is a separate invocation of the fake executable.
+   */
+  static async start(options: { env?: Record<string, string>; worker?: boolean } = {}): Promise<TestServer> {
+    const fake = new FakeGodot();
+    const cacheDir = mkdtempSync(join(tmpdir(), 'godot-mcp-cache-'));
+
+    // Only pass through what the server needs, so settings and Godot installations of the machine running the tests do not leak in
+    const env: Record<string, string> = {
+      PATH: process.env.PATH ?? '',
+      HOME: cacheDir,
+      GODOT_PATH: fake.path,
+      GODOT_MCP_WORKER: options.worker ? 'true' : 'false',
+      GODOT_MCP_DISCOVER: 'false',
+      FAKE_GODOT_DIR: fake.dir,
+      MCP_CACHE_DIR: cacheDir,
+      ...options.env,
+    };
+
+    const client = new Client({ name: 'godot-mcp-tests', version: '1.0.0' }, { capabilities: {} });
+    await client.connect(new StdioClientTransport({
+      command: process.execPath,
+      args: [SERVER_ENTRY],
+      env,
+      stderr: 'ignore',
+    }));
+    return new TestServer(client, fake, cacheDir);
+  }
+
+  /**
+   * Call a tool and collect the text of its result
+   */
+  async call(name: string, args: Record<string, unknown> = {}): Promise<ToolCallResult> {
+    return toToolCallResult(await this.client.callTool({ name, arguments: args }));
+  }
+
+  /**
+   * Start a tool call that reports progress and can be cancelled
+   */
+  startCall(
+    name: string,
+    args: Record<string, unknown>,
+    onprogress?: (progress: Progress) => void
+  ): PendingToolCall {
+    const controller = new AbortController();
+    const result = this.client.request(
+      { method: 'tools/call', params: { name, arguments: args } },
+      CallToolResultSchema,
+      { onprogress, signal: controller.signal }
+    );
+
+    // Requests are numbered in order, so this is the id of the call just sent
+    const requestId: number = (this.client as any)._requestMessageId - 1;
+    return {
+      result: result.then(toToolCallResult),
+      cancel: async () => {
+        // The client of this SDK version announces cancellation under an
+        // outdated method name, so the current notification is sent here
+        await this.client.notification({
+          method: 'notifications/cancelled',
+          params: { requestId, reason: 'Cancelled by the test' },
+        });
+        controller.abort();
+      },
+    };
+  }
+
+  async close(): Promise<void> {
+    await this.client.close();
+    this.fake.dispose();
+    rmSync(this.cacheDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Collect the text of a tool result
+ */
+function toToolCallResult(response: unknown): ToolCallResult {
+  const result = response as {
+    content: Array<{ type: string; text?: string }>;
+    isError?: boolean;
+  };
+  const text = result.content
+    .filter(item => item.type === 'text')
+    .map(item => item.text ?? '')
+    .join('\n');
+  return {
+    isError: result.isError === true,
+    text,
+    json: () => JSON.parse(text),
+  };
+}
+
+/**
+ * Create a minimal Godot project in a temporary directory
+ * @param files Extra project-relative files to create
+ */
+export function createProject(files: Record<string, string> = {}): string {
+  const projectPath = mkdtempSync(join(tmpdir(), 'godot-mcp-project-'));
+  const defaults: Record<string, string> = {
+    'project.godot': [
+      'config_version=5',
+      '',
+      '[application]',
+      '',
+      'config/name="Test Project"',
+      'run/main_scene="res://scenes/main.tscn"',
+      '',
+    ].join('\n'),
+    'scenes/main.tscn': [
+      '[gd_scene format=3 uid="uid://cmain"]',
+      '',
+      '[node name="Main" type="Node2D"]',
+      '',
+      '[node name="Player" type="CharacterBody2D" parent="."]',
+      '',
+    ].join('\n'),
+    'scripts/player.gd': 'extends CharacterBody2D\n\nfunc _ready():\n\tpass\n',
+  };
+
+  for (const [path, content] of Object.entries({ ...defaults, ...files })) {
+    const target = join(projectPath, path);
+    mkdirSync(dirname(target), { recursive: true });
+    writeFileSync(target, content);
+  }
+  return projectPath;
+}
+
+/**
+ * Delete a project created by createProject
+ */
+export function removeProject(projectPath: string): void {
+  rmSync(projectPath, { recursive: true, force: true });
+}
@@ -0,0 +1,208 @@
+/**
+ * Undo, redo and dry runs of tool calls whose operations write files, and the
+ * read-only policy
+ */
+
+import assert from 'node:assert/strict';
+import { existsSync, lstatSync, mkdtempSync, readFileSync, rmSync, symlinkSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { after, before, describe, test } from 'node:test';
+import { DryRunWorkspace } from '../src/dry-run.js';
+import { TestServer, createProject, removeProject } from './helpers/server.js';
+
+const CHANGED_SCENE = '[gd_scene format=3 uid="uid://cmain"]\n\n[node name="Main" type="Node2D"]\n\n[node name="Icon" type="Sprite2D" parent="."]\n';
+
+const ADD_ICON = { scenePath: 'scenes/main.tscn', nodeType: 'Sprite2D', nodeName: 'Icon' };
+
+describe('change history', () => {
+  let server: TestServer;
+  let projectPath: string;
+  let originalScene: string;
+
+  before(async () => {
+    server = await TestServer.start();
+    projectPath = createProject({ '.godot/uid_cache.bin': 'cache' });
+    originalScene = readFileSync(join(projectPath, 'scenes/main.tscn'), 'utf8');
+  });
+
+  after(async () => {
+    await server.close();
+    removeProject(projectPath);
+  });
+
+  const scene = () => readFileSync(join(projectPath, 'scenes/main.tscn'), 'utf8');
+
+  test('a dry run reports the diff and leaves the project unchanged', async () => {
+    server.fake.setScenario({ operations: { add_node: { files: { 'scenes/main.tscn': CHANGED_SCENE } } } });
+    const result = await server.call('add_node', { projectPath, ...ADD_ICON, dryRun: true });
+
+    assert.equal(result.isError, false, result.text);
+    assert.match(result.text, /^Dry run of add_node: 1 file\(s\) would change\. Nothing was written/);
+    assert.match(result.text, /\+\[node name="Icon" type="Sprite2D" parent="\."\]/);
+    assert.doesNotMatch(result.text, /godot-mcp-dry-run-/, 'the temporary copy is not mentioned');
+    assert.equal(scene(), originalScene);
+
+    const history = (await server.call('list_change_history', { projectPath })).json();
+    assert.deepEqual(history.undo, []);
+  });
+
+  test('a tool call that writes a file can be undone and redone', async () => {
+    await server.call('add_node', { projectPath, ...ADD_ICON });
+    assert.equal(scene(), CHANGED_SCENE);
+
+    const history = (await server.call('list_change_history', { projectPath })).json();
+    assert.equal(history.undo.length, 1);
+    assert.equal(history.undo[0].tool, 'add_node');
+    assert.deepEqual(history.undo[0].files, [{ path: 'scenes/main.tscn', status: 'modified' }]);
+
+    const undone = await server.call('undo_last_change', { projectPath });
+    assert.equal(undone.isError, false, undone.text);
+    assert.equal(scene(), originalScene);
+
+    const redone = await server.call('redo_change', { projectPath });
+    assert.equal(redone.isError, false, redone.text);
+    assert.equal(scene(), CHANGED_SCENE);
+  });
+
+  test('undo refuses to overwrite files changed outside the server', async () => {
+    server.fake.setScenario({ operations: { add_node: { files: { 'scenes/main.tscn': `${CHANGED_SCENE}\n; edited` } } } });
+    await server.call('add_node', { projectPath, ...ADD_ICON });
+
+    // The scene is edited outside the server, for example in the editor
+    writeFileSync(join(projectPath, 'scenes/main.tscn'), 'edited elsewhere');
+
+    const refused = await server.call('undo_last_change', { projectPath });
+    assert.equal(refused.isError, true);
+    assert.match(refused.text, /Files changed since change #\d+ \(add_node\): scenes\/main\.tscn/);
+
+    const forced = await server.call('undo_last_change', { projectPath, force: true });
+    assert.equal(forced.isError, false, forced.text);
+    assert.equal(scene(), CHANGED_SCENE);
+    server.fake.reset();
+  });
+
+  test('files a dry run creates anywhere, and the import cache, stay in the copy', async () => {
+    const sceneBefore = scene();
+    server.fake.setScenario({
+      operations: {
+        add_node: {
+          files: {
+            'scripts/player.gd.uid': 'uid://cplayer',
+            'scenes/generated/enemy.tscn': '[gd_scene format=3]\n',
+            '.godot/uid_cache.bin': 'rebuilt',
+          },
+        },
+      },
+    });
+    const result = await server.call('add_node', { projectPath, ...ADD_ICON, dryRun: true });
+
+    assert.equal(result.isError, false, result.text);
+    assert.match(result.text, /^Dry run of add_node: 2 file\(s\) would change/);
+    assert.match(result.text, /- scenes\/generated\/enemy\.tscn \(added\)\n- scripts\/player\.gd\.uid \(added\)/);
+    assert.equal(existsSync(join(projectPath, 'scripts/player.gd.uid')), false);
+    assert.equal(existsSync(join(projectPath, 'scenes/generated')), false);
+    assert.equal(readFileSync(join(projectPath, '.godot/uid_cache.bin'), 'utf8'), 'cache');
+    assert.equal(scene(), sceneBefore);
+  });
+
+  test('a dry run that writes other project files leaves them untouched', async () => {
+    const script = join(projectPath, 'scripts/player.gd');
+    const originalScript = readFileSync(script, 'utf8');
+    server.fake.setScenario({ operations: { add_node: { files: { 'scripts/player.gd': 'extends Node\n' } } } });
+    const result = await server.call('add_node', { projectPath, ...ADD_ICON, dryRun: true });
+
+    assert.equal(result.isError, false, result.text);
+    assert.match(result.text, /- scripts\/player\.gd \(modified\)/);
+    assert.equal(readFileSync(script, 'utf8'), originalScript);
+  });
+
+  test('a project reached through a symlink shares its history', async () => {
+    const linkDir = mkdtempSync(join(tmpdir(), 'godot-mcp-link-'));
+    const linkedProject = join(linkDir, 'game');
+    symlinkSync(projectPath, linkedProject);
+    try {
+      const sceneBefore = scene();
+      server.fake.setScenario({ operations: { add_node: { files: { 'scenes/main.tscn': `${CHANGED_SCENE}\n; linked` } } } });
+      await server.call('add_node', { projectPath: linkedProject, ...ADD_ICON });
+
+      const history = (await server.call('list_change_history', { projectPath })).json();
+      assert.equal(history.undo[0].tool, 'add_node');
+      assert.deepEqual(history.undo[0].files, [{ path: 'scenes/main.tscn', status: 'modified' }]);
+
+      const undone = await server.call('undo_last_change', { projectPath });
+      assert.equal(undone.isError, false, undone.text);
+      assert.equal(scene(), sceneBefore);
+    } finally {
+      rmSync(linkDir, { recursive: true, force: true });
+      server.fake.reset();
+    }
+  });
+});
+
+describe('read-only policy', () => {
+  let server: TestServer;
+  let projectPath: string;
+
+  before(async () => {
+    server = await TestServer.start({ env: { GODOT_MCP_READ_ONLY: 'true' } });
+    projectPath = createProject();
+  });
+
+  after(async () => {
+    await server.close();
+    removeProject(projectPath);
+  });
+
+  test('write tools are refused before Godot starts', async () => {
+    const result = await server.call('add_node', { projectPath, ...ADD_ICON });
+    assert.equal(result.isError, true);
+    assert.match(result.text, /Tool add_node is not allowed because the server is read-only \(it needs write access\)/);
+    assert.deepEqual(server.fake.operations(), []);
+  });
+
+  test('read tools still run', async () => {
+    const result = await server.call('query_node', { projectPath, scenePath: 'scenes/main.tscn', nodePath: 'Player', engine: true });
+    assert.equal(result.isError, false, result.text);
+    assert.equal(server.fake.operations()[0].operation, 'query_node');
+  });
+});
+
+describe('dry run copies', () => {
+  let projectPath: string;
+  let workspace: DryRunWorkspace;
+
+  before(() => {
+    projectPath = createProject({
+      '.godot/imported/icon.png-0123.ctex': 'texture',
+      '.godot/uid_cache.bin': 'cache',
+      '.godot/editor/state.cfg': 'editor',
+      '.git/HEAD': 'ref: refs/heads/main',
+      'node_modules/tool/index.js': '',
+      'docs/.gdignore': '',
+      'docs/notes.md': 'notes',
+    });
+    workspace = DryRunWorkspace.create(projectPath);
+  });
+
+  after(() => {
+    workspace.dispose();
+    removeProject(projectPath);
+  });
+
+  test('files are copied, with the import cache scenes need to load', () => {
+    const copied = (path: string) => existsSync(join(workspace.root, path));
+    assert.equal(lstatSync(join(workspace.root, 'scripts/player.gd')).isFile(), true, 'files are not linked to the project');
+    assert.equal(readFileSync(join(workspace.root, '.godot/imported/icon.png-0123.ctex'), 'utf8'), 'texture');
+    assert.equal(copied('.godot/uid_cache.bin'), true);
+    assert.equal(copied('.godot/editor'), false);
+    assert.deepEqual(['.git', 'node_modules', 'docs'].filter(copied), [], 'directories Godot never reads are left out');
+  });
+
+  test('writes to the copy, including the import cache, are not changes', () => {
+    writeFileSync(join(workspace.root, '.godot/uid_cache.bin'), 'rebuilt');
+    writeFileSync(join(workspace.root, 'scripts/player.gd'), 'extends Node\n');
+    assert.deepEqual(workspace.changes().map(change => change.path), ['scripts/player.gd']);
+    assert.equal(readFileSync(join(projectPath, '.godot/uid_cache.bin'), 'utf8'), 'cache');
+  });
+});
@@ -0,0 +1,209 @@
+/**
+ * The HTTP/SSE transport: host and origin checks, the bearer token and /health,
+ * on its own and served by the server next to stdio
+ */
+
+import assert from 'node:assert/strict';
+import { after, before, describe, test } from 'node:test';
+import { IncomingMessage, request } from 'http';
+import { createServer as createNetServer } from 'net';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { HttpTransportHost, isLoopbackHost } from '../src/http-transport.js';
+import { TestServer } from './helpers/server.js';
+
+/**
+ * Interface for the response of a request to the transport
+ */
+interface HttpResponse {
+  status: number;
+  body: any;
+}
+
+/**
+ * Send a GET request with explicit headers, which fetch does not allow for Host
+ */
+function get(host: HttpTransportHost | string, path: string, headers: Record<string, string> = {}): Promise<HttpResponse> {
+  const url = new URL(path, typeof host === 'string' ? host : host.url);
+  return new Promise((resolve, reject) => {
+    const req = request(url, { headers: { host: url.host, ...headers } }, res => {
+      let text = '';
+      res.on('data', chunk => { text += chunk; });
+      res.on('end', () => resolve({ status: res.statusCode ?? 0, body: text ? JSON.parse(text) : null }));
+    });
+    req.on('error', reject);
+    req.end();
+  });
+}
+
+/**
+ * A port nothing listens on
+ */
+function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const probe = createNetServer();
+    probe.once('error', reject);
+    probe.listen(0, '127.0.0.1', () => {
+      const address = probe.address();
+      probe.close(() => resolve(typeof address === 'object' && address ? address.port : 0));
+    });
+  });
+}
+
+/**
+ * Open an SSE stream and collect its events until closed
+ */
+function openStream(url: string, headers: Record<string, string>): Promise<{ response: IncomingMessage; events: string[]; close(): void }> {
+  return new Promise((resolve, reject) => {
+    const req = request(url, { headers }, response => {
+      const events: string[] = [];
+      let buffer = '';
+      response.on('data', chunk => {
+        buffer += chunk;
+        const parts = buffer.split('\n\n');
+        buffer = parts.pop() ?? '';
+        events.push(...parts);
+      });
+      resolve({ response, events, close: () => req.destroy() });
+    });
+    req.on('error', reject);
+    req.end();
+  });
+}
+
+async function waitFor<T>(check: () => T | undefined, timeoutMs: number = 5000): Promise<T> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    const value = check();
+    if (value !== undefined) {
+      return value;
+    }
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+  throw new Error('Timed out waiting for the SSE stream');
+}
+
+function createTransport(options: { authToken?: string; host?: string; allowedHosts?: string[] } = {}): HttpTransportHost {
+  return new HttpTransportHost({
+    port: 0,
+    createServer: () => new Server({ name: 'test', version: '1.0.0' }, { capabilities: {} }),
+    getHealth: () => ({ godotPath: '/opt/godot' }),
+    ...options,
+  });
+}
+
+describe('HTTP transport', () => {
+  let transport: HttpTransportHost;
+
+  before(async () => {
+    transport = createTransport({ authToken: 'secret', allowedHosts: ['godot.lan'] });
+    await transport.start();
+  });
+
+  after(async () => {
+    await transport.stop();
+  });
+
+  test('requests for another host are rejected', async () => {
+    const port = new URL(transport.url).port;
+    assert.equal((await get(transport, '/health', { host: `attacker.example:${port}` })).status, 403, 'DNS rebinding');
+    assert.equal((await get(transport, '/health', { host: '127.0.0.1:1' })).status, 403, 'another port');
+    assert.equal((await get(transport, '/health', { host: `localhost:${port}` })).status, 200, 'loopback names are the same host');
+    assert.equal((await get(transport, '/health', { host: `godot.lan:${port}` })).status, 200, 'allowed host');
+  });
+
+  test('browser requests from other origins are rejected', async () => {
+    const port = new URL(transport.url).port;
+    assert.equal((await get(transport, '/health', { origin: 'https://attacker.example' })).status, 403);
+    assert.equal((await get(transport, '/health', { origin: 'null' })).status, 403);
+    assert.equal((await get(transport, '/health', { origin: `http://localhost:${port}` })).status, 200);
+  });
+
+  test('/health only reports details with the token', async () => {
+    assert.deepEqual(await get(transport, '/health'), { status: 200, body: { status: 'ok' } });
+    assert.deepEqual(await get(transport, '/health', { authorization: 'Bearer wrong' }), { status: 200, body: { status: 'ok' } });
+    assert.deepEqual(await get(transport, '/health', { authorization: 'Bearer secret' }), {
+      status: 200,
+      body: { status: 'ok', sessions: 0, godotPath: '/opt/godot' },
+    });
+  });
+
+  test('sessions need the token', async () => {
+    assert.equal((await get(transport, '/sse')).status, 401);
+    assert.equal((await get(transport, '/sse?access_token=wrong')).status, 401);
+  });
+});
+
+describe('HTTP transport hosts', () => {
+  test('loopback hosts', () => {
+    assert.equal(isLoopbackHost('127.0.0.1'), true);
+    assert.equal(isLoopbackHost('127.1.2.3'), true);
+    assert.equal(isLoopbackHost('localhost'), true);
+    assert.equal(isLoopbackHost('::1'), true);
+    assert.equal(isLoopbackHost('0.0.0.0'), false);
+    assert.equal(isLoopbackHost('192.168.1.10'), false);
+  });
+
+  test('refuses to listen beyond loopback without a token', async () => {
+    const transport = createTransport({ host: '0.0.0.0' });
+    await assert.rejects(transport.start(), /HttpTransportError: HTTP transport on 0\.0\.0\.0 needs an auth token/);
+    await transport.stop();
+  });
+});
+
+describe('server over HTTP with a token', () => {
+  let server: TestServer;
+  let baseUrl: string;
+
+  before(async () => {
+    const port = await freePort();
+    baseUrl = `http://127.0.0.1:${port}`;
+    // Both transports: the stdio client is connected once HTTP is listening
+    server = await TestServer.start({
+      env: { GODOT_MCP_TRANSPORT: 'both', GODOT_MCP_HTTP_PORT: String(port), GODOT_MCP_HTTP_TOKEN: 'secret' },
+    });
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  test('a missing or wrong token is refused', async () => {
+    for (const headers of [{}, { authorization: 'Bearer wrong' }, { authorization: 'Basic c2VjcmV0' }] as Record<string, string>[]) {
+      assert.equal((await get(baseUrl, '/sse', headers)).status, 401, JSON.stringify(headers));
+    }
+    assert.equal((await get(baseUrl, '/sse?access_token=secre')).status, 401);
+    assert.equal((await get(baseUrl, '/messages?sessionId=unknown', { authorization: 'Bearer secret' })).status, 405);
+  });
+
+  test('/health reports server details only with the token', async () => {
+    assert.deepEqual((await get(baseUrl, '/health')).body, { status: 'ok' });
+    const health = (await get(baseUrl, '/health', { authorization: 'Bearer secret' })).body;
+    assert.equal(health.status, 'ok');
+    assert.equal(health.godotPath, server.fake.path);
+    assert.deepEqual(health.allowedRoots, []);
+  });
+
+  test('the correct token opens a session that answers requests', async () => {
+    const stream = await openStream(`${baseUrl}/sse`, { authorization: 'Bearer secret' });
+    try {
+      assert.equal(stream.response.statusCode, 200);
+      const endpoint = await waitFor(() => stream.events.find(event => event.startsWith('event: endpoint')));
+      const messagesPath = endpoint.split('data: ')[1].trim();
+
+      const post = (headers: Record<string, string>) => fetch(new URL(messagesPath, baseUrl), {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', ...headers },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list', params: {} }),
+      });
+      assert.equal((await post({})).status, 401, 'every message needs the token');
+      assert.equal((await post({ authorization: 'Bearer secret' })).status, 202);
+
+      const reply = await waitFor(() => stream.events.find(event => event.startsWith('event: message')));
+      const message = JSON.parse(reply.split('data: ')[1]);
+      assert.equal(message.id, 1);
+      assert.ok(message.result.tools.some((tool: { name: string }) => tool.name === 'query_node'));
+    } finally {
+      stream.close();
+    }
+  });
+});
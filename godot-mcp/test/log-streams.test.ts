@@ -0,0 +1,166 @@
+/**
+ * Streaming session output as MCP logging messages
+ */
+
+import assert from 'node:assert/strict';
+import { after, before, describe, test } from 'node:test';
+import { LogSubscriptions, exitMessage, lineMessage, parseLocationLine } from '../src/log-streams.js';
+import { LogLine } from '../src/session-log.js';
+import { TestServer, createProject, removeProject } from './helpers/server.js';
+
+const GAME_OUTPUT = [
+  'Player spawned',
+  'SCRIPT ERROR: Invalid call. Nonexistent function "jump" in base "Nil".',
+  '          at: _physics_process (res://scripts/player.gd:12)',
+  'WARNING: Texture is larger than 4096 pixels',
+  'Score: 10',
+].join('\n');
+
+const logLine = (line: number, level: LogLine['level'], text: string): LogLine => ({ line, stream: 'stdout', level, text });
+
+/**
+ * Wait until a condition holds
+ */
+async function waitFor(condition: () => boolean, timeout: number = 5000): Promise<void> {
+  const deadline = Date.now() + timeout;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error(`Condition not met within ${timeout}ms`);
+    }
+    await new Promise(resolve => setTimeout(resolve, 50));
+  }
+}
+
+describe('log messages', () => {
+  test('errors carry their source and message, and location lines their script and line', () => {
+    const error = lineMessage('game', logLine(2, 'error', 'SCRIPT ERROR: Invalid call.'));
+    assert.equal(error.level, 'error');
+    assert.equal(error.logger, 'godot/game');
+    assert.deepEqual(error.data, {
+      sessionId: 'game', line: 2, stream: 'stdout', level: 'error',
+      text: 'SCRIPT ERROR: Invalid call.', source: 'script', message: 'Invalid call.',
+    });
+
+    const location = lineMessage('game', logLine(3, 'error', '   at: _ready (res://scripts/player.gd:12)'));
+    assert.deepEqual((location.data as any).location, { function: '_ready', script: 'res://scripts/player.gd', line: 12 });
+    assert.deepEqual(parseLocationLine('at: res://main.gd:4'), { script: 'res://main.gd', line: 4 });
+    assert.equal(parseLocationLine('Player spawned'), null);
+
+    assert.equal(lineMessage('game', logLine(1, 'print', 'Score: 10')).level, 'info');
+    assert.equal(lineMessage('game', logLine(1, 'info', 'Godot Engine v4.5')).level, 'debug');
+  });
+
+  test('subscriptions filter by session, level and pattern', () => {
+    const subscriptions = new LogSubscriptions();
+    const error = logLine(2, 'error', 'SCRIPT ERROR: Invalid call.');
+    const print = logLine(1, 'print', 'Score: 10');
+    const wants = (sessionId: string, line: LogLine) => subscriptions.wants(sessionId, lineMessage(sessionId, line), line);
+
+    assert.equal(wants('game', error), false, 'nothing is sent without a subscription');
+
+    const errors = subscriptions.add({ sessionId: 'game', levels: ['error'] });
+    assert.equal(wants('game', error), true);
+    assert.equal(wants('game', print), false);
+    assert.equal(wants('server', error), false);
+
+    subscriptions.add({ search: /score/i });
+    assert.equal(wants('server', print), true);
+
+    subscriptions.minimumLevel = 'warning';
+    assert.equal(wants('server', print), false);
+
+    const exit = exitMessage({ sessionId: 'game', status: 'exited', exitCode: 0, exitSignal: null });
+    subscriptions.minimumLevel = 'debug';
+    assert.equal(subscriptions.remove(errors.id), true);
+    assert.equal(subscriptions.wants('game', exit), true, 'session events reach every subscription to the session');
+    assert.equal(subscriptions.clear(), 1);
+    assert.equal(subscriptions.wants('game', exit), false);
+  });
+});
+
+describe('subscribe_session_output', () => {
+  let server: TestServer;
+  let projectPath: string;
+
+  before(async () => {
+    server = await TestServer.start();
+    projectPath = createProject();
+  });
+
+  after(async () => {
+    await server.close();
+    removeProject(projectPath);
+  });
+
+  const exited = (sessionId: string) => () =>
+    server.logMessages.some(message => (message.data as any).event === 'exited' && (message.data as any).sessionId === sessionId);
+
+  /**
+   * Run the project and wait for its process to finish
+   */
+  async function runSession(sessionId: string): Promise<void> {
+    server.fake.setScenario({ run: { stdout: GAME_OUTPUT, delayMs: 300 } });
+    const started = await server.call('run_project', { projectPath, sessionId });
+    assert.equal(started.isError, false, started.text);
+
+    const deadline = Date.now() + 5000;
+    while ((await server.call('get_debug_output', { sessionId })).json().status === 'running') {
+      assert.ok(Date.now() < deadline, 'the session finishes');
+      await new Promise(resolve => setTimeout(resolve, 50));
+    }
+  }
+
+  test('streams matching lines of a session started after subscribing', async () => {
+    const subscribed = await server.call('subscribe_session_output', { sessionId: 'errors', levels: ['error'] });
+    assert.equal(subscribed.isError, false, subscribed.text);
+    const { subscriptionId } = subscribed.json();
+
+    await runSession('errors');
+    await waitFor(exited('errors'));
+    const messages = server.logMessages.filter(message => message.logger === 'godot/errors');
+    assert.deepEqual(messages.map(message => [message.level, (message.data as any).line]), [
+      ['error', 2],
+      ['error', 3],
+      ['notice', undefined],
+    ]);
+    assert.equal((messages[0].data as any).message, 'Invalid call. Nonexistent function "jump" in base "Nil".');
+    assert.deepEqual((messages[1].data as any).location, { function: '_physics_process', script: 'res://scripts/player.gd', line: 12 });
+    assert.equal((messages[2].data as any).exitCode, 0);
+
+    const removed = await server.call('unsubscribe_session_output', { subscriptionId });
+    assert.equal(removed.json().removed, 1);
+  });
+
+  test('matches a pattern across sessions and respects logging/setLevel', async () => {
+    server.logMessages.length = 0;
+    const subscribed = await server.call('subscribe_session_output', { search: 'score|texture', ignoreCase: true });
+    assert.equal(subscribed.json().sessionId, null);
+
+    await runSession('scores');
+    await waitFor(exited('scores'));
+    assert.deepEqual(server.logMessages.map(message => (message.data as any).text).filter(Boolean), [
+      'WARNING: Texture is larger than 4096 pixels',
+      'Score: 10',
+    ]);
+
+    server.logMessages.length = 0;
+    await server.client.setLoggingLevel('warning');
+    await runSession('warnings');
+    assert.deepEqual(server.logMessages.map(message => (message.data as any).text).filter(Boolean), [
+      'WARNING: Texture is larger than 4096 pixels',
+    ]);
+
+    await server.client.setLoggingLevel('debug');
+    assert.equal((await server.call('unsubscribe_session_output', { all: true })).json().removed, 1);
+  });
+
+  test('rejects unknown subscriptions and invalid patterns', async () => {
+    const unknown = await server.call('unsubscribe_session_output', { subscriptionId: 'log-99' });
+    assert.equal(unknown.isError, true);
+    assert.match(unknown.text, /^Unknown subscription: log-99/);
+
+    const invalid = await server.call('subscribe_session_output', { search: '[' });
+    assert.equal(invalid.isError, true);
+    assert.match(invalid.text, /^Invalid search pattern/);
+  });
+});
@@ -0,0 +1,252 @@
+/**
+ * Parsing of Godot output: error lines, warnings and JSON printed among log lines
+ */
+
+import assert from 'node:assert/strict';
+import { after, before, describe, test } from 'node:test';
+import { rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { ResultPager } from '../src/output-format.js';
+import { TestServer, createProject, removeProject } from './helpers/server.js';
+
+// Engine banner and log noise printed around the JSON result of an operation
+const BANNER = 'Godot Engine v4.5.stable.official.876b29033 - https://godotengine.org\n[INFO] Running validate_script';
+
+describe('output parsing', () => {
+  let server: TestServer;
+  let projectPath: string;
+
+  before(async () => {
+    server = await TestServer.start();
+    projectPath = createProject();
+  });
+
+  after(async () => {
+    await server.close();
+    removeProject(projectPath);
+  });
+
+  test('get_project_info reads the project name and the Godot version', async () => {
+    server.fake.setScenario({ version: { stdout: '4.5.1.stable.official.f62fdbde1' } });
+    const info = (await server.call('get_project_info', { projectPath })).json();
+    assert.equal(info.name, 'Test Project');
+    assert.equal(info.godotVersion, '4.5.1.stable.official.f62fdbde1');
+    assert.equal(info.structure.scenes, 1);
+    assert.equal(info.structure.scripts, 1);
+    server.fake.reset();
+  });
+
+  test('run_scene collects errors with their location and type', async () => {
+    server.fake.setScenario({
+      run: {
+        stdout: [
+          'Player ready',
+          'ERROR: Node not found: "Enemy" at res://scripts/player.gd:12',
+        ].join('\n'),
+        stderr: 'SCRIPT ERROR: Invalid call. Nonexistent function "jump" in res://scripts/enemy.gd:7',
+        exitCode: 1,
+      },
+    });
+
+    const result = await server.call('run_scene', { projectPath, scenePath: 'scenes/main.tscn', format: 'json' });
+    const payload = result.json();
+    assert.equal(payload.success, false);
+    assert.equal(payload.exitCode, 1);
+    assert.deepEqual(payload.errors.map((error: any) => [error.type, error.script, error.line]), [
+      ['runtime', 'res://scripts/player.gd', 12],
+      ['script', 'res://scripts/enemy.gd', 7],
+    ]);
+    assert.ok(payload.output.includes('Player ready'));
+    assert.ok(payload.output.some((line: string) => line.startsWith('[STDERR] SCRIPT ERROR')));
+
+    // The run reaches Godot with the scene and the debug flag
+    const run = server.fake.calls().find(call => call.argv.includes('scenes/main.tscn'));
+    assert.deepEqual(run?.argv, ['--path', projectPath, 'scenes/main.tscn', '-d']);
+    server.fake.reset();
+  });
+
+  test('run_scene reports a clean run as a success', async () => {
+    server.fake.setScenario({ run: { stdout: 'Hello' } });
+    const result = await server.call('run_scene', { projectPath, scenePath: 'scenes/main.tscn' });
+    assert.match(result.text, /\*\*Status:\*\* ✓ Success/);
+    assert.match(result.text, /## Console Output\n\n```\nHello\n```/);
+    server.fake.reset();
+  });
+
+  test('run_with_debug separates errors and warnings', async () => {
+    server.fake.setScenario({
+      run: {
+        stdout: 'WARNING: Texture is too large\nERROR: Cannot load resource in res://scenes/level.tscn:3',
+        delayMs: 5000,
+      },
+    });
+
+    const result = await server.call('run_with_debug', { projectPath, format: 'json' });
+    const payload = result.json();
+    assert.match(payload.sessionId, /\S/);
+    assert.deepEqual(payload.warnings, ['WARNING: Texture is too large']);
+    assert.equal(payload.errors.length, 1);
+    assert.equal(payload.errors[0].script, 'res://scenes/level.tscn');
+    assert.equal(payload.errors[0].line, 3);
+
+    await server.call('stop_project', { sessionId: payload.sessionId });
+    server.fake.reset();
+  });
+
+  test('validate_script finds the JSON result among log lines', async () => {
+    server.fake.setScenario({
+      operations: {
+        validate_script: { stdout: `${BANNER}\n{"valid": true, "errors": []}\n[INFO] Done` },
+      },
+    });
+    const result = await server.call('validate_script', { projectPath, scriptPath: 'scripts/player.gd' });
+    assert.equal(result.isError, false);
+    assert.match(result.text, /^Script 'scripts\/player\.gd' is valid\./);
+    server.fake.reset();
+  });
+
+  test('validate_script reports the errors Godot found', async () => {
+    server.fake.setScenario({
+      operations: {
+        validate_script: {
+          stdout: `${BANNER}\n{"valid": false, "errors": [{"message": "Unexpected token", "line": 4}]}`,
+        },
+      },
+    });
+    const result = await server.call('validate_script', { projectPath, scriptPath: 'scripts/player.gd' });
+    assert.match(result.text, /^Script 'scripts\/player\.gd' has errors:/);
+    assert.match(result.text, /"message": "Unexpected token"/);
+    server.fake.reset();
+  });
+
+  test('query_node formats the node description', async () => {
+    server.fake.setScenario({
+      operations: {
+        query_node: { stdout: '{"name": "Player", "type": "CharacterBody2D", "children": []}' },
+      },
+    });
+    const result = await server.call('query_node', { projectPath, scenePath: 'scenes/main.tscn', nodePath: 'Player', engine: true });
+    assert.match(result.text, /^Node Information:\n\n/);
+    assert.match(result.text, /"type": "CharacterBody2D"/);
+    server.fake.reset();
+  });
+
+  test('query_node falls back to the raw output', async () => {
+    server.fake.setScenario({ operations: { query_node: { stdout: 'Player (CharacterBody2D)' } } });
+    const result = await server.call('query_node', { projectPath, scenePath: 'scenes/main.tscn', nodePath: 'Player', engine: true });
+    assert.match(result.text, /^Node information retrieved:\n\nPlayer \(CharacterBody2D\)/);
+    server.fake.reset();
+  });
+
+  test('batch_operations lists the outcome of each step', async () => {
+    server.fake.setScenario({
+      operations: {
+        batch_operations: {
+          stdout: JSON.stringify({
+            success: false,
+            scene_path: 'res://scenes/main.tscn',
+            saved_to: '',
+            rolled_back: true,
+            failed_step: 1,
+            steps: [
+              { index: 0, operation: 'add_node', success: true, message: 'Added Icon' },
+              { index: 1, operation: 'remove_node', success: false, error: 'Node not found: Ghost' },
+              { index: 2, operation: 'save_scene', success: false, skipped: true },
+            ],
+          }),
+        },
+      },
+    });
+
+    const result = await server.call('batch_operations', {
+      projectPath,
+      scenePath: 'scenes/main.tscn',
+      operations: [
+        { operation: 'add_node', params: { nodeType: 'Sprite2D', nodeName: 'Icon' } },
+        { operation: 'remove_node', params: { nodePath: 'Ghost' } },
+        { operation: 'save_scene' },
+      ],
+    });
+
+    assert.equal(result.isError, true);
+    assert.equal(result.text, [
+      "Batch rolled back (step 2 failed). 'scenes/main.tscn' was not modified.",
+      '',
+      '1. [OK] add_node: Added Icon',
+      '2. [FAILED] remove_node: Node not found: Ghost',
+      '3. [SKIPPED] save_scene: not run',
+    ].join('\n'));
+    server.fake.reset();
+  });
+
+  test('remote_tree_dump pages through the nodes', async () => {
+    const nodes = Array.from({ length: 5 }, (_, i) => ({ name: `Node${i}`, type: 'Node2D', path: `/root/Main/Node${i}` }));
+    server.fake.setScenario({
+      operations: {
+        remote_tree_dump: { stdout: `${BANNER}\n${JSON.stringify({ nodes, totalNodes: 5, timestamp: 'now' })}` },
+      },
+    });
+
+    const first = (await server.call('remote_tree_dump', { projectPath, format: 'json', limit: 2 })).json();
+    assert.deepEqual(first.nodes.map((node: any) => node.name), ['Node0', 'Node1']);
+    assert.equal(first.pagination.total, 5);
+
+    const second = (await server.call('remote_tree_dump', { projectPath, cursor: first.pagination.nextCursor, limit: 2 })).json();
+    assert.deepEqual(second.nodes.map((node: any) => node.name), ['Node2', 'Node3']);
+    server.fake.reset();
+  });
+
+  test('cursors are checked like the call that made them and only serve that tool', async () => {
+    const nodes = Array.from({ length: 3 }, (_, i) => ({ name: `Node${i}`, type: 'Node2D', path: `/root/Main/Node${i}` }));
+    server.fake.setScenario({
+      operations: {
+        remote_tree_dump: { stdout: `${BANNER}\n${JSON.stringify({ nodes, totalNodes: 3, timestamp: 'now' })}` },
+      },
+    });
+    const { nextCursor } = (await server.call('remote_tree_dump', { projectPath, format: 'json', limit: 1 })).json().pagination;
+
+    const withoutProject = await server.call('remote_tree_dump', { cursor: nextCursor });
+    assert.equal(withoutProject.isError, true);
+    assert.match(withoutProject.text, /projectPath/);
+
+    const otherTool = await server.call('run_scene', { projectPath, scenePath: 'scenes/main.tscn', cursor: nextCursor });
+    assert.equal(otherTool.isError, true);
+    assert.match(otherTool.text, /Cursor was issued to another tool or session/);
+
+    const unpaged = await server.call('query_node', { projectPath, scenePath: 'scenes/main.tscn', nodePath: '.', cursor: nextCursor });
+    assert.equal(unpaged.isError, true);
+    assert.match(unpaged.text, /Invalid cursor: query_node does not return paged results/);
+
+    // A tool the project turns off serves no more pages
+    writeFileSync(join(projectPath, '.godot-mcp.json'), JSON.stringify({ tools: { disabled: ['remote_tree_dump'] } }));
+    try {
+      const disabled = await server.call('remote_tree_dump', { projectPath, cursor: nextCursor });
+      assert.equal(disabled.isError, true);
+      assert.match(disabled.text, /Tool remote_tree_dump is disabled by the project configuration/);
+    } finally {
+      rmSync(join(projectPath, '.godot-mcp.json'), { force: true });
+    }
+    assert.equal(server.fake.operations().filter(call => call.operation === 'query_node').length, 0);
+    server.fake.reset();
+  });
+});
+
+describe('paged results', () => {
+  test('a cursor only serves the tool and session it was issued to', () => {
+    const pager = new ResultPager();
+    const first = pager.firstPage({ nodes: [1, 2, 3] }, 'nodes', 'remote_tree_dump:a', 2);
+    assert.deepEqual(pager.nextPage(first.pagination.nextCursor, 'remote_tree_dump:a', 2).nodes, [3]);
+    assert.throws(() => pager.nextPage(first.pagination.nextCursor, 'remote_tree_dump:b'), /^CursorError: Cursor was issued to another tool or session/);
+    assert.throws(() => pager.nextPage(first.pagination.nextCursor, 'run_scene:a'), /^CursorError: Cursor was issued to another tool or session/);
+  });
+
+  test('cursors with an offset that is not a whole number of items are malformed', () => {
+    const pager = new ResultPager();
+    const first = pager.firstPage({ nodes: [1, 2, 3] }, 'nodes', 'remote_tree_dump:a', 1);
+    const { id } = JSON.parse(Buffer.from(first.pagination.nextCursor, 'base64url').toString('utf8'));
+    for (const offset of [-1, 1.5, '1', null]) {
+      const cursor = Buffer.from(JSON.stringify({ id, offset })).toString('base64url');
+      assert.throws(() => pager.nextPage(cursor, 'remote_tree_dump:a'), /^CursorError: Malformed cursor/, String(offset));
+    }
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Argument normalization and validation, and the shape of error responses
+ */
+
+import assert from 'node:assert/strict';
+import { after, before, describe, test } from 'node:test';
+import { TestServer, createProject, removeProject } from './helpers/server.js';
+
+describe('tool parameters', () => {
+  let server: TestServer;
+  let projectPath: string;
+
+  before(async () => {
+    server = await TestServer.start();
+    projectPath = createProject();
+  });
+
+  after(async () => {
+    await server.close();
+    removeProject(projectPath);
+  });
+
+  test('snake_case argument names are accepted and sent to Godot in snake_case', async () => {
+    server.fake.reset();
+    const result = await server.call('add_node', {
+      project_path: projectPath,
+      scene_path: 'scenes/main.tscn',
+      node_type: 'Sprite2D',
+      node_name: 'Icon',
+      parent_node_path: 'Player',
+    });
+
+    assert.equal(result.isError, false, result.text);
+    const [call] = server.fake.operations();
+    assert.equal(call.operation, 'add_node');
+    assert.equal(call.params?.scene_path, 'scenes/main.tscn');
+    assert.equal(call.params?.node_type, 'Sprite2D');
+    assert.equal(call.params?.node_name, 'Icon');
+    assert.equal(call.params?.parent_node_path, 'Player');
+  });
+
+  test('camelCase names win when both spellings are given', async () => {
+    server.fake.reset();
+    await server.call('add_node', {
+      projectPath,
+      scenePath: 'scenes/main.tscn',
+      nodeType: 'Node2D',
+      nodeName: 'Camel',
+      node_name: 'Snake',
+    });
+    assert.equal(server.fake.operations()[0].params?.node_name, 'Camel');
+  });
+
+  test('quotes, spaces and unicode reach Godot unchanged', async () => {
+    server.fake.reset();
+    const nodeName = `Bob's "Ünïcode" node $HOME \`x\``;
+    await server.call('add_node', { projectPath, scenePath: 'scenes/main.tscn', nodeType: 'Node2D', nodeName });
+    assert.equal(server.fake.operations()[0].params?.node_name, nodeName);
+  });
+
+  test('a wrong type names the field and both types', async () => {
+    const result = await server.call('add_node', { projectPath, scenePath: 'scenes/main.tscn', nodeType: 'Node2D', nodeName: 5 });
+    assert.equal(result.isError, true);
+    assert.match(result.text, /nodeName: expected string, got number/);
+  });
+
+  test('a value outside an enum lists the allowed values', async () => {
+    const result = await server.call('add_particles', {
+      projectPath,
+      scenePath: 'scenes/main.tscn',
+      nodeName: 'Sparks',
+      particleType: 'Fireworks',
+    });
+    assert.equal(result.isError, true);
+    assert.match(result.text, /particleType: expected one of .*"GPUParticles2D".*got "Fireworks"/);
+  });
+
+  test('an unknown tool is a protocol error', async () => {
+    await assert.rejects(server.call('no_such_tool', {}), /Unknown tool: no_such_tool/);
+  });
+
+  test('error responses list possible solutions', async () => {
+    const result = await server.call('validate_script', { projectPath, scriptPath: 'scripts/missing.gd' });
+    assert.equal(result.isError, true);
+    assert.match(result.text, /^Script file does not exist: scripts\/missing\.gd/);
+    assert.match(result.text, /Possible solutions:\n- Ensure the script path is correct/);
+  });
+
+  test('error responses in JSON format carry the error and solutions', async () => {
+    const result = await server.call('validate_script', { projectPath, scriptPath: 'scripts/missing.gd', format: 'json' });
+    assert.equal(result.isError, true);
+    const payload = result.json();
+    assert.equal(payload.success, false);
+    assert.equal(payload.error, 'Script file does not exist: scripts/missing.gd');
+    assert.ok(payload.possibleSolutions.includes('Ensure the script path is correct'));
+  });
+
+  test('paths leaving the project are rejected before Godot starts', async () => {
+    server.fake.reset();
+    const result = await server.call('add_node', {
+      projectPath,
+      scenePath: '../outside.tscn',
+      nodeType: 'Node2D',
+      nodeName: 'Escape',
+    });
+    assert.equal(result.isError, true);
+    assert.match(result.text, /outside the project/);
+    assert.deepEqual(server.fake.operations(), []);
+  });
+
+  test('an operation failure reported on stderr becomes an error response', async () => {
+    server.fake.setScenario({
+      operations: { query_node: { stderr: 'Failed to find node: Missing' } },
+    });
+    const result = await server.call('query_node', { projectPath, scenePath: 'scenes/main.tscn', nodePath: 'Missing', engine: true });
+    assert.equal(result.isError, true);
+    assert.match(result.text, /Failed to query node: Failed to find node: Missing/);
+    server.fake.reset();
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Projects and paths of tool calls kept inside GODOT_MCP_ALLOWED_ROOTS and their project
+ */
+
+import assert from 'node:assert/strict';
+import { after, before, beforeEach, describe, test } from 'node:test';
+import { existsSync, mkdirSync, mkdtempSync, rmSync, symlinkSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { basename, join } from 'path';
+import { TestServer, createProject, removeProject } from './helpers/server.js';
+
+const SCENE = '[gd_scene format=3]\n\n[node name="Secret" type="Node2D"]\n';
+
+describe('path sandbox', () => {
+  let server: TestServer;
+  let allowedRoot: string;
+  let projectPath: string;
+  let outsideProject: string;
+
+  before(async () => {
+    allowedRoot = mkdtempSync(join(tmpdir(), 'godot-mcp-root-'));
+    outsideProject = createProject({ 'scenes/secret.tscn': SCENE });
+
+    projectPath = join(allowedRoot, 'game');
+    mkdirSync(projectPath);
+    writeFileSync(join(projectPath, 'project.godot'), 'config_version=5\n\n[application]\n\nconfig/name="Game"\n');
+    mkdirSync(join(projectPath, 'scenes'));
+    writeFileSync(join(projectPath, 'scenes', 'main.tscn'), '[gd_scene format=3]\n\n[node name="Main" type="Node2D"]\n');
+
+    // Links inside the allowed root and the project that point elsewhere
+    symlinkSync(outsideProject, join(allowedRoot, 'linked-game'));
+    symlinkSync(join(outsideProject, 'scenes'), join(projectPath, 'linked-scenes'));
+
+    server = await TestServer.start({ env: { GODOT_MCP_ALLOWED_ROOTS: allowedRoot } });
+  });
+
+  beforeEach(() => server.fake.reset());
+
+  after(async () => {
+    await server.close();
+    rmSync(allowedRoot, { recursive: true, force: true });
+    removeProject(outsideProject);
+  });
+
+  const queryNode = (args: Record<string, unknown>) =>
+    server.call('query_node', { nodePath: '.', engine: true, ...args });
+
+  test('projects outside the allowed roots are rejected', async () => {
+    for (const path of [
+      outsideProject,
+      join(allowedRoot, '..', basename(outsideProject)),
+      join(allowedRoot, 'linked-game'),
+    ]) {
+      const result = await queryNode({ projectPath: path, scenePath: 'scenes/secret.tscn' });
+      assert.equal(result.isError, true, path);
+      assert.match(result.text, /is outside the allowed roots/, path);
+    }
+    assert.deepEqual(server.fake.operations(), [], 'Godot is not started');
+  });
+
+  test('paths leaving the project are rejected', async () => {
+    for (const scenePath of [
+      '../../' + basename(outsideProject) + '/scenes/secret.tscn',
+      'res://../linked-game/scenes/secret.tscn',
+      join(outsideProject, 'scenes/secret.tscn'),
+      'linked-scenes/secret.tscn',
+      'res://linked-scenes/secret.tscn',
+    ]) {
+      const result = await queryNode({ projectPath, scenePath });
+      assert.equal(result.isError, true, scenePath);
+      assert.match(result.text, /is outside the project/, scenePath);
+    }
+    assert.deepEqual(server.fake.operations(), [], 'Godot is not started');
+  });
+
+  test('write tools may not write user:// files', async () => {
+    const result = await server.call('save_scene', { projectPath, scenePath: 'scenes/main.tscn', newPath: 'user://main.tscn' });
+    assert.equal(result.isError, true);
+    assert.match(result.text, /save_scene may not write user:\/\/main\.tscn: write tools only change files inside the project/);
+  });
+
+  test('paths inside the project are used', async () => {
+    const result = await queryNode({ projectPath, scenePath: 'scenes/main.tscn' });
+    assert.equal(result.isError, false, result.text);
+    assert.deepEqual(server.fake.operations().map(call => call.operation), ['query_node']);
+  });
+
+  test('prompts only read projects inside the allowed roots', async () => {
+    await assert.rejects(
+      server.client.getPrompt({ name: 'audit_project_health', arguments: { projectPath: join(allowedRoot, 'linked-game') } }),
+      /is outside the allowed roots/
+    );
+    const prompt = await server.client.getPrompt({ name: 'audit_project_health', arguments: { projectPath } });
+    assert.match(String(prompt.messages[0].content.text), /- Project: Game/);
+  });
+
+  test('list_projects searches only the allowed roots', async () => {
+    const outside = await server.call('list_projects', { directory: tmpdir() });
+    assert.equal(outside.isError, true);
+    assert.match(outside.text, /is outside the allowed roots/);
+
+    const inside = await server.call('list_projects', { directory: allowedRoot, recursive: true });
+    assert.equal(inside.isError, false, inside.text);
+    assert.deepEqual(inside.json().map((project: { name: string }) => project.name), ['game']);
+  });
+
+  test('the documentation cache of a project stays inside the allowed roots', async () => {
+    const cacheDir = join(outsideProject, 'docs-cache');
+    writeFileSync(join(projectPath, '.godot-mcp.json'), JSON.stringify({ docsCacheDir: cacheDir }));
+    try {
+      await server.call('list_assets', { projectPath });
+      const result = await server.call('get_class_info', { className: 'Node2D' });
+      assert.equal(result.isError, true);
+      assert.match(result.text, /Invalid docsCacheDir in project configuration: .*docs-cache is outside the allowed roots/);
+      assert.equal(existsSync(cacheDir), false);
+    } finally {
+      rmSync(join(projectPath, '.godot-mcp.json'), { force: true });
+    }
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Output of short-lived processes: streamed text and the cap on what is kept
+ */
+
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { launchProcess } from '../src/process-launcher.js';
+
+/**
+ * Run a Node.js script as the process
+ */
+const runScript = (script: string, options: Parameters<typeof launchProcess>[2] = {}) =>
+  launchProcess(process.execPath, ['-e', script], options);
+
+describe('process launcher', () => {
+  test('characters split across chunks reach the callbacks whole', async () => {
+    // "é" and "🎮" written one byte at a time, with pauses so each byte arrives as its own chunk
+    const script = `
+      const bytes = Buffer.from('é 🎮');
+      let i = 0;
+      const next = () => {
+        if (i < bytes.length) {
+          process.stdout.write(bytes.subarray(i, ++i));
+          setTimeout(next, 15);
+        }
+      };
+      next();
+    `;
+    const chunks: string[] = [];
+    const result = await runScript(script, { onStdout: chunk => chunks.push(chunk) });
+
+    assert.ok(chunks.length > 1, 'output arrived in several chunks');
+    assert.equal(chunks.join(''), 'é 🎮');
+    assert.ok(chunks.every(chunk => !chunk.includes('�')), JSON.stringify(chunks));
+    assert.equal(result.stdout, 'é 🎮');
+  });
+
+  test('each stream is capped on its own', async () => {
+    const script = `
+      process.stdout.write('x'.repeat(64));
+      setTimeout(() => {}, 5000);
+    `;
+    const result = await runScript(script, { maxBuffer: 16, timeout: 3000 });
+
+    assert.equal(result.truncated, true);
+    assert.equal(result.stdout, 'x'.repeat(16));
+    assert.equal(result.timedOut, false, 'the process is stopped once stdout overflows');
+  });
+
+  test('stderr is still kept after stdout overflows', async () => {
+    // The process reports its error while it quits, as Godot does
+    const script = `
+      process.on('SIGTERM', () => process.stderr.write('the error', () => process.exit(1)));
+      process.stdout.write('x'.repeat(64));
+      setTimeout(() => {}, 5000);
+    `;
+    const result = await runScript(script, { maxBuffer: 16, timeout: 3000 });
+
+    assert.equal(result.truncated, true);
+    assert.equal(result.stderr, 'the error');
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Progress notifications and cancellation of long-running tools
+ */
+
+import assert from 'node:assert/strict';
+import { after, before, describe, test } from 'node:test';
+import { Progress } from '@modelcontextprotocol/sdk/types.js';
+import { TestServer, createProject, removeProject } from './helpers/server.js';
+
+const progressLine = (progress: number, total: number, message: string) =>
+  `[MCP-PROGRESS] ${JSON.stringify({ progress, total, message })}`;
+
+/**
+ * Wait until a condition holds
+ */
+async function waitFor(condition: () => boolean, timeout: number = 5000): Promise<void> {
+  const deadline = Date.now() + timeout;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error(`Condition not met within ${timeout}ms`);
+    }
+    await new Promise(resolve => setTimeout(resolve, 50));
+  }
+}
+
+function isRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+for (const worker of [false, true]) {
+  describe(`progress and cancellation ${worker ? 'in the worker' : 'in one-shot processes'}`, () => {
+    let server: TestServer;
+    let projectPath: string;
+
+    before(async () => {
+      server = await TestServer.start({ worker });
+      projectPath = createProject();
+    });
+
+    after(async () => {
+      await server.close();
+      removeProject(projectPath);
+    });
+
+    test('progress lines become progress notifications and are left out of the result', async () => {
+      server.fake.setScenario({
+        operations: {
+          resave_resources: {
+            stdout: [
+              'Resaving all resources to update UID references...',
+              progressLine(0, 3, 'Found 3 resources'),
+              progressLine(1, 3, 'resaved 1/3 resources'),
+              progressLine(2, 3, 'resaved 2/3 resources'),
+              progressLine(2, 3, 'resaved 2/3 resources'),
+              progressLine(3, 3, 'resaved 3/3 resources'),
+              'Resave operation complete',
+            ].join('\n'),
+            // The client handles notifications a tick after responses, so the
+            // progress lines must reach it before the result does
+            delayMs: 200,
+          },
+        },
+      });
+
+      const updates: Progress[] = [];
+      const call = server.startCall('update_project_uids', { projectPath }, progress => updates.push(progress));
+      const result = await call.result;
+
+      // Repeated updates are dropped, so progress always increases
+      assert.deepEqual(updates.map(update => [update.progress, update.total]), [[0, 3], [1, 3], [2, 3], [3, 3]]);
+      assert.match(result.text, /^Project UIDs updated successfully\./);
+      assert.doesNotMatch(result.text, /MCP-PROGRESS/);
+      server.fake.reset();
+    });
+
+    test('progress lines do not break JSON parsing of the output', async () => {
+      const report = { success: true, report: { missing: [], total_missing: 0, checked_paths: ['res://scenes/main.tscn'] } };
+      server.fake.setScenario({
+        operations: {
+          list_missing_assets: {
+            stdout: [progressLine(1, 2, 'scanned 1 files'), JSON.stringify(report), progressLine(2, 2, 'checked 1/1 references')].join('\n'),
+          },
+        },
+      });
+
+      const result = await server.call('list_missing_assets', { projectPath, format: 'json' });
+      assert.equal(result.isError, false, result.text);
+      assert.equal(result.json().total_missing, 0);
+      server.fake.reset();
+    });
+
+    test('cancelling the call stops the Godot process', async () => {
+      server.fake.setScenario({
+        operations: {
+          resave_resources: { stdout: progressLine(1, 800, 'resaved 1/800 resources'), delayMs: 60000 },
+        },
+      });
+
+      const updates: Progress[] = [];
+      const call = server.startCall('update_project_uids', { projectPath }, progress => updates.push(progress));
+      await waitFor(() => updates.length === 1);
+      const [operation] = server.fake.operations();
+      assert.ok(isRunning(operation.pid));
+
+      await call.cancel();
+      await assert.rejects(call.result);
+      await waitFor(() => !isRunning(operation.pid));
+
+      // The server keeps serving calls afterwards
+      server.fake.reset();
+      const result = await server.call('update_project_uids', { projectPath });
+      assert.match(result.text, /^Project UIDs updated successfully\./);
+      server.fake.reset();
+    });
+  });
+}
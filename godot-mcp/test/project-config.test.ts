@@ -0,0 +1,103 @@
+/**
+ * Per-project settings from .godot-mcp.json and the [mcp] section of project.godot
+ */
+
+import assert from 'node:assert/strict';
+import { after, before, beforeEach, describe, test } from 'node:test';
+import { chmodSync, existsSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { TestServer, createProject, removeProject } from './helpers/server.js';
+
+const PROJECT_WITH_MCP = [
+  'config_version=5',
+  '',
+  '[application]',
+  '',
+  'config/name="Test Project"',
+  '',
+  '[mcp]',
+  '',
+  'tools/disabled=PackedStringArray("add_node")',
+  'timeouts/operation=500',
+  '',
+].join('\n');
+
+const ADD_ICON = { scenePath: 'scenes/main.tscn', nodeType: 'Sprite2D', nodeName: 'Icon' };
+
+describe('project configuration', () => {
+  let server: TestServer;
+  let projectPath: string;
+
+  before(async () => {
+    server = await TestServer.start();
+    projectPath = createProject({ 'project.godot': PROJECT_WITH_MCP });
+  });
+
+  beforeEach(() => {
+    server.fake.reset();
+    rmSync(join(projectPath, '.godot-mcp.json'), { force: true });
+  });
+
+  after(async () => {
+    await server.close();
+    removeProject(projectPath);
+  });
+
+  test('the [mcp] section disables tools and sets timeouts', async () => {
+    const disabled = await server.call('add_node', { projectPath, ...ADD_ICON });
+    assert.equal(disabled.isError, true);
+    assert.match(disabled.text, /Tool add_node is disabled by the project configuration/);
+    assert.deepEqual(server.fake.operations(), []);
+
+    server.fake.setScenario({ operations: { query_node: { stdout: '{"name": "Main"}', delayMs: 5000 } } });
+    const slow = await server.call('query_node', { projectPath, scenePath: 'scenes/main.tscn', nodePath: '.', engine: true });
+    assert.equal(slow.isError, true);
+    assert.match(slow.text, /Operation query_node failed: .* timed out after 5\d\dms/);
+  });
+
+  test('.godot-mcp.json replaces the [mcp] section', async () => {
+    writeFileSync(join(projectPath, '.godot-mcp.json'), JSON.stringify({ tools: { enabled: ['add_node'] } }));
+
+    const added = await server.call('add_node', { projectPath, ...ADD_ICON });
+    assert.equal(added.isError, false, added.text);
+
+    const queried = await server.call('query_node', { projectPath, scenePath: 'scenes/main.tscn', nodePath: '.' });
+    assert.equal(queried.isError, true);
+    assert.match(queried.text, /Tool query_node is disabled by the project configuration/);
+
+    const { tools } = await server.client.listTools();
+    assert.ok(tools.some(tool => tool.name === 'add_node'));
+    assert.ok(!tools.some(tool => tool.name === 'query_node'), 'disabled tools are not listed for the active project');
+  });
+
+  test('an invalid configuration is reported on every call', async () => {
+    writeFileSync(join(projectPath, '.godot-mcp.json'), JSON.stringify({ timeouts: { operation: 'fast' } }));
+    const result = await server.call('list_assets', { projectPath });
+    assert.equal(result.isError, true);
+    assert.match(result.text, /Invalid project configuration in .*\.godot-mcp\.json: .*timeouts\.operation/);
+
+    writeFileSync(join(projectPath, '.godot-mcp.json'), '{ "tools": ');
+    assert.match((await server.call('list_assets', { projectPath })).text, /Cannot parse .*\.godot-mcp\.json/);
+  });
+
+  test('godotPath must be an installation the server found', async () => {
+    const ownGodot = join(projectPath, 'godot');
+    writeFileSync(ownGodot, `#!/bin/sh\ntouch '${ownGodot}.ran'\necho 4.5.stable.official\n`);
+    chmodSync(ownGodot, 0o755);
+    try {
+      writeFileSync(join(projectPath, '.godot-mcp.json'), JSON.stringify({ godotPath: './godot' }));
+      const refused = await server.call('query_node', { projectPath, scenePath: 'scenes/main.tscn', nodePath: '.', engine: true });
+      assert.equal(refused.isError, true);
+      assert.match(refused.text, /Invalid Godot path in project configuration: .*godot is not a Godot installation found by the server/);
+      await server.client.listTools();
+      assert.equal(existsSync(`${ownGodot}.ran`), false, 'the project\'s executable is never run');
+
+      writeFileSync(join(projectPath, '.godot-mcp.json'), JSON.stringify({ godotPath: server.fake.path }));
+      server.fake.setScenario({ operations: { query_node: { stdout: '{"name": "Main"}' } } });
+      const queried = await server.call('query_node', { projectPath, scenePath: 'scenes/main.tscn', nodePath: '.', engine: true });
+      assert.equal(queried.isError, false, queried.text);
+    } finally {
+      rmSync(ownGodot, { force: true });
+    }
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Workflow prompts filled in with the context of a project
+ */
+
+import assert from 'node:assert/strict';
+import { after, before, describe, test } from 'node:test';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { TestServer, createProject, removeProject } from './helpers/server.js';
+
+const PROJECT = [
+  'config_version=5',
+  '',
+  '[application]',
+  '',
+  'config/name="Platformer"',
+  'run/main_scene="res://scenes/level.tscn"',
+  'config/features=PackedStringArray("4.4", "Forward Plus")',
+  '',
+  '[autoload]',
+  '',
+  'GameState="*res://scripts/game_state.gd"',
+  'Music="res://audio/music.gd"',
+  '',
+  '[input]',
+  '',
+  'jump={',
+  '"deadzone": 0.5,',
+  '"events": []',
+  '}',
+  'move_left={',
+  '"deadzone": 0.5,',
+  '"events": []',
+  '}',
+  '',
+].join('\n');
+
+describe('prompts', () => {
+  let server: TestServer;
+  let projectPath: string;
+
+  before(async () => {
+    server = await TestServer.start();
+    projectPath = createProject({ 'project.godot': PROJECT, 'scripts/game_state.gd': 'extends Node\n' });
+  });
+
+  after(async () => {
+    await server.close();
+    removeProject(projectPath);
+  });
+
+  const promptText = async (name: string, args: Record<string, string>) => {
+    const prompt = await server.client.getPrompt({ name, arguments: args });
+    return String(prompt.messages[0].content.text);
+  };
+
+  test('prompts/list offers the workflows', async () => {
+    const { prompts } = await server.client.listPrompts();
+    assert.deepEqual(prompts.map(prompt => prompt.name), ['debug_crash', 'add_player_character', 'audit_project_health']);
+  });
+
+  test('prompts include the project context and flag what is missing', async () => {
+    const text = await promptText('debug_crash', { projectPath, errorMessage: 'Invalid call. Nonexistent function' });
+    assert.match(text, /^# Debug This Crash/);
+    assert.match(text, /```\nInvalid call\. Nonexistent function\n```/);
+    assert.ok(text.includes(`- Project: Platformer (${projectPath})`), text);
+    assert.match(text, /- Main scene: res:\/\/scenes\/level\.tscn \(MISSING\)/);
+    assert.match(text, /- Features: 4\.4, Forward Plus/);
+    assert.match(text, /  - GameState: res:\/\/scripts\/game_state\.gd \(singleton\)\n  - Music: res:\/\/audio\/music\.gd \(MISSING\)/);
+    assert.match(text, /- Input actions: jump, move_left\n/);
+  });
+
+  test('the active project is used without a projectPath', async () => {
+    await server.call('list_assets', { projectPath });
+    assert.match(await promptText('audit_project_health', {}), /- Project: Platformer/);
+  });
+
+  test('unknown prompts and projects are invalid params', async () => {
+    await assert.rejects(server.client.getPrompt({ name: 'refactor', arguments: { projectPath } }), /Unknown prompt: refactor/);
+
+    const empty = mkdtempSync(join(tmpdir(), 'godot-mcp-empty-'));
+    try {
+      await assert.rejects(server.client.getPrompt({ name: 'debug_crash', arguments: { projectPath: empty } }), /Not a valid Godot project/);
+    } finally {
+      rmSync(empty, { recursive: true, force: true });
+    }
+  });
+});
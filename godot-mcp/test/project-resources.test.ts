@@ -0,0 +1,74 @@
+/**
+ * Project files exposed as MCP resources, and the files they must not expose
+ */
+
+import assert from 'node:assert/strict';
+import { after, before, describe, test } from 'node:test';
+import { mkdtempSync, rmSync, symlinkSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { TestServer, createProject, removeProject } from './helpers/server.js';
+
+describe('project resources', () => {
+  let server: TestServer;
+  let projectPath: string;
+  let outside: string;
+
+  before(async () => {
+    outside = mkdtempSync(join(tmpdir(), 'godot-mcp-outside-'));
+    writeFileSync(join(outside, 'secret.gd'), 'const TOKEN = "secret"\n');
+    projectPath = createProject();
+    symlinkSync(outside, join(projectPath, 'linked'));
+    symlinkSync(join(outside, 'secret.gd'), join(projectPath, 'scripts', 'secret.gd'));
+    server = await TestServer.start({ env: { GODOT_PROJECT_PATH: projectPath } });
+  });
+
+  after(async () => {
+    await server.close();
+    removeProject(projectPath);
+    rmSync(outside, { recursive: true, force: true });
+  });
+
+  test('files of the project are read', async () => {
+    const result = await server.client.readResource({ uri: 'godot://project/scripts/player.gd' });
+    assert.match(String(result.contents[0].text), /^extends CharacterBody2D/);
+  });
+
+  test('URIs leaving the project are rejected', async () => {
+    for (const uri of [
+      'godot://project/../secret.gd',
+      `godot://project/..%2F${encodeURIComponent(outside.split('/').pop()!)}%2Fsecret.gd`,
+      `godot://project/${encodeURIComponent(join(outside, 'secret.gd'))}`,
+      `godot://project/${encodeURIComponent(`res://../${outside.split('/').pop()}/secret.gd`)}`,
+      `godot://project/${encodeURIComponent('user://secret.gd')}`,
+      'godot://project/linked/secret.gd',
+      'godot://project/scripts/secret.gd',
+      'godot://scene-tree/linked/secret.gd',
+    ]) {
+      await assert.rejects(server.client.readResource({ uri }), /Resource is outside the project/, uri);
+    }
+  });
+});
+
+describe('project resources outside the allowed roots', () => {
+  let server: TestServer;
+  let projectPath: string;
+  let allowedRoot: string;
+
+  before(async () => {
+    projectPath = createProject();
+    allowedRoot = mkdtempSync(join(tmpdir(), 'godot-mcp-root-'));
+    server = await TestServer.start({ env: { GODOT_PROJECT_PATH: projectPath, GODOT_MCP_ALLOWED_ROOTS: allowedRoot } });
+  });
+
+  after(async () => {
+    await server.close();
+    removeProject(projectPath);
+    rmSync(allowedRoot, { recursive: true, force: true });
+  });
+
+  test('GODOT_PROJECT_PATH is not exposed', async () => {
+    assert.deepEqual((await server.client.listResources()).resources, []);
+    await assert.rejects(server.client.readResource({ uri: 'godot://project/project.godot' }), /No active project/);
+  });
+});
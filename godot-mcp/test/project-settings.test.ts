@@ -0,0 +1,173 @@
+/**
+ * Reading project.godot, and the get_project_settings tool with engine defaults from Godot
+ */
+
+import assert from 'node:assert/strict';
+import { after, before, beforeEach, describe, test } from 'node:test';
+import { featureOverrides, filterSettings, parseProjectSettings } from '../src/project-settings.js';
+import { TestServer, createProject, removeProject } from './helpers/server.js';
+
+const PROJECT = [
+  '; Engine configuration file.',
+  '',
+  'config_version=5',
+  '',
+  '[application]',
+  '',
+  'config/name="Platformer"',
+  'config/features=PackedStringArray("4.3", "Forward Plus")',
+  'run/main_scene="res://scenes/main.tscn"',
+  '',
+  '[display]',
+  '',
+  'window/size/viewport_width=1280',
+  'window/size/viewport_height=720',
+  'window/size/mode.mobile=3',
+  'window/size/viewport_width.mobile=720',
+  'window/stretch/mode="canvas_items"',
+  'window/stretch/scale.windows.editor=2.0',
+  '',
+  '[input]',
+  '',
+  'jump={',
+  '"deadzone": 0.5,',
+  '"events": [Object(InputEventKey,"resource_local_to_scene":false,"resource_name":"","device":-1,"physical_keycode":32,"unicode":32,"script":null)',
+  ']',
+  '}',
+  '',
+  '[rendering]',
+  '',
+  'textures/canvas_textures/default_texture_filter=0',
+  '',
+].join('\n');
+
+describe('project settings', () => {
+  test('settings are read with their sections, values and feature overrides', () => {
+    const settings = parseProjectSettings(PROJECT);
+    assert.deepEqual(settings.map(setting => setting.name), [
+      'config_version',
+      'application/config/name',
+      'application/config/features',
+      'application/run/main_scene',
+      'display/window/size/viewport_width',
+      'display/window/size/viewport_height',
+      'display/window/size/mode',
+      'display/window/stretch/mode',
+      'display/window/stretch/scale',
+      'input/jump',
+      'rendering/textures/canvas_textures/default_texture_filter',
+    ]);
+
+    const width = settings.find(setting => setting.name === 'display/window/size/viewport_width')!;
+    assert.equal(width.section, 'display');
+    assert.equal(width.key, 'window/size/viewport_width');
+    assert.equal(width.value, 1280);
+    assert.deepEqual(width.overrides, [{ feature: 'mobile', value: 720 }]);
+
+    const mode = settings.find(setting => setting.name === 'display/window/size/mode')!;
+    assert.equal(mode.value, undefined, 'only the override is stored');
+
+    assert.deepEqual(featureOverrides(settings), {
+      mobile: ['display/window/size/viewport_width', 'display/window/size/mode'],
+      'windows.editor': ['display/window/stretch/scale'],
+    });
+  });
+
+  test('section and key globs', () => {
+    const settings = parseProjectSettings(PROJECT);
+    const names = (section?: string, key?: string) => filterSettings(settings, section, key).map(setting => setting.name);
+
+    assert.deepEqual(names('display', 'window/size/*'), [
+      'display/window/size/viewport_width',
+      'display/window/size/viewport_height',
+      'display/window/size/mode',
+    ]);
+    assert.deepEqual(names(undefined, 'window/*'), [], '"*" stays within one part of the key');
+    assert.deepEqual(names(undefined, 'window/**'), names('display'));
+    assert.deepEqual(names('appl*', 'config/?ame'), ['application/config/name']);
+  });
+
+  test('syntax errors name the line', () => {
+    assert.throws(() => parseProjectSettings('[application]\nconfig/name="Unterminated\n'), /^ProjectSettingsError: Line 2: Unterminated string/);
+  });
+});
+
+describe('get_project_settings', () => {
+  let server: TestServer;
+  let projectPath: string;
+
+  before(async () => {
+    server = await TestServer.start();
+    projectPath = createProject({ 'project.godot': PROJECT });
+  });
+
+  beforeEach(() => server.fake.reset());
+
+  after(async () => {
+    await server.close();
+    removeProject(projectPath);
+  });
+
+  test('decodes values and reports them next to the engine defaults', async () => {
+    server.fake.setScenario({
+      operations: {
+        get_project_setting_defaults: {
+          stdout: JSON.stringify({
+            defaults: {
+              'display/window/size/viewport_width': '1152',
+              'display/window/size/viewport_height': '648',
+              'display/window/size/mode': '0',
+              'input/jump': null,
+            },
+          }),
+        },
+      },
+    });
+
+    const matched = await server.call('get_project_settings', { projectPath, section: 'display', key: 'window/size/*' });
+    assert.equal(matched.isError, false, matched.text);
+    assert.deepEqual(server.fake.operations().map(call => call.params?.names), [[
+      'display/window/size/viewport_width',
+      'display/window/size/viewport_height',
+      'display/window/size/mode',
+    ]]);
+    assert.deepEqual(matched.json(), {
+      settings: [
+        { name: 'display/window/size/viewport_width', value: 1280, default: 1152, isDefault: false, overrides: { mobile: 720 } },
+        { name: 'display/window/size/viewport_height', value: 720, default: 648, isDefault: false },
+        { name: 'display/window/size/mode', default: 0, isDefault: true, overrides: { mobile: 3 } },
+      ],
+      featureOverrides: { mobile: ['display/window/size/viewport_width', 'display/window/size/mode'] },
+    });
+
+    const input = await server.call('get_project_settings', { projectPath, section: 'input' });
+    assert.deepEqual(input.json().settings, [{
+      name: 'input/jump',
+      value: {
+        deadzone: 0.5,
+        events: [{
+          class: 'InputEventKey',
+          resource_local_to_scene: false,
+          resource_name: '',
+          device: -1,
+          physical_keycode: 32,
+          unicode: 32,
+          script: null,
+        }],
+      },
+      default: null,
+      isDefault: false,
+    }]);
+  });
+
+  test('reads only the file without defaults', async () => {
+    const result = await server.call('get_project_settings', { projectPath, section: 'application', defaults: false });
+    assert.equal(result.isError, false, result.text);
+    assert.deepEqual(result.json().settings, [
+      { name: 'application/config/name', value: 'Platformer' },
+      { name: 'application/config/features', value: ['4.3', 'Forward Plus'] },
+      { name: 'application/run/main_scene', value: 'res://scenes/main.tscn' },
+    ]);
+    assert.deepEqual(server.fake.operations(), [], 'Godot is not started');
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Node-tree diffs of two versions of a scene, and the diff_scenes tool on files and git revisions
+ */
+
+import assert from 'node:assert/strict';
+import { execFileSync } from 'node:child_process';
+import { writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { after, before, describe, test } from 'node:test';
+import { diffScenes, summarizeDiff } from '../src/scene-diff.js';
+import { TextResource } from '../src/text-resource.js';
+import { TestServer, createProject, removeProject } from './helpers/server.js';
+
+const BEFORE = [
+  '[gd_scene load_steps=4 format=3 uid="uid://blevel"]',
+  '',
+  '[ext_resource type="Script" path="res://scripts/player.gd" id="1_abc"]',
+  '[ext_resource type="Texture2D" path="res://art/hero.png" id="2_def"]',
+  '',
+  '[sub_resource type="RectangleShape2D" id="RectangleShape2D_x1"]',
+  'size = Vector2(32, 48)',
+  '',
+  '[node name="Level" type="Node2D"]',
+  '',
+  '[node name="Player" type="CharacterBody2D" parent="."]',
+  'position = Vector2(100, 0)',
+  'script = ExtResource("1_abc")',
+  '',
+  '[node name="Sprite" type="Sprite2D" parent="Player"]',
+  'texture = ExtResource("2_def")',
+  '',
+  '[node name="Shape" type="CollisionShape2D" parent="Player"]',
+  'shape = SubResource("RectangleShape2D_x1")',
+  '',
+  '[node name="World" type="Node2D" parent="."]',
+  '',
+  '[node name="Coin" type="Area2D" parent="."]',
+  '',
+  '[connection signal="body_entered" from="Coin" to="." method="_on_coin_body_entered"]',
+  '',
+].join('\n');
+
+// The same scene saved again with new ids, Player moved under World, and a few real changes
+const AFTER = [
+  '[gd_scene load_steps=4 format=3 uid="uid://blevel"]',
+  '',
+  '[ext_resource type="Texture2D" path="res://art/hero_v2.png" id="1_zzz"]',
+  '[ext_resource type="Script" path="res://scripts/player.gd" id="2_yyy"]',
+  '',
+  '[sub_resource type="RectangleShape2D" id="RectangleShape2D_q9"]',
+  'size = Vector2(32, 48)',
+  '',
+  '[node name="Level" type="Node2D"]',
+  '',
+  '[node name="World" type="Node2D" parent="."]',
+  '',
+  '[node name="Player" type="CharacterBody2D" parent="World"]',
+  'position = Vector2(120, 0)',
+  'script = ExtResource("2_yyy")',
+  '',
+  '[node name="Sprite" type="Sprite2D" parent="World/Player"]',
+  'texture = ExtResource("1_zzz")',
+  '',
+  '[node name="Shape" type="CollisionShape2D" parent="World/Player"]',
+  'shape = SubResource("RectangleShape2D_q9")',
+  '',
+  '[node name="Camera" type="Camera2D" parent="World/Player"]',
+  '',
+  '[connection signal="body_entered" from="World/Player" to="." method="_on_player_body_entered" flags=1]',
+  '',
+].join('\n');
+
+describe('scene diffs', () => {
+  test('renumbered resource ids are not changes', () => {
+    const reordered = BEFORE
+      .replace(/1_abc/g, '9_new')
+      .replace(/RectangleShape2D_x1/g, 'RectangleShape2D_k2');
+    const diff = diffScenes(TextResource.parse(BEFORE), TextResource.parse(reordered));
+    assert.equal(diff.identical, true);
+    assert.deepEqual(summarizeDiff(diff), []);
+  });
+
+  test('nodes, properties, connections and resources', () => {
+    const diff = diffScenes(TextResource.parse(BEFORE), TextResource.parse(AFTER));
+    assert.equal(diff.identical, false);
+    assert.deepEqual(diff.nodes.moved, [{ from: 'Player', to: 'World/Player' }]);
+    assert.deepEqual(diff.nodes.added, [{ path: 'World/Player/Camera', type: 'Camera2D' }]);
+    assert.deepEqual(diff.nodes.removed, [{ path: 'Coin', type: 'Area2D' }]);
+    assert.deepEqual(diff.nodes.changed, [
+      { path: 'World/Player', properties: [{ name: 'position', before: 'Vector2(100, 0)', after: 'Vector2(120, 0)' }] },
+      {
+        path: 'World/Player/Sprite',
+        properties: [{ name: 'texture', before: 'ExtResource("res://art/hero.png")', after: 'ExtResource("res://art/hero_v2.png")' }],
+      },
+    ]);
+    assert.deepEqual(diff.connections.added, [{ signal: 'body_entered', from: 'World/Player', to: '.', method: '_on_player_body_entered' }]);
+    assert.deepEqual(diff.connections.removed, [{ signal: 'body_entered', from: 'Coin', to: '.', method: '_on_coin_body_entered' }]);
+    assert.deepEqual(diff.resources.swapped, [{ type: 'Texture2D', before: 'res://art/hero.png', after: 'res://art/hero_v2.png' }]);
+
+    assert.deepEqual(summarizeDiff(diff), [
+      '+ node World/Player/Camera (Camera2D)',
+      '- node Coin (Area2D)',
+      '> node Player moved to World/Player',
+      '~ World/Player: position Vector2(100, 0) → Vector2(120, 0)',
+      '~ World/Player/Sprite: texture ExtResource("res://art/hero.png") → ExtResource("res://art/hero_v2.png")',
+      '+ connection body_entered from World/Player to . (_on_player_body_entered)',
+      '- connection body_entered from Coin to . (_on_coin_body_entered)',
+      '~ resource res://art/hero.png → res://art/hero_v2.png (Texture2D)',
+    ]);
+  });
+
+  test('sub-resources are compared by content', () => {
+    const resized = BEFORE.replace('size = Vector2(32, 48)', 'size = Vector2(32, 64)');
+    const diff = diffScenes(TextResource.parse(BEFORE), TextResource.parse(resized));
+    assert.deepEqual(diff.nodes.changed, [
+      {
+        path: 'Player/Shape',
+        properties: [{
+          name: 'shape',
+          before: 'Object(RectangleShape2D,"size":Vector2(32, 48))',
+          after: 'Object(RectangleShape2D,"size":Vector2(32, 64))',
+        }],
+      },
+    ]);
+  });
+});
+
+describe('diff_scenes', () => {
+  let server: TestServer;
+  let projectPath: string;
+
+  const git = (...args: string[]) =>
+    execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], { cwd: projectPath, stdio: 'pipe' });
+
+  before(async () => {
+    server = await TestServer.start();
+    projectPath = createProject({ 'scenes/level.tscn': BEFORE });
+    git('init', '-q');
+    git('add', '-A');
+    git('commit', '-q', '-m', 'Level');
+    writeFileSync(join(projectPath, 'scenes/level.tscn'), AFTER);
+    writeFileSync(join(projectPath, 'scenes/level_copy.tscn'), BEFORE);
+  });
+
+  after(async () => {
+    await server.close();
+    removeProject(projectPath);
+  });
+
+  test('compares the scene on disk with the last commit', async () => {
+    const result = await server.call('diff_scenes', { projectPath, scenePath: 'scenes/level.tscn' });
+    assert.equal(result.isError, false, result.text);
+    const report = result.json();
+    assert.equal(report.from, 'scenes/level.tscn@HEAD');
+    assert.equal(report.to, 'scenes/level.tscn');
+    assert.deepEqual(report.nodes.moved, [{ from: 'Player', to: 'World/Player' }]);
+    assert.ok(report.summary.includes('~ World/Player: position Vector2(100, 0) → Vector2(120, 0)'));
+  });
+
+  test('compares two scene files', async () => {
+    const result = await server.call('diff_scenes', { projectPath, scenePath: 'scenes/level_copy.tscn', otherScenePath: 'scenes/level.tscn' });
+    assert.equal(result.isError, false, result.text);
+    assert.equal(result.json().nodes.removed[0].path, 'Coin');
+
+    const same = await server.call('diff_scenes', { projectPath, scenePath: 'scenes/level_copy.tscn', otherScenePath: 'scenes/level.tscn', toRevision: 'HEAD' });
+    assert.equal(same.json().identical, true);
+  });
+
+  test('reports unknown revisions and option-like input', async () => {
+    const missing = await server.call('diff_scenes', { projectPath, scenePath: 'scenes/level.tscn', fromRevision: 'no-such-branch' });
+    assert.equal(missing.isError, true);
+    assert.match(missing.text, /Failed to diff scenes: Failed to read scenes\/level\.tscn at no-such-branch/);
+
+    const option = await server.call('diff_scenes', { projectPath, scenePath: 'scenes/level.tscn', fromRevision: '--output=x' });
+    assert.equal(option.isError, true);
+    assert.match(option.text, /Invalid git revision: --output=x/);
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Three-way merges of scenes, and the merge_scene tool on a git merge conflict
+ */
+
+import assert from 'node:assert/strict';
+import { execFileSync } from 'node:child_process';
+import { readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { after, before, describe, test } from 'node:test';
+import { mergeScenes } from '../src/scene-merge.js';
+import { TextResource } from '../src/text-resource.js';
+import { TestServer, createProject, removeProject } from './helpers/server.js';
+
+const BASE = [
+  '[gd_scene load_steps=3 format=3 uid="uid://bmerge"]',
+  '',
+  '[ext_resource type="Script" path="res://scripts/player.gd" id="1_abc"]',
+  '[ext_resource type="Texture2D" path="res://art/hero.png" id="2_def"]',
+  '',
+  '[node name="Level" type="Node2D"]',
+  '',
+  '[node name="Player" type="CharacterBody2D" parent="."]',
+  'position = Vector2(0, 0)',
+  'speed = 100.0',
+  'script = ExtResource("1_abc")',
+  '',
+  '[node name="Sprite" type="Sprite2D" parent="Player"]',
+  'texture = ExtResource("2_def")',
+  '',
+].join('\n');
+
+const SHAPE = (size: number) => `\n[sub_resource type="RectangleShape2D" id="RectangleShape2D_aaaaa"]\nsize = Vector2(${size}, ${size})\n\n[node name="Level"`;
+
+// Ours moves the player and adds a shield; theirs speeds it up, swaps the texture and adds a hitbox
+const OURS = BASE
+  .replace('load_steps=3', 'load_steps=4')
+  .replace('position = Vector2(0, 0)', 'position = Vector2(10, 0)')
+  .replace('\n[node name="Level"', SHAPE(8))
+  + '\n[node name="Shield" type="CollisionShape2D" parent="Player"]\nshape = SubResource("RectangleShape2D_aaaaa")\n';
+
+const THEIRS = BASE
+  .replace('load_steps=3', 'load_steps=4')
+  .replace('speed = 100.0', 'speed = 150.0')
+  .replace('path="res://art/hero.png" id="2_def"', 'path="res://art/hero_v2.png" id="2_xyz"')
+  .replace('ExtResource("2_def")', 'ExtResource("2_xyz")')
+  .replace('\n[node name="Level"', SHAPE(32))
+  + '\n[node name="Hitbox" type="CollisionShape2D" parent="Player"]\nshape = SubResource("RectangleShape2D_aaaaa")\n'
+  + '\n[connection signal="ready" from="Player" to="." method="_on_player_ready"]\n';
+
+const merge = (base: string, ours: string, theirs: string) =>
+  mergeScenes(TextResource.parse(base), TextResource.parse(ours), TextResource.parse(theirs));
+
+describe('scene merges', () => {
+  test('changes to different nodes and properties merge, with colliding resource ids renumbered', () => {
+    const result = merge(BASE, OURS, THEIRS);
+    assert.deepEqual(result.conflicts, []);
+    const text = result.merged!.toString();
+    const shapeId = text.match(/id="(RectangleShape2D_[0-9a-f]{5})"\]\nsize = Vector2\(32/)![1];
+
+    assert.equal(text, [
+      '[gd_scene load_steps=5 format=3 uid="uid://bmerge"]',
+      '',
+      '[ext_resource type="Script" path="res://scripts/player.gd" id="1_abc"]',
+      '[ext_resource type="Texture2D" path="res://art/hero_v2.png" id="2_xyz"]',
+      '',
+      '[sub_resource type="RectangleShape2D" id="RectangleShape2D_aaaaa"]',
+      'size = Vector2(8, 8)',
+      '',
+      `[sub_resource type="RectangleShape2D" id="${shapeId}"]`,
+      'size = Vector2(32, 32)',
+      '',
+      '[node name="Level" type="Node2D"]',
+      '',
+      '[node name="Player" type="CharacterBody2D" parent="."]',
+      'position = Vector2(10, 0)',
+      'speed = 150.0',
+      'script = ExtResource("1_abc")',
+      '',
+      '[node name="Sprite" type="Sprite2D" parent="Player"]',
+      'texture = ExtResource("2_xyz")',
+      '',
+      '[node name="Hitbox" type="CollisionShape2D" parent="Player"]',
+      `shape = SubResource("${shapeId}")`,
+      '',
+      '[node name="Shield" type="CollisionShape2D" parent="Player"]',
+      'shape = SubResource("RectangleShape2D_aaaaa")',
+      '',
+      '[connection signal="ready" from="Player" to="." method="_on_player_ready"]',
+      '',
+    ].join('\n'));
+    assert.equal(merge(BASE, OURS, THEIRS).merged!.toString(), text, 'merges are repeatable');
+  });
+
+  test('one side unchanged gives the other side', () => {
+    assert.equal(merge(BASE, BASE, OURS).merged!.toString(), OURS);
+    assert.equal(merge(BASE, OURS, BASE).merged!.toString(), OURS);
+  });
+
+  test('the same property changed differently is a conflict', () => {
+    const theirs = BASE.replace('position = Vector2(0, 0)', 'position = Vector2(5, 5)').replace('speed = 100.0', 'speed = 150.0');
+    const result = merge(BASE, OURS, theirs);
+    assert.equal(result.clean, false);
+    assert.equal(result.merged, null);
+    assert.deepEqual(result.conflicts, [
+      { kind: 'property', path: 'Player', name: 'position', base: 'Vector2(0, 0)', ours: 'Vector2(10, 0)', theirs: 'Vector2(5, 5)' },
+    ]);
+  });
+
+  test('a node changed on one side and removed on the other is a conflict', () => {
+    const removed = BASE
+      .replace('load_steps=3', 'load_steps=2')
+      .replace('[ext_resource type="Texture2D" path="res://art/hero.png" id="2_def"]\n', '')
+      .replace('\n[node name="Sprite" type="Sprite2D" parent="Player"]\ntexture = ExtResource("2_def")\n', '');
+    const result = merge(BASE, removed, THEIRS);
+    assert.deepEqual(result.conflicts.map(conflict => [conflict.kind, conflict.path, conflict.reason]), [
+      ['node', 'Player/Sprite', 'removed in ours, changed in theirs'],
+    ]);
+
+    const unchanged = merge(BASE, removed, BASE.replace('speed = 100.0', 'speed = 150.0'));
+    assert.doesNotMatch(unchanged.merged!.toString(), /Sprite|hero\.png/);
+    assert.match(unchanged.merged!.toString(), /^\[gd_scene load_steps=2 /);
+  });
+
+  test('load_steps is counted again from the merged resources, or dropped with the side that has none', () => {
+    const stale = merge(BASE, OURS.replace('load_steps=4', 'load_steps=3'), THEIRS.replace('load_steps=4', 'load_steps=3'));
+    assert.match(stale.merged!.toString(), /^\[gd_scene load_steps=5 format=3 /);
+
+    // Godot 4.5 and later no longer write load_steps
+    const unsteppedTheirs = merge(BASE, OURS, THEIRS.replace('load_steps=4 ', ''));
+    assert.match(unsteppedTheirs.merged!.toString(), /^\[gd_scene format=3 uid="uid:\/\/bmerge"\]\n/);
+    const unstepped = BASE.replace('load_steps=3 ', '');
+    const unsteppedAll = merge(unstepped, OURS.replace('load_steps=4 ', ''), THEIRS.replace('load_steps=4 ', ''));
+    assert.doesNotMatch(unsteppedAll.merged!.toString(), /load_steps/);
+  });
+});
+
+describe('merge_scene', () => {
+  let server: TestServer;
+  let projectPath: string;
+
+  const git = (...args: string[]) =>
+    execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], { cwd: projectPath, stdio: 'pipe' });
+  const scene = () => readFileSync(join(projectPath, 'scenes/level.tscn'), 'utf8');
+
+  before(async () => {
+    server = await TestServer.start();
+    projectPath = createProject({ 'scenes/level.tscn': BASE });
+    git('init', '-q', '-b', 'main');
+    git('add', '-A');
+    git('commit', '-q', '-m', 'Level');
+    git('checkout', '-q', '-b', 'theirs');
+    writeFileSync(join(projectPath, 'scenes/level.tscn'), THEIRS);
+    git('commit', '-q', '-am', 'Theirs');
+    git('checkout', '-q', 'main');
+    writeFileSync(join(projectPath, 'scenes/level.tscn'), OURS);
+    git('commit', '-q', '-am', 'Ours');
+    assert.throws(() => git('merge', '-q', 'theirs'), 'git cannot merge the scene by lines');
+  });
+
+  after(async () => {
+    await server.close();
+    removeProject(projectPath);
+  });
+
+  test('merges the versions of a conflicted scene from the git index', async () => {
+    const preview = await server.call('merge_scene', { projectPath, scenePath: 'scenes/level.tscn' });
+    assert.equal(preview.isError, false, preview.text);
+    assert.equal(preview.json().clean, true);
+    assert.match(scene(), /^<<<<<<< /m, 'nothing is written without write');
+
+    const written = await server.call('merge_scene', { projectPath, scenePath: 'scenes/level.tscn', write: true });
+    assert.equal(written.isError, false, written.text);
+    assert.equal(scene(), preview.json().merged);
+
+    const undone = await server.call('undo_last_change', { projectPath });
+    assert.equal(undone.isError, false, undone.text);
+    assert.match(scene(), /^<<<<<<< /m);
+  });
+
+  test('reads versions from revisions and reports conflicts', async () => {
+    writeFileSync(join(projectPath, 'scenes/conflicting.tscn'), BASE.replace('position = Vector2(0, 0)', 'position = Vector2(5, 5)'));
+    const result = await server.call('merge_scene', {
+      projectPath,
+      scenePath: 'scenes/level.tscn',
+      baseRevision: 'main~1',
+      oursRevision: 'main',
+      theirsPath: 'scenes/conflicting.tscn',
+    });
+    assert.equal(result.isError, false, result.text);
+    assert.deepEqual(result.json(), {
+      clean: false,
+      scenePath: 'scenes/level.tscn',
+      conflicts: [{ kind: 'property', path: 'Player', name: 'position', base: 'Vector2(0, 0)', ours: 'Vector2(10, 0)', theirs: 'Vector2(5, 5)' }],
+    });
+  });
+
+  test('a scene without a conflict has no versions in the index', async () => {
+    const result = await server.call('merge_scene', { projectPath, scenePath: 'scenes/main.tscn' });
+    assert.equal(result.isError, true);
+    assert.match(result.text, /Failed to merge scene: Failed to read scenes\/main\.tscn from merge stage \d/);
+  });
+});
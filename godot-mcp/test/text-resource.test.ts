@@ -0,0 +1,236 @@
+/**
+ * Text scene and resource parsing, byte-stable writing, and the read-only tools answered from the files
+ */
+
+import assert from 'node:assert/strict';
+import { after, before, describe, test } from 'node:test';
+import { formatVariant, parseVariant, variantToJson } from '../src/godot-variant.js';
+import {
+  ResourceSection,
+  TextResource,
+  TextResourceError,
+  extResources,
+  findSceneNode,
+  sceneConnections,
+  sceneNodes,
+} from '../src/text-resource.js';
+import { TestServer, createProject, removeProject } from './helpers/server.js';
+
+const LEVEL = [
+  '[gd_scene load_steps=4 format=3 uid="uid://blevel"]',
+  '',
+  '[ext_resource type="Script" uid="uid://cplayer" path="res://scripts/player.gd" id="1_abc"]',
+  '[ext_resource type="PackedScene" path="res://scenes/enemy.tscn" id="2_def"]',
+  '',
+  '[sub_resource type="RectangleShape2D" id="RectangleShape2D_x1"]',
+  'size = Vector2(32, 48.5)',
+  '',
+  '[node name="Level" type="Node2D"]',
+  '',
+  '[node name="Player" type="CharacterBody2D" parent="." groups=["players", "savable"]]',
+  'position = Vector2(100, -20)',
+  'script = ExtResource("1_abc")',
+  'speed = 250.0',
+  'metadata/_edit_group_ = true',
+  '',
+  '[node name="Shape" type="CollisionShape2D" parent="Player"]',
+  'shape = SubResource("RectangleShape2D_x1")',
+  '',
+  '[node name="Label" type="Label" parent="Player"]',
+  'text = "Line one',
+  'Line \\"two\\""',
+  'theme_override_colors/font_color = Color(1, 0.5, 0, 1)',
+  '',
+  '[node name="Enemy" parent="." instance=ExtResource("2_def")]',
+  '',
+  '[connection signal="hit" from="Enemy" to="Player" method="_on_enemy_hit" flags=3]',
+  '',
+  '[editable path="Enemy"]',
+  '',
+].join('\n');
+
+describe('variant literals', () => {
+  test('values parse to their types and format back', () => {
+    for (const text of [
+      'Vector2(32, 48.5)',
+      'Color(1, 0.5, 0, 1)',
+      '&"walk"',
+      'NodePath("Player/Shape")',
+      'ExtResource("1_abc")',
+      'PackedStringArray("a", "b")',
+      'Array[int]([1, 2, 3])',
+      '[1, "two", null, true]',
+      'inf_neg',
+      '"quote \\" and backslash \\\\"',
+    ]) {
+      assert.equal(formatVariant(parseVariant(text)), text);
+    }
+    assert.deepEqual(parseVariant('Vector2(32, 48.5)'), { kind: 'Constructor', type: 'Vector2', args: [32, 48.5] });
+    assert.deepEqual(parseVariant('^"Player"'), { kind: 'NodePath', path: 'Player' });
+  });
+
+  test('dictionaries and objects read across lines', () => {
+    const value = parseVariant('{\n"speed": 1.5,\n"tags": ["a"]\n}');
+    assert.deepEqual(variantToJson(value), { speed: 1.5, tags: ['a'] });
+    assert.deepEqual(variantToJson(parseVariant('Vector3(1, 2, 3)')), { x: 1, y: 2, z: 3 });
+  });
+});
+
+describe('text resources', () => {
+  test('unchanged documents write back byte for byte', () => {
+    assert.equal(TextResource.parse(LEVEL).toString(), LEVEL);
+
+    const crlf = LEVEL.replace(/\n/g, '\r\n');
+    assert.equal(TextResource.parse(crlf).toString(), crlf);
+
+    const resource = '[gd_resource type="Gradient" format=3]\n\n[resource]\noffsets = PackedFloat32Array(0, 1)\ncolors = PackedColorArray(0, 0, 0, 1, 1, 1, 1, 1)\n';
+    assert.equal(TextResource.parse(resource).toString(), resource);
+  });
+
+  test('sections, attributes and properties are read', () => {
+    const document = TextResource.parse(LEVEL);
+    assert.equal(document.kind, 'scene');
+    assert.equal(document.header.attribute('load_steps'), 4);
+    assert.equal(document.sectionsOf('node').length, 5);
+    assert.equal(document.sectionsOf('node')[3].get('text'), 'Line one\nLine "two"');
+    assert.equal(document.sectionsOf('node')[1].valueText('position'), 'Vector2(100, -20)');
+    assert.equal(document.sectionsOf('node')[1].has('metadata/_edit_group_'), true);
+  });
+
+  test('only the edited parts are rewritten', () => {
+    const document = TextResource.parse(LEVEL);
+    const player = document.sectionsOf('node')[1];
+    player.set('position', { kind: 'Constructor', type: 'Vector2', args: [0, 0] });
+    player.set('visible', false);
+    player.delete('speed');
+
+    const expected = LEVEL
+      .replace('position = Vector2(100, -20)', 'position = Vector2(0, 0)')
+      .replace('speed = 250.0\n', '')
+      .replace('metadata/_edit_group_ = true\n', 'metadata/_edit_group_ = true\nvisible = false\n');
+    assert.equal(document.toString(), expected);
+  });
+
+  test('adding and removing sections keeps the layout and load_steps', () => {
+    const document = TextResource.parse(LEVEL);
+    document.addSection(new ResourceSection('ext_resource', [['type', 'Texture2D'], ['path', 'res://icon.svg'], ['id', '3_ghi']]));
+    assert.match(document.toString(), /id="2_def"\]\n\[ext_resource type="Texture2D" path="res:\/\/icon.svg" id="3_ghi"\]\n\n\[sub_resource/);
+    assert.equal(document.header.headerLine(), '[gd_scene load_steps=5 format=3 uid="uid://blevel"]');
+
+    const reparsed = TextResource.parse(document.toString());
+    reparsed.removeSection(reparsed.sectionsOf('ext_resource')[2]);
+    assert.equal(reparsed.toString(), LEVEL);
+  });
+
+  test('malformed text reports the line', () => {
+    assert.throws(() => TextResource.parse('[gd_scene format=3]\n\n[node name="A" type=]\n'), (error: unknown) => {
+      assert.ok(error instanceof TextResourceError);
+      assert.equal(error.line, 3);
+      return true;
+    });
+    assert.throws(() => TextResource.parse('position = Vector2(0, 0)\n'), TextResourceError);
+  });
+});
+
+describe('scene view', () => {
+  test('nodes, resources and connections', () => {
+    const document = TextResource.parse(LEVEL);
+    const nodes = sceneNodes(document);
+    assert.deepEqual(nodes.map(node => node.path), ['.', 'Player', 'Player/Shape', 'Player/Label', 'Enemy']);
+    assert.deepEqual(nodes[1].groups, ['players', 'savable']);
+    assert.deepEqual(nodes[4].instance, { kind: 'ExtResource', id: '2_def' });
+    assert.equal(findSceneNode(nodes, 'root/Player/Shape'), nodes[2]);
+    assert.equal(findSceneNode(nodes, 'root'), nodes[0]);
+
+    assert.deepEqual(extResources(document).get('1_abc'), { id: '1_abc', type: 'Script', path: 'res://scripts/player.gd', uid: 'uid://cplayer' });
+    const [connection] = sceneConnections(document);
+    assert.deepEqual(
+      { signal: connection.signal, from: connection.from, to: connection.to, method: connection.method, flags: connection.flags },
+      { signal: 'hit', from: 'Enemy', to: 'Player', method: '_on_enemy_hit', flags: 3 }
+    );
+  });
+});
+
+describe('read-only tools without the engine', () => {
+  let server: TestServer;
+  let projectPath: string;
+
+  before(async () => {
+    server = await TestServer.start();
+    projectPath = createProject({
+      'scenes/level.tscn': LEVEL,
+      'scenes/enemy.tscn': '[gd_scene format=3 uid="uid://benemy"]\n\n[node name="Enemy" type="Area2D"]\n',
+      'scripts/player.gd': 'extends CharacterBody2D\n\nsignal died\nsignal health_changed(value: int, previous)\n',
+      'scripts/player.gd.uid': 'uid://cplayer\n',
+    });
+  });
+
+  after(async () => {
+    await server.close();
+    removeProject(projectPath);
+  });
+
+  test('query_node reads the node from the scene file', async () => {
+    server.fake.reset();
+    const result = await server.call('query_node', { projectPath, scenePath: 'scenes/level.tscn', nodePath: 'root/Player' });
+    assert.equal(result.isError, false, result.text);
+    const info = JSON.parse(result.text.replace(/^Node Information:\n\n/, ''));
+    assert.equal(info.type, 'CharacterBody2D');
+    assert.deepEqual(info.children, [{ name: 'Shape', type: 'CollisionShape2D' }, { name: 'Label', type: 'Label' }]);
+    assert.deepEqual(info.properties.position, { x: 100, y: -20 });
+    assert.equal(info.properties.script, 'res://scripts/player.gd');
+    assert.equal(info.script, 'res://scripts/player.gd');
+
+    const enemy = await server.call('query_node', { projectPath, scenePath: 'scenes/level.tscn', nodePath: 'Enemy' });
+    assert.match(enemy.text, /"type": "Area2D"/);
+    assert.deepEqual(server.fake.operations(), []);
+  });
+
+  test('query_node leaves nodes inside instanced scenes to the engine', async () => {
+    server.fake.reset();
+    server.fake.setScenario({ operations: { query_node: { stdout: '{"name": "Sprite", "type": "Sprite2D"}' } } });
+    const result = await server.call('query_node', { projectPath, scenePath: 'scenes/level.tscn', nodePath: 'Enemy/Sprite' });
+    assert.equal(result.isError, false, result.text);
+    assert.deepEqual(server.fake.operations().map(call => call.operation), ['query_node']);
+  });
+
+  test('query_node reports missing nodes', async () => {
+    server.fake.reset();
+    const result = await server.call('query_node', { projectPath, scenePath: 'scenes/main.tscn', nodePath: 'Missing' });
+    assert.equal(result.isError, true);
+    assert.match(result.text, /Failed to query node: Node not found: Missing/);
+    assert.deepEqual(server.fake.operations(), []);
+  });
+
+  test('list_signals lists script signals and scene connections', async () => {
+    server.fake.reset();
+    const player = await server.call('list_signals', { projectPath, scenePath: 'scenes/level.tscn', nodePath: 'Player' });
+    assert.equal(player.isError, false, player.text);
+    const signals = JSON.parse(player.text.replace(/^Signals for node 'Player':\n\n/, ''));
+    assert.deepEqual(signals.signals.map((signal: { name: string }) => signal.name), ['died', 'health_changed']);
+    assert.deepEqual(signals.signals[1].parameters, [{ name: 'value', type: 'int' }, { name: 'previous', type: 'Variant' }]);
+
+    const enemy = await server.call('list_signals', { projectPath, scenePath: 'scenes/level.tscn', nodePath: 'Enemy' });
+    assert.match(enemy.text, /"target": "Player",\n\s*"method": "_on_enemy_hit",\n\s*"flags": 3/);
+    assert.deepEqual(server.fake.operations(), []);
+  });
+
+  test('list_assets reads types, UIDs and dependencies from the files', async () => {
+    server.fake.reset();
+    const result = await server.call('list_assets', { projectPath, directory: 'scenes' });
+    assert.equal(result.isError, false, result.text);
+    const listing = JSON.parse(result.text.replace(/^Found \d+ assets in the project.\n\nAssets: /, ''));
+    assert.deepEqual(listing.assets.map((asset: { path: string }) => asset.path), [
+      'res://scenes/enemy.tscn',
+      'res://scenes/level.tscn',
+      'res://scenes/main.tscn',
+    ]);
+    assert.equal(listing.assets[1].uid, 'uid://blevel');
+    assert.deepEqual(listing.assets[1].dependencies, ['res://scripts/player.gd', 'res://scenes/enemy.tscn']);
+
+    const scripts = (await server.call('list_assets', { projectPath, fileTypes: ['gd'] })).text;
+    assert.match(scripts, /"uid": "uid:\/\/cplayer"/);
+    assert.doesNotMatch(scripts, /player\.gd\.uid/);
+    assert.deepEqual(server.fake.operations(), []);
+  });
+});
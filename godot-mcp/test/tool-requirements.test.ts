@@ -0,0 +1,158 @@
+/**
+ * Engine features by minor version, and tools gated on the engine of a project
+ */
+
+import assert from 'node:assert/strict';
+import { after, before, beforeEach, describe, test } from 'node:test';
+import { TOOL_DEFINITIONS } from '../src/tool-definitions.js';
+import { gateTools, missingFeatures, needsFeatures } from '../src/tool-requirements.js';
+import { VersionValidator } from '../src/version-validator.js';
+import { TestServer, createProject, removeProject } from './helpers/server.js';
+
+const version = (text: string) => VersionValidator.parseVersion(text)!;
+
+// Version replies of the fake executable for Godot 4.3 and 4.4 installs
+const GODOT_43 = { version: { stdout: '4.3.stable.official' } };
+const GODOT_44 = { version: { stdout: '4.4.1.stable.official' } };
+
+// The tools that need Godot 4.5, in definition order
+const GODOT_45_TOOLS = ['add_particles', 'connect_signal', 'add_physics_body', 'get_class_info', 'toggle_debug_draw'];
+
+describe('engine features', () => {
+  test('each minor version supports the features of the releases up to it', () => {
+    const features44 = VersionValidator.getSupportedFeatures(version('4.4.1.stable'));
+    assert.equal(features44.uidSystem, true);
+    assert.equal(features44.enhancedPhysics, false);
+    assert.equal(features44.modernNodeTypes, false);
+
+    const features50 = VersionValidator.getSupportedFeatures(version('5.0.stable'));
+    assert.ok(Object.values(features50).every(supported => supported));
+  });
+
+  test('only the arguments a call sets need their feature', () => {
+    assert.equal(needsFeatures('configure_physics', { properties: { mass: 2 } }), false);
+    assert.equal(needsFeatures('configure_physics', { properties: { physicsMaterial: { absorbent: true } } }), true);
+    assert.equal(needsFeatures('add_particles', {}), true);
+
+    assert.deepEqual(
+      missingFeatures('configure_physics', { properties: { physicsMaterial: { friction: 1, absorbent: true } } }, version('4.4.stable')),
+      [{ feature: 'enhancedPhysics', argument: 'properties.physicsMaterial.absorbent' }]
+    );
+    assert.deepEqual(missingFeatures('add_particles', {}, version('4.4.stable')), [{ feature: 'modernNodeTypes' }]);
+    assert.deepEqual(missingFeatures('add_particles', {}, version('4.5.stable')), []);
+  });
+
+  test('tools the engine cannot run are marked or hidden', () => {
+    const marked = gateTools(TOOL_DEFINITIONS, version('4.4.1.stable'), 'mark');
+    assert.equal(marked.length, TOOL_DEFINITIONS.length);
+    assert.match(
+      marked.find(tool => tool.name === 'toggle_debug_draw')!.description,
+      /^\[Unavailable: needs Godot 4\.5 or later \(Compositor Effects\), the active project uses Godot 4\.4\.1\.stable\] /
+    );
+
+    const hidden = gateTools(TOOL_DEFINITIONS, version('4.4.1.stable'), 'hide');
+    assert.deepEqual(TOOL_DEFINITIONS.filter(tool => !hidden.includes(tool)).map(tool => tool.name), GODOT_45_TOOLS);
+
+    assert.deepEqual(gateTools(TOOL_DEFINITIONS, version('4.5.stable'), 'hide'), TOOL_DEFINITIONS);
+    assert.deepEqual(gateTools(TOOL_DEFINITIONS, null, 'hide'), TOOL_DEFINITIONS);
+  });
+});
+
+describe('engines below the minimum version', () => {
+  let server: TestServer;
+  let projectPath: string;
+
+  before(async () => {
+    server = await TestServer.start();
+    projectPath = createProject({ 'textures/icon.tres': '[gd_resource type="Gradient" format=3]\n' });
+  });
+
+  beforeEach(() => server.fake.reset());
+
+  after(async () => {
+    await server.close();
+    removeProject(projectPath);
+  });
+
+  test('Godot 4.3 cannot compile the operations script, so tools are refused before it is started', async () => {
+    server.fake.setScenario(GODOT_43);
+    const result = await server.call('add_node', { projectPath, scenePath: 'scenes/main.tscn', nodeType: 'Node2D', nodeName: 'Child' });
+    assert.equal(result.isError, true);
+    assert.match(result.text, /Godot version 4\.3\.0 does not meet minimum requirement of 4\.4\.0/);
+    assert.deepEqual(server.fake.operations(), []);
+  });
+
+  test('Godot 4.4 runs tools, with UIDs for scripts', async () => {
+    server.fake.setScenario(GODOT_44);
+    const added = await server.call('add_node', { projectPath, scenePath: 'scenes/main.tscn', nodeType: 'Node2D', nodeName: 'Child' });
+    assert.equal(added.isError, false, added.text);
+
+    const script = await server.call('get_uid', { projectPath, filePath: 'scripts/player.gd' });
+    assert.equal(script.isError, false, script.text);
+    assert.deepEqual(server.fake.operations().map(call => call.operation), ['add_node', 'get_uid']);
+  });
+});
+
+describe('tools on Godot 4.4', () => {
+  let server: TestServer;
+  let projectPath: string;
+
+  before(async () => {
+    server = await TestServer.start();
+    projectPath = createProject();
+  });
+
+  beforeEach(() => {
+    server.fake.reset();
+    server.fake.setScenario(GODOT_44);
+  });
+
+  after(async () => {
+    await server.close();
+    removeProject(projectPath);
+  });
+
+  test('tools/list marks the tools that need Godot 4.5', async () => {
+    const { tools } = await server.client.listTools();
+    assert.equal(tools.length, TOOL_DEFINITIONS.length);
+    assert.deepEqual(tools.filter(tool => /^\[Unavailable: needs Godot 4\.5/.test(tool.description ?? '')).map(tool => tool.name), GODOT_45_TOOLS);
+  });
+
+  test('calling such a tool fails without starting Godot', async () => {
+    const result = await server.call('add_particles', { projectPath, scenePath: 'scenes/main.tscn', particleType: 'GPUParticles2D', nodeName: 'Sparks' });
+    assert.equal(result.isError, true);
+    assert.match(result.text, /add_particles needs Godot 4\.5 or later \(Modern Node Types\)\. The project uses Godot 4\.4\.1\.stable/);
+    assert.deepEqual(server.fake.operations(), []);
+  });
+
+  test('arguments the engine has are passed on, newer ones are refused', async () => {
+    const args = { projectPath, scenePath: 'scenes/main.tscn', nodePath: 'root/Player' };
+
+    const configured = await server.call('configure_physics', { ...args, properties: { physicsMaterial: { friction: 0.5 } } });
+    assert.equal(configured.isError, false, configured.text);
+
+    const refused = await server.call('configure_physics', { ...args, properties: { physicsMaterial: { absorbent: true } } });
+    assert.equal(refused.isError, true);
+    assert.match(refused.text, /properties\.physicsMaterial\.absorbent needs Godot 4\.5 or later \(Enhanced Physics\)/);
+    assert.equal(server.fake.operations().length, 1);
+  });
+});
+
+describe('tools/list in hide mode', () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await TestServer.start({ env: { GODOT_MCP_UNSUPPORTED_TOOLS: 'hide' } });
+    server.fake.setScenario(GODOT_44);
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  test('leaves out the tools the engine cannot run', async () => {
+    const { tools } = await server.client.listTools();
+    assert.equal(tools.length, TOOL_DEFINITIONS.length - GODOT_45_TOOLS.length);
+    assert.equal(tools.some(tool => GODOT_45_TOOLS.includes(tool.name)), false);
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Operations sent to a persistent Godot worker instead of one process each
+ */
+
+import assert from 'node:assert/strict';
+import { after, before, beforeEach, describe, test } from 'node:test';
+import { TestServer, createProject, removeProject } from './helpers/server.js';
+
+describe('persistent worker', () => {
+  let server: TestServer;
+  let projectPath: string;
+  const projects: string[] = [];
+
+  before(async () => {
+    server = await TestServer.start({ worker: true });
+    projectPath = createProject();
+  });
+
+  beforeEach(() => server.fake.reset());
+
+  after(async () => {
+    await server.close();
+    removeProject(projectPath);
+    projects.forEach(removeProject);
+  });
+
+  // Each project gets its own worker
+  const newProject = () => {
+    const path = createProject();
+    projects.push(path);
+    return path;
+  };
+
+  test('one worker process serves consecutive operations', async () => {
+    server.fake.setScenario({
+      operations: { query_node: { stdout: '{"name": "Player", "type": "CharacterBody2D"}' } },
+    });
+
+    for (const nodePath of ['Player', '.']) {
+      const result = await server.call('query_node', { projectPath, scenePath: 'scenes/main.tscn', nodePath, engine: true });
+      assert.match(result.text, /^Node Information:/);
+    }
+
+    const calls = server.fake.calls();
+    const started = calls.filter(call => call.worker && call.operation === undefined);
+    assert.equal(started.length, 1, 'the worker is started once');
+    assert.equal(started[0].argv[started[0].argv.indexOf('--path') + 1], projectPath);
+
+    const operations = calls.filter(call => call.operation !== undefined);
+    assert.ok(operations.every(call => call.worker), 'operations run in the worker');
+    assert.deepEqual(operations.map(call => call.params?.node_path), ['Player', '.']);
+  });
+
+  test('an operation runs in a new process when the worker fails to start', async () => {
+    server.fake.setScenario({
+      operations: {
+        worker: { stderr: 'ERROR: Failed to load the operations script', exitCode: 1 },
+        query_node: { stdout: '{"name": "Player", "type": "CharacterBody2D"}' },
+      },
+    });
+    const result = await server.call('query_node', { projectPath: newProject(), scenePath: 'scenes/main.tscn', nodePath: 'Player', engine: true });
+
+    assert.match(result.text, /^Node Information:/);
+    assert.deepEqual(server.fake.operations().map(call => [call.operation, call.worker ?? false]), [['query_node', false]]);
+  });
+
+  test('a worker crash during a write is an error, and the write is not run again', async () => {
+    server.fake.setScenario({
+      operations: { add_node: { files: { 'scenes/main.tscn': '[gd_scene format=3]\n' }, exitCode: 134 } },
+    });
+    const result = await server.call('add_node', { projectPath: newProject(), scenePath: 'scenes/main.tscn', nodeType: 'Sprite2D', nodeName: 'Icon' });
+
+    assert.equal(result.isError, true);
+    assert.match(result.text, /Godot worker exited unexpectedly \(code 134\) while running add_node\. It was not run again/);
+    assert.deepEqual(server.fake.operations().map(call => [call.operation, call.worker ?? false]), [['add_node', true]]);
+  });
+});